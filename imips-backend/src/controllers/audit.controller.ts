@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
+import { AuditService } from '../services/audit.service';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
+
+const router = Router();
+
+// Get audit entries, newest first. Filter with entityType, entityId, action and
+// actorId, and limit the period with from and to.
+router.get('/', authenticateJWT, requirePermission(Permission.AuditView), async (req, res) => {
+    try {
+        const { from, to, ...query } = req.query as Record<string, any>;
+        if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+            return res.status(400).json({ message: 'Invalid date range' });
+        }
+        const invalidEntityType = [query.entityType || []].flat().find((value: string) => !AuditService.isValidEntityType(value));
+        if (invalidEntityType) {
+            return res.status(400).json({ message: `Invalid entity type: ${invalidEntityType}` });
+        }
+        const invalidAction = [query.action || []].flat().find((value: string) => !AuditService.isValidAction(value));
+        if (invalidAction) {
+            return res.status(400).json({ message: `Invalid action: ${invalidAction}` });
+        }
+
+        const result = await AuditService.list(parseListParams(query), { from, to });
+        res.json(wantsPagination(query) ? result : result.data);
+    } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error fetching audit log:', error);
+        res.status(500).json({ message: 'Failed to fetch audit log' });
+    }
+});
+
+export default router;
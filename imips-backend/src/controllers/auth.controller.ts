@@ -1,19 +1,208 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
 import { AuthService } from '../services/auth.service';
+import { PasswordResetError, PasswordResetService } from '../services/passwordReset.service';
+import { InvitationError, UserInvitationsService } from '../services/userInvitations.service';
+import { TwoFactorError } from '../services/twoFactor.service';
+import { AccountLockedError } from '../services/accountLockout.service';
+import { authenticateJWT } from '../middlewares/auth.middleware';
+import { getClientIP } from '../middlewares/requestLogger.middleware';
+import { logSecurityEvent } from '../middlewares/security.middleware';
+import { SecurityEventType } from '../types';
 
 const router = Router();
 
+// Sign-in refused because the account is locked. The failure that caused the lockout is logged as well.
+const respondLocked = (req: Request, res: Response, error: AccountLockedError, failure: [SecurityEventType, string]) => {
+    if (error.newlyLocked) {
+        logSecurityEvent(req, ...failure);
+        logSecurityEvent(req, SecurityEventType.AccountLocked, `Account locked until ${error.lockedUntil}`);
+    }
+    return res.status(423).json({ message: error.message, lockedUntil: error.lockedUntil });
+};
+
 router.post('/login', async (req, res) => {
     const { email, password } = req.body;
-    const result = await AuthService.login(email, password);
-    if (!result) return res.status(401).json({ message: 'Invalid credentials' });
-    res.json(result);
+    const failure: [SecurityEventType, string] = [SecurityEventType.LoginFailed, `Failed login attempt for email: ${email}`];
+    try {
+        const result = await AuthService.login(email, password, { ip: getClientIP(req), userAgent: req.get('User-Agent') });
+        if (!result) {
+            logSecurityEvent(req, ...failure);
+            return res.status(401).json({ message: 'Invalid credentials' });
+        }
+        // The password was right, but a session only starts after the second factor
+        if (!('user' in result)) return res.json(result);
+
+        logSecurityEvent(req, SecurityEventType.LoginSuccess, 'Successful login', result.user.id);
+        res.json(result);
+    } catch (error: any) {
+        if (error instanceof AccountLockedError) {
+            return respondLocked(req, res, error, failure);
+        }
+        console.error('Error signing in:', error);
+        res.status(500).json({ message: 'Failed to sign in' });
+    }
+});
+
+const CHALLENGE_EXPIRED = 'Your sign-in attempt has expired, please sign in again';
+
+// Second login step with an authenticator or recovery code
+router.post('/login/2fa', async (req, res) => {
+    try {
+        const { challengeToken, code } = req.body;
+        const result = await AuthService.completeTwoFactorLogin(challengeToken, code, { ip: getClientIP(req), userAgent: req.get('User-Agent') });
+        if (!result) return res.status(401).json({ message: CHALLENGE_EXPIRED });
+
+        const { method, ...session } = result;
+        if (method === 'recovery_code') {
+            logSecurityEvent(req, SecurityEventType.RecoveryCodeUsed, 'Signed in with a recovery code', session.user.id);
+        }
+        logSecurityEvent(req, SecurityEventType.LoginSuccess, 'Successful login with two-factor authentication', session.user.id);
+        res.json(session);
+    } catch (error: any) {
+        if (error instanceof AccountLockedError) {
+            return respondLocked(req, res, error, [SecurityEventType.TwoFactorFailed, 'Invalid two-factor code at login']);
+        }
+        if (error instanceof TwoFactorError) {
+            if (error.invalidCode) {
+                logSecurityEvent(req, SecurityEventType.TwoFactorFailed, 'Invalid two-factor code at login');
+            }
+            return res.status(401).json({ message: error.message });
+        }
+        console.error('Error completing two-factor login:', error);
+        res.status(500).json({ message: 'Failed to sign in' });
+    }
+});
+
+// Enrolment during login for roles that require two-factor authentication
+router.post('/login/2fa/setup', async (req, res) => {
+    try {
+        const setup = await AuthService.beginRequiredTwoFactorSetup(req.body.challengeToken);
+        if (!setup) return res.status(401).json({ message: CHALLENGE_EXPIRED });
+        res.json(setup);
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error starting two-factor setup:', error);
+        res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+});
+
+router.post('/login/2fa/enable', async (req, res) => {
+    try {
+        const { challengeToken, code } = req.body;
+        const result = await AuthService.completeRequiredTwoFactorSetup(challengeToken, code, { ip: getClientIP(req), userAgent: req.get('User-Agent') });
+        if (!result) return res.status(401).json({ message: CHALLENGE_EXPIRED });
+
+        logSecurityEvent(req, SecurityEventType.TwoFactorEnabled, 'Two-factor authentication enabled at login', result.user.id);
+        logSecurityEvent(req, SecurityEventType.LoginSuccess, 'Successful login with two-factor authentication', result.user.id);
+        res.json(result);
+    } catch (error: any) {
+        if (error instanceof AccountLockedError) {
+            return respondLocked(req, res, error, [SecurityEventType.TwoFactorFailed, 'Invalid two-factor code during setup at login']);
+        }
+        if (error instanceof TwoFactorError) {
+            if (error.invalidCode) {
+                logSecurityEvent(req, SecurityEventType.TwoFactorFailed, 'Invalid two-factor code during setup at login');
+            }
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error enabling two-factor authentication:', error);
+        res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+    }
+});
+
+// Accounts are created by administrators (POST /api/users); self-registration is closed
+router.post('/register', (req, res) => {
+    res.status(410).json({ message: 'Registration is disabled. Ask an administrator for an invitation.' });
+});
+
+// Choose a password with the token from an invitation email
+router.post('/invitations/accept', async (req, res) => {
+    try {
+        const { token, newPassword } = req.body;
+        const userId = await UserInvitationsService.accept(token, newPassword);
+        logSecurityEvent(req, SecurityEventType.InvitationAccepted, 'Invitation accepted', userId);
+        res.json({ message: 'Your password has been set. You can now sign in.' });
+    } catch (error: any) {
+        if (error instanceof InvitationError) {
+            if (error.invalidToken) {
+                logSecurityEvent(req, SecurityEventType.InvitationFailed, 'Invitation accepted with an invalid or expired token');
+            }
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error accepting invitation:', error);
+        res.status(500).json({ message: 'Failed to accept invitation' });
+    }
+});
+
+// Request a password reset link. The answer is the same whether or not the account exists.
+router.post('/password-reset/request', async (req, res) => {
+    try {
+        const userId = await PasswordResetService.request(req.body.email, { ip: getClientIP(req) });
+        if (userId) {
+            logSecurityEvent(req, SecurityEventType.PasswordResetRequested, 'Password reset link requested', userId);
+        }
+        res.json({ message: 'If a user with that email exists, a reset token has been sent.' });
+    } catch (error: any) {
+        console.error('Error requesting password reset:', error);
+        res.status(500).json({ message: 'Failed to request password reset' });
+    }
+});
+
+// Set a new password with an emailed token; signs the user out everywhere
+router.post('/password-reset', async (req, res) => {
+    try {
+        const { token, newPassword } = req.body;
+        const userId = await PasswordResetService.reset(token, newPassword);
+        logSecurityEvent(req, SecurityEventType.PasswordReset, 'Password reset with emailed token', userId);
+        res.json({ message: 'Password has been reset successfully.' });
+    } catch (error: any) {
+        if (error instanceof PasswordResetError) {
+            if (error.invalidToken) {
+                logSecurityEvent(req, SecurityEventType.PasswordResetFailed, 'Password reset with an invalid or expired token');
+            }
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error resetting password:', error);
+        res.status(500).json({ message: 'Failed to reset password' });
+    }
+});
+
+router.post('/refresh', async (req, res) => {
+    try {
+        const { refreshToken } = req.body;
+        if (!refreshToken) return res.status(400).json({ message: 'Refresh token is required' });
+
+        const result = await AuthService.refresh(refreshToken);
+        if (!result) return res.status(401).json({ message: 'Invalid or expired refresh token' });
+        res.json(result);
+    } catch (error: any) {
+        console.error('Error refreshing token:', error);
+        res.status(500).json({ message: 'Failed to refresh token' });
+    }
+});
+
+router.post('/logout', async (req, res) => {
+    try {
+        const { refreshToken } = req.body;
+        await AuthService.logout(refreshToken);
+        res.json({ message: 'Logged out' });
+    } catch (error: any) {
+        console.error('Error logging out:', error);
+        res.status(500).json({ message: 'Failed to log out' });
+    }
 });
 
-router.post('/register', async (req, res) => {
-    const { name, email, password, role } = req.body;
-    const user = await AuthService.register(name, email, password, role);
-    res.json(user);
+router.get('/me', authenticateJWT, async (req, res) => {
+    try {
+        const user = await AuthService.getMe((req as any).user.sub);
+        if (!user) return res.status(404).json({ message: 'User not found' });
+        res.json(user);
+    } catch (error: any) {
+        console.error('Error fetching current user:', error);
+        res.status(500).json({ message: 'Failed to fetch current user' });
+    }
 });
 
 export default router;
@@ -1,23 +1,139 @@
-import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role } from '../types';
-import { BackupService } from '../services/backup.service';
+import { NextFunction, Request, Response, Router } from 'express';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { logSecurityEvent } from '../middlewares/security.middleware';
+import { Permission, SecurityEventType } from '../types';
+import { BackupError, BackupService } from '../services/backup.service';
+import { BackupScheduleService } from '../services/backupSchedule.service';
 import multer from 'multer';
-import path from 'path';
+import fs from 'fs';
+import os from 'os';
 
 const router = Router();
-const upload = multer({ dest: path.join(__dirname, '..', 'backups') });
+const upload = multer({ dest: os.tmpdir(), limits: { fileSize: 200 * 1024 * 1024 } });
 
-router.post('/create', authenticateJWT, authorizeRoles(Role.Admin), async (req, res) => {
-    const file = await BackupService.createBackup();
-    res.json({ message: 'Backup created', file });
+const isDryRun = (req: Request) => req.body?.dryRun === true || req.body?.dryRun === 'true';
+
+// Uploaded backups are removed once the response is sent, however the request ended
+const discardUpload = (req: Request, res: Response, next: NextFunction) => {
+    res.on('close', () => {
+        if (req.file) fs.rm(req.file.path, { force: true }, () => undefined);
+    });
+    next();
+};
+
+// A real restore overwrites every table, so it needs the password; a dry run writes nothing
+const confirmUnlessDryRun = (req: Request, res: Response, next: NextFunction) =>
+    isDryRun(req) ? next() : requirePasswordConfirmation(req, res, next);
+
+// Backups stored on the server, newest first
+router.get('/', authenticateJWT, requirePermission(Permission.BackupsManage), async (req, res) => {
+    try {
+        res.json(await BackupService.listBackups());
+    } catch (error: any) {
+        console.error('Error listing backups:', error);
+        res.status(500).json({ message: 'Failed to list backups' });
+    }
+});
+
+// Back up now. The run is recorded and retention applied as for scheduled runs.
+router.post('/create', authenticateJWT, requirePermission(Permission.BackupsManage), async (req, res) => {
+    try {
+        const run = await BackupScheduleService.runBackup('manual', (req as any).user.sub);
+        if (!run.success) {
+            return res.status(500).json({ message: `Failed to create backup: ${run.error}`, run });
+        }
+        res.status(201).json({ message: 'Backup created', file: run.filename, filename: run.filename, run });
+    } catch (error: any) {
+        console.error('Error creating backup:', error);
+        res.status(500).json({ message: 'Failed to create backup' });
+    }
+});
+
+// Schedule, retention policy and the outcome of the last run
+router.get('/schedule', authenticateJWT, requirePermission(Permission.BackupsManage), async (req, res) => {
+    try {
+        res.json(await BackupScheduleService.getStatus());
+    } catch (error: any) {
+        console.error('Error fetching backup schedule:', error);
+        res.status(500).json({ message: 'Failed to fetch backup schedule' });
+    }
 });
 
-router.post('/restore', authenticateJWT, authorizeRoles(Role.Admin), upload.single('file'), async (req, res) => {
-    if (!req.file) return res.status(400).json({ message: 'No backup file uploaded' });
-    const result = await BackupService.restoreBackup(req.file.path);
-    res.json(result);
+router.put('/schedule', authenticateJWT, requirePermission(Permission.BackupsManage), async (req, res) => {
+    try {
+        const { enabled, frequency, retention } = req.body;
+        res.json(await BackupScheduleService.updateSchedule({ enabled, frequency, retention }, (req as any).user.sub));
+    } catch (error: any) {
+        console.error('Error updating backup schedule:', error);
+        res.status(400).json({ message: error.message });
+    }
 });
 
+// Recent backup runs, newest first
+router.get('/runs', authenticateJWT, requirePermission(Permission.BackupsManage), async (req, res) => {
+    try {
+        const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+        res.json(await BackupScheduleService.listRuns(limit));
+    } catch (error: any) {
+        console.error('Error fetching backup runs:', error);
+        res.status(500).json({ message: 'Failed to fetch backup runs' });
+    }
+});
+
+router.get('/:filename/download', authenticateJWT, requirePermission(Permission.BackupsManage), (req, res) => {
+    try {
+        res.download(BackupService.getBackupPath(req.params.filename), req.params.filename);
+    } catch (error: any) {
+        if (error instanceof BackupError) {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error downloading backup:', error);
+        res.status(500).json({ message: 'Failed to download backup' });
+    }
+});
+
+/**
+ * Restore an uploaded backup file, or a stored one named in `filename`, after
+ * confirming the password. Pass `dryRun=true` to validate the file and see the
+ * row counts without writing.
+ */
+router.post('/restore',
+    authenticateJWT,
+    requirePermission(Permission.BackupsManage),
+    upload.single('file'),
+    discardUpload,
+    confirmUnlessDryRun,
+    async (req, res) => {
+        const dryRun = isDryRun(req);
+        try {
+            let filepath: string;
+            if (req.file) {
+                filepath = req.file.path;
+            } else if (typeof req.body?.filename === 'string') {
+                filepath = BackupService.getBackupPath(req.body.filename);
+            } else {
+                return res.status(400).json({ message: 'No backup file uploaded or selected' });
+            }
+
+            const result = await BackupService.restoreBackup(filepath, { dryRun });
+            if (!dryRun) {
+                const source = req.file ? `uploaded file ${req.file.originalname}` : req.body.filename;
+                logSecurityEvent(req, SecurityEventType.BackupRestored, `Database restored from ${source}, taken ${result.createdAt}`);
+            }
+            res.json({
+                success: true,
+                message: dryRun ? 'Backup is valid; nothing was restored' : 'Backup restored successfully',
+                ...result
+            });
+        } catch (error: any) {
+            if (error instanceof BackupError) {
+                return res.status(error.notFound ? 404 : 400).json({ success: false, message: error.message });
+            }
+            console.error('Restore error:', error);
+            res.status(500).json({ success: false, message: 'Failed to restore backup' });
+        }
+    }
+);
+
 export default router;
@@ -1,17 +1,21 @@
 import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role, DiscountType } from '../types';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission, DiscountType } from '../types';
 import { DiscountsService } from '../services/discounts.service';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
 
 const router = Router();
 
-// Get all discounts
-router.get('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+// Get all discounts (?archived=true for archived ones)
+router.get('/', authenticateJWT, requirePermission(Permission.DiscountsView), async (req, res) => {
     try {
-        const discounts = await DiscountsService.getAll();
-        res.json(discounts);
+        const result = await DiscountsService.list(parseListParams(req.query), { archived: req.query.archived === 'true' });
+        res.json(wantsPagination(req.query) ? result : result.data);
     } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
         console.error('Error fetching discounts:', error);
         res.status(500).json({ message: 'Failed to fetch discounts' });
     }
@@ -29,7 +33,7 @@ router.get('/active', async (req, res) => {
 });
 
 // Get discount by ID
-router.get('/:id', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+router.get('/:id', authenticateJWT, requirePermission(Permission.DiscountsView), async (req, res) => {
     try {
         const discount = await DiscountsService.getById(req.params.id);
         if (!discount) {
@@ -60,7 +64,7 @@ router.post('/validate', async (req, res) => {
 });
 
 // Create new discount
-router.post('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+router.post('/', authenticateJWT, requirePermission(Permission.DiscountsCreate), async (req, res) => {
     try {
         const discount = await DiscountsService.create({
             ...req.body,
@@ -74,9 +78,9 @@ router.post('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), asyn
 });
 
 // Update discount
-router.put('/:id', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+router.put('/:id', authenticateJWT, requirePermission(Permission.DiscountsUpdate), async (req, res) => {
     try {
-        const discount = await DiscountsService.update(req.params.id, req.body);
+        const discount = await DiscountsService.update(req.params.id, req.body, (req as any).user.sub);
         res.json(discount);
     } catch (error: any) {
         console.error('Error updating discount:', error);
@@ -84,10 +88,32 @@ router.put('/:id', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), as
     }
 });
 
-// Delete discount
-router.delete('/:id', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+// Archive discount
+router.delete('/:id', authenticateJWT, requirePermission(Permission.DiscountsDelete), async (req, res) => {
+    try {
+        await DiscountsService.archive(req.params.id, (req as any).user.sub);
+        res.json({ message: 'Discount archived successfully' });
+    } catch (error: any) {
+        console.error('Error archiving discount:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Restore archived discount
+router.post('/:id/restore', authenticateJWT, requirePermission(Permission.DiscountsDelete), async (req, res) => {
+    try {
+        const discount = await DiscountsService.restore(req.params.id, (req as any).user.sub);
+        res.json(discount);
+    } catch (error: any) {
+        console.error('Error restoring discount:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Permanently delete discount
+router.delete('/:id/permanent', authenticateJWT, requirePermission(Permission.DiscountsPurge), requirePasswordConfirmation, async (req, res) => {
     try {
-        await DiscountsService.delete(req.params.id);
+        await DiscountsService.delete(req.params.id, (req as any).user.sub);
         res.json({ message: 'Discount deleted successfully' });
     } catch (error: any) {
         console.error('Error deleting discount:', error);
@@ -96,9 +122,9 @@ router.delete('/:id', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager),
 });
 
 // Deactivate discount
-router.patch('/:id/deactivate', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+router.patch('/:id/deactivate', authenticateJWT, requirePermission(Permission.DiscountsUpdate), async (req, res) => {
     try {
-        const discount = await DiscountsService.deactivate(req.params.id);
+        const discount = await DiscountsService.deactivate(req.params.id, (req as any).user.sub);
         res.json(discount);
     } catch (error: any) {
         console.error('Error deactivating discount:', error);
@@ -107,7 +133,7 @@ router.patch('/:id/deactivate', authenticateJWT, authorizeRoles(Role.Admin, Role
 });
 
 // Get discount statistics
-router.get('/stats/summary', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+router.get('/stats/summary', authenticateJWT, requirePermission(Permission.DiscountsView), async (req, res) => {
     try {
         const stats = await DiscountsService.getDiscountStats();
         res.json(stats);
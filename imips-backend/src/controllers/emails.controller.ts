@@ -1,32 +1,114 @@
 import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role } from '../types';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
 import { EmailsService } from '../services/emails.service';
+import { EmailAttachmentsService } from '../services/emailAttachments.service';
+import { discardUploadedAttachments, receiveEmailAttachments, uploadedAttachments } from '../middlewares/upload.middleware';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
 
 const router = Router();
 
-// Get all sent emails (history)
-router.get('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+// Get all emails with their delivery status (?status=queued|sent|failed, ?archived=true for archived ones)
+router.get('/', authenticateJWT, requirePermission(Permission.EmailsView), async (req, res) => {
     try {
-        const emails = await EmailsService.getAll();
-        res.json(emails);
+        const result = await EmailsService.list(parseListParams(req.query), { archived: req.query.archived === 'true' });
+        res.json(wantsPagination(req.query) ? result : result.data);
     } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
         console.error('Error fetching emails:', error);
         res.status(500).json({ message: 'Failed to fetch emails' });
     }
 });
 
-// Send email (existing endpoint)
-router.post('/send', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
+// Send email (existing endpoint). Emails that cannot be delivered yet stay queued and are retried.
+// Accepts JSON or multipart/form-data with files in `attachments`.
+router.post('/send', authenticateJWT, requirePermission(Permission.EmailsSend), receiveEmailAttachments, async (req, res) => {
     const { recipient, subject, body } = req.body;
     try {
-        await EmailsService.sendEmail({ recipient, subject, body });
-        res.json({ message: 'Email sent' });
+        if (!recipient || !subject) {
+            discardUploadedAttachments(req);
+            return res.status(400).json({ message: 'Recipient and subject are required' });
+        }
+
+        const email = await EmailsService.sendEmail({
+            recipient,
+            subject,
+            body: body || '',
+            attachments: uploadedAttachments(req)
+        });
+        if (email.status === 'sent') {
+            return res.json({ message: 'Email sent', email });
+        }
+        res.status(202).json({ message: 'Email queued for delivery', email });
     } catch (err) {
         console.error(err);
+        discardUploadedAttachments(req);
         res.status(500).json({ message: 'Failed to send email' });
     }
 });
 
+// Download an attachment
+router.get('/:id/attachments/:name', authenticateJWT, requirePermission(Permission.EmailsView), async (req, res) => {
+    try {
+        const file = await EmailAttachmentsService.getFile(req.params.id, req.params.name);
+        if (!file) return res.status(404).json({ message: 'Attachment not found' });
+
+        res.type(file.attachment.contentType);
+        res.download(file.filePath, file.attachment.name);
+    } catch (error: any) {
+        console.error('Error downloading attachment:', error);
+        res.status(500).json({ message: 'Failed to download attachment' });
+    }
+});
+
+// Queue a failed email again
+router.post('/:id/retry', authenticateJWT, requirePermission(Permission.EmailsSend), async (req, res) => {
+    try {
+        const email = await EmailsService.retry(req.params.id);
+        res.json(email);
+    } catch (error: any) {
+        if (error.message === 'Email not found') {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error retrying email:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Archive email
+router.delete('/:id', authenticateJWT, requirePermission(Permission.EmailsDelete), async (req, res) => {
+    try {
+        await EmailsService.archive(req.params.id, (req as any).user.sub);
+        res.json({ message: 'Email archived' });
+    } catch (error: any) {
+        console.error('Error archiving email:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Restore archived email
+router.post('/:id/restore', authenticateJWT, requirePermission(Permission.EmailsDelete), async (req, res) => {
+    try {
+        await EmailsService.restore(req.params.id);
+        res.json({ message: 'Email restored' });
+    } catch (error: any) {
+        console.error('Error restoring email:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Permanently delete email
+router.delete('/:id/permanent', authenticateJWT, requirePermission(Permission.EmailsPurge), requirePasswordConfirmation, async (req, res) => {
+    try {
+        await EmailsService.delete(req.params.id);
+        res.json({ message: 'Email deleted' });
+    } catch (error: any) {
+        console.error('Error deleting email:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
 export default router;
@@ -1,30 +1,137 @@
 import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role } from '../types';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
 import { InquiriesService } from '../services/inquiries.service';
+import { InquiryResponsesService } from '../services/inquiryResponses.service';
+import { InquiryRoutingService } from '../services/inquiryRouting.service';
+import { discardUploadedAttachments, receiveEmailAttachments, uploadedAttachments } from '../middlewares/upload.middleware';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
 
 const router = Router();
 
-router.get('/', authenticateJWT, async (req, res) => {
-    const inquiries = await InquiriesService.getAll();
-    res.json(inquiries);
+router.get('/', authenticateJWT, requirePermission(Permission.InquiriesView), async (req, res) => {
+    try {
+        const result = await InquiriesService.list(parseListParams(req.query), { archived: req.query.archived === 'true' });
+        res.json(wantsPagination(req.query) ? result : result.data);
+    } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error fetching inquiries:', error);
+        res.status(500).json({ message: 'Failed to fetch inquiries' });
+    }
+});
+
+// Assignment strategy and SLA targets
+router.get('/routing', authenticateJWT, requirePermission(Permission.SettingsView, Permission.SettingsManage), async (req, res) => {
+    try {
+        const settings = await InquiryRoutingService.getSettings();
+        res.json(settings);
+    } catch (error: any) {
+        console.error('Error fetching inquiry routing settings:', error);
+        res.status(500).json({ message: 'Failed to fetch inquiry routing settings' });
+    }
+});
+
+router.put('/routing', authenticateJWT, requirePermission(Permission.SettingsManage), async (req, res) => {
+    try {
+        const { strategy, slaTargets } = req.body;
+        const settings = await InquiryRoutingService.updateSettings({ strategy, slaTargets }, (req as any).user.sub);
+        res.json(settings);
+    } catch (error: any) {
+        console.error('Error updating inquiry routing settings:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Get an inquiry with its full response thread
+router.get('/:id', authenticateJWT, requirePermission(Permission.InquiriesView), async (req, res) => {
+    try {
+        const inquiry = await InquiriesService.getById(req.params.id);
+        if (!inquiry) return res.status(404).json({ message: 'Inquiry not found' });
+        const responses = await InquiryResponsesService.getByInquiry(req.params.id);
+        res.json({ ...inquiry, responses });
+    } catch (error: any) {
+        console.error('Error fetching inquiry:', error);
+        res.status(500).json({ message: 'Failed to fetch inquiry' });
+    }
 });
 
-router.post('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager, Role.Staff), async (req, res) => {
-    const inquiry = await InquiriesService.add(req.body);
+router.get('/:id/responses', authenticateJWT, requirePermission(Permission.InquiriesView), async (req, res) => {
+    try {
+        const inquiry = await InquiriesService.getById(req.params.id);
+        if (!inquiry) return res.status(404).json({ message: 'Inquiry not found' });
+        const responses = await InquiryResponsesService.getByInquiry(req.params.id);
+        res.json(responses);
+    } catch (error: any) {
+        console.error('Error fetching inquiry responses:', error);
+        res.status(500).json({ message: 'Failed to fetch inquiry responses' });
+    }
+});
+
+// Reply to the customer; accepts JSON or multipart/form-data with files in `attachments`
+router.post('/:id/responses', authenticateJWT, requirePermission(Permission.InquiriesRespond), receiveEmailAttachments, async (req, res) => {
+    try {
+        const response = await InquiryResponsesService.create(
+            req.params.id,
+            req.body.message,
+            uploadedAttachments(req),
+            (req as any).user.sub
+        );
+        res.status(201).json(response);
+    } catch (error: any) {
+        discardUploadedAttachments(req);
+        if (error.message === 'Inquiry not found') {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error responding to inquiry:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+router.post('/', authenticateJWT, requirePermission(Permission.InquiriesCreate), async (req, res) => {
+    const inquiry = await InquiriesService.add(req.body, (req as any).user.sub);
     res.json(inquiry);
 });
 
-router.put('/:id', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager, Role.Staff), async (req, res) => {
+router.put('/:id', authenticateJWT, requirePermission(Permission.InquiriesUpdate), async (req, res) => {
     const data = { ...req.body, id: req.params.id };
-    const inquiries = await InquiriesService.update(data);
+    const inquiries = await InquiriesService.update(data, (req as any).user.sub);
     res.json(inquiries);
 });
 
-router.delete('/:id', authenticateJWT, authorizeRoles(Role.Admin), async (req, res) => {
-    await InquiriesService.delete(req.params.id);
-    res.json({ message: 'Inquiry deleted' });
+// Archive inquiry
+router.delete('/:id', authenticateJWT, requirePermission(Permission.InquiriesDelete), async (req, res) => {
+    try {
+        await InquiriesService.archive(req.params.id, (req as any).user.sub);
+        res.json({ message: 'Inquiry archived' });
+    } catch (error: any) {
+        console.error('Error archiving inquiry:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Restore archived inquiry
+router.post('/:id/restore', authenticateJWT, requirePermission(Permission.InquiriesDelete), async (req, res) => {
+    try {
+        const inquiry = await InquiriesService.restore(req.params.id, (req as any).user.sub);
+        res.json(inquiry);
+    } catch (error: any) {
+        console.error('Error restoring inquiry:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Permanently delete inquiry
+router.delete('/:id/permanent', authenticateJWT, requirePermission(Permission.InquiriesPurge), requirePasswordConfirmation, async (req, res) => {
+    try {
+        await InquiriesService.delete(req.params.id, (req as any).user.sub);
+        res.json({ message: 'Inquiry deleted' });
+    } catch (error: any) {
+        console.error('Error deleting inquiry:', error);
+        res.status(400).json({ message: error.message });
+    }
 });
 
 export default router;
@@ -1,20 +1,25 @@
 // src/controllers/inventory.controller.ts
 import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role } from '../types';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { hasPermission, requirePermission } from '../middlewares/permissions.middleware';
+import { Permission, InventoryMovementType } from '../types';
 import { InventoryService } from '../services/inventory.service';
+import { InventoryMovementsService } from '../services/inventoryMovements.service';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
 import { inventoryUpload } from '../middlewares/upload.middleware';
 import { ImageUtils } from '../utils/imageUtils';
 
 const router = Router();
 
-// Get all inventory items
-router.get('/', authenticateJWT, async (req, res) => {
+// Get all inventory items (?archived=true for archived ones)
+router.get('/', authenticateJWT, requirePermission(Permission.InventoryView), async (req, res) => {
     try {
-        const items = await InventoryService.getAll();
-        res.json(items);
+        const result = await InventoryService.list(parseListParams(req.query), { archived: req.query.archived === 'true' });
+        res.json(wantsPagination(req.query) ? result : result.data);
     } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
         console.error('Error fetching inventory:', error);
         res.status(500).json({ message: 'Failed to fetch inventory items' });
     }
@@ -23,7 +28,7 @@ router.get('/', authenticateJWT, async (req, res) => {
 // Create new inventory item
 router.post('/',
     authenticateJWT,
-    authorizeRoles(Role.Admin, Role.Manager),
+    requirePermission(Permission.InventoryCreate),
     inventoryUpload.single('image'),
     async (req, res) => {
         try {
@@ -37,7 +42,7 @@ router.post('/',
                 data.imageUrl = ImageUtils.processImageUrl(null, 'inventory');
             }
 
-            const item = await InventoryService.add(data);
+            const item = await InventoryService.add(data, (req as any).user.sub);
             res.status(201).json(item);
         } catch (error: any) {
             console.error('Error creating inventory item:', error);
@@ -49,12 +54,34 @@ router.post('/',
 // Update inventory item
 router.put('/:id',
     authenticateJWT,
-    authorizeRoles(Role.Admin, Role.Manager),
+    requirePermission(Permission.InventoryUpdate),
     inventoryUpload.single('image'),
     async (req, res) => {
         try {
             const data: any = { ...req.body, id: req.params.id };
 
+            // Prices are guarded separately so a role can edit items without repricing them
+            if (data.price !== undefined && !(await hasPermission(req, Permission.InventoryPricing))) {
+                const existing = await InventoryService.getById(req.params.id);
+                if (existing && Number(data.price) !== Number(existing.price)) {
+                    return res.status(403).json({
+                        error: 'Access denied',
+                        message: 'You do not have permission to change prices'
+                    });
+                }
+            }
+
+            // Likewise stock levels, which otherwise change only through recorded movements
+            if (data.quantity !== undefined && !(await hasPermission(req, Permission.InventoryAdjust))) {
+                const existing = await InventoryService.getById(req.params.id);
+                if (existing && Number(data.quantity) !== Number(existing.quantity)) {
+                    return res.status(403).json({
+                        error: 'Access denied',
+                        message: 'You do not have permission to adjust stock levels'
+                    });
+                }
+            }
+
             // Process image - use uploaded file or keep existing/default
             if (req.file) {
                 const config = ImageUtils.getStorageConfig('inventory');
@@ -68,7 +95,7 @@ router.put('/:id',
             }
             // If no new image provided, imageUrl will be handled by the service
 
-            const updatedItem = await InventoryService.update(data);
+            const updatedItem = await InventoryService.update(data, (req as any).user.sub);
             res.json(updatedItem);
         } catch (error: any) {
             console.error('Error updating inventory item:', error);
@@ -77,16 +104,98 @@ router.put('/:id',
     }
 );
 
-// Delete inventory item
+// Get stock movement history for an item
+router.get('/:id/movements', authenticateJWT, requirePermission(Permission.InventoryView), async (req, res) => {
+    try {
+        const { type, from, to } = req.query as { type?: string; from?: string; to?: string };
+
+        if (type && !InventoryMovementsService.isValidType(type)) {
+            return res.status(400).json({ message: `Invalid movement type: ${type}` });
+        }
+        if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+            return res.status(400).json({ message: 'Invalid date filter' });
+        }
+
+        const item = await InventoryService.getById(req.params.id);
+        if (!item) {
+            return res.status(404).json({ message: 'Inventory item not found' });
+        }
+
+        const movements = await InventoryMovementsService.getByItem(req.params.id, {
+            type: type as InventoryMovementType | undefined,
+            from: from ? new Date(from).toISOString() : undefined,
+            // A bare date for "to" means "up to the end of that day"
+            to: to ? new Date(to.length === 10 ? `${to}T23:59:59.999Z` : to).toISOString() : undefined
+        });
+        res.json(movements);
+    } catch (error: any) {
+        console.error('Error fetching inventory movements:', error);
+        res.status(500).json({ message: 'Failed to fetch inventory movements' });
+    }
+});
+
+// Record a manual stock movement
+router.post('/:id/movements',
+    authenticateJWT,
+    requirePermission(Permission.InventoryAdjust),
+    async (req, res) => {
+        try {
+            const { type, quantity, reason } = req.body;
+
+            if (!InventoryMovementsService.isValidType(type)) {
+                return res.status(400).json({ message: 'A valid movement type is required' });
+            }
+
+            const item = await InventoryService.adjustStock(req.params.id, type, Number(quantity), reason, (req as any).user.sub);
+            res.status(201).json(item);
+        } catch (error: any) {
+            console.error('Error recording inventory movement:', error);
+            res.status(400).json({ message: error.message });
+        }
+    }
+);
+
+// Archive inventory item
 router.delete('/:id',
     authenticateJWT,
-    authorizeRoles(Role.Admin, Role.Manager),
+    requirePermission(Permission.InventoryDelete),
+    async (req, res) => {
+        try {
+            const result = await InventoryService.archive(req.params.id, (req as any).user.sub);
+            res.json(result);
+        } catch (error: any) {
+            console.error('Error archiving inventory item:', error);
+            res.status(400).json({ message: error.message });
+        }
+    }
+);
+
+// Restore archived inventory item
+router.post('/:id/restore',
+    authenticateJWT,
+    requirePermission(Permission.InventoryDelete),
+    async (req, res) => {
+        try {
+            const item = await InventoryService.restore(req.params.id, (req as any).user.sub);
+            res.json(item);
+        } catch (error: any) {
+            console.error('Error restoring inventory item:', error);
+            res.status(400).json({ message: error.message });
+        }
+    }
+);
+
+// Permanently delete inventory item
+router.delete('/:id/permanent',
+    authenticateJWT,
+    requirePermission(Permission.InventoryPurge),
+    requirePasswordConfirmation,
     async (req, res) => {
         try {
             // Get item before deletion to handle image cleanup
             const existingItem = await InventoryService.getById(req.params.id);
 
-            const result = await InventoryService.delete(req.params.id);
+            const result = await InventoryService.delete(req.params.id, (req as any).user.sub);
 
             // Delete associated image if it exists and is not default
             if (existingItem && existingItem.imageUrl) {
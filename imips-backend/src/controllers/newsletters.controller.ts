@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
+import { NewslettersService } from '../services/newsletters.service';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
+
+const router = Router();
+
+// Get newsletters, newest first
+router.get('/', authenticateJWT, requirePermission(Permission.NewslettersView), async (req, res) => {
+    try {
+        const result = await NewslettersService.list(parseListParams(req.query));
+        res.json(wantsPagination(req.query) ? result : result.data);
+    } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error fetching newsletters:', error);
+        res.status(500).json({ message: 'Failed to fetch newsletters' });
+    }
+});
+
+// Number of recipients in each audience segment
+router.get('/audiences', authenticateJWT, requirePermission(Permission.NewslettersView), async (req, res) => {
+    try {
+        const sizes = await NewslettersService.getAudienceSizes();
+        res.json(sizes);
+    } catch (error: any) {
+        console.error('Error fetching newsletter audiences:', error);
+        res.status(500).json({ message: 'Failed to fetch newsletter audiences' });
+    }
+});
+
+// Create a newsletter and start sending it in the background
+router.post('/', authenticateJWT, requirePermission(Permission.NewslettersSend), async (req, res) => {
+    try {
+        const { subject, htmlContent, recipientGroup, customRecipients } = req.body;
+        if (customRecipients !== undefined && !Array.isArray(customRecipients)) {
+            return res.status(400).json({ message: 'customRecipients must be a list of email addresses' });
+        }
+        const newsletter = await NewslettersService.create(
+            { subject, htmlContent, recipientGroup, customRecipients },
+            (req as any).user.sub
+        );
+        res.status(202).json(newsletter);
+    } catch (error: any) {
+        console.error('Error creating newsletter:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+router.get('/:id', authenticateJWT, requirePermission(Permission.NewslettersView), async (req, res) => {
+    try {
+        const newsletter = await NewslettersService.getById(req.params.id);
+        if (!newsletter) return res.status(404).json({ message: 'Newsletter not found' });
+        res.json(newsletter);
+    } catch (error: any) {
+        console.error('Error fetching newsletter:', error);
+        res.status(500).json({ message: 'Failed to fetch newsletter' });
+    }
+});
+
+// Per-recipient delivery status, ?status=failed for the failed addresses only
+router.get('/:id/recipients', authenticateJWT, requirePermission(Permission.NewslettersView), async (req, res) => {
+    try {
+        const status = req.query.status as string | undefined;
+        if (status && !['pending', 'sent', 'failed'].includes(status)) {
+            return res.status(400).json({ message: 'Invalid delivery status' });
+        }
+
+        const newsletter = await NewslettersService.getById(req.params.id);
+        if (!newsletter) return res.status(404).json({ message: 'Newsletter not found' });
+
+        const recipients = await NewslettersService.getRecipients(req.params.id, status as any);
+        res.json(recipients);
+    } catch (error: any) {
+        console.error('Error fetching newsletter recipients:', error);
+        res.status(500).json({ message: 'Failed to fetch newsletter recipients' });
+    }
+});
+
+// Send again to the addresses that failed
+router.post('/:id/resend', authenticateJWT, requirePermission(Permission.NewslettersSend), async (req, res) => {
+    try {
+        const newsletter = await NewslettersService.resendFailed(req.params.id);
+        res.status(202).json(newsletter);
+    } catch (error: any) {
+        if (error.message === 'Newsletter not found') {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error resending newsletter:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+export default router;
@@ -1,27 +1,132 @@
 import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role, OrderStatus } from '../types';
-import { OrdersService } from '../services/orders.service';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
+import { OrdersService, InsufficientStockError, InvalidStatusTransitionError } from '../services/orders.service';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
 
 const router = Router();
 
-router.get('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager, Role.Staff), async (req, res) => {
-    const orders = await OrdersService.getAll();
-    res.json(orders);
+router.get('/', authenticateJWT, requirePermission(Permission.OrdersView), async (req, res) => {
+    try {
+        const result = await OrdersService.list(parseListParams(req.query), { archived: req.query.archived === 'true' });
+        res.json(wantsPagination(req.query) ? result : result.data);
+    } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error fetching orders:', error);
+        res.status(500).json({ message: 'Failed to fetch orders' });
+    }
 });
 
-router.post('/', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager, Role.Staff), async (req, res) => {
-    const { customer, cart, discount } = req.body;
-    const createdBy = (req as any).user.sub;
-    const order = await OrdersService.createOrder(customer, cart, discount, createdBy);
-    res.json(order);
+router.post('/', authenticateJWT, requirePermission(Permission.OrdersCreate), async (req, res) => {
+    try {
+        const { customer, cart, discountCode, discountId } = req.body;
+        const createdBy = (req as any).user.sub;
+        const order = await OrdersService.createOrder(customer, cart, { code: discountCode, id: discountId }, createdBy);
+        res.json(order);
+    } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+            return res.status(409).json({ message: error.message, errors: error.lines });
+        }
+        console.error('Error creating order:', error);
+        res.status(400).json({ message: error.message });
+    }
 });
 
-router.put('/:id/status', authenticateJWT, authorizeRoles(Role.Admin, Role.Manager), async (req, res) => {
-    const { status } = req.body;
-    const orders = await OrdersService.updateStatus(req.params.id, status as OrderStatus);
-    res.json(orders);
+router.put('/:id/status', authenticateJWT, requirePermission(Permission.OrdersUpdateStatus), async (req, res) => {
+    try {
+        const { status, note } = req.body;
+        const orders = await OrdersService.updateStatus(req.params.id, status, (req as any).user.sub, note);
+        res.json(orders);
+    } catch (error: any) {
+        if (error instanceof InvalidStatusTransitionError) {
+            return res.status(409).json({ message: error.message, from: error.from, to: error.to, allowed: error.allowed });
+        }
+        if (error.message === 'Order not found') {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error updating order status:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Status history of an order, oldest first
+router.get('/:id/history', authenticateJWT, requirePermission(Permission.OrdersView), async (req, res) => {
+    try {
+        const order = await OrdersService.getById(req.params.id);
+        if (!order) return res.status(404).json({ message: 'Order not found' });
+
+        const history = await OrdersService.getStatusHistory(req.params.id);
+        res.json(history);
+    } catch (error: any) {
+        console.error('Error fetching order history:', error);
+        res.status(500).json({ message: 'Failed to fetch order history' });
+    }
+});
+
+// Returns recorded against an order, oldest first
+router.get('/:id/returns', authenticateJWT, requirePermission(Permission.OrdersView), async (req, res) => {
+    try {
+        const order = await OrdersService.getById(req.params.id);
+        if (!order) return res.status(404).json({ message: 'Order not found' });
+
+        const returns = await OrdersService.getReturns(req.params.id);
+        res.json(returns);
+    } catch (error: any) {
+        console.error('Error fetching order returns:', error);
+        res.status(500).json({ message: 'Failed to fetch order returns' });
+    }
+});
+
+// Return individual order lines, restocking or writing them off, with a refund
+router.post('/:id/returns', authenticateJWT, requirePermission(Permission.OrdersRefund), async (req, res) => {
+    try {
+        const { lines, refundAmount, reason } = req.body;
+        const orderReturn = await OrdersService.createReturn(req.params.id, { lines, refundAmount, reason }, (req as any).user.sub);
+        const order = await OrdersService.getById(req.params.id);
+        res.status(201).json({ return: orderReturn, order });
+    } catch (error: any) {
+        if (error.message === 'Order not found') {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error creating order return:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Archive order
+router.delete('/:id', authenticateJWT, requirePermission(Permission.OrdersDelete), async (req, res) => {
+    try {
+        await OrdersService.archive(req.params.id, (req as any).user.sub);
+        res.json({ message: 'Order archived' });
+    } catch (error: any) {
+        console.error('Error archiving order:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Restore archived order
+router.post('/:id/restore', authenticateJWT, requirePermission(Permission.OrdersDelete), async (req, res) => {
+    try {
+        const order = await OrdersService.restore(req.params.id, (req as any).user.sub);
+        res.json(order);
+    } catch (error: any) {
+        console.error('Error restoring order:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Permanently delete order
+router.delete('/:id/permanent', authenticateJWT, requirePermission(Permission.OrdersPurge), requirePasswordConfirmation, async (req, res) => {
+    try {
+        await OrdersService.delete(req.params.id, (req as any).user.sub);
+        res.json({ message: 'Order deleted' });
+    } catch (error: any) {
+        console.error('Error deleting order:', error);
+        res.status(400).json({ message: error.message });
+    }
 });
 
 export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { SecurityEventType } from '../types';
+import { InquiryIntakeError, InquiryIntakeService } from '../services/inquiryIntake.service';
+import { logSecurityEvent } from '../middlewares/security.middleware';
+
+const router = Router();
+
+// Hidden form field that people never see and bots fill in
+const HONEYPOT_FIELD = 'website';
+
+// Submit an inquiry from the company website (no authentication)
+router.post('/', async (req, res) => {
+    try {
+        if (req.body[HONEYPOT_FIELD]) {
+            logSecurityEvent(req, SecurityEventType.SpamSubmission, 'Public inquiry rejected by honeypot field');
+            // Look like a success so the bot does not learn it was caught
+            return res.status(201).json({ message: 'Thank you, your inquiry has been received', reference: uuidv4().slice(0, 8) });
+        }
+
+        const { reference } = await InquiryIntakeService.submit(req.body);
+        res.status(201).json({ message: 'Thank you, your inquiry has been received', reference });
+    } catch (error: any) {
+        if (error instanceof InquiryIntakeError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error receiving public inquiry:', error);
+        res.status(500).json({ message: 'Failed to submit inquiry' });
+    }
+});
+
+export default router;
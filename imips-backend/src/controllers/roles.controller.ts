@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { logSecurityEvent } from '../middlewares/security.middleware';
+import { PermissionsService, RoleError } from '../services/permissions.service';
+import { Permission, SecurityEventType } from '../types';
+
+const router = Router();
+
+// Roles with their permissions; user managers need them to assign roles
+router.get('/', authenticateJWT, requirePermission(Permission.RolesManage, Permission.UsersManage), async (req, res) => {
+    try {
+        res.json(await PermissionsService.listRoles());
+    } catch (error: any) {
+        console.error('Error fetching roles:', error);
+        res.status(500).json({ message: 'Failed to fetch roles' });
+    }
+});
+
+// Every permission that can be granted, for the role editor
+router.get('/permissions', authenticateJWT, requirePermission(Permission.RolesManage, Permission.UsersManage), (req, res) => {
+    res.json(PermissionsService.getCatalogue());
+});
+
+const unheldPermissionsMessage = (missing: string[]) =>
+    `You cannot grant permissions you do not have: ${missing.join(', ')}`;
+
+router.post('/', authenticateJWT, requirePermission(Permission.RolesManage), async (req, res) => {
+    try {
+        const missing = await PermissionsService.notHeldBy((req as any).user.sub, req.body?.permissions);
+        if (missing.length > 0) {
+            return res.status(403).json({ message: unheldPermissionsMessage(missing) });
+        }
+
+        const role = await PermissionsService.createRole(req.body, (req as any).user.sub);
+        logSecurityEvent(req, SecurityEventType.PermissionsChanged, `Role "${role.name}" created with permissions: ${role.permissions.join(', ') || 'none'}`);
+        res.status(201).json(role);
+    } catch (error: any) {
+        if (error instanceof RoleError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error creating role:', error);
+        res.status(500).json({ message: 'Failed to create role' });
+    }
+});
+
+// Nobody edits their own role, and only permissions the editor holds can be added
+router.put('/:name', authenticateJWT, requirePermission(Permission.RolesManage), async (req, res) => {
+    try {
+        const own = await PermissionsService.getUserPermissions((req as any).user.sub);
+        if (own?.role === req.params.name) {
+            return res.status(403).json({ message: 'You cannot change your own role' });
+        }
+        const existing = await PermissionsService.getRole(req.params.name);
+        const added = Array.isArray(req.body?.permissions)
+            ? req.body.permissions.filter((permission: unknown) => !existing?.permissions.includes(permission as Permission))
+            : [];
+        const missing = await PermissionsService.notHeldBy((req as any).user.sub, added);
+        if (missing.length > 0) {
+            return res.status(403).json({ message: unheldPermissionsMessage(missing) });
+        }
+
+        const role = await PermissionsService.updateRole(req.params.name, req.body, (req as any).user.sub);
+        logSecurityEvent(req, SecurityEventType.PermissionsChanged, `Role "${role.name}" now has permissions: ${role.permissions.join(', ') || 'none'}`);
+        res.json(role);
+    } catch (error: any) {
+        if (error instanceof RoleError) {
+            return res.status(error.notFound ? 404 : 400).json({ message: error.message });
+        }
+        console.error('Error updating role:', error);
+        res.status(500).json({ message: 'Failed to update role' });
+    }
+});
+
+// Only custom roles that are no longer assigned can be deleted
+router.delete('/:name', authenticateJWT, requirePermission(Permission.RolesManage), async (req, res) => {
+    try {
+        await PermissionsService.deleteRole(req.params.name, (req as any).user.sub);
+        logSecurityEvent(req, SecurityEventType.PermissionsChanged, `Role "${req.params.name}" deleted`);
+        res.json({ message: 'Role deleted successfully' });
+    } catch (error: any) {
+        if (error instanceof RoleError) {
+            return res.status(error.notFound ? 404 : 400).json({ message: error.message });
+        }
+        console.error('Error deleting role:', error);
+        res.status(500).json({ message: 'Failed to delete role' });
+    }
+});
+
+export default router;
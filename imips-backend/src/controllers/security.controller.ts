@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
+import { SecurityService } from '../services/security.service';
+
+const router = Router();
+
+// Get security events, newest first
+router.get('/logs', authenticateJWT, requirePermission(Permission.SecurityManage), async (req, res) => {
+    try {
+        const { eventType, ip, userId, from, to, limit } = req.query as Record<string, string | undefined>;
+
+        if (eventType && !SecurityService.isValidEventType(eventType)) {
+            return res.status(400).json({ message: 'Invalid event type' });
+        }
+        if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+            return res.status(400).json({ message: 'Invalid date range' });
+        }
+        const parsedLimit = limit ? parseInt(limit, 10) : undefined;
+        if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit < 1)) {
+            return res.status(400).json({ message: 'Invalid limit' });
+        }
+
+        const logs = await SecurityService.getLogs({
+            eventType: eventType as any,
+            ip,
+            userId,
+            from,
+            to,
+            limit: parsedLimit
+        });
+        res.json(logs);
+    } catch (error: any) {
+        console.error('Error fetching security logs:', error);
+        res.status(500).json({ message: 'Failed to fetch security logs' });
+    }
+});
+
+// Get currently blocked IPs
+router.get('/blocked-ips', authenticateJWT, requirePermission(Permission.SecurityManage), async (req, res) => {
+    try {
+        const blocked = await SecurityService.getBlockedIPs();
+        res.json(blocked);
+    } catch (error: any) {
+        console.error('Error fetching blocked IPs:', error);
+        res.status(500).json({ message: 'Failed to fetch blocked IPs' });
+    }
+});
+
+// Unblock an IP
+router.delete('/blocked-ips/:ip', authenticateJWT, requirePermission(Permission.SecurityManage), async (req, res) => {
+    try {
+        const unblocked = await SecurityService.unblock(req.params.ip, (req as any).user.sub);
+        if (!unblocked) return res.status(404).json({ message: 'IP is not blocked' });
+        res.json({ message: 'IP unblocked' });
+    } catch (error: any) {
+        console.error('Error unblocking IP:', error);
+        res.status(500).json({ message: 'Failed to unblock IP' });
+    }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middlewares/auth.middleware';
+import { hasPermission, requirePermission } from '../middlewares/permissions.middleware';
+import { Permission } from '../types';
+import { SessionsService } from '../services/sessions.service';
+
+const router = Router();
+
+// Get the current user's sessions
+router.get('/me', authenticateJWT, async (req, res) => {
+    try {
+        const { sub, sid } = (req as any).user;
+        const sessions = await SessionsService.getForUser(sub, sid);
+        res.json(sessions);
+    } catch (error: any) {
+        console.error('Error fetching sessions:', error);
+        res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+});
+
+// Get all sessions (admin)
+router.get('/', authenticateJWT, requirePermission(Permission.SessionsManage), async (req, res) => {
+    try {
+        const { userId, active } = req.query as { userId?: string; active?: string };
+        const sessions = await SessionsService.getAll({ userId, activeOnly: active === 'true' }, (req as any).user.sid);
+        res.json(sessions);
+    } catch (error: any) {
+        console.error('Error fetching sessions:', error);
+        res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+});
+
+// Revoke all sessions of the current user, or of another user (session managers)
+router.post('/revoke-all', authenticateJWT, async (req, res) => {
+    try {
+        const requestingUser = (req as any).user;
+        const { userId, keepCurrent } = req.body;
+
+        if (userId && userId !== requestingUser.sub && !(await hasPermission(req, Permission.SessionsManage))) {
+            return res.status(403).json({
+                error: 'Access denied',
+                message: 'You can only revoke your own sessions'
+            });
+        }
+
+        const targetUserId = userId || requestingUser.sub;
+        const except = targetUserId === requestingUser.sub && keepCurrent ? requestingUser.sid : undefined;
+        const revoked = await SessionsService.revokeAllForUser(targetUserId, except);
+        res.json({ message: 'Sessions revoked', revoked });
+    } catch (error: any) {
+        console.error('Error revoking sessions:', error);
+        res.status(500).json({ message: 'Failed to revoke sessions' });
+    }
+});
+
+// Revoke a single session
+router.delete('/:id', authenticateJWT, async (req, res) => {
+    try {
+        const requestingUser = (req as any).user;
+        const session = await SessionsService.getById(req.params.id);
+
+        if (!session) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+        if (session.userId !== requestingUser.sub && !(await hasPermission(req, Permission.SessionsManage))) {
+            return res.status(403).json({
+                error: 'Access denied',
+                message: 'You can only revoke your own sessions'
+            });
+        }
+
+        await SessionsService.revoke(session.id);
+        res.json({ message: 'Session revoked' });
+    } catch (error: any) {
+        console.error('Error revoking session:', error);
+        res.status(500).json({ message: 'Failed to revoke session' });
+    }
+});
+
+export default router;
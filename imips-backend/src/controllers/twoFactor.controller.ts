@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/permissions.middleware';
+import { logSecurityEvent } from '../middlewares/security.middleware';
+import { TwoFactorError, TwoFactorService } from '../services/twoFactor.service';
+import { Permission, SecurityEventType } from '../types';
+
+const router = Router();
+
+// Two-factor status of the signed-in user
+router.get('/', authenticateJWT, async (req, res) => {
+    try {
+        const { sub, role } = (req as any).user;
+        res.json(await TwoFactorService.getStatus(sub, role));
+    } catch (error: any) {
+        console.error('Error fetching two-factor status:', error);
+        res.status(500).json({ message: 'Failed to fetch two-factor status' });
+    }
+});
+
+// Roles that cannot sign in without two-factor authentication
+router.get('/policy', authenticateJWT, requirePermission(Permission.SettingsManage), async (req, res) => {
+    try {
+        res.json(await TwoFactorService.getPolicy());
+    } catch (error: any) {
+        console.error('Error fetching two-factor policy:', error);
+        res.status(500).json({ message: 'Failed to fetch two-factor policy' });
+    }
+});
+
+router.put('/policy', authenticateJWT, requirePermission(Permission.SettingsManage), async (req, res) => {
+    try {
+        res.json(await TwoFactorService.updatePolicy(req.body, (req as any).user.sub));
+    } catch (error: any) {
+        console.error('Error updating two-factor policy:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// New secret and provisioning URI (shown as a QR code) for the authenticator app
+router.post('/setup', authenticateJWT, async (req, res) => {
+    try {
+        const { sub, email } = (req as any).user;
+        res.json(await TwoFactorService.beginSetup(sub, email));
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error starting two-factor setup:', error);
+        res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+});
+
+// Confirm setup with a first code; answers with the one-time recovery codes
+router.post('/enable', authenticateJWT, async (req, res) => {
+    try {
+        const userId = (req as any).user.sub;
+        const recoveryCodes = await TwoFactorService.enable(userId, req.body.code);
+        logSecurityEvent(req, SecurityEventType.TwoFactorEnabled, 'Two-factor authentication enabled', userId);
+        res.json({ message: 'Two-factor authentication is now enabled.', recoveryCodes });
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            if (error.invalidCode) {
+                logSecurityEvent(req, SecurityEventType.TwoFactorFailed, 'Invalid two-factor code during setup');
+            }
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error enabling two-factor authentication:', error);
+        res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+    }
+});
+
+// Needs the password and a current code
+router.post('/disable', authenticateJWT, requirePasswordConfirmation, async (req, res) => {
+    try {
+        const { sub, role } = (req as any).user;
+        await TwoFactorService.disable(sub, role, req.body.code);
+        logSecurityEvent(req, SecurityEventType.TwoFactorDisabled, 'Two-factor authentication disabled', sub);
+        res.json({ message: 'Two-factor authentication has been disabled.' });
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            if (error.invalidCode) {
+                logSecurityEvent(req, SecurityEventType.TwoFactorFailed, 'Invalid two-factor code when disabling two-factor authentication');
+            }
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error disabling two-factor authentication:', error);
+        res.status(500).json({ message: 'Failed to disable two-factor authentication' });
+    }
+});
+
+// Replace all recovery codes, e.g. after using some of them
+router.post('/recovery-codes', authenticateJWT, requirePasswordConfirmation, async (req, res) => {
+    try {
+        const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes((req as any).user.sub);
+        res.json({ recoveryCodes });
+    } catch (error: any) {
+        if (error instanceof TwoFactorError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error regenerating recovery codes:', error);
+        res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+    }
+});
+
+export default router;
@@ -1,33 +1,130 @@
 // src/controllers/users.controller.ts
 import { Router } from 'express';
-import { authenticateJWT } from '../middlewares/auth.middleware';
-import { authorizeRoles } from '../middlewares/roles.middleware';
-import { Role } from '../types';
+import { authenticateJWT, requirePasswordConfirmation } from '../middlewares/auth.middleware';
+import { hasPermission, requireManageableUser, requirePermission } from '../middlewares/permissions.middleware';
+import { Permission, SecurityEventType } from '../types';
 import { UsersService } from '../services/users.service';
+import { UserInvitationsService } from '../services/userInvitations.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { AccountLockoutService } from '../services/accountLockout.service';
+import { PermissionsService, RoleError } from '../services/permissions.service';
+import { ListQueryError, parseListParams, wantsPagination } from '../utils/listQuery';
 import { userUpload } from '../middlewares/upload.middleware';
 import { ImageUtils } from '../utils/imageUtils';
+import { logSecurityEvent } from '../middlewares/security.middleware';
 
 const router = Router();
 
-// Get all users
-router.get('/', authenticateJWT, authorizeRoles(Role.Admin), async (req, res) => {
+const unheldPermissionsMessage = (action: string, missing: string[]) =>
+    `You cannot ${action} with permissions you do not have: ${missing.join(', ')}`;
+
+// Get all users (?archived=true for archived ones)
+router.get('/', authenticateJWT, requirePermission(Permission.UsersManage), async (req, res) => {
     try {
-        const users = await UsersService.getAll();
-        res.json(users);
+        const result = await UsersService.list(parseListParams(req.query), { archived: req.query.archived === 'true' });
+        res.json(wantsPagination(req.query) ? result : result.data);
     } catch (error: any) {
+        if (error instanceof ListQueryError) {
+            return res.status(400).json({ message: error.message });
+        }
         console.error('Error fetching users:', error);
         res.status(500).json({ message: 'Failed to fetch users' });
     }
 });
 
+// Create a user and email them an invitation to choose their password.
+// An optional temporary `password` has to be changed on first login.
+router.post('/',
+    authenticateJWT,
+    requirePermission(Permission.UsersManage),
+    userUpload.single('profilePicture'),
+    async (req, res) => {
+        try {
+            const { name, email, role, password } = req.body;
+            if (!(await hasPermission(req, Permission.RolesManage))) {
+                return res.status(403).json({ message: 'Assigning a role requires the roles.manage permission' });
+            }
+            if (await PermissionsService.roleExists(role)) {
+                const missing = await PermissionsService.notHeldBy((req as any).user.sub, await PermissionsService.getRolePermissions(role));
+                if (missing.length > 0) {
+                    return res.status(403).json({ message: unheldPermissionsMessage('You cannot assign a role with permissions you do not have', missing) });
+                }
+            }
+            const profilePictureUrl = req.file
+                ? `${ImageUtils.getStorageConfig('user').baseUrl}${req.file.filename}`
+                : undefined;
+
+            const user = await UsersService.create({ name, email, role, password, profilePictureUrl }, (req as any).user.sub);
+            try {
+                await UserInvitationsService.invite(user.id, (req as any).user.sub);
+                logSecurityEvent(req, SecurityEventType.UserInvited, `Invitation sent to ${user.email}`);
+            } catch (error) {
+                console.error('Error sending invitation:', error);
+                return res.status(201).json({
+                    ...user,
+                    message: 'User created, but the invitation email could not be sent. Resend it from the user list.'
+                });
+            }
+            res.status(201).json(await UsersService.getById(user.id));
+        } catch (error: any) {
+            console.error('Error creating user:', error);
+            res.status(400).json({ message: error.message });
+        }
+    }
+);
+
+// Send a new invitation link; the previous one stops working
+router.post('/:id/invitation', authenticateJWT, requirePermission(Permission.UsersManage), requireManageableUser, async (req, res) => {
+    try {
+        const invitation = await UserInvitationsService.resend(req.params.id, (req as any).user.sub);
+        logSecurityEvent(req, SecurityEventType.UserInvited, `Invitation resent to user ${req.params.id}`);
+        res.json(invitation);
+    } catch (error: any) {
+        if (error.message === 'User not found') {
+            return res.status(404).json({ message: error.message });
+        }
+        console.error('Error resending invitation:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Revoke a pending invitation
+router.delete('/:id/invitation', authenticateJWT, requirePermission(Permission.UsersManage), requireManageableUser, async (req, res) => {
+    try {
+        const invitation = await UserInvitationsService.revoke(req.params.id);
+        res.json(invitation);
+    } catch (error: any) {
+        console.error('Error revoking invitation:', error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
 // Update user
 router.put('/:id',
     authenticateJWT,
-    authorizeRoles(Role.Admin),
+    requirePermission(Permission.UsersManage),
+    requireManageableUser,
     userUpload.single('profilePicture'),
     async (req, res) => {
         try {
             const data: any = { ...req.body };
+            const existingUser = await UsersService.getById(req.params.id);
+            if (!existingUser) return res.status(404).json({ message: 'User not found' });
+
+            if (data.role !== undefined && data.role !== existingUser.role) {
+                if (req.params.id === (req as any).user.sub) {
+                    return res.status(403).json({ message: 'You cannot change your own role' });
+                }
+                if (!(await hasPermission(req, Permission.RolesManage))) {
+                    return res.status(403).json({ message: 'Changing a role requires the roles.manage permission' });
+                }
+                if (await PermissionsService.roleExists(data.role)) {
+                    const missing = await PermissionsService.notHeldBy((req as any).user.sub, await PermissionsService.getRolePermissions(data.role));
+                    if (missing.length > 0) {
+                        return res.status(403).json({ message: unheldPermissionsMessage('You cannot assign a role with permissions you do not have', missing) });
+                    }
+                }
+            }
 
             // Process profile picture - use uploaded file or keep existing/default
             if (req.file) {
@@ -35,14 +132,13 @@ router.put('/:id',
                 data.profilePictureUrl = `${config.baseUrl}${req.file.filename}`;
 
                 // Delete old image if it exists and is not default
-                const existingUser = await UsersService.getById(req.params.id);
-                if (existingUser && existingUser.profilePictureUrl) {
+                if (existingUser.profilePictureUrl) {
                     await ImageUtils.deleteOldImage(existingUser.profilePictureUrl, 'user');
                 }
             }
             // If no new image provided, profilePictureUrl will be handled by the service
 
-            const updatedUser = await UsersService.update(req.params.id, data);
+            const updatedUser = await UsersService.update(req.params.id, data, (req as any).user.sub);
             res.json(updatedUser);
         } catch (error: any) {
             console.error('Error updating user:', error);
@@ -51,16 +147,58 @@ router.put('/:id',
     }
 );
 
-// Delete user
+// Archive user
 router.delete('/:id',
     authenticateJWT,
-    authorizeRoles(Role.Admin),
+    requirePermission(Permission.UsersManage),
+    requireManageableUser,
+    async (req, res) => {
+        try {
+            if (req.params.id === (req as any).user.sub) {
+                return res.status(400).json({ message: 'You cannot archive your own account' });
+            }
+
+            const result = await UsersService.archive(req.params.id, (req as any).user.sub);
+            res.json(result);
+        } catch (error: any) {
+            console.error('Error archiving user:', error);
+            res.status(400).json({ message: error.message });
+        }
+    }
+);
+
+// Restore archived user
+router.post('/:id/restore',
+    authenticateJWT,
+    requirePermission(Permission.UsersManage),
+    requireManageableUser,
+    async (req, res) => {
+        try {
+            const user = await UsersService.restore(req.params.id, (req as any).user.sub);
+            res.json(user);
+        } catch (error: any) {
+            console.error('Error restoring user:', error);
+            res.status(400).json({ message: error.message });
+        }
+    }
+);
+
+// Permanently delete user
+router.delete('/:id/permanent',
+    authenticateJWT,
+    requirePermission(Permission.UsersManage),
+    requireManageableUser,
+    requirePasswordConfirmation,
     async (req, res) => {
         try {
+            if (req.params.id === (req as any).user.sub) {
+                return res.status(400).json({ message: 'You cannot delete your own account' });
+            }
+
             // Get user before deletion to handle image cleanup
             const existingUser = await UsersService.getById(req.params.id);
 
-            const result = await UsersService.delete(req.params.id);
+            const result = await UsersService.delete(req.params.id, (req as any).user.sub);
 
             // Delete associated profile picture if it exists and is not default
             if (existingUser && existingUser.profilePictureUrl) {
@@ -75,6 +213,83 @@ router.delete('/:id',
     }
 );
 
+// Turn off two-factor authentication for a user who lost their authenticator and recovery codes
+router.delete('/:id/two-factor',
+    authenticateJWT,
+    requirePermission(Permission.UsersManage),
+    requireManageableUser,
+    requirePasswordConfirmation,
+    async (req, res) => {
+        try {
+            const user = await UsersService.getById(req.params.id);
+            if (!user) return res.status(404).json({ message: 'User not found' });
+            if (!user.twoFactorEnabled) {
+                return res.status(400).json({ message: 'Two-factor authentication is not enabled for this user' });
+            }
+
+            await TwoFactorService.deleteByUser(user.id);
+            logSecurityEvent(req, SecurityEventType.TwoFactorDisabled, `Two-factor authentication reset by administrator for user ${user.id}`);
+            res.json({ message: 'Two-factor authentication has been reset. The user will set it up again at their next login if their role requires it.' });
+        } catch (error: any) {
+            console.error('Error resetting two-factor authentication:', error);
+            res.status(500).json({ message: 'Failed to reset two-factor authentication' });
+        }
+    }
+);
+
+// Lift a lockout caused by repeated failed sign-ins
+router.post('/:id/unlock', authenticateJWT, requirePermission(Permission.UsersManage), requireManageableUser, async (req, res) => {
+    try {
+        const user = await UsersService.getById(req.params.id);
+        if (!user) return res.status(404).json({ message: 'User not found' });
+        if (!user.lockedUntil) {
+            return res.status(400).json({ message: 'This account is not locked' });
+        }
+
+        await AccountLockoutService.clearForUser(user.id);
+        logSecurityEvent(req, SecurityEventType.AccountUnlocked, `Account unlocked by administrator for user ${user.id}`);
+        res.json({ message: 'The account has been unlocked.' });
+    } catch (error: any) {
+        console.error('Error unlocking account:', error);
+        res.status(500).json({ message: 'Failed to unlock account' });
+    }
+});
+
+// Role permissions of a user together with their individual grants and denials
+router.get('/:id/permissions', authenticateJWT, requirePermission(Permission.RolesManage, Permission.UsersManage), async (req, res) => {
+    try {
+        const permissions = await PermissionsService.getUserPermissions(req.params.id);
+        if (!permissions) return res.status(404).json({ message: 'User not found' });
+        res.json(permissions);
+    } catch (error: any) {
+        console.error('Error fetching user permissions:', error);
+        res.status(500).json({ message: 'Failed to fetch user permissions' });
+    }
+});
+
+router.put('/:id/permissions', authenticateJWT, requirePermission(Permission.RolesManage), requireManageableUser, async (req, res) => {
+    try {
+        if (req.params.id === (req as any).user.sub) {
+            return res.status(403).json({ message: 'You cannot change your own permissions' });
+        }
+        const missing = await PermissionsService.notHeldBy((req as any).user.sub, req.body?.grants);
+        if (missing.length > 0) {
+            return res.status(403).json({ message: unheldPermissionsMessage('You cannot grant permissions you do not have', missing) });
+        }
+
+        const permissions = await PermissionsService.setUserOverrides(req.params.id, req.body, (req as any).user.sub);
+        logSecurityEvent(req, SecurityEventType.PermissionsChanged,
+            `Permissions of user ${req.params.id} changed. Granted: ${permissions.grants.join(', ') || 'none'}; denied: ${permissions.denies.join(', ') || 'none'}`);
+        res.json(permissions);
+    } catch (error: any) {
+        if (error instanceof RoleError) {
+            return res.status(error.notFound ? 404 : 400).json({ message: error.message });
+        }
+        console.error('Error updating user permissions:', error);
+        res.status(500).json({ message: 'Failed to update user permissions' });
+    }
+});
+
 // Password change endpoint (unchanged)
 router.post('/:id/change-password', authenticateJWT, async (req, res) => {
     try {
@@ -82,7 +297,7 @@ router.post('/:id/change-password', authenticateJWT, async (req, res) => {
         const userId = req.params.id;
 
         const requestingUser = (req as any).user;
-        if (requestingUser.role !== Role.Admin && requestingUser.sub !== userId) {
+        if (requestingUser.sub !== userId && !(await hasPermission(req, Permission.UsersManage))) {
             return res.status(403).json({
                 error: 'Access denied',
                 message: 'You can only change your own password'
@@ -90,9 +305,11 @@ router.post('/:id/change-password', authenticateJWT, async (req, res) => {
         }
 
         const result = await UsersService.changePassword(userId, currentPassword, newPassword);
+        logSecurityEvent(req, SecurityEventType.PasswordChanged, `Password changed for user ${userId}`);
         res.json(result);
     } catch (error: any) {
         console.error('Error changing password:', error);
+        logSecurityEvent(req, SecurityEventType.PasswordChangeFailed, `Password change failed for user ${req.params.id}: ${error.message}`);
         res.status(400).json({ message: error.message });
     }
 });
@@ -100,13 +317,15 @@ router.post('/:id/change-password', authenticateJWT, async (req, res) => {
 // Password reset endpoint (unchanged)
 router.post('/:id/reset-password',
     authenticateJWT,
-    authorizeRoles(Role.Admin),
+    requirePermission(Permission.UsersManage),
+    requireManageableUser,
     async (req, res) => {
         try {
             const { newPassword } = req.body;
             const userId = req.params.id;
 
             const result = await UsersService.resetPassword(userId, newPassword);
+            logSecurityEvent(req, SecurityEventType.PasswordReset, `Password reset by administrator for user ${userId}`);
             res.json(result);
         } catch (error: any) {
             console.error('Error resetting password:', error);
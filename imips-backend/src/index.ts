@@ -13,17 +13,31 @@ dotenv.config();
 
 import { initDB } from './utils/db';
 import { requestLogger } from './middlewares/requestLogger.middleware';
+import { blockedIpGuard, logSecurityEvent } from './middlewares/security.middleware';
+import { SecurityEventType } from './types';
 import logger from './utils/logger';
 
 import authController from './controllers/auth.controller';
+import twoFactorController from './controllers/twoFactor.controller';
 import usersController from './controllers/users.controller';
+import rolesController from './controllers/roles.controller';
 import inventoryController from './controllers/inventory.controller';
 import inquiriesController from './controllers/inquiries.controller';
 import emailsController from './controllers/emails.controller';
 import ordersController from './controllers/orders.controller';
 import backupController from './controllers/backup.controller';
 import discountsController from './controllers/discounts.controller';
+import sessionsController from './controllers/sessions.controller';
+import securityController from './controllers/security.controller';
+import newslettersController from './controllers/newsletters.controller';
+import publicInquiriesController from './controllers/publicInquiries.controller';
+import auditController from './controllers/audit.controller';
 import { ImageUtils } from './utils/imageUtils';
+import { NewslettersService } from './services/newsletters.service';
+import { EmailsService } from './services/emails.service';
+import { EmailAttachmentsService } from './services/emailAttachments.service';
+import { InquirySlaService } from './services/inquirySla.service';
+import { BackupScheduleService } from './services/backupSchedule.service';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
@@ -79,13 +93,23 @@ app.use(helmet({
 }));
 
 // CORS with specific options
-app.use(cors({
+const appCors = cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
   maxAge: 86400 // 24 hours
-}));
+});
+
+// Public endpoints are called from the company website, without credentials
+const publicCors = cors({
+  origin: process.env.PUBLIC_FORM_ORIGINS ? process.env.PUBLIC_FORM_ORIGINS.split(',').map(origin => origin.trim()) : '*',
+  methods: ['POST', 'OPTIONS'],
+  allowedHeaders: ['Content-Type'],
+  maxAge: 86400
+});
+
+app.use((req, res, next) => (req.path.startsWith('/api/public/') ? publicCors : appCors)(req, res, next));
 
 // =============================================
 // RATE LIMITING CONFIGURATION (SIMPLIFIED)
@@ -124,6 +148,17 @@ const sensitiveOpsLimiter = rateLimit({
   standardHeaders: true
 });
 
+// Public inquiry form submissions
+const publicIntakeLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // 5 inquiries per hour
+  message: {
+    error: 'Too many submissions',
+    message: 'You have sent several inquiries already. Please try again later.'
+  },
+  standardHeaders: true
+});
+
 // Slow down middleware
 const speedLimiter = slowDown({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -174,6 +209,7 @@ const pathTraversalProtection = (req: any, res: any, next: any) => {
   for (const pattern of traversalPatterns) {
     if (urlPath.includes(pattern)) {
       console.warn(`Path traversal attempt blocked: ${urlPath} from IP: ${req.ip}`);
+      logSecurityEvent(req, SecurityEventType.PathTraversal, `Path traversal pattern "${pattern}" in ${urlPath}`);
       return res.status(404).json({
         error: 'Path not found',
         message: 'The requested resource does not exist'
@@ -192,6 +228,7 @@ const pathTraversalProtection = (req: any, res: any, next: any) => {
   for (const pattern of sensitivePatterns) {
     if (pattern.test(urlPath)) {
       console.warn(`Sensitive file access attempt blocked: ${urlPath} from IP: ${req.ip}`);
+      logSecurityEvent(req, SecurityEventType.SensitiveFileAccess, `Sensitive file access attempt: ${urlPath}`);
       return res.status(404).json({
         error: 'Path not found',
         message: 'The requested resource does not exist'
@@ -206,7 +243,7 @@ const pathTraversalProtection = (req: any, res: any, next: any) => {
 const maintenanceMiddleware = (req: any, res: any, next: any) => {
   if (process.env.MAINTENANCE_MODE === 'true') {
     // Allow health checks and auth during maintenance
-    const allowedPaths = ['/api/auth/login', '/health', '/api/auth/register'];
+    const allowedPaths = ['/api/auth/login', '/health'];
     if (!allowedPaths.some(path => req.path.startsWith(path))) {
       return res.status(503).json({
         error: 'Service temporarily unavailable for maintenance',
@@ -232,6 +269,7 @@ const sqlInjectionProtection = (req: any, res: any, next: any) => {
   for (const pattern of sqlPatterns) {
     if (bodyString.includes(pattern) || queryString.includes(pattern)) {
       console.warn(`SQL injection attempt detected from IP: ${req.ip}`);
+      logSecurityEvent(req, SecurityEventType.SqlInjection, `Suspicious pattern "${pattern}" in request`);
       return res.status(400).json({
         error: 'Invalid request',
         message: 'The request contains suspicious patterns'
@@ -242,6 +280,9 @@ const sqlInjectionProtection = (req: any, res: any, next: any) => {
   next();
 };
 
+// Body fields that carry HTML written by staff on purpose, e.g. newsletter content
+const HTML_BODY_FIELDS = ['htmlContent'];
+
 // XSS protection middleware
 const xssProtection = (req: any, res: any, next: any) => {
   const sanitize = (obj: any): any => {
@@ -254,7 +295,7 @@ const xssProtection = (req: any, res: any, next: any) => {
     }
     if (obj && typeof obj === 'object') {
       return Object.keys(obj).reduce((acc, key) => {
-        acc[key] = sanitize(obj[key]);
+        acc[key] = HTML_BODY_FIELDS.includes(key) && typeof obj[key] === 'string' ? obj[key] : sanitize(obj[key]);
         return acc;
       }, {} as any);
     }
@@ -281,6 +322,7 @@ app.get('/health', (req, res) => {
 // APPLY SECURITY MIDDLEWARE
 // =============================================
 
+app.use(blockedIpGuard);
 app.use(pathTraversalProtection);
 app.use(maintenanceMiddleware);
 app.use(sqlInjectionProtection);
@@ -305,9 +347,9 @@ app.get('/api/csrf-token', csrfProtection, (req: any, res: any) => {
   });
 });
 
-// Apply CSRF protection to all routes except GET, HEAD, OPTIONS and auth
+// Apply CSRF protection to all routes except GET, HEAD, OPTIONS, auth and public endpoints
 app.use((req: any, res: any, next: any) => {
-  if (['GET', 'HEAD', 'OPTIONS'].includes(req.method) || req.path.startsWith('/api/auth/')) {
+  if (['GET', 'HEAD', 'OPTIONS'].includes(req.method) || req.path.startsWith('/api/auth/') || req.path.startsWith('/api/public/')) {
     return next();
   }
   csrfProtection(req, res, next);
@@ -317,8 +359,15 @@ app.use((req: any, res: any, next: any) => {
 // ROUTES WITH ENHANCED SECURITY
 // =============================================
 
-// Auth routes with aggressive rate limiting
-app.use('/api/auth', authLimiter, authController);
+// Aggressive rate limiting on the endpoints that check passwords, codes or
+// emailed tokens. Session endpoints (me, refresh, logout) and two-factor
+// management stay outside it, so an expired token does not use up logins.
+app.use(['/api/auth/login', '/api/auth/invitations/accept', '/api/auth/password-reset'], authLimiter);
+app.use('/api/auth/2fa', twoFactorController);
+app.use('/api/auth', authController);
+
+// Unauthenticated website intake with its own strict rate limit
+app.use('/api/public/inquiries', publicIntakeLimiter, publicInquiriesController);
 
 // Sensitive operations with strict rate limiting
 app.use('/api/backup', sensitiveOpsLimiter, backupController);
@@ -330,6 +379,11 @@ app.use('/api/inquiries', inquiriesController);
 app.use('/api/emails', emailsController);
 app.use('/api/orders', ordersController);
 app.use('/api/discounts', discountsController);
+app.use('/api/sessions', sessionsController);
+app.use('/api/roles', rolesController);
+app.use('/api/security', securityController);
+app.use('/api/newsletters', newslettersController);
+app.use('/api/audit', auditController);
 
 // =============================================
 // ERROR HANDLING MIDDLEWARE
@@ -387,6 +441,16 @@ app.use((error: any, req: any, res: any, next: any) => {
 // =============================================
 
 initDB({ seedData: true }).then(() => {
+  EmailAttachmentsService.moveLegacyBlobs().catch(error => {
+    console.error('Failed to move stored email attachments to disk:', error);
+  });
+  EmailsService.startOutboxWorker();
+  InquirySlaService.startChecker();
+  BackupScheduleService.startScheduler();
+  NewslettersService.resumeInterrupted().catch(error => {
+    console.error('Failed to resume newsletter delivery:', error);
+  });
+
   app.listen(PORT, () => {
     console.log(`🚀 Server running on port ${PORT}`);
     console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -1,18 +1,69 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/jwt.util';
+import { SessionsService } from '../services/sessions.service';
+import { AuthService } from '../services/auth.service';
+import { logSecurityEvent } from './security.middleware';
+import { SecurityEventType } from '../types';
 
-export const authenticateJWT = (req: Request, res: Response, next: NextFunction) => {
+// What a user who must change their password can still reach
+const PASSWORD_CHANGE_ROUTES = [/^\/api\/auth\/me$/, /^\/api\/users\/[^/]+\/change-password$/];
+
+export const authenticateJWT = async (req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
     if (!authHeader) return res.status(401).json({ message: 'Missing Authorization header' });
 
     const token = authHeader.split(' ')[1];
     if (!token) return res.status(401).json({ message: 'Token missing' });
 
+    let payload: any;
     try {
-        const payload = verifyAccessToken(token) as any;
-        (req as any).user = payload;
-        next();
+        payload = verifyAccessToken(token);
     } catch (err) {
         return res.status(401).json({ message: 'Invalid or expired token' });
     }
+
+    // The token must belong to a session that has not been logged out or revoked
+    try {
+        if (!payload.sid || !(await SessionsService.validate(payload.sid))) {
+            return res.status(401).json({ message: 'Session has ended, please log in again' });
+        }
+
+        // The flag in the token is rechecked so a changed password takes effect without a refresh
+        const path = req.baseUrl + req.path;
+        if (payload.mcp && !PASSWORD_CHANGE_ROUTES.some(route => route.test(path)) && (await AuthService.mustChangePassword(payload.sub))) {
+            return res.status(403).json({
+                error: 'Password change required',
+                message: 'You must change your password before continuing'
+            });
+        }
+    } catch (err) {
+        return next(err);
+    }
+
+    (req as any).user = payload;
+    next();
+};
+
+/**
+ * Require the authenticated user to re-enter their password in `req.body.password`.
+ * Must run after `authenticateJWT`.
+ */
+export const requirePasswordConfirmation = async (req: Request, res: Response, next: NextFunction) => {
+    const { password } = req.body || {};
+    if (!password) return res.status(400).json({ message: 'Password confirmation is required' });
+
+    try {
+        const userId = (req as any).user.sub;
+        if (!(await AuthService.verifyPassword(userId, password))) {
+            logSecurityEvent(req, SecurityEventType.PasswordConfirmationFailed, `Password confirmation failed for ${req.method} ${req.originalUrl}`);
+            return res.status(403).json({
+                error: 'Access denied',
+                message: 'Password confirmation failed'
+            });
+        }
+    } catch (err) {
+        return next(err);
+    }
+
+    next();
 };
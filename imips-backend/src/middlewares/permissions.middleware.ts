@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import { PermissionsService } from '../services/permissions.service';
+import { Permission } from '../types';
+
+/**
+ * Let the request through when the user holds any of the given permissions.
+ * Must run after `authenticateJWT`. The effective permissions are looked up on
+ * every request, so changes to roles take effect without signing in again, and
+ * are left on `req.permissions` for checks inside the handler.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const user = (req as any).user;
+
+        if (!user) {
+            return res.status(401).json({
+                error: 'Authentication required',
+                message: 'Please log in to access this resource'
+            });
+        }
+
+        try {
+            const granted = await PermissionsService.getEffectivePermissions(user.sub);
+            if (!permissions.some(permission => granted.includes(permission))) {
+                console.warn(`Unauthorized access attempt: User ${user.sub} without ${permissions.join(' or ')} tried to access ${req.method} ${req.originalUrl}`);
+
+                return res.status(403).json({
+                    error: 'Access denied',
+                    message: 'You do not have permission to access this resource'
+                });
+            }
+            (req as any).permissions = granted;
+        } catch (err) {
+            return next(err);
+        }
+
+        next();
+    };
+};
+
+/**
+ * Let the request through only when the user in `:id` cannot do anything the
+ * caller cannot, so managing accounts never hands out more access than the
+ * caller already has. Must run after `authenticateJWT`.
+ */
+export const requireManageableUser = async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+
+    try {
+        if (!(await PermissionsService.canManageUser(user.sub, req.params.id))) {
+            console.warn(`Unauthorized access attempt: User ${user.sub} tried to manage user ${req.params.id} who holds permissions they lack`);
+
+            return res.status(403).json({
+                error: 'Access denied',
+                message: 'You cannot manage a user who has permissions you do not have'
+            });
+        }
+    } catch (err) {
+        return next(err);
+    }
+
+    next();
+};
+
+/**
+ * Permission check inside a handler, for rules that depend on the request body
+ */
+export const hasPermission = async (req: Request, permission: Permission) => {
+    const granted: Permission[] | undefined = (req as any).permissions;
+    if (granted) return granted.includes(permission);
+    return PermissionsService.hasPermission((req as any).user.sub, permission);
+};
@@ -2,7 +2,7 @@
 import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger';
 
-const getClientIP = (req: Request) => {
+export const getClientIP = (req: Request) => {
     const forwarded = req.headers['x-forwarded-for'];
     if (forwarded) return Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0].trim();
     return req.ip || req.connection?.remoteAddress || 'unknown';
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import { SecurityService } from '../services/security.service';
+import { SessionsService } from '../services/sessions.service';
+import { PermissionsService } from '../services/permissions.service';
+import { verifyAccessToken } from '../utils/jwt.util';
+import { Permission, SecurityEventType } from '../types';
+
+// IPs that are never blocked, e.g. a reverse proxy or the admin workstation
+const IP_ALLOWLIST = (process.env.SECURITY_IP_ALLOWLIST || '')
+    .split(',')
+    .map(ip => ip.trim())
+    .filter(Boolean);
+
+/**
+ * Record a security event for the current request. Never throws, so it can be
+ * called without awaiting from middleware and route handlers.
+ */
+export const logSecurityEvent = (
+    req: Request,
+    type: SecurityEventType,
+    details?: string,
+    userId?: string
+) => {
+    SecurityService.record({
+        type,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        url: req.originalUrl,
+        userId: userId || (req as any).user?.sub,
+        details
+    }).catch(error => {
+        console.error('Error recording security event:', error);
+    });
+};
+
+// Whether the request carries a live session of someone who may lift blocks
+const isSecurityManager = async (req: Request) => {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) return false;
+
+    let payload: any;
+    try {
+        payload = verifyAccessToken(token);
+    } catch {
+        return false;
+    }
+    return !!payload.sid
+        && (await SessionsService.validate(payload.sid))
+        && (await PermissionsService.hasPermission(payload.sub, Permission.SecurityManage));
+};
+
+/**
+ * Reject every request coming from an IP that is currently blocked, except
+ * from signed-in security managers, who can always reach the unblock route
+ */
+export const blockedIpGuard = async (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip;
+    if (!ip || IP_ALLOWLIST.includes(ip)) return next();
+
+    try {
+        if ((await SecurityService.isBlocked(ip)) && !(await isSecurityManager(req))) {
+            return res.status(403).json({
+                error: 'Access denied',
+                message: 'Your IP address has been temporarily blocked'
+            });
+        }
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
@@ -1,7 +1,16 @@
 // src/middlewares/upload.middleware.ts
+import { NextFunction, Request, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
+import fs from 'fs';
 import { ImageUtils } from '../utils/imageUtils';
+import {
+    ALLOWED_ATTACHMENT_TYPES,
+    EMAIL_ATTACHMENTS_DIR,
+    MAX_ATTACHMENT_SIZE,
+    MAX_ATTACHMENTS_PER_EMAIL,
+    AttachmentFile
+} from '../services/emailAttachments.service';
 
 // Initialize multer storage configuration
 const createStorage = (type: 'user' | 'inventory' | 'items') => {
@@ -59,4 +68,53 @@ export const itemsUpload = multer({
     limits: {
         fileSize: 5 * 1024 * 1024 // 5MB limit
     }
-});
\ No newline at end of file
+});
+
+export const emailAttachmentUpload = multer({
+    storage: multer.diskStorage({
+        destination: EMAIL_ATTACHMENTS_DIR,
+        filename: (req, file, cb) => {
+            cb(null, ImageUtils.generateFilename(file.originalname));
+        }
+    }),
+    fileFilter: (req, file, cb) => {
+        if (ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+            cb(null, true);
+        } else {
+            cb(new Error(`Attachments of type ${file.mimetype} are not allowed`));
+        }
+    },
+    limits: {
+        fileSize: MAX_ATTACHMENT_SIZE,
+        files: MAX_ATTACHMENTS_PER_EMAIL
+    }
+});
+
+// Accept up to MAX_ATTACHMENTS_PER_EMAIL files in the `attachments` field, rejecting bad uploads with 400
+export const receiveEmailAttachments = (req: Request, res: Response, next: NextFunction) => {
+    emailAttachmentUpload.array('attachments', MAX_ATTACHMENTS_PER_EMAIL)(req, res, (error: any) => {
+        if (!error) return next();
+        if (error instanceof multer.MulterError) {
+            const messages: Record<string, string> = {
+                LIMIT_FILE_SIZE: 'Attachments must be 5 MB or smaller',
+                LIMIT_FILE_COUNT: `No more than ${MAX_ATTACHMENTS_PER_EMAIL} attachments are allowed`,
+                LIMIT_UNEXPECTED_FILE: `No more than ${MAX_ATTACHMENTS_PER_EMAIL} attachments are allowed`
+            };
+            return res.status(400).json({ message: messages[error.code] || error.message });
+        }
+        res.status(400).json({ message: error.message });
+    });
+};
+
+// Files received by receiveEmailAttachments, ready for EmailsService.sendEmail
+export const uploadedAttachments = (req: Request): AttachmentFile[] =>
+    ((req.files as Express.Multer.File[] | undefined) || []).map(file => ({
+        filename: file.originalname,
+        path: file.path,
+        contentType: file.mimetype
+    }));
+
+// Remove received files when the request fails before they are stored
+export const discardUploadedAttachments = (req: Request) => {
+    ((req.files as Express.Multer.File[] | undefined) || []).forEach(file => fs.rmSync(file.path, { force: true }));
+};
\ No newline at end of file
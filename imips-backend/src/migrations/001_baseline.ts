@@ -0,0 +1,103 @@
+import { Migration } from './helpers';
+
+// The schema of every install made before migrations were introduced
+const migration: Migration = {
+    version: 1,
+    name: 'baseline',
+
+    async up(database) {
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS users (
+              id TEXT PRIMARY KEY,
+              name TEXT,
+              email TEXT UNIQUE,
+              password TEXT,
+              role TEXT,
+              profilePictureUrl TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS inventory (
+              id TEXT PRIMARY KEY,
+              name TEXT,
+              sku TEXT,
+              quantity INTEGER,
+              threshold INTEGER,
+              category TEXT,
+              price REAL,
+              imageUrl TEXT,
+              warrantyPeriod INTEGER
+            );
+
+            CREATE TABLE IF NOT EXISTS inquiries (
+              id TEXT PRIMARY KEY,
+              customerName TEXT,
+              customerEmail TEXT,
+              inquiryDetails TEXT,
+              status TEXT,
+              assignedStaffId TEXT,
+              createdAt TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS orders (
+              id TEXT PRIMARY KEY,
+              customerName TEXT,
+              customerContact TEXT,
+              customerAddress TEXT,
+              customerEmail TEXT,
+              subtotal REAL,
+              discountAmount REAL,
+              total REAL,
+              createdAt TEXT,
+              createdBy TEXT,
+              status TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS order_items (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              orderId TEXT,
+              itemId TEXT,
+              name TEXT,
+              price REAL,
+              quantity INTEGER,
+              FOREIGN KEY (orderId) REFERENCES orders(id)
+            );
+
+            CREATE TABLE IF NOT EXISTS emails (
+              id TEXT PRIMARY KEY,
+              recipient TEXT,
+              subject TEXT,
+              body TEXT,
+              sentAt TEXT,
+              attachmentName TEXT,
+              attachmentData TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS discounts (
+              id TEXT PRIMARY KEY,
+              code TEXT UNIQUE,
+              description TEXT,
+              type TEXT,
+              value REAL,
+              condition TEXT,
+              isActive INTEGER DEFAULT 1,
+              usedCount INTEGER DEFAULT 0,
+              createdAt TEXT,
+              createdBy TEXT
+            );
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS discounts;
+            DROP TABLE IF EXISTS emails;
+            DROP TABLE IF EXISTS order_items;
+            DROP TABLE IF EXISTS orders;
+            DROP TABLE IF EXISTS inquiries;
+            DROP TABLE IF EXISTS inventory;
+            DROP TABLE IF EXISTS users;
+        `);
+    },
+};
+
+export default migration;
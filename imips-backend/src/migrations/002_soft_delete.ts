@@ -0,0 +1,27 @@
+import { addColumn, dropColumn, Migration } from './helpers';
+
+const ARCHIVABLE_TABLES = ['users', 'inventory', 'inquiries', 'orders', 'emails', 'discounts'];
+
+// Archiving instead of deleting
+const migration: Migration = {
+    version: 2,
+    name: 'soft_delete',
+
+    async up(database) {
+        for (const table of ARCHIVABLE_TABLES) {
+            await addColumn(database, table, 'isDeleted', 'INTEGER DEFAULT 0');
+            await addColumn(database, table, 'deletedAt', 'TEXT');
+            await addColumn(database, table, 'deletedBy', 'TEXT');
+        }
+    },
+
+    async down(database) {
+        for (const table of ARCHIVABLE_TABLES) {
+            await dropColumn(database, table, 'deletedBy');
+            await dropColumn(database, table, 'deletedAt');
+            await dropColumn(database, table, 'isDeleted');
+        }
+    },
+};
+
+export default migration;
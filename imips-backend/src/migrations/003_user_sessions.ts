@@ -0,0 +1,49 @@
+import { addColumn, dropColumn, Migration } from './helpers';
+
+// Login sessions and rotating refresh tokens
+const migration: Migration = {
+    version: 3,
+    name: 'user_sessions',
+
+    async up(database) {
+        await addColumn(database, 'users', 'lastActivity', 'TEXT');
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS sessions (
+              id TEXT PRIMARY KEY,
+              userId TEXT,
+              loginTime TEXT,
+              logoutTime TEXT,
+              expiresAt TEXT,
+              ip_address TEXT,
+              user_agent TEXT,
+              last_activity TEXT,
+              FOREIGN KEY (userId) REFERENCES users(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (userId, loginTime);
+
+            CREATE TABLE IF NOT EXISTS refresh_tokens (
+              id TEXT PRIMARY KEY,
+              userId TEXT,
+              familyId TEXT,
+              expiresAt TEXT,
+              createdAt TEXT,
+              revokedAt TEXT,
+              replacedBy TEXT,
+              FOREIGN KEY (userId) REFERENCES users(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens (familyId);
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS refresh_tokens;
+            DROP TABLE IF EXISTS sessions;
+        `);
+        await dropColumn(database, 'users', 'lastActivity');
+    },
+};
+
+export default migration;
@@ -0,0 +1,92 @@
+import { addColumn, dropColumn, Migration } from './helpers';
+
+// Password resets, invitations, two-factor authentication and lockouts
+const migration: Migration = {
+    version: 4,
+    name: 'account_security',
+
+    async up(database) {
+        await addColumn(database, 'users', 'mustChangePassword', 'INTEGER DEFAULT 0');
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS password_reset_tokens (
+              id TEXT PRIMARY KEY,
+              userId TEXT,
+              tokenHash TEXT UNIQUE,
+              expiresAt TEXT,
+              createdAt TEXT,
+              usedAt TEXT,
+              requestIp TEXT,
+              FOREIGN KEY (userId) REFERENCES users(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens (userId, createdAt);
+
+            CREATE TABLE IF NOT EXISTS user_invitations (
+              id TEXT PRIMARY KEY,
+              userId TEXT,
+              tokenHash TEXT UNIQUE,
+              expiresAt TEXT,
+              createdAt TEXT,
+              createdBy TEXT,
+              acceptedAt TEXT,
+              revokedAt TEXT,
+              FOREIGN KEY (userId) REFERENCES users(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_user_invitations_user ON user_invitations (userId, createdAt);
+
+            CREATE TABLE IF NOT EXISTS user_two_factor (
+              userId TEXT PRIMARY KEY,
+              secret TEXT,
+              enabledAt TEXT,
+              lastUsedStep INTEGER,
+              createdAt TEXT,
+              FOREIGN KEY (userId) REFERENCES users(id)
+            );
+
+            CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+              id TEXT PRIMARY KEY,
+              userId TEXT,
+              codeHash TEXT,
+              createdAt TEXT,
+              usedAt TEXT,
+              FOREIGN KEY (userId) REFERENCES users(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes (userId);
+
+            CREATE TABLE IF NOT EXISTS account_lockouts (
+              email TEXT PRIMARY KEY,
+              failedCount INTEGER DEFAULT 0,
+              lastFailedAt TEXT,
+              lockedUntil TEXT,
+              lockoutCount INTEGER DEFAULT 0,
+              anomalyReportedAt TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS login_failures (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              email TEXT,
+              ip TEXT,
+              userAgent TEXT,
+              createdAt TEXT
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_login_failures_email ON login_failures (email, createdAt);
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS login_failures;
+            DROP TABLE IF EXISTS account_lockouts;
+            DROP TABLE IF EXISTS two_factor_recovery_codes;
+            DROP TABLE IF EXISTS user_two_factor;
+            DROP TABLE IF EXISTS user_invitations;
+            DROP TABLE IF EXISTS password_reset_tokens;
+        `);
+        await dropColumn(database, 'users', 'mustChangePassword');
+    },
+};
+
+export default migration;
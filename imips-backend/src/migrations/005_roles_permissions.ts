@@ -0,0 +1,37 @@
+import { Migration } from './helpers';
+
+// Editable roles and per-user permission overrides
+const migration: Migration = {
+    version: 5,
+    name: 'roles_permissions',
+
+    async up(database) {
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS roles (
+              name TEXT PRIMARY KEY,
+              description TEXT,
+              permissions TEXT,
+              isSystem INTEGER DEFAULT 0,
+              createdAt TEXT,
+              updatedAt TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS user_permission_overrides (
+              userId TEXT,
+              permission TEXT,
+              granted INTEGER,
+              createdAt TEXT,
+              PRIMARY KEY (userId, permission)
+            );
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS user_permission_overrides;
+            DROP TABLE IF EXISTS roles;
+        `);
+    },
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import { Migration } from './helpers';
+
+// Ledger of every stock change
+const migration: Migration = {
+    version: 6,
+    name: 'inventory_movements',
+
+    async up(database) {
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS inventory_movements (
+              id TEXT PRIMARY KEY,
+              itemId TEXT,
+              type TEXT,
+              quantityChange INTEGER,
+              quantityAfter INTEGER,
+              reason TEXT,
+              relatedOrderId TEXT,
+              timestamp TEXT,
+              userId TEXT,
+              FOREIGN KEY (itemId) REFERENCES inventory(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_inventory_movements_item ON inventory_movements (itemId, timestamp);
+        `);
+    },
+
+    async down(database) {
+        await database.exec('DROP TABLE IF EXISTS inventory_movements;');
+    },
+};
+
+export default migration;
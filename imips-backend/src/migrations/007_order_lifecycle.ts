@@ -0,0 +1,62 @@
+import { addColumn, dropColumn, Migration } from './helpers';
+
+// Applied discounts, status history and returns
+const migration: Migration = {
+    version: 7,
+    name: 'order_lifecycle',
+
+    async up(database) {
+        await addColumn(database, 'orders', 'applied_discount_id', 'TEXT');
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS order_status_history (
+              id TEXT PRIMARY KEY,
+              orderId TEXT,
+              fromStatus TEXT,
+              toStatus TEXT,
+              note TEXT,
+              changedBy TEXT,
+              changedAt TEXT,
+              FOREIGN KEY (orderId) REFERENCES orders(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history (orderId, changedAt);
+
+            CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items (orderId);
+
+            CREATE TABLE IF NOT EXISTS order_returns (
+              id TEXT PRIMARY KEY,
+              orderId TEXT,
+              refundAmount REAL,
+              reason TEXT,
+              createdBy TEXT,
+              createdAt TEXT,
+              FOREIGN KEY (orderId) REFERENCES orders(id)
+            );
+
+            CREATE TABLE IF NOT EXISTS order_return_items (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              returnId TEXT,
+              orderItemId INTEGER,
+              itemId TEXT,
+              quantity INTEGER,
+              disposition TEXT,
+              FOREIGN KEY (returnId) REFERENCES order_returns(id),
+              FOREIGN KEY (orderItemId) REFERENCES order_items(id)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_order_returns_order ON order_returns (orderId);
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS order_return_items;
+            DROP TABLE IF EXISTS order_returns;
+            DROP INDEX IF EXISTS idx_order_items_order;
+            DROP TABLE IF EXISTS order_status_history;
+        `);
+        await dropColumn(database, 'orders', 'applied_discount_id');
+    },
+};
+
+export default migration;
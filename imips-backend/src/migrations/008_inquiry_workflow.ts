@@ -0,0 +1,34 @@
+import { addColumn, dropColumn, Migration } from './helpers';
+
+// Response threads and SLA escalation
+const migration: Migration = {
+    version: 8,
+    name: 'inquiry_workflow',
+
+    async up(database) {
+        await addColumn(database, 'inquiries', 'escalatedAt', 'TEXT');
+        await addColumn(database, 'inquiries', 'escalatedTo', 'TEXT');
+        await addColumn(database, 'inquiries', 'escalatedFor', 'TEXT');
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS inquiry_responses (
+              id TEXT PRIMARY KEY,
+              inquiry_id TEXT NOT NULL,
+              response_message TEXT NOT NULL,
+              responded_by_user_id TEXT NOT NULL,
+              email_id TEXT,
+              created_at TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_inquiry_responses_inquiry ON inquiry_responses (inquiry_id, created_at);
+        `);
+    },
+
+    async down(database) {
+        await database.exec('DROP TABLE IF EXISTS inquiry_responses;');
+        await dropColumn(database, 'inquiries', 'escalatedFor');
+        await dropColumn(database, 'inquiries', 'escalatedTo');
+        await dropColumn(database, 'inquiries', 'escalatedAt');
+    },
+};
+
+export default migration;
@@ -0,0 +1,76 @@
+import { addColumn, dropColumn, Migration } from './helpers';
+
+const OUTBOX_COLUMNS: [string, string][] = [
+    ['status', `TEXT NOT NULL DEFAULT 'sent'`],
+    ['attempts', 'INTEGER NOT NULL DEFAULT 0'],
+    ['lastError', 'TEXT'],
+    ['nextAttemptAt', 'TEXT'],
+    ['messageId', 'TEXT'],
+    ['createdAt', 'TEXT'],
+];
+
+// Outbox with retries, attachments on disk and newsletters
+const migration: Migration = {
+    version: 9,
+    name: 'email_delivery',
+
+    async up(database) {
+        for (const [column, definition] of OUTBOX_COLUMNS) {
+            await addColumn(database, 'emails', column, definition);
+        }
+        await database.exec(`
+            CREATE INDEX IF NOT EXISTS idx_emails_outbox ON emails (status, nextAttemptAt);
+
+            CREATE TABLE IF NOT EXISTS email_attachments (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              emailId TEXT NOT NULL,
+              name TEXT NOT NULL,
+              storedName TEXT NOT NULL,
+              contentType TEXT NOT NULL,
+              size INTEGER NOT NULL,
+              createdAt TEXT NOT NULL,
+              UNIQUE (emailId, name)
+            );
+
+            CREATE TABLE IF NOT EXISTS newsletters (
+              id TEXT PRIMARY KEY,
+              subject TEXT NOT NULL,
+              html_content TEXT NOT NULL,
+              recipient_group TEXT NOT NULL,
+              total_recipients INTEGER DEFAULT 0,
+              success_count INTEGER DEFAULT 0,
+              fail_count INTEGER DEFAULT 0,
+              status TEXT NOT NULL,
+              sent_by_user_id TEXT,
+              created_at TEXT NOT NULL,
+              completed_at TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS newsletter_recipients (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              newsletter_id TEXT NOT NULL,
+              email TEXT NOT NULL,
+              status TEXT NOT NULL,
+              error TEXT,
+              attempts INTEGER DEFAULT 0,
+              sent_at TEXT,
+              FOREIGN KEY (newsletter_id) REFERENCES newsletters(id),
+              UNIQUE (newsletter_id, email)
+            );
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS newsletter_recipients;
+            DROP TABLE IF EXISTS newsletters;
+            DROP TABLE IF EXISTS email_attachments;
+            DROP INDEX IF EXISTS idx_emails_outbox;
+        `);
+        for (const [column] of [...OUTBOX_COLUMNS].reverse()) {
+            await dropColumn(database, 'emails', column);
+        }
+    },
+};
+
+export default migration;
@@ -0,0 +1,77 @@
+import { Migration } from './helpers';
+
+// Application settings, security and audit logs, IP blocking and backup runs
+const migration: Migration = {
+    version: 10,
+    name: 'settings_and_logs',
+
+    async up(database) {
+        await database.exec(`
+            CREATE TABLE IF NOT EXISTS settings (
+              key TEXT PRIMARY KEY,
+              value TEXT NOT NULL,
+              updatedAt TEXT,
+              updatedBy TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS backup_runs (
+              id TEXT PRIMARY KEY,
+              trigger TEXT NOT NULL,
+              startedAt TEXT NOT NULL,
+              finishedAt TEXT NOT NULL,
+              success INTEGER NOT NULL,
+              filename TEXT,
+              error TEXT,
+              pruned INTEGER DEFAULT 0,
+              triggeredBy TEXT
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_backup_runs_started ON backup_runs (startedAt);
+
+            CREATE TABLE IF NOT EXISTS security_logs (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              event_type TEXT NOT NULL,
+              ip_address TEXT,
+              user_agent TEXT,
+              url TEXT,
+              user_id TEXT,
+              details TEXT,
+              created_at TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_security_logs_ip ON security_logs (ip_address, created_at);
+
+            CREATE TABLE IF NOT EXISTS audit_log (
+              id TEXT PRIMARY KEY,
+              entityType TEXT NOT NULL,
+              entityId TEXT NOT NULL,
+              action TEXT NOT NULL,
+              actorId TEXT,
+              changes TEXT NOT NULL,
+              createdAt TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entityType, entityId, createdAt);
+
+            CREATE TABLE IF NOT EXISTS blocked_ips (
+              ip TEXT PRIMARY KEY,
+              reason TEXT,
+              blockedAt TEXT NOT NULL,
+              expiresAt TEXT NOT NULL,
+              pathsAttempted INTEGER DEFAULT 0
+            );
+        `);
+    },
+
+    async down(database) {
+        await database.exec(`
+            DROP TABLE IF EXISTS blocked_ips;
+            DROP TABLE IF EXISTS audit_log;
+            DROP TABLE IF EXISTS security_logs;
+            DROP TABLE IF EXISTS backup_runs;
+            DROP TABLE IF EXISTS settings;
+        `);
+    },
+};
+
+export default migration;
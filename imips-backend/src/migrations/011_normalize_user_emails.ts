@@ -0,0 +1,26 @@
+import { Migration } from './helpers';
+
+// Emails were once stored as typed, so lookups missed accounts whose address
+// differed only in case. Addresses that would collide once lower-cased are left
+// as they are for an administrator to merge or rename.
+const migration: Migration = {
+    version: 11,
+    name: 'normalize_user_emails',
+
+    async up(database) {
+        await database.exec(`
+            UPDATE users SET email = LOWER(TRIM(email))
+            WHERE email IS NOT NULL
+              AND email != LOWER(TRIM(email))
+              AND NOT EXISTS (
+                SELECT 1 FROM users other
+                WHERE other.id != users.id AND LOWER(TRIM(other.email)) = LOWER(TRIM(users.email))
+              );
+        `);
+    },
+
+    // The original spelling is not kept, and lower-cased addresses work either way
+    async down() {},
+};
+
+export default migration;
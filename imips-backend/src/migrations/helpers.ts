@@ -0,0 +1,34 @@
+import { Database } from 'sqlite';
+import sqlite3 from 'sqlite3';
+
+export type MigrationDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+/**
+ * One numbered schema change. `down` must undo exactly what `up` did.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (database: MigrationDatabase) => Promise<void>;
+    down: (database: MigrationDatabase) => Promise<void>;
+}
+
+export const hasColumn = async (database: MigrationDatabase, table: string, column: string): Promise<boolean> => {
+    const columns = await database.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+    return columns.some(c => c.name === column);
+};
+
+/**
+ * Add a column unless it is already there. Databases created before migrations
+ * existed may have any subset of the later columns, so additions must not fail
+ * when they have already been made.
+ */
+export const addColumn = async (database: MigrationDatabase, table: string, column: string, definition: string): Promise<void> => {
+    if (await hasColumn(database, table, column)) return;
+    await database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+};
+
+export const dropColumn = async (database: MigrationDatabase, table: string, column: string): Promise<void> => {
+    if (!(await hasColumn(database, table, column))) return;
+    await database.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+};
@@ -0,0 +1,32 @@
+import { Migration } from './helpers';
+import baseline from './001_baseline';
+import softDelete from './002_soft_delete';
+import userSessions from './003_user_sessions';
+import accountSecurity from './004_account_security';
+import rolesPermissions from './005_roles_permissions';
+import inventoryMovements from './006_inventory_movements';
+import orderLifecycle from './007_order_lifecycle';
+import inquiryWorkflow from './008_inquiry_workflow';
+import emailDelivery from './009_email_delivery';
+import settingsAndLogs from './010_settings_and_logs';
+import normalizeUserEmails from './011_normalize_user_emails';
+
+/**
+ * Every migration in version order. Add new files here with the next number;
+ * never renumber or edit a migration that has been released.
+ */
+export const MIGRATIONS: Migration[] = [
+    baseline,
+    softDelete,
+    userSessions,
+    accountSecurity,
+    rolesPermissions,
+    inventoryMovements,
+    orderLifecycle,
+    inquiryWorkflow,
+    emailDelivery,
+    settingsAndLogs,
+    normalizeUserEmails,
+];
+
+export type { Migration, MigrationDatabase } from './helpers';
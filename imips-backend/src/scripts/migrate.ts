@@ -0,0 +1,68 @@
+import { initDB } from "../utils/db";
+import { getMigrationStatus, migrateDown, migrateUp } from "../utils/migrator";
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+  status           List migrations and whether each has been applied
+  up [version]     Apply pending migrations, up to the given version or the latest
+  down [version]   Revert migrations down to the given version, or only the latest one`;
+
+const parseVersion = (value: string | undefined) => {
+    if (value === undefined) return undefined;
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`Invalid version: ${value}`);
+    }
+    return version;
+};
+
+/**
+ * Schema migration commands
+ * Run with: npx ts-node src/scripts/migrate.ts <status|up|down> [version]
+ */
+const runMigrations = async (args: string[]) => {
+    const [command, versionArg] = args;
+    if (!command || !['status', 'up', 'down'].includes(command)) {
+        console.log(USAGE);
+        process.exit(command ? 1 : 0);
+    }
+
+    try {
+        const version = parseVersion(versionArg);
+        const database = await initDB({ seedData: false, migrate: false });
+
+        if (command === 'up') {
+            const applied = await migrateUp(database, version);
+            console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Schema is up to date');
+        }
+
+        if (command === 'down') {
+            const status = await getMigrationStatus(database);
+            const current = Math.max(0, ...status.filter(m => m.appliedAt).map(m => m.version));
+            const target = version ?? Math.max(0, current - 1);
+            const reverted = await migrateDown(database, target);
+            console.log(reverted.length > 0 ? `✅ Reverted ${reverted.length} migration(s)` : '✅ Nothing to revert');
+        }
+
+        const status = await getMigrationStatus(database);
+        console.log('\n📋 Migrations:');
+        for (const migration of status) {
+            const state = !migration.appliedAt
+                ? 'pending'
+                : `applied ${migration.appliedAt}${migration.adopted ? ' (adopted)' : ''}`;
+            console.log(`   ${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(24)} ${state}`);
+        }
+
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+    runMigrations(process.argv.slice(2));
+}
+
+export { runMigrations };
@@ -0,0 +1,207 @@
+import { getDB, withTransaction } from '../utils/db';
+import { SecurityEventType } from '../types';
+import { escapeHtml } from '../utils/html';
+import { EmailsService } from './emails.service';
+import { SecurityService } from './security.service';
+import logger from '../utils/logger';
+
+// Consecutive failures that lock an account
+const LOCKOUT_THRESHOLD = Number(process.env.ACCOUNT_LOCKOUT_THRESHOLD) || 5;
+// The first lockout lasts this long; each further one doubles it, up to the maximum
+const LOCKOUT_BASE_MS = (Number(process.env.ACCOUNT_LOCKOUT_MINUTES) || 5) * 60 * 1000;
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+// Failures further apart than this start counting from scratch
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Failures against one account from this many addresses within the anomaly window look like a distributed attack
+const ANOMALY_ADDRESS_THRESHOLD = Number(process.env.LOGIN_ANOMALY_ADDRESS_THRESHOLD) || 3;
+const ANOMALY_WINDOW_MS = 60 * 60 * 1000;
+
+interface LockoutRow {
+    email: string;
+    failedCount: number;
+    lastFailedAt: string | null;
+    lockedUntil: string | null;
+    lockoutCount: number;
+    anomalyReportedAt: string | null;
+}
+
+export class AccountLockedError extends Error {
+    constructor(public readonly lockedUntil: string, public readonly newlyLocked = false) {
+        super('Too many failed sign-in attempts. This account is temporarily locked; try again later or reset your password.');
+        this.name = 'AccountLockedError';
+    }
+}
+
+// Counters are kept per email address whether or not an account exists, so a lockout does not reveal which accounts do
+const normalizeEmail = (email: any) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+const lockoutDuration = (lockoutCount: number) => Math.min(LOCKOUT_BASE_MS * 2 ** (lockoutCount - 1), LOCKOUT_MAX_MS);
+
+export class AccountLockoutService {
+    static async assertNotLocked(email: string): Promise<void> {
+        const row = await getDB().get<LockoutRow>('SELECT * FROM account_lockouts WHERE email = ?', [normalizeEmail(email)]);
+        if (row?.lockedUntil && new Date(row.lockedUntil) > new Date()) {
+            throw new AccountLockedError(row.lockedUntil);
+        }
+    }
+
+    /**
+     * Count a failed password or two-factor code. Throws AccountLockedError
+     * when this failure locks the account; the owner is emailed.
+     */
+    static async recordFailure(email: string, context: { ip?: string; userAgent?: string } = {}): Promise<void> {
+        const key = normalizeEmail(email);
+        if (!key) return;
+
+        const database = getDB();
+        const now = new Date();
+        const lockedUntil = await withTransaction(async () => {
+            const row = await database.get<LockoutRow>('SELECT * FROM account_lockouts WHERE email = ?', [key]);
+            const stale = !row?.lastFailedAt || now.getTime() - new Date(row.lastFailedAt).getTime() > FAILURE_WINDOW_MS;
+            const failedCount = (stale ? 0 : row!.failedCount) + 1;
+            const previousLockouts = stale ? 0 : row!.lockoutCount;
+
+            await database.run('DELETE FROM login_failures WHERE createdAt < ?', [new Date(now.getTime() - FAILURE_WINDOW_MS).toISOString()]);
+            await database.run(
+                'INSERT INTO login_failures (email, ip, userAgent, createdAt) VALUES (?, ?, ?, ?)',
+                [key, context.ip || null, context.userAgent || null, now.toISOString()]
+            );
+
+            const locks = failedCount >= LOCKOUT_THRESHOLD;
+            const lockoutCount = locks ? previousLockouts + 1 : previousLockouts;
+            const until = locks ? new Date(now.getTime() + lockoutDuration(lockoutCount)).toISOString() : null;
+            await database.run(
+                `INSERT INTO account_lockouts (email, failedCount, lastFailedAt, lockedUntil, lockoutCount) VALUES (?, ?, ?, ?, ?)
+                 ON CONFLICT(email) DO UPDATE SET failedCount = excluded.failedCount, lastFailedAt = excluded.lastFailedAt,
+                     lockedUntil = excluded.lockedUntil, lockoutCount = excluded.lockoutCount`,
+                [key, locks ? 0 : failedCount, now.toISOString(), until, lockoutCount]
+            );
+            return until;
+        });
+
+        await this.detectDistributedAttack(key, context);
+
+        if (lockedUntil) {
+            logger.warn('Account locked after repeated sign-in failures', { email: key, lockedUntil });
+            this.notifyOwner(key, lockedUntil).catch(error => {
+                console.error('Error sending account lockout email:', error);
+            });
+            throw new AccountLockedError(lockedUntil, true);
+        }
+    }
+
+    /**
+     * Reset the counters after a complete sign-in. A success that follows a
+     * run of failures is logged as an anomaly: it may be a guessed password.
+     */
+    static async recordSuccess(email: string, userId: string, context: { ip?: string; userAgent?: string } = {}): Promise<void> {
+        const key = normalizeEmail(email);
+        const database = getDB();
+        const recent = await database.get<{ failures: number; addresses: number }>(
+            'SELECT COUNT(*) as failures, COUNT(DISTINCT ip) as addresses FROM login_failures WHERE email = ? AND createdAt > ?',
+            [key, new Date(Date.now() - FAILURE_WINDOW_MS).toISOString()]
+        );
+        if (!recent?.failures) return;
+
+        if (recent.failures >= LOCKOUT_THRESHOLD) {
+            await SecurityService.record({
+                type: SecurityEventType.LoginAnomaly,
+                ip: context.ip,
+                userAgent: context.userAgent,
+                userId,
+                details: `Successful sign-in after ${recent.failures} failed attempts from ${recent.addresses} address(es)`,
+            });
+        }
+        await this.clear(key);
+    }
+
+    static async clear(email: string): Promise<void> {
+        const key = normalizeEmail(email);
+        await withTransaction(async () => {
+            await getDB().run('DELETE FROM login_failures WHERE email = ?', [key]);
+            await getDB().run('DELETE FROM account_lockouts WHERE email = ?', [key]);
+        });
+    }
+
+    /**
+     * Lift the lockout of a user, e.g. by an administrator or after a password reset
+     */
+    static async clearForUser(userId: string): Promise<void> {
+        const user = await getDB().get<{ email: string }>('SELECT email FROM users WHERE id = ?', [userId]);
+        if (user) await this.clear(user.email);
+    }
+
+    static async getLockedUntil(email: string): Promise<string | undefined> {
+        const row = await getDB().get<{ lockedUntil: string }>(
+            'SELECT lockedUntil FROM account_lockouts WHERE email = ? AND lockedUntil > ?',
+            [normalizeEmail(email), new Date().toISOString()]
+        );
+        return row?.lockedUntil;
+    }
+
+    /**
+     * End of the current lockout by locked user id
+     */
+    static async getLockedUsers(): Promise<Map<string, string>> {
+        const rows = await getDB().all<{ id: string; lockedUntil: string }[]>(
+            `SELECT u.id, l.lockedUntil
+             FROM account_lockouts l
+             JOIN users u ON lower(u.email) = l.email
+             WHERE l.lockedUntil > ?`,
+            [new Date().toISOString()]
+        );
+        return new Map(rows.map(row => [row.id, row.lockedUntil]));
+    }
+
+    /**
+     * Log failures against one account coming from many addresses, once per window
+     */
+    private static async detectDistributedAttack(key: string, context: { ip?: string; userAgent?: string }) {
+        const database = getDB();
+        const since = new Date(Date.now() - ANOMALY_WINDOW_MS).toISOString();
+        const recent = await database.get<{ addresses: number; failures: number }>(
+            'SELECT COUNT(DISTINCT ip) as addresses, COUNT(*) as failures FROM login_failures WHERE email = ? AND createdAt > ?',
+            [key, since]
+        );
+        if (!recent || recent.addresses < ANOMALY_ADDRESS_THRESHOLD) return;
+
+        const claim = await database.run(
+            'UPDATE account_lockouts SET anomalyReportedAt = ? WHERE email = ? AND (anomalyReportedAt IS NULL OR anomalyReportedAt <= ?)',
+            [new Date().toISOString(), key, since]
+        );
+        if (!claim.changes) return;
+
+        const user = await database.get<{ id: string }>('SELECT id FROM users WHERE lower(email) = ? AND isDeleted = 0', [key]);
+        await SecurityService.record({
+            type: SecurityEventType.LoginAnomaly,
+            ip: context.ip,
+            userAgent: context.userAgent,
+            userId: user?.id,
+            details: `${recent.failures} failed sign-ins for ${key} from ${recent.addresses} different addresses within ${ANOMALY_WINDOW_MS / 60000} minutes`,
+        });
+    }
+
+    private static async notifyOwner(key: string, lockedUntil: string) {
+        const database = getDB();
+        const user = await database.get<{ name: string; email: string }>(
+            'SELECT name, email FROM users WHERE lower(email) = ? AND isDeleted = 0',
+            [key]
+        );
+        if (!user) return;
+
+        const addresses = await database.all<{ ip: string }[]>(
+            'SELECT DISTINCT ip FROM login_failures WHERE email = ? AND ip IS NOT NULL AND createdAt > ? ORDER BY ip',
+            [key, new Date(Date.now() - FAILURE_WINDOW_MS).toISOString()]
+        );
+        await EmailsService.sendEmail({
+            recipient: user.email,
+            subject: 'Your account has been locked',
+            body: [
+                `<p>Hello ${escapeHtml(user.name || '')},</p>`,
+                `<p>Your account was locked after ${LOCKOUT_THRESHOLD} failed sign-in attempts. You can sign in again after ${new Date(lockedUntil).toUTCString()}.</p>`,
+                addresses.length > 0 ? `<p>The attempts came from: ${addresses.map(row => escapeHtml(row.ip)).join(', ')}</p>` : '',
+                '<p>If this was not you, someone may be trying to guess your password. Reset your password from the sign-in page, which also unlocks the account, or ask an administrator to unlock it.</p>',
+            ].filter(Boolean).join('\n'),
+        });
+    }
+}
@@ -0,0 +1,112 @@
+import { getDB } from '../utils/db';
+import { AuditAction, AuditChange, AuditEntityType, AuditLogEntry, PaginatedResponse } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { ListParams, runListQuery } from '../utils/listQuery';
+
+export interface RecordAuditInput {
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    actorId?: string | null;
+    changes?: Record<string, AuditChange>;
+}
+
+export interface AuditDateRange {
+    from?: string;
+    to?: string;
+}
+
+type AuditRow = Omit<AuditLogEntry, 'changes'> & { changes: string };
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Range bounds in the stored timestamp format, so they compare as strings.
+// A date-only `to` covers the whole of that day (UTC).
+const rangeStart = (from: string) => new Date(from).toISOString();
+const rangeEnd = (to: string) =>
+    new Date(new Date(to).getTime() + (DATE_ONLY.test(to) ? DAY_MS - 1 : 0)).toISOString();
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Who changed what. Services record their own mutations so every caller of a
+ * service method is covered, not only the HTTP routes.
+ */
+export class AuditService {
+    /**
+     * Store one entry. Updates that did not change any audited field are skipped.
+     */
+    static async record(input: RecordAuditInput): Promise<void> {
+        const changes = input.changes || {};
+        if (input.action === AuditAction.Update && Object.keys(changes).length === 0) return;
+
+        const database = getDB();
+        await database.run(
+            `INSERT INTO audit_log (id, entityType, entityId, action, actorId, changes, createdAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), input.entityType, input.entityId, input.action, input.actorId || null, JSON.stringify(changes), new Date().toISOString()]
+        );
+    }
+
+    /**
+     * The audited fields whose value differs between two versions of a record
+     */
+    static diff(before: Record<string, any>, after: Record<string, any>, fields: readonly string[]): Record<string, AuditChange> {
+        const changes: Record<string, AuditChange> = {};
+        for (const field of fields) {
+            if (!sameValue(before[field], after[field])) {
+                changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * The audited fields of a record that was just created or is about to be deleted
+     */
+    static snapshot(record: Record<string, any>, fields: readonly string[], action: AuditAction.Create | AuditAction.Delete) {
+        const changes: Record<string, AuditChange> = {};
+        for (const field of fields) {
+            const value = record[field] ?? null;
+            changes[field] = action === AuditAction.Create ? { from: null, to: value } : { from: value, to: null };
+        }
+        return changes;
+    }
+
+    static isValidEntityType(entityType: string): entityType is AuditEntityType {
+        return (Object.values(AuditEntityType) as string[]).includes(entityType);
+    }
+
+    static isValidAction(action: string): action is AuditAction {
+        return (Object.values(AuditAction) as string[]).includes(action);
+    }
+
+    static async list(params: ListParams, range: AuditDateRange = {}): Promise<PaginatedResponse<AuditLogEntry>> {
+        const where: string[] = [];
+        const values: any[] = [];
+        if (range.from) {
+            where.push('a.createdAt >= ?');
+            values.push(rangeStart(range.from));
+        }
+        if (range.to) {
+            where.push('a.createdAt <= ?');
+            values.push(rangeEnd(range.to));
+        }
+
+        const result = await runListQuery<AuditRow>({
+            from: 'audit_log a LEFT JOIN users u ON u.id = a.actorId',
+            select: 'a.*, u.name as actorName',
+            where,
+            params: values,
+            sortable: { createdAt: 'a.createdAt', entityType: 'a.entityType', action: 'a.action' },
+            searchable: ['a.changes', 'u.name'],
+            filterable: { entityType: 'a.entityType', entityId: 'a.entityId', action: 'a.action', actorId: 'a.actorId' },
+            defaultSort: 'createdAt',
+            defaultOrder: 'DESC',
+            idColumn: 'a.id'
+        }, params);
+
+        return { ...result, data: result.data.map(row => ({ ...row, changes: JSON.parse(row.changes) })) };
+    }
+}
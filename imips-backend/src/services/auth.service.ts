@@ -1,52 +1,280 @@
 import bcrypt from 'bcrypt';
 import { getDB } from '../utils/db';
-import { User } from '../types';
+import { TwoFactorSetup, User } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt.util';
+import {
+    generateAccessToken, generateChallengeToken, generateRefreshToken, verifyChallengeToken, verifyRefreshToken
+} from '../utils/jwt.util';
+import { UsersService } from './users.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorError, TwoFactorService } from './twoFactor.service';
+import { AccountLockoutService } from './accountLockout.service';
+import { PermissionsService } from './permissions.service';
+
+export interface ClientContext {
+    ip?: string;
+    userAgent?: string;
+}
+
+// What the challenge token issued after a correct password lets the client do next
+type ChallengePurpose = 'two_factor' | 'two_factor_setup';
+
+type UserRow = User & { password: string };
+
+interface RefreshTokenRow {
+    id: string;
+    userId: string;
+    familyId: string;
+    expiresAt: string;
+    createdAt: string;
+    revokedAt: string | null;
+    replacedBy: string | null;
+}
 
 export class AuthService {
-    static async register(name: string, email: string, password: string, role: string) {
+    /**
+     * Check an email and password. Users with two-factor authentication get a
+     * challenge token to exchange for a session together with a code; users
+     * whose role requires it but who have not enrolled get one to enrol with.
+     * Throws AccountLockedError while the account is locked.
+     */
+    static async login(rawEmail: string, password: string, context: ClientContext = {}) {
+        const email = UsersService.normalizeEmail(rawEmail);
+        await AccountLockoutService.assertNotLocked(email);
+
         const database = getDB();
-        const hashedPassword = await bcrypt.hash(password, 10);
-        const id = uuidv4();
-        
-        await database.run(
-            'INSERT INTO users (id, name, email, password, role, profilePictureUrl) VALUES (?, ?, ?, ?, ?, ?)',
-            [id, name, email, hashedPassword, role, null]
+        const user = await database.get<UserRow>(
+            'SELECT * FROM users WHERE email=? AND isDeleted = 0', 
+            [email]
         );
         
-        const user = { id, name, email, role };
-        const accessToken = generateAccessToken({ sub: id, email, role });
-        const refreshToken = generateRefreshToken({ sub: id });
+        if (!user) {
+            await AccountLockoutService.recordFailure(email, context);
+            return null;
+        }
         
-        return { user, accessToken, refreshToken };
+        const match = await bcrypt.compare(password, user.password);
+        if (!match) {
+            await AccountLockoutService.recordFailure(email, context);
+            return null;
+        }
+
+        if (await TwoFactorService.isEnabled(user.id)) {
+            return { twoFactorRequired: true, challengeToken: this.issueChallenge(user.id, 'two_factor') };
+        }
+        if (await TwoFactorService.isRequired(user.role)) {
+            return { twoFactorSetupRequired: true, challengeToken: this.issueChallenge(user.id, 'two_factor_setup') };
+        }
+
+        await AccountLockoutService.recordSuccess(user.email, user.id, context);
+        return this.startSession(user, context);
+    }
+
+    /**
+     * Second login step: exchange a challenge token and an authenticator or
+     * recovery code for a session. Null when the challenge is invalid or expired.
+     */
+    static async completeTwoFactorLogin(challengeToken: string, code: string, context: ClientContext = {}) {
+        const user = await this.resolveChallenge(challengeToken, 'two_factor');
+        if (!user) return null;
+        await AccountLockoutService.assertNotLocked(user.email);
+
+        const method = await TwoFactorService.verify(user.id, code);
+        if (!method) {
+            await AccountLockoutService.recordFailure(user.email, context);
+            throw new TwoFactorError('Invalid authentication code', true);
+        }
+        await AccountLockoutService.recordSuccess(user.email, user.id, context);
+        return { ...(await this.startSession(user, context)), method };
+    }
+
+    /**
+     * Enrolment at login for a user whose role requires two-factor authentication
+     */
+    static async beginRequiredTwoFactorSetup(challengeToken: string): Promise<TwoFactorSetup | null> {
+        const user = await this.resolveChallenge(challengeToken, 'two_factor_setup');
+        if (!user) return null;
+        return TwoFactorService.beginSetup(user.id, user.email);
+    }
+
+    static async completeRequiredTwoFactorSetup(challengeToken: string, code: string, context: ClientContext = {}) {
+        const user = await this.resolveChallenge(challengeToken, 'two_factor_setup');
+        if (!user) return null;
+        await AccountLockoutService.assertNotLocked(user.email);
+
+        let recoveryCodes: string[];
+        try {
+            recoveryCodes = await TwoFactorService.enable(user.id, code);
+        } catch (error) {
+            if (error instanceof TwoFactorError && error.invalidCode) {
+                await AccountLockoutService.recordFailure(user.email, context);
+            }
+            throw error;
+        }
+        await AccountLockoutService.recordSuccess(user.email, user.id, context);
+        return { ...(await this.startSession(user, context)), recoveryCodes };
     }
 
-    static async login(email: string, password: string) {
+    /**
+     * Exchange a refresh token for a new access/refresh pair. Each refresh token
+     * can be used once; presenting one that was already rotated means it has
+     * leaked, so the session it belongs to is revoked.
+     */
+    static async refresh(refreshToken: string) {
+        const payload = this.decodeRefreshToken(refreshToken);
+        if (!payload) return null;
+
         const database = getDB();
-        const user = await database.get<User & { password: string }>(
-            'SELECT * FROM users WHERE email=?', 
-            [email]
+        const stored = await database.get<RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE id = ?', [payload.jti]);
+        if (!stored || stored.userId !== payload.sub) return null;
+
+        if (stored.revokedAt) {
+            if (stored.replacedBy) {
+                console.warn(`Refresh token reuse detected for user ${stored.userId}, revoking session ${stored.familyId}`);
+                await SessionsService.revoke(stored.familyId);
+            }
+            return null;
+        }
+
+        if (new Date(stored.expiresAt) < new Date()) return null;
+        if (!(await SessionsService.isValid(stored.familyId))) return null;
+
+        const user = await UsersService.getById(stored.userId);
+        if (!user) return null;
+
+        // Claim the token before issuing a new one so concurrent refreshes cannot both win
+        const claim = await database.run(
+            'UPDATE refresh_tokens SET revokedAt = ? WHERE id = ? AND revokedAt IS NULL',
+            [new Date().toISOString(), stored.id]
         );
-        
+        if (!claim.changes) {
+            await SessionsService.revoke(stored.familyId);
+            return null;
+        }
+
+        const tokens = await this.issueTokens(user, stored.familyId);
+        const rotated = this.decodeRefreshToken(tokens.refreshToken)!;
+
+        await database.run('UPDATE refresh_tokens SET replacedBy = ? WHERE id = ?', [rotated.jti, stored.id]);
+
+        return { user, ...tokens };
+    }
+
+    /**
+     * End the session a refresh token belongs to. Unknown or malformed tokens
+     * are ignored so logout always succeeds.
+     */
+    static async logout(refreshToken: string) {
+        const payload = this.decodeRefreshToken(refreshToken);
+        if (!payload) return;
+
+        const database = getDB();
+        const stored = await database.get<RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE id = ?', [payload.jti]);
+        if (stored) {
+            await SessionsService.revoke(stored.familyId);
+        }
+    }
+
+    /**
+     * The signed-in user with their effective permissions, which the client uses to show or hide actions
+     */
+    static async getMe(userId: string) {
+        const user = await UsersService.getById(userId);
         if (!user) return null;
-        
-        const match = await bcrypt.compare(password, user.password);
-        if (!match) return null;
-        
-        const accessToken = generateAccessToken({ sub: user.id, email: user.email, role: user.role });
-        const refreshToken = generateRefreshToken({ sub: user.id });
-        
+        return { ...user, permissions: await PermissionsService.getEffectivePermissions(userId) };
+    }
+
+    static async mustChangePassword(userId: string): Promise<boolean> {
+        const user = await getDB().get<{ mustChangePassword: number }>(
+            'SELECT mustChangePassword FROM users WHERE id = ?',
+            [userId]
+        );
+        return !!user?.mustChangePassword;
+    }
+
+    /**
+     * Re-check the password of an already authenticated user
+     */
+    static async verifyPassword(userId: string, password: string): Promise<boolean> {
+        const database = getDB();
+        const user = await database.get<{ password: string }>(
+            'SELECT password FROM users WHERE id = ? AND isDeleted = 0',
+            [userId]
+        );
+        if (!user || !password) return false;
+        return bcrypt.compare(password, user.password);
+    }
+
+    private static async startSession(user: UserRow, context: ClientContext) {
+        const sessionId = await SessionsService.create(user.id, context);
+        const tokens = await this.issueTokens({ ...user, mustChangePassword: !!user.mustChangePassword }, sessionId);
+
         return {
             user: {
                 id: user.id,
                 name: user.name,
                 email: user.email,
                 role: user.role,
-                profilePictureUrl: user.profilePictureUrl
+                profilePictureUrl: user.profilePictureUrl,
+                mustChangePassword: !!user.mustChangePassword,
+                permissions: await PermissionsService.getEffectivePermissions(user.id)
             },
-            accessToken,
-            refreshToken
+            ...tokens
         };
     }
-}
\ No newline at end of file
+
+    private static issueChallenge(userId: string, purpose: ChallengePurpose) {
+        return generateChallengeToken({ sub: userId, purpose });
+    }
+
+    private static async resolveChallenge(token: string, purpose: ChallengePurpose): Promise<UserRow | undefined> {
+        if (!token || typeof token !== 'string') return undefined;
+        let payload: any;
+        try {
+            payload = verifyChallengeToken(token);
+        } catch {
+            return undefined;
+        }
+        if (!payload || payload.purpose !== purpose || !payload.sub) return undefined;
+
+        return getDB().get<UserRow>('SELECT * FROM users WHERE id = ? AND isDeleted = 0', [payload.sub]);
+    }
+
+    /**
+     * Issue an access/refresh pair for a session. The session id doubles as the
+     * refresh token family and is carried in the access token as `sid`; `mcp`
+     * marks a user who has to change their password before anything else.
+     */
+    private static async issueTokens(user: { id: string; email: string; role: string; mustChangePassword?: boolean }, sessionId: string) {
+        const database = getDB();
+        const jti = uuidv4();
+
+        const accessToken = generateAccessToken({
+            sub: user.id,
+            email: user.email,
+            role: user.role,
+            sid: sessionId,
+            ...(user.mustChangePassword && { mcp: true })
+        });
+        const refreshToken = generateRefreshToken({ sub: user.id, jti });
+        const expiresAt = new Date(this.decodeRefreshToken(refreshToken)!.exp * 1000).toISOString();
+
+        await database.run(
+            'INSERT INTO refresh_tokens (id, userId, familyId, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?)',
+            [jti, user.id, sessionId, expiresAt, new Date().toISOString()]
+        );
+        await SessionsService.extend(sessionId, expiresAt);
+
+        return { accessToken, refreshToken };
+    }
+
+    private static decodeRefreshToken(token: string): { sub: string; jti: string; exp: number } | null {
+        if (!token || typeof token !== 'string') return null;
+        try {
+            const payload = verifyRefreshToken(token) as any;
+            return payload && payload.sub && payload.jti ? payload : null;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -1,116 +1,257 @@
 import fs from 'fs';
 import path from 'path';
-import { getDB } from '../utils/db';
-import { InventoryService } from './inventory.service';
-import { UsersService } from './users.service';
-import { OrdersService } from './orders.service';
-import { EmailsService } from './emails.service';
-import { InquiriesService } from './inquiries.service';
+import crypto from 'crypto';
+import { getDB, withTransaction } from '../utils/db';
+
+export const BACKUPS_DIR = path.join(__dirname, '..', 'backups');
+
+const BACKUP_FORMAT = 'imips-backup';
+const BACKUP_VERSION = 2;
+const BACKUP_FILENAME = /^backup-(\d+)\.json$/;
+
+// Sign-ins and credentials that must not come back to life after a restore.
+// They are left out of backups and emptied on restore, so everyone signs in
+// again. Older backups may still contain them; those rows are ignored.
+const EXCLUDED_TABLES = ['sessions', 'refresh_tokens', 'password_reset_tokens'];
+
+// The evidence trail. It is backed up, but a restore keeps the current rows so
+// it cannot be used to erase what happened, the restore itself included.
+const PRESERVED_TABLES = ['audit_log', 'security_logs', 'blocked_ips'];
+
+type BackupRow = Record<string, unknown>;
+
+export interface BackupManifestEntry {
+    rows: number;
+    checksum: string;
+}
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    manifest: Record<string, BackupManifestEntry>;
+    tables: Record<string, BackupRow[]>;
+}
+
+export interface BackupSummary {
+    filename: string;
+    created_at: string;
+    size: number;
+}
+
+export interface RestoreTableSummary {
+    table: string;
+    currentRows: number;
+    backupRows: number;
+}
+
+export interface RestoreResult {
+    dryRun: boolean;
+    createdAt: string;
+    tables: RestoreTableSummary[];
+}
+
+export class BackupError extends Error {
+    constructor(message: string, public readonly notFound = false) {
+        super(message);
+        this.name = 'BackupError';
+    }
+}
+
+const checksum = (rows: BackupRow[]) => crypto.createHash('sha256').update(JSON.stringify(rows)).digest('hex');
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
 
 export class BackupService {
-    static async createBackup(): Promise<string> {
+    static async createBackup(): Promise<BackupSummary> {
         const backup = await this.getBackup();
         const filename = `backup-${Date.now()}.json`;
-        const filepath = path.join(__dirname, '..', 'backups', filename);
 
-        // Ensure backups directory exists
-        const backupsDir = path.join(__dirname, '..', 'backups');
-        if (!fs.existsSync(backupsDir)) {
-            fs.mkdirSync(backupsDir, { recursive: true });
-        }
+        await fs.promises.mkdir(BACKUPS_DIR, { recursive: true });
+        await fs.promises.writeFile(path.join(BACKUPS_DIR, filename), JSON.stringify(backup));
 
-        fs.writeFileSync(filepath, JSON.stringify(backup, null, 2));
-        return filename;
+        return this.describe(filename);
     }
 
-    static async getBackup(): Promise<any> {
-        const database = getDB();
-        const inventory = await InventoryService.getAll();
-        const users = await UsersService.getAll();
-        const orders = await OrdersService.getAll();
-        const emails = await EmailsService.getAll();
-        const inquiries = await InquiriesService.getAll();
+    /**
+     * Every table except the excluded credentials, read in one transaction so
+     * the snapshot is consistent
+     */
+    static async getBackup(): Promise<BackupFile> {
+        return withTransaction(async () => {
+            const database = getDB();
+            const tables: Record<string, BackupRow[]> = {};
+            const manifest: Record<string, BackupManifestEntry> = {};
+
+            for (const table of await this.getTables()) {
+                if (EXCLUDED_TABLES.includes(table)) continue;
+                const rows = await database.all<BackupRow[]>(`SELECT * FROM ${quote(table)} ORDER BY rowid`);
+                tables[table] = rows;
+                manifest[table] = { rows: rows.length, checksum: checksum(rows) };
+            }
+
+            return {
+                format: BACKUP_FORMAT,
+                version: BACKUP_VERSION,
+                createdAt: new Date().toISOString(),
+                manifest,
+                tables
+            };
+        });
+    }
 
-        return { inventory, users, orders, emails, inquiries };
+    /**
+     * Backups on the server, newest first
+     */
+    static async listBackups(): Promise<BackupSummary[]> {
+        if (!fs.existsSync(BACKUPS_DIR)) return [];
+
+        const filenames = (await fs.promises.readdir(BACKUPS_DIR)).filter(name => BACKUP_FILENAME.test(name));
+        const backups = await Promise.all(filenames.map(filename => this.describe(filename)));
+        return backups.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    /**
+     * Absolute path of a stored backup. Only names this service generated are
+     * accepted, which also keeps the lookup inside the backups directory.
+     */
+    static getBackupPath(filename: string): string {
+        const filepath = path.join(BACKUPS_DIR, filename);
+        if (!BACKUP_FILENAME.test(filename) || !fs.existsSync(filepath)) {
+            throw new BackupError('Backup not found', true);
+        }
+        return filepath;
     }
 
-    static async restoreBackup(filepath: string): Promise<{ success: boolean; message: string }> {
+    static async deleteBackup(filename: string): Promise<void> {
+        await fs.promises.rm(this.getBackupPath(filename));
+    }
+
+    /**
+     * Validate a backup file and replace the contents of every table with it in
+     * a single transaction, apart from the preserved logs. With `dryRun` nothing
+     * is written and only the summary of what would change is returned.
+     */
+    static async restoreBackup(filepath: string, options: { dryRun?: boolean } = {}): Promise<RestoreResult> {
+        let data: unknown;
         try {
-            const database = getDB();
-            const backupJson = fs.readFileSync(filepath, 'utf-8');
-            const backup = JSON.parse(backupJson);
-
-            // Clear existing data
-            await database.run(`DELETE FROM inventory`);
-            await database.run(`DELETE FROM users`);
-            await database.run(`DELETE FROM orders`);
-            await database.run(`DELETE FROM order_items`);
-            await database.run(`DELETE FROM emails`);
-            await database.run(`DELETE FROM inquiries`);
-
-            // Restore inventory
-            if (backup.inventory) {
-                for (const i of backup.inventory) {
-                    await database.run(
-                        `INSERT INTO inventory (id, name, sku, quantity, threshold, category, price, imageUrl, warrantyPeriod) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-                        [i.id, i.name, i.sku, i.quantity, i.threshold, i.category, i.price, i.imageUrl || null, i.warrantyPeriod || null]
-                    );
-                }
+            data = JSON.parse(await fs.promises.readFile(filepath, 'utf-8'));
+        } catch {
+            throw new BackupError('Backup file is not valid JSON');
+        }
+
+        const backup = await this.validateBackup(data);
+        const database = getDB();
+        const tables = (await this.getTables()).filter(table => !PRESERVED_TABLES.includes(table));
+
+        const summary: RestoreTableSummary[] = [];
+        for (const table of tables) {
+            const current = await database.get<{ count: number }>(`SELECT COUNT(*) as count FROM ${quote(table)}`);
+            summary.push({ table, currentRows: current?.count || 0, backupRows: backup.tables[table]?.length || 0 });
+        }
+
+        const result: RestoreResult = { dryRun: !!options.dryRun, createdAt: backup.createdAt, tables: summary };
+        if (options.dryRun) return result;
+
+        await withTransaction(async () => {
+            for (const table of tables) {
+                await database.run(`DELETE FROM ${quote(table)}`);
             }
 
-            // Restore users
-            if (backup.users) {
-                for (const u of backup.users) {
+            for (const table of tables) {
+                for (const row of backup.tables[table] || []) {
+                    const columns = Object.keys(row);
+                    if (columns.length === 0) continue;
                     await database.run(
-                        `INSERT INTO users (id, name, email, role, password, profilePictureUrl) VALUES (?, ?, ?, ?, ?, ?)`,
-                        [u.id, u.name, u.email, u.role, u.password || '', u.profilePictureUrl || null]
+                        `INSERT INTO ${quote(table)} (${columns.map(quote).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+                        columns.map(column => row[column])
                     );
                 }
             }
+        });
 
-            // Restore orders
-            if (backup.orders) {
-                for (const o of backup.orders) {
-                    await database.run(
-                        `INSERT INTO orders (id, customerName, customerContact, customerAddress, customerEmail, subtotal, discountAmount, total, createdAt, createdBy, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-                        [o.id, o.customerName, o.customerContact, o.customerAddress, o.customerEmail, o.subtotal, o.discountAmount || 0, o.total, o.createdAt, o.createdBy, o.status]
-                    );
+        return result;
+    }
 
-                    if (o.items) {
-                        for (const item of o.items) {
-                            await database.run(
-                                `INSERT INTO order_items (orderId, itemId, name, price, quantity) VALUES (?, ?, ?, ?, ?)`,
-                                [o.id, item.id, item.name, item.price, item.cartQuantity]
-                            );
-                        }
-                    }
-                }
+    /**
+     * Check the format, version and manifest of a parsed backup and that every
+     * table and column in it exists in this database. Nothing is written.
+     */
+    static async validateBackup(data: unknown): Promise<BackupFile> {
+        if (!isPlainObject(data) || data.format !== BACKUP_FORMAT) {
+            throw new BackupError('File is not an IMIPS backup');
+        }
+        if (data.version !== BACKUP_VERSION) {
+            throw new BackupError(`Unsupported backup version ${String(data.version)}; expected version ${BACKUP_VERSION}`);
+        }
+        if (typeof data.createdAt !== 'string' || !isPlainObject(data.manifest) || !isPlainObject(data.tables)) {
+            throw new BackupError('Backup is missing its creation date, manifest or tables');
+        }
+
+        const manifest = data.manifest;
+        const tables = data.tables;
+        const knownTables = await this.getTables();
+
+        for (const table of Object.keys(manifest)) {
+            if (!(table in tables)) {
+                throw new BackupError(`Table "${table}" is listed in the manifest but missing from the backup`);
             }
+        }
 
-            // Restore emails
-            if (backup.emails) {
-                for (const e of backup.emails) {
-                    await database.run(
-                        `INSERT INTO emails (id, recipient, subject, body, sentAt, attachmentName, attachmentData) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                        [e.id, e.recipient, e.subject, e.body, e.sentAt, e.attachment?.name || null, e.attachment?.data || null]
-                    );
-                }
+        for (const [table, rows] of Object.entries(tables)) {
+            if (EXCLUDED_TABLES.includes(table)) {
+                delete tables[table];
+                continue;
+            }
+            if (!knownTables.includes(table)) {
+                throw new BackupError(`Backup contains unknown table "${table}"`);
             }
 
-            // Restore inquiries
-            if (backup.inquiries) {
-                for (const iq of backup.inquiries) {
-                    await database.run(
-                        `INSERT INTO inquiries (id, customerName, customerEmail, inquiryDetails, status, assignedStaffId, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                        [iq.id, iq.customerName, iq.customerEmail, iq.inquiryDetails, iq.status, iq.assignedStaffId || null, iq.createdAt]
-                    );
-                }
+            const entry = manifest[table];
+            if (!isPlainObject(entry)) {
+                throw new BackupError(`Table "${table}" is missing from the manifest`);
+            }
+            if (!Array.isArray(rows) || !rows.every(isPlainObject)) {
+                throw new BackupError(`Table "${table}" must be a list of rows`);
+            }
+            if (entry.rows !== rows.length || entry.checksum !== checksum(rows)) {
+                throw new BackupError(`Table "${table}" does not match its checksum; the backup is corrupt or was modified`);
             }
 
-            return { success: true, message: 'Backup restored successfully' };
-        } catch (err: any) {
-            console.error('Restore error:', err);
-            return { success: false, message: err.message };
+            const columns = await this.getColumns(table);
+            for (const row of rows) {
+                const unknown = Object.keys(row).find(column => !columns.includes(column));
+                if (unknown) {
+                    throw new BackupError(`Table "${table}" has unknown column "${unknown}"`);
+                }
+            }
         }
+
+        return data as unknown as BackupFile;
+    }
+
+    // Data tables. The migration history describes this build's schema rather
+    // than data, so it is neither backed up nor overwritten by a restore.
+    private static async getTables(): Promise<string[]> {
+        const rows = await getDB().all<{ name: string }[]>(
+            `SELECT name FROM sqlite_master
+             WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'
+             ORDER BY rowid`
+        );
+        return rows.map(row => row.name);
+    }
+
+    private static async getColumns(table: string): Promise<string[]> {
+        const rows = await getDB().all<{ name: string }[]>(`PRAGMA table_info(${quote(table)})`);
+        return rows.map(row => row.name);
+    }
+
+    private static async describe(filename: string): Promise<BackupSummary> {
+        const { size } = await fs.promises.stat(path.join(BACKUPS_DIR, filename));
+        const timestamp = Number(BACKUP_FILENAME.exec(filename)![1]);
+        return { filename, created_at: new Date(timestamp).toISOString(), size };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,206 @@
+import { getDB } from '../utils/db';
+import { BackupFrequency, BackupRetention, BackupRun, BackupRunTrigger, BackupSchedule, BackupScheduleStatus } from '../types';
+import { BackupService, BackupSummary } from './backup.service';
+import { SettingsService } from './settings.service';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+
+const SETTINGS_KEY = 'backup_schedule';
+const SCHEDULE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RETAINED = 365;
+
+const FREQUENCIES: BackupFrequency[] = ['daily', 'weekly', 'monthly'];
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = {
+    enabled: false,
+    frequency: 'daily',
+    retention: { daily: 7, weekly: 4, monthly: 12 },
+};
+
+type BackupRunRow = Omit<BackupRun, 'success'> & { success: number };
+
+const toRun = (row: BackupRunRow): BackupRun => ({ ...row, success: !!row.success });
+
+const validCount = (count: any) => Number.isInteger(count) && count >= 0 && count <= MAX_RETAINED;
+
+// Retention buckets, in UTC. Weeks start on Monday.
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+const weekKey = (time: number) => dayKey(time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS);
+const monthKey = (time: number) => new Date(time).toISOString().slice(0, 7);
+
+const addPeriod = (from: Date, frequency: BackupFrequency) => {
+    const next = new Date(from);
+    if (frequency === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+    if (frequency === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+    if (frequency === 'monthly') next.setUTCMonth(next.getUTCMonth() + 1);
+    return next;
+};
+
+export class BackupScheduleService {
+    private static checkTimer: NodeJS.Timeout | null = null;
+    private static running = false;
+
+    static async getSchedule(): Promise<BackupSchedule> {
+        const stored = await SettingsService.get<Partial<BackupSchedule>>(SETTINGS_KEY, {});
+        return {
+            enabled: stored.enabled ?? DEFAULT_BACKUP_SCHEDULE.enabled,
+            frequency: stored.frequency || DEFAULT_BACKUP_SCHEDULE.frequency,
+            retention: { ...DEFAULT_BACKUP_SCHEDULE.retention, ...stored.retention },
+        };
+    }
+
+    static async updateSchedule(changes: Partial<BackupSchedule>, userId: string): Promise<BackupScheduleStatus> {
+        if (changes.enabled !== undefined && typeof changes.enabled !== 'boolean') {
+            throw new Error('enabled must be true or false');
+        }
+        if (changes.frequency !== undefined && !FREQUENCIES.includes(changes.frequency)) {
+            throw new Error(`Invalid backup frequency: ${changes.frequency}`);
+        }
+        for (const [period, count] of Object.entries(changes.retention || {})) {
+            if (!(period in DEFAULT_BACKUP_SCHEDULE.retention)) {
+                throw new Error(`Invalid retention period: ${period}`);
+            }
+            if (!validCount(count)) {
+                throw new Error(`Number of ${period} backups to keep must be a whole number from 0 to ${MAX_RETAINED}`);
+            }
+        }
+
+        const current = await this.getSchedule();
+        const updated: BackupSchedule = {
+            enabled: changes.enabled ?? current.enabled,
+            frequency: changes.frequency || current.frequency,
+            retention: { ...current.retention, ...changes.retention },
+        };
+        if (Object.values(updated.retention).every(count => count === 0)) {
+            throw new Error('The retention policy must keep at least one backup');
+        }
+
+        await SettingsService.set(SETTINGS_KEY, updated, userId);
+        return this.getStatus();
+    }
+
+    /**
+     * The schedule with the outcome of the last run and when the next one is due
+     */
+    static async getStatus(): Promise<BackupScheduleStatus> {
+        const schedule = await this.getSchedule();
+        const [lastRun] = await this.listRuns(1);
+        const lastSuccessAt = await this.getLastSuccessAt();
+
+        let nextRunAt: string | null = null;
+        if (schedule.enabled) {
+            nextRunAt = lastSuccessAt ? addPeriod(new Date(lastSuccessAt), schedule.frequency).toISOString() : new Date().toISOString();
+        }
+
+        return { ...schedule, lastRun: lastRun || null, lastSuccessAt, nextRunAt };
+    }
+
+    static async listRuns(limit = 20): Promise<BackupRun[]> {
+        const rows = await getDB().all<BackupRunRow[]>('SELECT * FROM backup_runs ORDER BY startedAt DESC LIMIT ?', [limit]);
+        return rows.map(toRun);
+    }
+
+    /**
+     * Create a backup, prune old ones by the retention policy and record the
+     * outcome. Failures are recorded rather than thrown.
+     */
+    static async runBackup(trigger: BackupRunTrigger, userId?: string): Promise<BackupRun> {
+        const startedAt = new Date().toISOString();
+        let filename: string | null = null;
+        let error: string | null = null;
+        let pruned = 0;
+
+        try {
+            filename = (await BackupService.createBackup()).filename;
+            pruned = await this.applyRetention((await this.getSchedule()).retention);
+        } catch (err: any) {
+            error = err.message || String(err);
+            logger.error('Backup failed', { trigger, error });
+        }
+
+        const run: BackupRun = {
+            id: uuidv4(),
+            trigger,
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            success: !!filename,
+            filename,
+            error,
+            pruned,
+            triggeredBy: userId || null,
+        };
+        await getDB().run(
+            `INSERT INTO backup_runs (id, trigger, startedAt, finishedAt, success, filename, error, pruned, triggeredBy)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [run.id, run.trigger, run.startedAt, run.finishedAt, run.success ? 1 : 0, run.filename, run.error, run.pruned, run.triggeredBy]
+        );
+        return run;
+    }
+
+    /**
+     * Keep the newest backup of each of the last `daily` days, `weekly` weeks
+     * and `monthly` months and delete the rest. Returns how many were deleted.
+     */
+    static async applyRetention(retention: BackupRetention): Promise<number> {
+        const backups = await BackupService.listBackups();
+        const keep = new Set<string>();
+
+        const keepNewestPer = (bucket: (time: number) => string, count: number) => {
+            const seen = new Set<string>();
+            for (const backup of backups) {
+                if (seen.size >= count) break;
+                const key = bucket(new Date(backup.created_at).getTime());
+                if (seen.has(key)) continue;
+                seen.add(key);
+                keep.add(backup.filename);
+            }
+        };
+        keepNewestPer(dayKey, retention.daily);
+        keepNewestPer(weekKey, retention.weekly);
+        keepNewestPer(monthKey, retention.monthly);
+
+        const expired: BackupSummary[] = backups.filter(backup => !keep.has(backup.filename));
+        for (const backup of expired) {
+            await BackupService.deleteBackup(backup.filename);
+        }
+        if (expired.length > 0) {
+            logger.info('Expired backups deleted', { count: expired.length });
+        }
+        return expired.length;
+    }
+
+    /**
+     * Run a scheduled backup when one is due
+     */
+    static async checkDue(now = Date.now()): Promise<BackupRun | null> {
+        if (this.running) return null;
+
+        const status = await this.getStatus();
+        if (!status.nextRunAt || new Date(status.nextRunAt).getTime() > now) return null;
+
+        this.running = true;
+        try {
+            return await this.runBackup('scheduled');
+        } finally {
+            this.running = false;
+        }
+    }
+
+    static startScheduler(): void {
+        if (this.checkTimer) return;
+        this.checkTimer = setInterval(() => {
+            this.checkDue().catch(error => {
+                console.error('Error running scheduled backup:', error);
+            });
+        }, SCHEDULE_CHECK_INTERVAL_MS);
+        this.checkTimer.unref();
+    }
+
+    private static async getLastSuccessAt(): Promise<string | null> {
+        const row = await getDB().get<{ startedAt: string }>(
+            'SELECT startedAt FROM backup_runs WHERE success = 1 ORDER BY startedAt DESC LIMIT 1'
+        );
+        return row?.startedAt || null;
+    }
+}
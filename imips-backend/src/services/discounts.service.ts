@@ -1,24 +1,71 @@
 import { getDB } from '../utils/db';
-import { Discount, DiscountType, DiscountCondition } from '../types';
+import { AuditAction, AuditEntityType, Discount, DiscountType, DiscountCondition, PaginatedResponse } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { archivedCondition, archiveRecord, restoreRecord } from '../utils/softDelete';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { AuditService } from './audit.service';
+
+export interface DiscountableLine {
+    category: string;
+    price: number;
+    quantity: number;
+}
+
+export interface DiscountValidation {
+    isValid: boolean;
+    discount?: Discount;
+    discountAmount?: number;
+    message?: string;
+}
+
+// The only columns an update may set; archiving and restoring have their own routes
+const EDITABLE_FIELDS = ['code', 'description', 'type', 'value', 'condition', 'isActive'] as const;
+const AUDITED_FIELDS = ['code', 'description', 'type', 'value', 'condition', 'isActive'] as const;
 
 export class DiscountsService {
-    static async getAll(): Promise<Discount[]> {
-        const database = getDB();
-        const discounts = await database.all<Discount[]>('SELECT * FROM discounts WHERE isActive = 1 ORDER BY createdAt DESC');
-        return discounts || [];
+    /**
+     * SQLite stores the condition as JSON text and isActive/isDeleted as 0/1
+     */
+    private static mapRow(row: any): Discount {
+        let condition: DiscountCondition = {};
+        try {
+            condition = row.condition ? JSON.parse(row.condition) : {};
+        } catch {
+            condition = {};
+        }
+        return { ...row, condition, isActive: !!row.isActive, isDeleted: !!row.isDeleted };
+    }
+
+    static async getAll(options: { archived?: boolean } = {}): Promise<Discount[]> {
+        return (await this.list({ page: 1, filters: {} }, options)).data;
+    }
+
+    /**
+     * The live list only shows active discounts; the archive shows everything archived
+     */
+    static async list(params: ListParams, options: { archived?: boolean } = {}): Promise<PaginatedResponse<Discount>> {
+        const result = await runListQuery({
+            from: 'discounts',
+            where: options.archived ? [archivedCondition(true)] : ['isActive = 1', archivedCondition()],
+            sortable: { createdAt: 'createdAt', code: 'code', value: 'value', usedCount: 'usedCount' },
+            searchable: ['code', 'description'],
+            filterable: { type: 'type' },
+            defaultSort: 'createdAt',
+            defaultOrder: 'DESC'
+        }, params);
+        return { ...result, data: result.data.map(d => this.mapRow(d)) };
     }
 
     static async getById(id: string): Promise<Discount | null> {
         const database = getDB();
-        const discount = await database.get<Discount>('SELECT * FROM discounts WHERE id = ?', [id]);
-        return discount || null;
+        const discount = await database.get('SELECT * FROM discounts WHERE id = ?', [id]);
+        return discount ? this.mapRow(discount) : null;
     }
 
     static async getByCode(code: string): Promise<Discount | null> {
         const database = getDB();
-        const discount = await database.get<Discount>('SELECT * FROM discounts WHERE code = ? AND isActive = 1', [code]);
-        return discount || null;
+        const discount = await database.get('SELECT * FROM discounts WHERE code = ? AND isActive = 1 AND isDeleted = 0', [code]);
+        return discount ? this.mapRow(discount) : null;
     }
 
     static async create(discount: Omit<Discount, 'id' | 'createdAt' | 'usedCount'>): Promise<Discount> {
@@ -54,10 +101,17 @@ export class DiscountsService {
         if (!createdDiscount) {
             throw new Error('Failed to create discount');
         }
+        await AuditService.record({
+            entityType: AuditEntityType.Discount,
+            entityId: id,
+            action: AuditAction.Create,
+            actorId: discount.createdBy,
+            changes: AuditService.snapshot(createdDiscount, AUDITED_FIELDS, AuditAction.Create)
+        });
         return createdDiscount;
     }
 
-    static async update(id: string, data: Partial<Discount>): Promise<Discount> {
+    static async update(id: string, data: Partial<Discount>, userId?: string): Promise<Discount> {
         const database = getDB();
 
         const existingDiscount = await this.getById(id);
@@ -73,25 +127,19 @@ export class DiscountsService {
             }
         }
 
-        const fields = Object.keys(data)
-            .filter(key => key !== 'id' && key !== 'createdAt' && key !== 'usedCount')
-            .map(key => {
-                if (key === 'condition') return 'condition = ?';
-                if (key === 'isActive') return 'isActive = ?';
-                return `${key} = ?`;
-            })
-            .join(', ');
+        const fields = EDITABLE_FIELDS.filter(field => data[field] !== undefined);
+        if (fields.length === 0) {
+            throw new Error('No discount fields to update');
+        }
 
-        const values = Object.entries(data)
-            .filter(([key]) => key !== 'id' && key !== 'createdAt' && key !== 'usedCount')
-            .map(([key, value]) => {
-                if (key === 'condition') return JSON.stringify(value);
-                if (key === 'isActive') return value ? 1 : 0;
-                return value;
-            });
+        const values = fields.map(field => {
+            if (field === 'condition') return JSON.stringify(data.condition);
+            if (field === 'isActive') return data.isActive ? 1 : 0;
+            return data[field];
+        });
 
         await database.run(
-            `UPDATE discounts SET ${fields} WHERE id = ?`,
+            `UPDATE discounts SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`,
             [...values, id]
         );
 
@@ -99,23 +147,52 @@ export class DiscountsService {
         if (!updatedDiscount) {
             throw new Error('Failed to update discount');
         }
+        await AuditService.record({
+            entityType: AuditEntityType.Discount,
+            entityId: id,
+            action: AuditAction.Update,
+            actorId: userId,
+            changes: AuditService.diff(existingDiscount, updatedDiscount, AUDITED_FIELDS)
+        });
         return updatedDiscount;
     }
 
-    static async delete(id: string): Promise<void> {
-        const database = getDB();
-        await database.run('DELETE FROM discounts WHERE id = ?', [id]);
+    static async archive(id: string, userId?: string): Promise<void> {
+        if (!(await archiveRecord('discounts', id, userId))) {
+            throw new Error('Discount not found or already archived');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Discount, entityId: id, action: AuditAction.Archive, actorId: userId });
     }
 
-    static async deactivate(id: string): Promise<Discount> {
-        const database = getDB();
-        await database.run('UPDATE discounts SET isActive = 0 WHERE id = ?', [id]);
+    static async restore(id: string, userId?: string): Promise<Discount | null> {
+        if (!(await restoreRecord('discounts', id))) {
+            throw new Error('Archived discount not found');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Discount, entityId: id, action: AuditAction.Restore, actorId: userId });
+        return this.getById(id);
+    }
 
-        const deactivatedDiscount = await this.getById(id);
-        if (!deactivatedDiscount) {
-            throw new Error('Failed to deactivate discount');
+    /**
+     * Permanently remove a discount. Orders keep their recorded discount amount.
+     */
+    static async delete(id: string, userId?: string): Promise<void> {
+        const database = getDB();
+        const existingDiscount = await this.getById(id);
+        const result = await database.run('DELETE FROM discounts WHERE id = ?', [id]);
+        if (!result.changes) {
+            throw new Error('Discount not found');
         }
-        return deactivatedDiscount;
+        await AuditService.record({
+            entityType: AuditEntityType.Discount,
+            entityId: id,
+            action: AuditAction.Delete,
+            actorId: userId,
+            changes: AuditService.snapshot(existingDiscount!, AUDITED_FIELDS, AuditAction.Delete)
+        });
+    }
+
+    static async deactivate(id: string, userId?: string): Promise<Discount> {
+        return this.update(id, { isActive: false }, userId);
     }
 
     static async incrementUsage(id: string): Promise<void> {
@@ -126,13 +203,61 @@ export class DiscountsService {
         );
     }
 
-    static async validateDiscount(code: string, cartTotal: number, itemCount: number): Promise<{ isValid: boolean; discount?: Discount; message?: string }> {
+    static async validateDiscount(code: string, cartTotal: number, itemCount: number): Promise<DiscountValidation> {
         const discount = await this.getByCode(code);
 
         if (!discount) {
             return { isValid: false, message: 'Invalid discount code' };
         }
 
+        return this.checkConditions(discount, cartTotal, itemCount);
+    }
+
+    /**
+     * Validate a discount (by code or id) against the actual cart contents and
+     * work out how much it takes off, honouring category restrictions.
+     */
+    static async validateForCart(ref: { code?: string; id?: string }, lines: DiscountableLine[]): Promise<DiscountValidation> {
+        const discount = ref.id ? await this.getById(ref.id) : ref.code ? await this.getByCode(ref.code) : null;
+
+        if (!discount || discount.isDeleted) {
+            return { isValid: false, message: 'Invalid discount code' };
+        }
+
+        const cartTotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+        const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+        const validation = this.checkConditions(discount, cartTotal, itemCount);
+        if (!validation.isValid) {
+            return validation;
+        }
+
+        const discountAmount = this.calculateDiscountAmount(discount, lines);
+        if (discountAmount <= 0) {
+            return { isValid: false, message: 'Discount does not apply to any items in the cart' };
+        }
+
+        return { isValid: true, discount, discountAmount };
+    }
+
+    /**
+     * Amount taken off the cart. Only lines in `validCategories` count when the
+     * discount is category-scoped, and a fixed amount never exceeds what it applies to.
+     */
+    static calculateDiscountAmount(discount: Discount, lines: DiscountableLine[]): number {
+        const validCategories = discount.condition.validCategories;
+        const eligibleTotal = lines
+            .filter(line => !validCategories || validCategories.length === 0 || validCategories.includes(line.category))
+            .reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+        const amount = discount.type === DiscountType.FixedAmount
+            ? Math.min(discount.value, eligibleTotal)
+            : (eligibleTotal * discount.value) / 100;
+
+        return Math.round(amount * 100) / 100;
+    }
+
+    private static checkConditions(discount: Discount, cartTotal: number, itemCount: number): DiscountValidation {
         if (!discount.isActive) {
             return { isValid: false, message: 'Discount code is no longer active' };
         }
@@ -170,7 +295,7 @@ export class DiscountsService {
 
     static async getActiveDiscounts(): Promise<Discount[]> {
         const database = getDB();
-        const discounts = await database.all<Discount[]>('SELECT * FROM discounts WHERE isActive = 1 ORDER BY createdAt DESC');
+        const discounts = await database.all<Discount[]>('SELECT * FROM discounts WHERE isActive = 1 AND isDeleted = 0 ORDER BY createdAt DESC');
         return discounts || [];
     }
 
@@ -188,8 +313,15 @@ export class DiscountsService {
                 SUM(CASE WHEN isActive = 1 THEN 1 ELSE 0 END) as activeDiscounts,
                 SUM(usedCount) as totalUsage
             FROM discounts
+            WHERE isDeleted = 0
         `);
 
-        return stats || { totalDiscounts: 0, activeDiscounts: 0, totalUsage: 0, totalSavings: 0 };
+        const savings = await database.get<{ totalSavings: number }>(
+            'SELECT COALESCE(SUM(discountAmount), 0) as totalSavings FROM orders WHERE applied_discount_id IS NOT NULL'
+        );
+
+        return stats
+            ? { ...stats, totalSavings: savings?.totalSavings || 0 }
+            : { totalDiscounts: 0, activeDiscounts: 0, totalUsage: 0, totalSavings: 0 };
     }
 }
\ No newline at end of file
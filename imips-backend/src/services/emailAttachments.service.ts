@@ -0,0 +1,183 @@
+import path from 'path';
+import fs from 'fs';
+import { getDB } from '../utils/db';
+import { Attachment } from '../types';
+import { MailAttachment } from '../utils/mailTransport';
+import { ImageUtils } from '../utils/imageUtils';
+
+// Kept outside /uploads, which is served publicly
+export const EMAIL_ATTACHMENTS_DIR = process.env.EMAIL_ATTACHMENTS_DIR || path.join(process.cwd(), 'storage', 'email-attachments');
+
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024; // 5MB per file
+export const MAX_ATTACHMENTS_PER_EMAIL = 5;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/zip',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+];
+
+export interface AttachmentFile {
+    filename: string;
+    path: string;
+    contentType?: string;
+}
+
+interface AttachmentRow {
+    emailId: string;
+    name: string;
+    storedName: string;
+    contentType: string;
+    size: number;
+}
+
+const downloadPath = (emailId: string, name: string) =>
+    `/api/emails/${emailId}/attachments/${encodeURIComponent(name)}`;
+
+const toAttachment = (row: AttachmentRow): Attachment => ({
+    name: row.name,
+    contentType: row.contentType,
+    size: row.size,
+    path: downloadPath(row.emailId, row.name),
+});
+
+/**
+ * Give a file name that is already taken on this email a numbered suffix
+ */
+const uniqueName = (name: string, taken: Set<string>) => {
+    const extension = path.extname(name);
+    const base = path.basename(name, extension);
+    let candidate = name;
+    for (let n = 2; taken.has(candidate); n++) {
+        candidate = `${base} (${n})${extension}`;
+    }
+    taken.add(candidate);
+    return candidate;
+};
+
+export class EmailAttachmentsService {
+    static isAllowedType(contentType: string): boolean {
+        return ALLOWED_ATTACHMENT_TYPES.includes(contentType);
+    }
+
+    /**
+     * Record files as attachments of an email. Files that are not already in the
+     * attachments directory are copied into it.
+     */
+    static async save(emailId: string, files: AttachmentFile[]): Promise<void> {
+        if (files.length === 0) return;
+        await fs.promises.mkdir(EMAIL_ATTACHMENTS_DIR, { recursive: true });
+
+        const database = getDB();
+        const taken = new Set<string>();
+        for (const file of files) {
+            let storedName = path.basename(file.path);
+            if (path.resolve(path.dirname(file.path)) !== path.resolve(EMAIL_ATTACHMENTS_DIR)) {
+                storedName = ImageUtils.generateFilename(file.filename);
+                await fs.promises.copyFile(file.path, path.join(EMAIL_ATTACHMENTS_DIR, storedName));
+            }
+            const { size } = await fs.promises.stat(path.join(EMAIL_ATTACHMENTS_DIR, storedName));
+
+            await database.run(
+                `INSERT INTO email_attachments (emailId, name, storedName, contentType, size, createdAt) VALUES (?, ?, ?, ?, ?, ?)`,
+                [
+                    emailId,
+                    uniqueName(path.basename(file.filename), taken),
+                    storedName,
+                    file.contentType || 'application/octet-stream',
+                    size,
+                    new Date().toISOString()
+                ]
+            );
+        }
+    }
+
+    /**
+     * Attachments of several emails at once, keyed by email id
+     */
+    static async getByEmails(emailIds: string[]): Promise<Map<string, Attachment[]>> {
+        const attachments = new Map<string, Attachment[]>();
+        if (emailIds.length === 0) return attachments;
+
+        const rows = await getDB().all<AttachmentRow[]>(
+            `SELECT * FROM email_attachments WHERE emailId IN (${emailIds.map(() => '?').join(', ')}) ORDER BY id`,
+            emailIds
+        );
+        for (const row of rows) {
+            attachments.set(row.emailId, [...(attachments.get(row.emailId) || []), toAttachment(row)]);
+        }
+        return attachments;
+    }
+
+    /**
+     * Metadata and file location of one attachment, or null if either is missing
+     */
+    static async getFile(emailId: string, name: string): Promise<{ attachment: Attachment; filePath: string } | null> {
+        const row = await getDB().get<AttachmentRow>(
+            'SELECT * FROM email_attachments WHERE emailId = ? AND name = ?',
+            [emailId, name]
+        );
+        if (!row) return null;
+
+        const filePath = path.join(EMAIL_ATTACHMENTS_DIR, row.storedName);
+        if (!fs.existsSync(filePath)) return null;
+        return { attachment: toAttachment(row), filePath };
+    }
+
+    static async toMailAttachments(emailId: string): Promise<MailAttachment[]> {
+        const rows = await getDB().all<AttachmentRow[]>(
+            'SELECT * FROM email_attachments WHERE emailId = ? ORDER BY id',
+            [emailId]
+        );
+        return rows.map(row => ({
+            filename: row.name,
+            path: path.join(EMAIL_ATTACHMENTS_DIR, row.storedName),
+            contentType: row.contentType,
+        }));
+    }
+
+    static async deleteByEmail(emailId: string): Promise<void> {
+        const database = getDB();
+        const rows = await database.all<AttachmentRow[]>('SELECT * FROM email_attachments WHERE emailId = ?', [emailId]);
+        await database.run('DELETE FROM email_attachments WHERE emailId = ?', [emailId]);
+        for (const row of rows) {
+            await fs.promises.rm(path.join(EMAIL_ATTACHMENTS_DIR, row.storedName), { force: true });
+        }
+    }
+
+    /**
+     * Move attachments that older versions stored as base64 in the emails table
+     * onto disk
+     */
+    static async moveLegacyBlobs(): Promise<number> {
+        const database = getDB();
+        const rows = await database.all<{ id: string; attachmentName: string; attachmentData: string }[]>(
+            'SELECT id, attachmentName, attachmentData FROM emails WHERE attachmentData IS NOT NULL'
+        );
+        if (rows.length === 0) return 0;
+
+        await fs.promises.mkdir(EMAIL_ATTACHMENTS_DIR, { recursive: true });
+        for (const row of rows) {
+            const name = path.basename(row.attachmentName || 'attachment');
+            const storedName = ImageUtils.generateFilename(name);
+            const content = Buffer.from(row.attachmentData, 'base64');
+            await fs.promises.writeFile(path.join(EMAIL_ATTACHMENTS_DIR, storedName), content);
+
+            await database.run(
+                `INSERT OR IGNORE INTO email_attachments (emailId, name, storedName, contentType, size, createdAt) VALUES (?, ?, ?, ?, ?, ?)`,
+                [row.id, name, storedName, 'application/octet-stream', content.length, new Date().toISOString()]
+            );
+            await database.run('UPDATE emails SET attachmentData = NULL WHERE id = ?', [row.id]);
+        }
+        return rows.length;
+    }
+}
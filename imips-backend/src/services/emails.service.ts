@@ -1,97 +1,220 @@
-import nodemailer from 'nodemailer';
-import path from 'path';
-import fs from 'fs';
-import { getDB } from '../utils/db';
-import { Email, Attachment } from '../types';
+import { getDB, withTransaction } from '../utils/db';
+import { Attachment, Email, PaginatedResponse } from '../types';
+import { archivedCondition, archiveRecord, restoreRecord } from '../utils/softDelete';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { getMailTransport, MailAttachment, MailMessage } from '../utils/mailTransport';
+import { AttachmentFile, EmailAttachmentsService } from './emailAttachments.service';
+import { v4 as uuidv4 } from 'uuid';
 
 interface SendEmailOptions {
     recipient: string;
     subject: string;
     body: string;
-    attachment?: {
-        filename: string;
-        path: string;
-    };
+    attachments?: AttachmentFile[];
+    // Bulk mail such as newsletters keeps its own delivery log and skips the outbox
+    saveToHistory?: boolean;
 }
 
+// A queued email is given up on after this many delivery attempts
+const MAX_ATTEMPTS = 5;
+// Wait before the second attempt; doubles after every further failure
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const OUTBOX_POLL_INTERVAL_MS = 30 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+
+const retryDelay = (attempts: number) => RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+
+const toMailMessage = (row: any, attachments: MailAttachment[]): MailMessage => ({
+    to: row.recipient,
+    subject: row.subject,
+    html: row.body,
+    attachments: attachments.length > 0 ? attachments : undefined,
+});
+
+const toEmail = (row: any, attachments: Attachment[] = []): Email => ({
+    id: row.id,
+    recipient: row.recipient,
+    subject: row.subject,
+    body: row.body,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.lastError || undefined,
+    nextAttemptAt: row.nextAttemptAt || undefined,
+    createdAt: row.createdAt || row.sentAt,
+    sentAt: row.sentAt || undefined,
+    isDeleted: !!row.isDeleted,
+    deletedAt: row.deletedAt,
+    deletedBy: row.deletedBy,
+    attachments,
+    attachment_path: attachments[0]?.path,
+});
+
 export class EmailsService {
-    private static transporter = nodemailer.createTransport({
-        service: 'gmail',
-        auth: {
-            user: process.env.GMAIL_USER,
-            pass: process.env.GMAIL_PASS,
-        },
-    });
-
-    static async sendEmail({ recipient, subject, body, attachment }: SendEmailOptions): Promise<Email> {
-        const mailOptions: any = {
-            from: process.env.GMAIL_USER,
-            to: recipient,
-            subject,
-            html: body,
-        };
-
-        if (attachment) {
-            mailOptions.attachments = [
-                {
-                    filename: attachment.filename,
-                    path: attachment.path,
-                },
-            ];
+    private static inFlight = new Set<string>();
+    private static outboxTimer: NodeJS.Timeout | null = null;
+    private static processingOutbox = false;
+
+    /**
+     * Put an email into the outbox and make the first delivery attempt right
+     * away. A failed attempt leaves it queued for the outbox worker to retry.
+     */
+    static async sendEmail({ recipient, subject, body, attachments = [], saveToHistory = true }: SendEmailOptions): Promise<Email> {
+        const createdAt = new Date().toISOString();
+        const row = { id: uuidv4(), recipient, subject, body, status: 'queued', attempts: 0, createdAt };
+
+        if (!saveToHistory) {
+            const { messageId } = await getMailTransport().send(toMailMessage(row, attachments));
+            return toEmail({ ...row, status: 'sent', attempts: 1, sentAt: new Date().toISOString(), messageId });
+        }
+
+        await withTransaction(async () => {
+            await getDB().run(
+                `INSERT INTO emails (id, recipient, subject, body, status, attempts, createdAt) VALUES (?, ?, ?, ?, 'queued', 0, ?)`,
+                [row.id, recipient, subject, body, createdAt]
+            );
+            await EmailAttachmentsService.save(row.id, attachments);
+        });
+
+        await this.deliver(row.id);
+        return (await this.getById(row.id))!;
+    }
+
+    static async getById(id: string): Promise<Email | null> {
+        const row = await getDB().get('SELECT * FROM emails WHERE id = ?', [id]);
+        if (!row) return null;
+        const attachments = await EmailAttachmentsService.getByEmails([id]);
+        return toEmail(row, attachments.get(id));
+    }
+
+    /**
+     * Queue a failed email again with a fresh set of attempts
+     */
+    static async retry(id: string): Promise<Email> {
+        const email = await this.getById(id);
+        if (!email) {
+            throw new Error('Email not found');
+        }
+        if (email.status !== 'failed') {
+            throw new Error('Only failed emails can be retried');
         }
 
-        await this.transporter.sendMail(mailOptions);
-
-        const id = `${Date.now()}`;
-        const sentEmail: Email = {
-            id,
-            recipient,
-            subject,
-            body,
-            sentAt: new Date().toISOString(),
-            attachment: attachment
-                ? {
-                    name: attachment.filename,
-                    type: path.extname(attachment.filename).substring(1),
-                    size: fs.statSync(attachment.path).size,
-                    data: fs.readFileSync(attachment.path, { encoding: 'base64' }),
-                }
-                : undefined,
-        };
-
-        // Store in SQLite
-        getDB().run(
-            `INSERT INTO emails (id, recipient, subject, body, sentAt, attachmentName, attachmentData) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-            sentEmail.id,
-            sentEmail.recipient,
-            sentEmail.subject,
-            sentEmail.body,
-            sentEmail.sentAt,
-            sentEmail.attachment?.name || null,
-            sentEmail.attachment?.data || null
+        await getDB().run(
+            `UPDATE emails SET status = 'queued', attempts = 0, nextAttemptAt = NULL WHERE id = ?`,
+            [id]
         );
+        await this.deliver(id);
+        return (await this.getById(id))!;
+    }
+
+    /**
+     * Attempt every queued email whose retry time has come
+     */
+    static async processOutbox(): Promise<void> {
+        if (this.processingOutbox) return;
+        this.processingOutbox = true;
+        try {
+            const due = await getDB().all<{ id: string }[]>(
+                `SELECT id FROM emails
+                 WHERE status = 'queued' AND isDeleted = 0 AND (nextAttemptAt IS NULL OR nextAttemptAt <= ?)
+                 ORDER BY createdAt ASC
+                 LIMIT ?`,
+                [new Date().toISOString(), OUTBOX_BATCH_SIZE]
+            );
+            for (const { id } of due) {
+                await this.deliver(id);
+            }
+        } finally {
+            this.processingOutbox = false;
+        }
+    }
 
-        return sentEmail;
+    static startOutboxWorker(): void {
+        if (this.outboxTimer) return;
+        this.outboxTimer = setInterval(() => {
+            this.processOutbox().catch(error => {
+                console.error('Error processing email outbox:', error);
+            });
+        }, OUTBOX_POLL_INTERVAL_MS);
+        this.outboxTimer.unref();
     }
 
-    static async getAll(): Promise<Email[]> {
-        const database = getDB(); // Get database instance
-        const rows = await database.all(`SELECT * FROM emails ORDER BY sentAt DESC`); // Add await here
-
-        return rows.map((r: any) => ({
-            id: r.id,
-            recipient: r.recipient,
-            subject: r.subject,
-            body: r.body,
-            sentAt: r.sentAt,
-            attachment: r.attachmentName
-                ? {
-                    name: r.attachmentName,
-                    type: path.extname(r.attachmentName).substring(1),
-                    size: r.attachmentData ? Buffer.from(r.attachmentData, 'base64').length : 0,
-                    data: r.attachmentData,
-                }
-                : undefined,
-        }));
+    private static async deliver(id: string): Promise<void> {
+        if (this.inFlight.has(id)) return;
+        this.inFlight.add(id);
+
+        try {
+            const database = getDB();
+            const row = await database.get(`SELECT * FROM emails WHERE id = ? AND status = 'queued'`, [id]);
+            if (!row) return;
+
+            const attempts = row.attempts + 1;
+            try {
+                const attachments = await EmailAttachmentsService.toMailAttachments(id);
+                const { messageId } = await getMailTransport().send(toMailMessage(row, attachments));
+                await database.run(
+                    `UPDATE emails SET status = 'sent', attempts = ?, sentAt = ?, messageId = ?, lastError = NULL, nextAttemptAt = NULL WHERE id = ?`,
+                    [attempts, new Date().toISOString(), messageId, id]
+                );
+            } catch (error: any) {
+                const givenUp = attempts >= MAX_ATTEMPTS;
+                await database.run(
+                    'UPDATE emails SET status = ?, attempts = ?, lastError = ?, nextAttemptAt = ? WHERE id = ?',
+                    [
+                        givenUp ? 'failed' : 'queued',
+                        attempts,
+                        error?.message || 'Delivery failed',
+                        givenUp ? null : new Date(Date.now() + retryDelay(attempts)).toISOString(),
+                        id
+                    ]
+                );
+            }
+        } finally {
+            this.inFlight.delete(id);
+        }
+    }
+
+    static async getAll(options: { archived?: boolean } = {}): Promise<Email[]> {
+        return (await this.list({ page: 1, filters: {} }, options)).data;
+    }
+
+    static async list(params: ListParams, options: { archived?: boolean } = {}): Promise<PaginatedResponse<Email>> {
+        const result = await runListQuery({
+            from: 'emails',
+            where: [archivedCondition(options.archived)],
+            sortable: {
+                createdAt: 'COALESCE(createdAt, sentAt)',
+                sentAt: 'sentAt',
+                recipient: 'recipient',
+                subject: 'subject',
+                status: 'status'
+            },
+            searchable: ['recipient', 'subject', 'body'],
+            filterable: { recipient: 'recipient', status: 'status' },
+            defaultSort: 'createdAt',
+            defaultOrder: 'DESC'
+        }, params);
+
+        const attachments = await EmailAttachmentsService.getByEmails(result.data.map((r: any) => r.id));
+        return { ...result, data: result.data.map((r: any) => toEmail(r, attachments.get(r.id))) };
+    }
+
+    static async archive(id: string, userId?: string): Promise<void> {
+        if (!(await archiveRecord('emails', id, userId))) {
+            throw new Error('Email not found or already archived');
+        }
+    }
+
+    static async restore(id: string): Promise<void> {
+        if (!(await restoreRecord('emails', id))) {
+            throw new Error('Archived email not found');
+        }
+    }
+
+    static async delete(id: string): Promise<void> {
+        const result = await getDB().run('DELETE FROM emails WHERE id = ?', [id]);
+        if (!result.changes) {
+            throw new Error('Email not found');
+        }
+        await EmailAttachmentsService.deleteByEmail(id);
     }
 }
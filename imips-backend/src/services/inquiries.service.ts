@@ -1,35 +1,124 @@
-import { getDB } from '../utils/db';
+import { getDB, withTransaction } from '../utils/db';
 import { v4 as uuidv4 } from 'uuid';
-import { CustomerInquiry, InquiryStatus } from '../types';
+import { AuditAction, AuditEntityType, CustomerInquiry, InquiryStatus, PaginatedResponse } from '../types';
+import { archivedCondition, archiveRecord, restoreRecord } from '../utils/softDelete';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { InquiryResponsesService } from './inquiryResponses.service';
+import { InquiryRoutingService } from './inquiryRouting.service';
+import { InquirySlaService } from './inquirySla.service';
+import { AuditService } from './audit.service';
+
+const FIRST_RESPONSE_COLUMN =
+    '(SELECT MIN(r.created_at) FROM inquiry_responses r WHERE r.inquiry_id = inquiries.id) as firstRespondedAt';
+
+const AUDITED_FIELDS = ['customerName', 'customerEmail', 'inquiryDetails', 'status', 'assignedStaffId'] as const;
 
 export class InquiriesService {
-    static async getAll() {
-        const database = getDB();
-        return database.all<CustomerInquiry[]>('SELECT * FROM inquiries ORDER BY createdAt DESC');
+    static async getAll(options: { archived?: boolean } = {}) {
+        return (await this.list({ page: 1, filters: {} }, options)).data;
+    }
+
+    static async list(params: ListParams, options: { archived?: boolean } = {}): Promise<PaginatedResponse<CustomerInquiry>> {
+        const result = await runListQuery<CustomerInquiry>({
+            from: 'inquiries',
+            select: `*, ${FIRST_RESPONSE_COLUMN}`,
+            where: [archivedCondition(options.archived)],
+            sortable: { createdAt: 'createdAt', customerName: 'customerName', status: 'status' },
+            searchable: ['customerName', 'customerEmail', 'inquiryDetails'],
+            filterable: { status: 'status', assignedStaffId: 'assignedStaffId', escalatedTo: 'escalatedTo' },
+            defaultSort: 'createdAt',
+            defaultOrder: 'DESC'
+        }, params);
+
+        const settings = await InquiryRoutingService.getSettings();
+        return {
+            ...result,
+            data: result.data.map(i => ({ ...i, isDeleted: !!i.isDeleted, sla: InquirySlaService.compute(i, settings) }))
+        };
     }
 
-    static async add(inquiry: Omit<CustomerInquiry, 'id' | 'createdAt'>) {
+    static async getById(id: string) {
         const database = getDB();
+        const inquiry = await database.get<CustomerInquiry>(`SELECT *, ${FIRST_RESPONSE_COLUMN} FROM inquiries WHERE id = ?`, [id]);
+        if (!inquiry) return null;
+
+        const settings = await InquiryRoutingService.getSettings();
+        return { ...inquiry, isDeleted: !!inquiry.isDeleted, sla: InquirySlaService.compute(inquiry, settings) };
+    }
+
+    /**
+     * Store a new inquiry. Without an assignee it is routed to a Staff user
+     * according to the configured assignment strategy.
+     */
+    static async add(inquiry: Omit<CustomerInquiry, 'id' | 'createdAt'>, userId?: string) {
         const id = uuidv4();
         const createdAt = new Date().toISOString();
-        await database.run(
-            'INSERT INTO inquiries (id, customerName, customerEmail, inquiryDetails, status, assignedStaffId, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
-            [id, inquiry.customerName, inquiry.customerEmail, inquiry.inquiryDetails, InquiryStatus.Pending, inquiry.assignedStaffId, createdAt]
-        );
-        return { ...inquiry, id, createdAt, status: InquiryStatus.Pending };
+        await withTransaction(async () => {
+            const assignee = inquiry.assignedStaffId || await InquiryRoutingService.pickAssignee();
+            await getDB().run(
+                'INSERT INTO inquiries (id, customerName, customerEmail, inquiryDetails, status, assignedStaffId, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+                [id, inquiry.customerName, inquiry.customerEmail, inquiry.inquiryDetails, InquiryStatus.Pending, assignee || null, createdAt]
+            );
+        });
+        const created = (await this.getById(id))!;
+        await AuditService.record({
+            entityType: AuditEntityType.Inquiry,
+            entityId: id,
+            action: AuditAction.Create,
+            actorId: userId,
+            changes: AuditService.snapshot(created, AUDITED_FIELDS, AuditAction.Create)
+        });
+        return created;
     }
 
-    static async update(inquiry: CustomerInquiry) {
+    static async update(inquiry: CustomerInquiry, userId?: string) {
         const database = getDB();
+        const before = await this.getById(inquiry.id);
         await database.run(
             'UPDATE inquiries SET customerName=?, customerEmail=?, inquiryDetails=?, status=?, assignedStaffId=? WHERE id=?',
             [inquiry.customerName, inquiry.customerEmail, inquiry.inquiryDetails, inquiry.status, inquiry.assignedStaffId, inquiry.id]
         );
+        if (before) {
+            await AuditService.record({
+                entityType: AuditEntityType.Inquiry,
+                entityId: inquiry.id,
+                action: AuditAction.Update,
+                actorId: userId,
+                changes: AuditService.diff(before, (await this.getById(inquiry.id))!, AUDITED_FIELDS)
+            });
+        }
         return this.getAll();
     }
 
-    static async delete(id: string) {
+    static async archive(id: string, userId?: string) {
+        if (!(await archiveRecord('inquiries', id, userId))) {
+            throw new Error('Inquiry not found or already archived');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Inquiry, entityId: id, action: AuditAction.Archive, actorId: userId });
+    }
+
+    static async restore(id: string, userId?: string) {
+        if (!(await restoreRecord('inquiries', id))) {
+            throw new Error('Archived inquiry not found');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Inquiry, entityId: id, action: AuditAction.Restore, actorId: userId });
+        return this.getById(id);
+    }
+
+    static async delete(id: string, userId?: string) {
         const database = getDB();
-        await database.run('DELETE FROM inquiries WHERE id = ?', [id]);
+        const existing = await this.getById(id);
+        const result = await database.run('DELETE FROM inquiries WHERE id = ?', [id]);
+        if (!result.changes) {
+            throw new Error('Inquiry not found');
+        }
+        await InquiryResponsesService.deleteByInquiry(id);
+        await AuditService.record({
+            entityType: AuditEntityType.Inquiry,
+            entityId: id,
+            action: AuditAction.Delete,
+            actorId: userId,
+            changes: AuditService.snapshot(existing!, AUDITED_FIELDS, AuditAction.Delete)
+        });
     }
 }
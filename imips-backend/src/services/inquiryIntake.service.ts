@@ -0,0 +1,120 @@
+import { getDB } from '../utils/db';
+import { CustomerInquiry, Role } from '../types';
+import { InquiriesService } from './inquiries.service';
+import { EmailsService } from './emails.service';
+import { decodeSanitized, escapeHtml, toHtmlParagraphs } from '../utils/html';
+import logger from '../utils/logger';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 100;
+const MAX_EMAIL_LENGTH = 254;
+const MIN_DETAILS_LENGTH = 10;
+const MAX_DETAILS_LENGTH = 5000;
+
+export interface InquiryIntakeInput {
+    name?: any;
+    email?: any;
+    details?: any;
+}
+
+export class InquiryIntakeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InquiryIntakeError';
+    }
+}
+
+/**
+ * Reference number quoted to the customer, the same one staff replies carry
+ */
+const inquiryReference = (inquiryId: string) => inquiryId.slice(0, 8);
+
+export class InquiryIntakeService {
+    /**
+     * Store an inquiry submitted from the public website, acknowledge it to the
+     * customer and notify the staff on duty. Emails go through the outbox, so
+     * a mail outage never loses the inquiry.
+     */
+    static async submit(input: InquiryIntakeInput): Promise<{ inquiry: CustomerInquiry; reference: string }> {
+        const customerName = typeof input.name === 'string' ? input.name.trim() : '';
+        const customerEmail = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+        const inquiryDetails = typeof input.details === 'string' ? input.details.trim() : '';
+
+        if (!customerName || customerName.length > MAX_NAME_LENGTH) {
+            throw new InquiryIntakeError(`Name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+        }
+        if (customerEmail.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(customerEmail)) {
+            throw new InquiryIntakeError('A valid email address is required');
+        }
+        if (inquiryDetails.length < MIN_DETAILS_LENGTH || inquiryDetails.length > MAX_DETAILS_LENGTH) {
+            throw new InquiryIntakeError(`Inquiry details must be between ${MIN_DETAILS_LENGTH} and ${MAX_DETAILS_LENGTH} characters`);
+        }
+
+        const inquiry = await InquiriesService.add({ customerName, customerEmail, inquiryDetails } as CustomerInquiry);
+        const reference = inquiryReference(inquiry.id);
+        logger.info('Public inquiry received', { inquiryId: inquiry.id, assignedStaffId: inquiry.assignedStaffId });
+
+        // Stored as the XSS middleware encoded them; decoded so the emails escape them once
+        const name = decodeSanitized(customerName);
+        const details = decodeSanitized(inquiryDetails);
+
+        try {
+            await EmailsService.sendEmail({
+                recipient: customerEmail,
+                subject: `We received your inquiry #${reference}`,
+                body: [
+                    `<p>Dear ${escapeHtml(name)},</p>`,
+                    `<p>Thank you for contacting us. Your inquiry has been received and a member of our team will get back to you shortly.</p>`,
+                    `<p>Your reference number is <strong>#${reference}</strong>. Please quote it in any correspondence about this inquiry.</p>`,
+                    `<blockquote>${toHtmlParagraphs(details)}</blockquote>`,
+                ].join('\n'),
+            });
+
+            for (const recipient of await this.staffOnDuty(inquiry.assignedStaffId)) {
+                await EmailsService.sendEmail({
+                    recipient,
+                    subject: `New website inquiry #${reference} from ${name}`,
+                    body: [
+                        `<p>A new inquiry was submitted on the website by ${escapeHtml(name)} (${escapeHtml(decodeSanitized(customerEmail))}).</p>`,
+                        `<p>${inquiry.assignedStaffId ? 'It has been assigned to you.' : 'It has not been assigned yet.'}</p>`,
+                        `<blockquote>${toHtmlParagraphs(details)}</blockquote>`,
+                    ].join('\n'),
+                });
+            }
+        } catch (error) {
+            console.error('Error sending public inquiry notifications:', error);
+        }
+
+        return { inquiry, reference };
+    }
+
+    /**
+     * Who hears about a new inquiry: its assignee, otherwise Staff users who are
+     * signed in right now, otherwise every Staff user
+     */
+    private static async staffOnDuty(assignedStaffId?: string): Promise<string[]> {
+        const database = getDB();
+        if (assignedStaffId) {
+            const assignee = await database.get<{ email: string }>(
+                'SELECT email FROM users WHERE id = ? AND isDeleted = 0',
+                [assignedStaffId]
+            );
+            if (assignee) return [assignee.email];
+        }
+
+        const signedIn = await database.all<{ email: string }[]>(
+            `SELECT DISTINCT u.email
+             FROM users u
+             JOIN sessions s ON s.userId = u.id
+             WHERE u.role = ? AND u.isDeleted = 0 AND s.logoutTime IS NULL AND s.expiresAt > ?`,
+            [Role.Staff, new Date().toISOString()]
+        );
+        if (signedIn.length > 0) return signedIn.map(user => user.email);
+
+        const staff = await database.all<{ email: string }[]>(
+            'SELECT email FROM users WHERE role = ? AND isDeleted = 0',
+            [Role.Staff]
+        );
+        return staff.map(user => user.email);
+    }
+}
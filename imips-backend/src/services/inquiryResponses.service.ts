@@ -0,0 +1,89 @@
+import { getDB, withTransaction } from '../utils/db';
+import { InquiryResponse, InquiryStatus } from '../types';
+import { EmailsService } from './emails.service';
+import { AttachmentFile, EmailAttachmentsService } from './emailAttachments.service';
+import { decodeSanitized, escapeHtml, toHtmlParagraphs } from '../utils/html';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InquiryResponsesService {
+    /**
+     * Email a reply to the customer and add it to the inquiry's thread. The
+     * first reply moves a pending inquiry to In Progress.
+     */
+    static async create(inquiryId: string, message: string, attachments: AttachmentFile[], userId: string): Promise<InquiryResponse> {
+        if (!message || !message.trim()) {
+            throw new Error('Response message is required');
+        }
+
+        const database = getDB();
+        const inquiry = await database.get<{ customerName: string; customerEmail: string; inquiryDetails: string; status: InquiryStatus }>(
+            'SELECT customerName, customerEmail, inquiryDetails, status FROM inquiries WHERE id = ? AND isDeleted = 0',
+            [inquiryId]
+        );
+        if (!inquiry) {
+            throw new Error('Inquiry not found');
+        }
+
+        // Queued in the outbox before the reply is recorded; failed deliveries are retried from there.
+        // The reply and the stored inquiry arrive encoded by the XSS middleware and are decoded
+        // so the email escapes them once.
+        const email = await EmailsService.sendEmail({
+            recipient: inquiry.customerEmail,
+            subject: `Re: Your inquiry #${inquiryId.slice(0, 8)}`,
+            body: [
+                `<p>Dear ${escapeHtml(decodeSanitized(inquiry.customerName))},</p>`,
+                toHtmlParagraphs(decodeSanitized(message.trim())),
+                `<blockquote>${toHtmlParagraphs(decodeSanitized(inquiry.inquiryDetails || ''))}</blockquote>`,
+            ].join('\n'),
+            attachments,
+        });
+
+        const id = uuidv4();
+        await withTransaction(async () => {
+            await database.run(
+                `INSERT INTO inquiry_responses (id, inquiry_id, response_message, responded_by_user_id, email_id, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [id, inquiryId, message.trim(), userId, email.id, new Date().toISOString()]
+            );
+            await database.run(
+                'UPDATE inquiries SET status = ? WHERE id = ? AND status = ?',
+                [InquiryStatus.InProgress, inquiryId, InquiryStatus.Pending]
+            );
+        });
+
+        const [created] = (await this.getByInquiry(inquiryId)).filter(response => response.id === id);
+        return created;
+    }
+
+    /**
+     * The inquiry's replies, oldest first, with delivery status and attachments
+     */
+    static async getByInquiry(inquiryId: string): Promise<InquiryResponse[]> {
+        const database = getDB();
+        const rows = await database.all<any[]>(
+            `SELECT r.*, u.name as responded_by_name, e.status as email_status
+             FROM inquiry_responses r
+             LEFT JOIN users u ON u.id = r.responded_by_user_id
+             LEFT JOIN emails e ON e.id = r.email_id
+             WHERE r.inquiry_id = ?
+             ORDER BY r.created_at ASC`,
+            [inquiryId]
+        );
+
+        const attachments = await EmailAttachmentsService.getByEmails(rows.filter(r => r.email_id).map(r => r.email_id));
+        return rows.map(row => {
+            const files = attachments.get(row.email_id) || [];
+            return {
+                ...row,
+                email_id: row.email_id || undefined,
+                email_status: row.email_status || undefined,
+                has_attachments: files.length > 0,
+                attachments: files,
+            };
+        });
+    }
+
+    static async deleteByInquiry(inquiryId: string): Promise<void> {
+        await getDB().run('DELETE FROM inquiry_responses WHERE inquiry_id = ?', [inquiryId]);
+    }
+}
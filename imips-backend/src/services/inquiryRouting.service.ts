@@ -0,0 +1,88 @@
+import { getDB } from '../utils/db';
+import { InquiryAssignmentStrategy, InquiryRoutingSettings, InquiryStatus, InquirySlaTarget, Role } from '../types';
+import { SettingsService } from './settings.service';
+
+const SETTINGS_KEY = 'inquiry_routing';
+// Staff user who received the last round-robin assignment
+const CURSOR_KEY = 'inquiry_routing_cursor';
+
+const STRATEGIES: InquiryAssignmentStrategy[] = ['manual', 'round_robin', 'least_loaded'];
+
+export const DEFAULT_ROUTING_SETTINGS: InquiryRoutingSettings = {
+    strategy: 'manual',
+    slaTargets: {
+        [InquiryStatus.Pending]: { firstResponseHours: 24, resolutionHours: 72 },
+        [InquiryStatus.InProgress]: { firstResponseHours: 24, resolutionHours: 72 },
+        [InquiryStatus.Completed]: { firstResponseHours: null, resolutionHours: null },
+    },
+};
+
+const validHours = (hours: any) => hours === null || (typeof hours === 'number' && hours > 0);
+
+export class InquiryRoutingService {
+    static async getSettings(): Promise<InquiryRoutingSettings> {
+        const stored = await SettingsService.get<Partial<InquiryRoutingSettings>>(SETTINGS_KEY, {});
+        return {
+            strategy: stored.strategy || DEFAULT_ROUTING_SETTINGS.strategy,
+            slaTargets: { ...DEFAULT_ROUTING_SETTINGS.slaTargets, ...stored.slaTargets },
+        };
+    }
+
+    /**
+     * Change the assignment strategy and/or the SLA targets of some statuses
+     */
+    static async updateSettings(
+        changes: { strategy?: InquiryAssignmentStrategy; slaTargets?: Partial<Record<InquiryStatus, InquirySlaTarget>> },
+        userId: string
+    ): Promise<InquiryRoutingSettings> {
+        if (changes.strategy !== undefined && !STRATEGIES.includes(changes.strategy)) {
+            throw new Error(`Invalid assignment strategy: ${changes.strategy}`);
+        }
+        for (const [status, target] of Object.entries(changes.slaTargets || {})) {
+            if (!Object.values(InquiryStatus).includes(status as InquiryStatus)) {
+                throw new Error(`Invalid inquiry status: ${status}`);
+            }
+            if (!target || !validHours(target.firstResponseHours) || !validHours(target.resolutionHours)) {
+                throw new Error(`SLA targets for ${status} must be a positive number of hours or null`);
+            }
+        }
+
+        const current = await this.getSettings();
+        const updated: InquiryRoutingSettings = {
+            strategy: changes.strategy || current.strategy,
+            slaTargets: { ...current.slaTargets, ...changes.slaTargets },
+        };
+        await SettingsService.set(SETTINGS_KEY, updated, userId);
+        return updated;
+    }
+
+    /**
+     * Staff user a new inquiry should go to, or undefined when assignment is
+     * manual or there is no Staff user. Call inside the transaction that stores
+     * the inquiry so concurrent round-robin picks do not collide.
+     */
+    static async pickAssignee(): Promise<string | undefined> {
+        const { strategy } = await this.getSettings();
+        if (strategy === 'manual') return undefined;
+
+        const staff = await getDB().all<{ id: string; openCount: number }[]>(
+            `SELECT u.id,
+                    (SELECT COUNT(*) FROM inquiries i
+                     WHERE i.assignedStaffId = u.id AND i.isDeleted = 0 AND i.status != ?) as openCount
+             FROM users u
+             WHERE u.role = ? AND u.isDeleted = 0
+             ORDER BY u.name, u.id`,
+            [InquiryStatus.Completed, Role.Staff]
+        );
+        if (staff.length === 0) return undefined;
+
+        if (strategy === 'least_loaded') {
+            return staff.reduce((least, user) => (user.openCount < least.openCount ? user : least)).id;
+        }
+
+        const cursor = await SettingsService.get<string | null>(CURSOR_KEY, null);
+        const next = staff[(staff.findIndex(user => user.id === cursor) + 1) % staff.length];
+        await SettingsService.set(CURSOR_KEY, next.id);
+        return next.id;
+    }
+}
@@ -0,0 +1,120 @@
+import { getDB } from '../utils/db';
+import { CustomerInquiry, InquiryRoutingSettings, InquirySla, InquirySlaKind, InquiryStatus, Role } from '../types';
+import { InquiryRoutingService } from './inquiryRouting.service';
+import { EmailsService } from './emails.service';
+import logger from '../utils/logger';
+
+const SLA_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const SLA_LABELS: Record<InquirySlaKind, string> = {
+    first_response: 'first response',
+    resolution: 'resolution',
+};
+
+export class InquirySlaService {
+    private static checkTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * SLA deadlines of an inquiry in its current status, or undefined when the
+     * status has no targets left to meet
+     */
+    static compute(
+        inquiry: Pick<CustomerInquiry, 'status' | 'createdAt' | 'firstRespondedAt'>,
+        settings: InquiryRoutingSettings,
+        now = Date.now()
+    ): InquirySla | undefined {
+        const target = settings.slaTargets[inquiry.status];
+        if (!target || !inquiry.createdAt) return undefined;
+
+        const received = new Date(inquiry.createdAt).getTime();
+        const firstResponseDue = !inquiry.firstRespondedAt && target.firstResponseHours !== null
+            ? received + target.firstResponseHours * HOUR_MS
+            : undefined;
+        const resolutionDue = target.resolutionHours !== null
+            ? received + target.resolutionHours * HOUR_MS
+            : undefined;
+
+        const deadlines: [InquirySlaKind, number][] = [];
+        if (firstResponseDue !== undefined) deadlines.push(['first_response', firstResponseDue]);
+        if (resolutionDue !== undefined) deadlines.push(['resolution', resolutionDue]);
+        if (deadlines.length === 0) return undefined;
+
+        const [dueFor, due] = deadlines.reduce((nearest, deadline) => (deadline[1] < nearest[1] ? deadline : nearest));
+        return {
+            firstResponseDueAt: firstResponseDue !== undefined ? new Date(firstResponseDue).toISOString() : undefined,
+            resolutionDueAt: resolutionDue !== undefined ? new Date(resolutionDue).toISOString() : undefined,
+            dueAt: new Date(due).toISOString(),
+            dueFor,
+            remainingMinutes: Math.round((due - now) / 60000),
+            overdue: due <= now,
+        };
+    }
+
+    /**
+     * Flag open inquiries that have missed an SLA deadline and escalate each to
+     * a Manager by email. An inquiry is escalated once per missed deadline.
+     */
+    static async checkOverdue(): Promise<number> {
+        const database = getDB();
+        const settings = await InquiryRoutingService.getSettings();
+        const inquiries = await database.all<CustomerInquiry[]>(
+            `SELECT i.*, (SELECT MIN(r.created_at) FROM inquiry_responses r WHERE r.inquiry_id = i.id) as firstRespondedAt
+             FROM inquiries i
+             WHERE i.isDeleted = 0 AND i.status != ?`,
+            [InquiryStatus.Completed]
+        );
+
+        let escalated = 0;
+        for (const inquiry of inquiries) {
+            const sla = this.compute(inquiry, settings);
+            if (!sla || !sla.overdue || inquiry.escalatedFor === sla.dueFor) continue;
+
+            const manager = await this.pickManager();
+            await database.run(
+                'UPDATE inquiries SET escalatedAt = ?, escalatedTo = ?, escalatedFor = ? WHERE id = ?',
+                [new Date().toISOString(), manager?.id || null, sla.dueFor, inquiry.id]
+            );
+            logger.warn('Inquiry escalated', { inquiryId: inquiry.id, missed: sla.dueFor, escalatedTo: manager?.id });
+
+            if (manager) {
+                await EmailsService.sendEmail({
+                    recipient: manager.email,
+                    subject: `Overdue inquiry from ${inquiry.customerName}`,
+                    body: [
+                        `<p>The inquiry from ${inquiry.customerName} (${inquiry.customerEmail}) missed its ${SLA_LABELS[sla.dueFor]} deadline of ${new Date(sla.dueAt).toUTCString()}.</p>`,
+                        `<p>Status: ${inquiry.status}</p>`,
+                        `<blockquote>${inquiry.inquiryDetails}</blockquote>`,
+                    ].join('\n'),
+                });
+            }
+            escalated++;
+        }
+        return escalated;
+    }
+
+    static startChecker(): void {
+        if (this.checkTimer) return;
+        this.checkTimer = setInterval(() => {
+            this.checkOverdue().catch(error => {
+                console.error('Error checking inquiry SLAs:', error);
+            });
+        }, SLA_CHECK_INTERVAL_MS);
+        this.checkTimer.unref();
+    }
+
+    /**
+     * Manager with the fewest open escalations
+     */
+    private static async pickManager() {
+        return getDB().get<{ id: string; email: string }>(
+            `SELECT u.id, u.email
+             FROM users u
+             WHERE u.role = ? AND u.isDeleted = 0
+             ORDER BY (SELECT COUNT(*) FROM inquiries i
+                       WHERE i.escalatedTo = u.id AND i.isDeleted = 0 AND i.status != ?), u.name, u.id
+             LIMIT 1`,
+            [Role.Manager, InquiryStatus.Completed]
+        );
+    }
+}
@@ -1,23 +1,51 @@
-import { getDB } from '../utils/db';
-import { InventoryItem } from '../types';
+import { getDB, withTransaction } from '../utils/db';
+import { AuditAction, AuditEntityType, InventoryItem, InventoryMovementType, PaginatedResponse } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { ImageUtils } from '../utils/imageUtils'; // Add this import
+import { InventoryMovementsService } from './inventoryMovements.service';
+import { archivedCondition, archiveRecord, restoreRecord } from '../utils/softDelete';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { AuditService } from './audit.service';
+
+export interface StockChangeOptions {
+    type?: InventoryMovementType;
+    reason?: string;
+    relatedOrderId?: string;
+    userId?: string;
+}
+
+// The only columns an update may set; archiving and restoring have their own routes
+const EDITABLE_FIELDS = ['name', 'sku', 'quantity', 'threshold', 'category', 'price', 'imageUrl', 'warrantyPeriod'] as const;
+const AUDITED_FIELDS = ['name', 'sku', 'quantity', 'threshold', 'category', 'price', 'imageUrl', 'warrantyPeriod'] as const;
 
 export class InventoryService {
-    static async getAll() {
-        const database = getDB();
-        const items = await database.all<InventoryItem[]>('SELECT * FROM inventory ORDER BY name');
+    static async getAll(options: { archived?: boolean } = {}) {
+        return (await this.list({ page: 1, filters: {} }, options)).data;
+    }
+
+    static async list(params: ListParams, options: { archived?: boolean } = {}): Promise<PaginatedResponse<InventoryItem>> {
+        const result = await runListQuery<InventoryItem>({
+            from: 'inventory',
+            where: [archivedCondition(options.archived)],
+            sortable: { name: 'name', sku: 'sku', category: 'category', quantity: 'quantity', threshold: 'threshold', price: 'price' },
+            searchable: ['name', 'sku', 'category'],
+            filterable: { category: 'category' },
+            defaultSort: 'name',
+            defaultOrder: 'ASC'
+        }, params);
 
         // Process items to ensure image URLs with fallbacks
-        return Promise.all(
-            items.map(async (item) => ({
+        const data = await Promise.all(
+            result.data.map(async (item) => ({
                 ...item,
+                isDeleted: !!item.isDeleted,
                 imageUrl: await ImageUtils.processImageUrl(item.imageUrl, 'inventory')
             }))
         );
+        return { ...result, data };
     }
 
-    static async add(item: Partial<InventoryItem>) {
+    static async add(item: Partial<InventoryItem>, userId?: string) {
         const database = getDB();
 
         if (!item.name || !item.sku) {
@@ -53,6 +81,27 @@ export class InventoryService {
             ]
         );
 
+        const initialQuantity = Number(item.quantity) || 0;
+        if (initialQuantity > 0) {
+            await InventoryMovementsService.record({
+                itemId: id,
+                type: InventoryMovementType.StockIn,
+                quantityChange: initialQuantity,
+                quantityAfter: initialQuantity,
+                reason: 'Initial stock',
+                userId
+            });
+        }
+
+        const created = await this.getById(id);
+        await AuditService.record({
+            entityType: AuditEntityType.Inventory,
+            entityId: id,
+            action: AuditAction.Create,
+            actorId: userId,
+            changes: AuditService.snapshot(created!, AUDITED_FIELDS, AuditAction.Create)
+        });
+
         return {
             id,
             ...item,
@@ -60,7 +109,7 @@ export class InventoryService {
         };
     }
 
-    static async update(data: Partial<InventoryItem> & { id: string }) {
+    static async update(data: Partial<InventoryItem> & { id: string }, userId?: string) {
         const database = getDB();
         const { id, ...updateData } = data;
 
@@ -87,15 +136,38 @@ export class InventoryService {
             updateData.imageUrl = ImageUtils.processImageUrl(updateData.imageUrl, 'inventory');
         }
 
-        const fields = Object.keys(updateData).map(k => `${k} = ?`).join(', ');
-        const values = Object.values(updateData);
-
+        const fields = EDITABLE_FIELDS.filter(field => updateData[field] !== undefined);
         await database.run(
-            `UPDATE inventory SET ${fields} WHERE id=?`,
-            [...values, id]
+            `UPDATE inventory SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id=?`,
+            [...fields.map(field => updateData[field]), id]
         );
 
-        return this.getById(id);
+        // Direct quantity edits are recorded as manual adjustments
+        if (updateData.quantity !== undefined) {
+            const newQuantity = Number(updateData.quantity);
+            const change = newQuantity - existingItem.quantity;
+            if (change !== 0) {
+                await InventoryMovementsService.record({
+                    itemId: id,
+                    type: change > 0 ? InventoryMovementType.AdjustmentIn : InventoryMovementType.AdjustmentOut,
+                    quantityChange: change,
+                    quantityAfter: newQuantity,
+                    reason: 'Manual quantity edit',
+                    userId
+                });
+            }
+        }
+
+        const updatedItem = await this.getById(id);
+        await AuditService.record({
+            entityType: AuditEntityType.Inventory,
+            entityId: id,
+            action: AuditAction.Update,
+            actorId: userId,
+            changes: AuditService.diff(existingItem, updatedItem!, AUDITED_FIELDS)
+        });
+
+        return updatedItem;
     }
 
     static async getById(id: string) {
@@ -105,13 +177,37 @@ export class InventoryService {
         if (item) {
             return {
                 ...item,
+                isDeleted: !!item.isDeleted,
                 imageUrl: ImageUtils.processImageUrl(item.imageUrl, 'inventory')
             };
         }
         return null;
     }
 
-    static async delete(id: string) {
+    /**
+     * Hide an item from lists and checkout while keeping it for order history
+     */
+    static async archive(id: string, userId?: string) {
+        if (!(await archiveRecord('inventory', id, userId))) {
+            throw new Error('Inventory item not found or already archived');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Inventory, entityId: id, action: AuditAction.Archive, actorId: userId });
+        return { message: 'Inventory item archived successfully' };
+    }
+
+    static async restore(id: string, userId?: string) {
+        if (!(await restoreRecord('inventory', id))) {
+            throw new Error('Archived inventory item not found');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Inventory, entityId: id, action: AuditAction.Restore, actorId: userId });
+        return this.getById(id);
+    }
+
+    /**
+     * Permanently remove an item and its movement history. Items that appear in
+     * orders can only be archived.
+     */
+    static async delete(id: string, userId?: string) {
         const database = getDB();
 
         // Check if item exists
@@ -127,15 +223,25 @@ export class InventoryService {
         );
 
         if (orderUsage && orderUsage.count > 0) {
-            throw new Error('Cannot delete item that is used in existing orders');
+            throw new Error('Cannot permanently delete an item that is used in existing orders, archive it instead');
         }
 
-        await database.run('DELETE FROM inventory WHERE id=?', [id]);
+        await withTransaction(async () => {
+            await database.run('DELETE FROM inventory_movements WHERE itemId = ?', [id]);
+            await database.run('DELETE FROM inventory WHERE id=?', [id]);
+            await AuditService.record({
+                entityType: AuditEntityType.Inventory,
+                entityId: id,
+                action: AuditAction.Delete,
+                actorId: userId,
+                changes: AuditService.snapshot(existingItem, AUDITED_FIELDS, AuditAction.Delete)
+            });
+        });
 
         return { message: 'Inventory item deleted successfully' };
     }
 
-    static async reduceStock(id: string, quantity: number) {
+    static async reduceStock(id: string, quantity: number, options: StockChangeOptions = {}) {
         const database = getDB();
 
         // Check current stock
@@ -153,6 +259,16 @@ export class InventoryService {
             [quantity, id]
         );
 
+        await InventoryMovementsService.record({
+            itemId: id,
+            type: options.type || InventoryMovementType.StockOut,
+            quantityChange: -quantity,
+            quantityAfter: item.quantity - quantity,
+            reason: options.reason,
+            relatedOrderId: options.relatedOrderId,
+            userId: options.userId
+        });
+
         // Check if stock is below threshold after reduction
         const updatedItem = await this.getById(id);
         if (updatedItem && updatedItem.quantity <= updatedItem.threshold) {
@@ -162,7 +278,7 @@ export class InventoryService {
         return this.getById(id);
     }
 
-    static async increaseStock(id: string, quantity: number) {
+    static async increaseStock(id: string, quantity: number, options: StockChangeOptions = {}) {
         const database = getDB();
 
         // Check if item exists
@@ -176,13 +292,37 @@ export class InventoryService {
             [quantity, id]
         );
 
+        await InventoryMovementsService.record({
+            itemId: id,
+            type: options.type || InventoryMovementType.StockIn,
+            quantityChange: quantity,
+            quantityAfter: item.quantity + quantity,
+            reason: options.reason,
+            relatedOrderId: options.relatedOrderId,
+            userId: options.userId
+        });
+
         return this.getById(id);
     }
 
+    /**
+     * Record a manual stock movement (delivery, damage, expiry, count correction...)
+     */
+    static async adjustStock(id: string, type: InventoryMovementType, quantity: number, reason: string | undefined, userId: string) {
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+            throw new Error('Quantity must be a positive whole number');
+        }
+
+        const options = { type, reason, userId };
+        return InventoryMovementsService.isInbound(type)
+            ? this.increaseStock(id, quantity, options)
+            : this.reduceStock(id, quantity, options);
+    }
+
     static async getLowStock() {
         const database = getDB();
         const items = await database.all<InventoryItem[]>(
-            'SELECT * FROM inventory WHERE quantity <= threshold ORDER BY quantity ASC'
+            'SELECT * FROM inventory WHERE quantity <= threshold AND isDeleted = 0 ORDER BY quantity ASC'
         );
 
         // Process items to ensure image URLs with fallbacks
@@ -197,7 +337,7 @@ export class InventoryService {
     static async getByCategory(category: string) {
         const database = getDB();
         const items = await database.all<InventoryItem[]>(
-            'SELECT * FROM inventory WHERE category = ? ORDER BY name',
+            'SELECT * FROM inventory WHERE category = ? AND isDeleted = 0 ORDER BY name',
             [category]
         );
 
@@ -214,7 +354,7 @@ export class InventoryService {
         const database = getDB();
         const items = await database.all<InventoryItem[]>(
             `SELECT * FROM inventory 
-             WHERE name LIKE ? OR sku LIKE ? OR category LIKE ?
+             WHERE (name LIKE ? OR sku LIKE ? OR category LIKE ?) AND isDeleted = 0
              ORDER BY name`,
             [`%${query}%`, `%${query}%`, `%${query}%`]
         );
@@ -231,7 +371,7 @@ export class InventoryService {
     static async getCategories() {
         const database = getDB();
         const categories = await database.all<{ category: string }[]>(
-            'SELECT DISTINCT category FROM inventory WHERE category IS NOT NULL AND category != "" ORDER BY category'
+            'SELECT DISTINCT category FROM inventory WHERE category IS NOT NULL AND category != "" AND isDeleted = 0 ORDER BY category'
         );
 
         return categories.map(c => c.category);
@@ -252,29 +392,47 @@ export class InventoryService {
                 SUM(CASE WHEN quantity <= threshold THEN 1 ELSE 0 END) as lowStockItems,
                 SUM(CASE WHEN quantity = 0 THEN 1 ELSE 0 END) as outOfStockItems
             FROM inventory
+            WHERE isDeleted = 0
         `);
 
         return summary || { totalItems: 0, totalValue: 0, lowStockItems: 0, outOfStockItems: 0 };
     }
 
-    static async bulkUpdateQuantities(updates: Array<{ id: string; quantity: number }>) {
+    static async bulkUpdateQuantities(updates: Array<{ id: string; quantity: number }>, userId?: string) {
         const database = getDB();
 
         try {
-            await database.run('BEGIN TRANSACTION');
-
-            for (const update of updates) {
-                await database.run(
-                    'UPDATE inventory SET quantity = ? WHERE id = ?',
-                    [update.quantity, update.id]
-                );
-            }
-
-            await database.run('COMMIT');
+            await withTransaction(async () => {
+                for (const update of updates) {
+                    const current = await database.get<{ quantity: number }>(
+                        'SELECT quantity FROM inventory WHERE id = ?',
+                        [update.id]
+                    );
+                    if (!current) {
+                        throw new Error(`Inventory item not found: ${update.id}`);
+                    }
+
+                    await database.run(
+                        'UPDATE inventory SET quantity = ? WHERE id = ?',
+                        [update.quantity, update.id]
+                    );
+
+                    const change = update.quantity - current.quantity;
+                    if (change !== 0) {
+                        await InventoryMovementsService.record({
+                            itemId: update.id,
+                            type: change > 0 ? InventoryMovementType.AdjustmentIn : InventoryMovementType.AdjustmentOut,
+                            quantityChange: change,
+                            quantityAfter: update.quantity,
+                            reason: 'Bulk quantity update',
+                            userId
+                        });
+                    }
+                }
+            });
 
             return { message: 'Bulk update completed successfully' };
         } catch (error) {
-            await database.run('ROLLBACK');
             throw new Error('Bulk update failed: ' + (error as Error).message);
         }
     }
@@ -0,0 +1,89 @@
+import { getDB } from '../utils/db';
+import { InventoryMovement, InventoryMovementType } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface MovementFilters {
+    from?: string;
+    to?: string;
+    type?: InventoryMovementType;
+}
+
+export interface RecordMovementInput {
+    itemId: string;
+    type: InventoryMovementType;
+    quantityChange: number;
+    quantityAfter: number;
+    reason?: string;
+    relatedOrderId?: string;
+    userId?: string;
+}
+
+// Movement types that add stock; everything else takes stock away
+const INBOUND_TYPES = [
+    InventoryMovementType.StockIn,
+    InventoryMovementType.AdjustmentIn,
+    InventoryMovementType.Return,
+];
+
+export class InventoryMovementsService {
+    static isInbound(type: InventoryMovementType): boolean {
+        return INBOUND_TYPES.includes(type);
+    }
+
+    static isValidType(type: any): type is InventoryMovementType {
+        return Object.values(InventoryMovementType).includes(type);
+    }
+
+    static async record(movement: RecordMovementInput): Promise<InventoryMovement> {
+        const database = getDB();
+        const id = uuidv4();
+        const timestamp = new Date().toISOString();
+
+        await database.run(
+            `INSERT INTO inventory_movements (id, itemId, type, quantityChange, quantityAfter, reason, relatedOrderId, timestamp, userId)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                id,
+                movement.itemId,
+                movement.type,
+                movement.quantityChange,
+                movement.quantityAfter,
+                movement.reason || null,
+                movement.relatedOrderId || null,
+                timestamp,
+                movement.userId || null
+            ]
+        );
+
+        return { id, timestamp, ...movement };
+    }
+
+    static async getByItem(itemId: string, filters: MovementFilters = {}): Promise<InventoryMovement[]> {
+        const database = getDB();
+
+        let query = `SELECT m.*, u.name as user_name
+                     FROM inventory_movements m
+                     LEFT JOIN users u ON u.id = m.userId
+                     WHERE m.itemId = ?`;
+        const params: any[] = [itemId];
+
+        if (filters.type) {
+            query += ' AND m.type = ?';
+            params.push(filters.type);
+        }
+
+        if (filters.from) {
+            query += ' AND m.timestamp >= ?';
+            params.push(filters.from);
+        }
+
+        if (filters.to) {
+            query += ' AND m.timestamp <= ?';
+            params.push(filters.to);
+        }
+
+        query += ' ORDER BY m.timestamp DESC';
+
+        return database.all<InventoryMovement[]>(query, params);
+    }
+}
@@ -0,0 +1,247 @@
+import { getDB, withTransaction } from '../utils/db';
+import { Newsletter, NewsletterDeliveryStatus, NewsletterRecipient, NewsletterRecipientGroup, PaginatedResponse } from '../types';
+import { EmailsService } from './emails.service';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface CreateNewsletterInput {
+    subject: string;
+    htmlContent: string;
+    recipientGroup: NewsletterRecipientGroup;
+    customRecipients?: string[];
+}
+
+export const NEWSLETTER_GROUPS: NewsletterRecipientGroup[] = ['all_customers', 'recent_customers', 'inquiry_customers', 'custom'];
+
+// Customers who ordered within this many days count as recent
+const RECENT_CUSTOMER_DAYS = 30;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeEmails = (emails: (string | null | undefined)[]) =>
+    [...new Set(
+        emails
+            .map(email => (email || '').trim().toLowerCase())
+            .filter(email => EMAIL_PATTERN.test(email))
+    )].sort();
+
+export class NewslettersService {
+    static isValidGroup(group: any): group is NewsletterRecipientGroup {
+        return NEWSLETTER_GROUPS.includes(group);
+    }
+
+    /**
+     * De-duplicated addresses for an audience segment, taken from live orders
+     * and inquiries
+     */
+    static async getAudience(group: NewsletterRecipientGroup, customRecipients: string[] = []): Promise<string[]> {
+        const database = getDB();
+
+        switch (group) {
+            case 'all_customers': {
+                const rows = await database.all<{ email: string }[]>(
+                    `SELECT customerEmail as email FROM orders WHERE isDeleted = 0
+                     UNION
+                     SELECT customerEmail as email FROM inquiries WHERE isDeleted = 0`
+                );
+                return normalizeEmails(rows.map(r => r.email));
+            }
+            case 'recent_customers': {
+                const since = new Date(Date.now() - RECENT_CUSTOMER_DAYS * 24 * 60 * 60 * 1000).toISOString();
+                const rows = await database.all<{ email: string }[]>(
+                    'SELECT DISTINCT customerEmail as email FROM orders WHERE isDeleted = 0 AND createdAt >= ?',
+                    [since]
+                );
+                return normalizeEmails(rows.map(r => r.email));
+            }
+            case 'inquiry_customers': {
+                const rows = await database.all<{ email: string }[]>(
+                    'SELECT DISTINCT customerEmail as email FROM inquiries WHERE isDeleted = 0'
+                );
+                return normalizeEmails(rows.map(r => r.email));
+            }
+            case 'custom':
+                return normalizeEmails(customRecipients);
+        }
+    }
+
+    /**
+     * Recipient counts for every segment except custom
+     */
+    static async getAudienceSizes(): Promise<Record<string, number>> {
+        const sizes: Record<string, number> = {};
+        for (const group of NEWSLETTER_GROUPS) {
+            if (group === 'custom') continue;
+            sizes[group] = (await this.getAudience(group)).length;
+        }
+        return sizes;
+    }
+
+    static async list(params: ListParams): Promise<PaginatedResponse<Newsletter>> {
+        return runListQuery<Newsletter>({
+            from: 'newsletters n LEFT JOIN users u ON u.id = n.sent_by_user_id',
+            select: 'n.*, u.name as sent_by_name',
+            sortable: { created_at: 'n.created_at', subject: 'n.subject', status: 'n.status' },
+            searchable: ['n.subject', 'u.name'],
+            filterable: { status: 'n.status', recipient_group: 'n.recipient_group' },
+            defaultSort: 'created_at',
+            defaultOrder: 'DESC',
+            idColumn: 'n.id'
+        }, params);
+    }
+
+    static async getById(id: string): Promise<Newsletter | null> {
+        const database = getDB();
+        const newsletter = await database.get<Newsletter>(
+            `SELECT n.*, u.name as sent_by_name
+             FROM newsletters n
+             LEFT JOIN users u ON u.id = n.sent_by_user_id
+             WHERE n.id = ?`,
+            [id]
+        );
+        return newsletter || null;
+    }
+
+    static async getRecipients(id: string, status?: NewsletterDeliveryStatus): Promise<NewsletterRecipient[]> {
+        const database = getDB();
+        let query = 'SELECT * FROM newsletter_recipients WHERE newsletter_id = ?';
+        const params: any[] = [id];
+        if (status) {
+            query += ' AND status = ?';
+            params.push(status);
+        }
+        return database.all<NewsletterRecipient[]>(query + ' ORDER BY email', params);
+    }
+
+    /**
+     * Store the newsletter with one pending row per recipient and start
+     * delivering in the background. Resolves as soon as sending has started.
+     */
+    static async create(input: CreateNewsletterInput, userId: string): Promise<Newsletter> {
+        if (!input.subject || !input.subject.trim()) {
+            throw new Error('Subject is required');
+        }
+        if (!input.htmlContent || !input.htmlContent.trim()) {
+            throw new Error('Content is required');
+        }
+        if (!this.isValidGroup(input.recipientGroup)) {
+            throw new Error('Invalid recipient group');
+        }
+
+        const recipients = await this.getAudience(input.recipientGroup, input.customRecipients);
+        if (recipients.length === 0) {
+            throw new Error('No recipients found for this audience');
+        }
+
+        const id = uuidv4();
+        await withTransaction(async () => {
+            const database = getDB();
+            await database.run(
+                `INSERT INTO newsletters (id, subject, html_content, recipient_group, total_recipients, status, sent_by_user_id, created_at)
+                 VALUES (?, ?, ?, ?, ?, 'sending', ?, ?)`,
+                [id, input.subject.trim(), input.htmlContent, input.recipientGroup, recipients.length, userId, new Date().toISOString()]
+            );
+            for (const email of recipients) {
+                await database.run(
+                    `INSERT INTO newsletter_recipients (newsletter_id, email, status) VALUES (?, ?, 'pending')`,
+                    [id, email]
+                );
+            }
+        });
+
+        this.deliverInBackground(id);
+        return (await this.getById(id))!;
+    }
+
+    /**
+     * Queue every failed address of a finished newsletter again
+     */
+    static async resendFailed(id: string): Promise<Newsletter> {
+        const newsletter = await this.getById(id);
+        if (!newsletter) {
+            throw new Error('Newsletter not found');
+        }
+        if (newsletter.status === 'sending') {
+            throw new Error('Newsletter is still being sent');
+        }
+
+        const database = getDB();
+        const result = await database.run(
+            `UPDATE newsletter_recipients SET status = 'pending', error = NULL WHERE newsletter_id = ? AND status = 'failed'`,
+            [id]
+        );
+        if (!result.changes) {
+            throw new Error('There are no failed recipients to resend to');
+        }
+        await database.run(`UPDATE newsletters SET status = 'sending', completed_at = NULL WHERE id = ?`, [id]);
+
+        this.deliverInBackground(id);
+        return (await this.getById(id))!;
+    }
+
+    /**
+     * Pick up newsletters that were still sending when the server stopped
+     */
+    static async resumeInterrupted(): Promise<void> {
+        const database = getDB();
+        const rows = await database.all<{ id: string }[]>(`SELECT id FROM newsletters WHERE status = 'sending'`);
+        rows.forEach(row => this.deliverInBackground(row.id));
+    }
+
+    private static deliverInBackground(id: string) {
+        this.deliver(id).catch(error => {
+            console.error(`Error delivering newsletter ${id}:`, error);
+        });
+    }
+
+    private static async deliver(id: string): Promise<void> {
+        const database = getDB();
+        const newsletter = await this.getById(id);
+        if (!newsletter) return;
+
+        const pending = await this.getRecipients(id, 'pending');
+        for (const recipient of pending) {
+            try {
+                await EmailsService.sendEmail({
+                    recipient: recipient.email,
+                    subject: newsletter.subject,
+                    body: newsletter.html_content,
+                    saveToHistory: false
+                });
+                await database.run(
+                    `UPDATE newsletter_recipients SET status = 'sent', error = NULL, attempts = attempts + 1, sent_at = ? WHERE id = ?`,
+                    [new Date().toISOString(), recipient.id]
+                );
+            } catch (error: any) {
+                await database.run(
+                    `UPDATE newsletter_recipients SET status = 'failed', error = ?, attempts = attempts + 1 WHERE id = ?`,
+                    [error?.message || 'Delivery failed', recipient.id]
+                );
+            }
+            await this.updateCounts(id);
+        }
+
+        // Failed only when nobody received it; partial failures can be resent
+        const counts = await this.updateCounts(id);
+        await database.run(
+            'UPDATE newsletters SET status = ?, completed_at = ? WHERE id = ?',
+            [counts.success_count === 0 ? 'failed' : 'completed', new Date().toISOString(), id]
+        );
+    }
+
+    private static async updateCounts(id: string) {
+        const database = getDB();
+        const counts = await database.get<{ success_count: number; fail_count: number }>(
+            `SELECT
+                COALESCE(SUM(CASE WHEN status = 'sent' THEN 1 ELSE 0 END), 0) as success_count,
+                COALESCE(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0) as fail_count
+             FROM newsletter_recipients WHERE newsletter_id = ?`,
+            [id]
+        );
+        await database.run(
+            'UPDATE newsletters SET success_count = ?, fail_count = ? WHERE id = ?',
+            [counts!.success_count, counts!.fail_count, id]
+        );
+        return counts!;
+    }
+}
@@ -0,0 +1,39 @@
+import { getDB } from '../utils/db';
+import { OrderStatus, OrderStatusChange } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface RecordStatusChangeInput {
+    orderId: string;
+    fromStatus: OrderStatus | null;
+    toStatus: OrderStatus;
+    note?: string;
+    changedBy: string;
+}
+
+export class OrderHistoryService {
+    static async record(change: RecordStatusChangeInput): Promise<OrderStatusChange> {
+        const database = getDB();
+        const id = uuidv4();
+        const changedAt = new Date().toISOString();
+
+        await database.run(
+            `INSERT INTO order_status_history (id, orderId, fromStatus, toStatus, note, changedBy, changedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, change.orderId, change.fromStatus, change.toStatus, change.note || null, change.changedBy, changedAt]
+        );
+
+        return { id, changedAt, ...change };
+    }
+
+    static async getByOrder(orderId: string): Promise<OrderStatusChange[]> {
+        const database = getDB();
+        return database.all<OrderStatusChange[]>(
+            `SELECT h.*, u.name as changedByName
+             FROM order_status_history h
+             LEFT JOIN users u ON u.id = h.changedBy
+             WHERE h.orderId = ?
+             ORDER BY h.changedAt ASC`,
+            [orderId]
+        );
+    }
+}
@@ -0,0 +1,241 @@
+import { getDB, withTransaction } from '../utils/db';
+import { InventoryMovementType, OrderReturn, OrderReturnLine, OrderStatus, ReturnDisposition } from '../types';
+import { InventoryService } from './inventory.service';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ReturnLineInput {
+    orderItemId: number;
+    quantity: number;
+    disposition?: ReturnDisposition;
+}
+
+export interface CreateReturnInput {
+    lines: ReturnLineInput[];
+    refundAmount: number;
+    reason?: string;
+}
+
+interface ReturnableLine {
+    id: number;
+    itemId: string;
+    name: string;
+    price: number;
+    quantity: number;
+    returnedQuantity: number;
+}
+
+// Orders in these statuses have already given everything back
+const CLOSED_STATUSES = [OrderStatus.Cancelled, OrderStatus.Refunded];
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Order lines are integer rows; numeric strings are accepted as well
+const parseLineId = (value: unknown) =>
+    typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+
+export class OrderReturnsService {
+    static isValidDisposition(disposition: any): disposition is ReturnDisposition {
+        return Object.values(ReturnDisposition).includes(disposition);
+    }
+
+    /**
+     * Take back some units of an order. Restocked lines go back into inventory as
+     * Return movements; written-off lines are recorded but leave stock untouched.
+     */
+    static async create(orderId: string, input: CreateReturnInput, createdBy: string): Promise<OrderReturn> {
+        if (!input || !Array.isArray(input.lines) || input.lines.length === 0) {
+            throw new Error('At least one order line is required');
+        }
+        const lines: ReturnLineInput[] = input.lines.map(line => ({ ...line, orderItemId: parseLineId(line?.orderItemId) as number }));
+        for (const line of lines) {
+            if (!Number.isInteger(line.orderItemId) || line.orderItemId <= 0) {
+                throw new Error(`Order line id must be a whole number, got ${JSON.stringify(line.orderItemId ?? null)}`);
+            }
+            if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+                throw new Error(`Invalid quantity for order line ${line.orderItemId}`);
+            }
+            if (line.disposition !== undefined && !this.isValidDisposition(line.disposition)) {
+                throw new Error(`Invalid disposition: ${line.disposition}`);
+            }
+        }
+        const refundAmount = Number(input.refundAmount);
+        if (input.refundAmount === undefined || input.refundAmount === null || isNaN(refundAmount) || refundAmount < 0) {
+            throw new Error('Refund amount must be zero or more');
+        }
+
+        return withTransaction(async () => {
+            const order = await this.loadReturnableOrder(orderId);
+            const returnable = await this.getReturnableLines(orderId);
+
+            const requested = new Map<number, number>();
+            for (const line of lines) {
+                requested.set(line.orderItemId, (requested.get(line.orderItemId) || 0) + line.quantity);
+            }
+            for (const [orderItemId, quantity] of requested) {
+                const line = returnable.get(orderItemId);
+                if (!line) {
+                    throw new Error(`Order line ${orderItemId} does not belong to this order`);
+                }
+                const remaining = line.quantity - line.returnedQuantity;
+                if (quantity > remaining) {
+                    throw new Error(`Cannot return ${quantity} of "${line.name}"; only ${remaining} left to return`);
+                }
+            }
+
+            const refundable = roundCurrency(order.total - order.refundedAmount);
+            if (roundCurrency(refundAmount) > refundable) {
+                throw new Error(`Refund amount exceeds the refundable balance of ${refundable.toFixed(2)}`);
+            }
+            // The refund can't be worth more than the units coming back, after the order's discount
+            const ratio = order.subtotal > 0 ? order.total / order.subtotal : 1;
+            let returnedValue = 0;
+            for (const [orderItemId, quantity] of requested) {
+                returnedValue += quantity * (returnable.get(orderItemId)!.price || 0) * ratio;
+            }
+            if (roundCurrency(refundAmount) > roundCurrency(returnedValue)) {
+                throw new Error(`Refund amount exceeds the value of the returned items of ${roundCurrency(returnedValue).toFixed(2)}`);
+            }
+
+            return this.insertReturn(
+                orderId,
+                lines.map(line => ({
+                    orderItemId: line.orderItemId,
+                    itemId: returnable.get(line.orderItemId)!.itemId,
+                    quantity: line.quantity,
+                    disposition: line.disposition || ReturnDisposition.Restock
+                })),
+                roundCurrency(refundAmount),
+                input.reason,
+                createdBy
+            );
+        });
+    }
+
+    /**
+     * Return and refund everything that has not been returned yet. Used when a
+     * whole order is refunded; returns null when nothing is left.
+     */
+    static async refundRemaining(orderId: string, createdBy: string, reason?: string): Promise<OrderReturn | null> {
+        return withTransaction(async () => {
+            const order = await this.loadReturnableOrder(orderId);
+            const lines = [...(await this.getReturnableLines(orderId)).values()]
+                .filter(line => line.quantity > line.returnedQuantity)
+                .map(line => ({
+                    orderItemId: line.id,
+                    itemId: line.itemId,
+                    quantity: line.quantity - line.returnedQuantity,
+                    disposition: ReturnDisposition.Restock
+                }));
+            const refundAmount = Math.max(roundCurrency(order.total - order.refundedAmount), 0);
+
+            if (lines.length === 0 && refundAmount === 0) return null;
+            return this.insertReturn(orderId, lines, refundAmount, reason, createdBy);
+        });
+    }
+
+    /**
+     * Units of each order line that have not been returned, keyed by order_items id
+     */
+    static async getReturnableLines(orderId: string): Promise<Map<number, ReturnableLine>> {
+        const database = getDB();
+        const rows = await database.all<ReturnableLine[]>(
+            `SELECT oi.id, oi.itemId, oi.name, oi.price, oi.quantity,
+                    COALESCE((SELECT SUM(ri.quantity) FROM order_return_items ri WHERE ri.orderItemId = oi.id), 0) as returnedQuantity
+             FROM order_items oi
+             WHERE oi.orderId = ?`,
+            [orderId]
+        );
+        return new Map(rows.map(row => [row.id, row]));
+    }
+
+    static async getByOrder(orderId: string): Promise<OrderReturn[]> {
+        const database = getDB();
+        const returns = await database.all<OrderReturn[]>(
+            `SELECT r.*, u.name as createdByName
+             FROM order_returns r
+             LEFT JOIN users u ON u.id = r.createdBy
+             WHERE r.orderId = ?
+             ORDER BY r.createdAt ASC`,
+            [orderId]
+        );
+        if (returns.length === 0) return [];
+
+        const lines = await database.all<OrderReturnLine[]>(
+            `SELECT ri.*, oi.name
+             FROM order_return_items ri
+             JOIN order_returns r ON r.id = ri.returnId
+             LEFT JOIN order_items oi ON oi.id = ri.orderItemId
+             WHERE r.orderId = ?
+             ORDER BY ri.id`,
+            [orderId]
+        );
+
+        return returns.map(r => ({
+            ...r,
+            reason: r.reason || undefined,
+            lines: lines.filter(line => line.returnId === r.id)
+        }));
+    }
+
+    static async deleteByOrder(orderId: string): Promise<void> {
+        const database = getDB();
+        await database.run(
+            'DELETE FROM order_return_items WHERE returnId IN (SELECT id FROM order_returns WHERE orderId = ?)',
+            [orderId]
+        );
+        await database.run('DELETE FROM order_returns WHERE orderId = ?', [orderId]);
+    }
+
+    private static async loadReturnableOrder(orderId: string) {
+        const database = getDB();
+        const order = await database.get<{ status: OrderStatus; subtotal: number; total: number; isDeleted: number; refundedAmount: number }>(
+            `SELECT o.status, o.subtotal, o.total, o.isDeleted,
+                    COALESCE((SELECT SUM(r.refundAmount) FROM order_returns r WHERE r.orderId = o.id), 0) as refundedAmount
+             FROM orders o
+             WHERE o.id = ?`,
+            [orderId]
+        );
+        if (!order || order.isDeleted) {
+            throw new Error('Order not found');
+        }
+        if (CLOSED_STATUSES.includes(order.status)) {
+            throw new Error(`Cannot return items from a ${order.status.toLowerCase()} order`);
+        }
+        return order;
+    }
+
+    private static async insertReturn(
+        orderId: string,
+        lines: Omit<OrderReturnLine, 'id' | 'returnId' | 'name'>[],
+        refundAmount: number,
+        reason: string | undefined,
+        createdBy: string
+    ): Promise<OrderReturn> {
+        const database = getDB();
+        const id = uuidv4();
+        const createdAt = new Date().toISOString();
+
+        await database.run(
+            `INSERT INTO order_returns (id, orderId, refundAmount, reason, createdBy, createdAt) VALUES (?, ?, ?, ?, ?, ?)`,
+            [id, orderId, refundAmount, reason || null, createdBy, createdAt]
+        );
+
+        for (const line of lines) {
+            await database.run(
+                `INSERT INTO order_return_items (returnId, orderItemId, itemId, quantity, disposition) VALUES (?, ?, ?, ?, ?)`,
+                [id, line.orderItemId, line.itemId, line.quantity, line.disposition]
+            );
+            if (line.disposition === ReturnDisposition.Restock) {
+                await InventoryService.increaseStock(line.itemId, line.quantity, {
+                    type: InventoryMovementType.Return,
+                    reason: reason ? `Customer return: ${reason}` : 'Customer return',
+                    relatedOrderId: orderId,
+                    userId: createdBy
+                });
+            }
+        }
+
+        const [created] = (await this.getByOrder(orderId)).filter(r => r.id === id);
+        return created;
+    }
+}
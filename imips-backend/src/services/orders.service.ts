@@ -1,117 +1,405 @@
-import { getDB } from '../utils/db';
-import { Order, CartItem, OrderStatus } from '../types';
+import { getDB, withTransaction } from '../utils/db';
+import { AuditAction, AuditEntityType, Order, CartItem, OrderStatus, InventoryMovementType, PaginatedResponse } from '../types';
 import { InventoryService } from './inventory.service';
+import { DiscountsService } from './discounts.service';
+import { OrderHistoryService } from './orderHistory.service';
+import { OrderReturnsService, CreateReturnInput } from './orderReturns.service';
 import { v4 as uuidv4 } from 'uuid';
+import { archivedCondition, archiveRecord, restoreRecord } from '../utils/softDelete';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { AuditService } from './audit.service';
+
+interface CartStockRow {
+    id: string;
+    sku: string;
+    name: string;
+    category: string;
+    price: number;
+    quantity: number;
+}
+
+export interface StockShortage {
+    itemId: string;
+    sku: string | null;
+    name: string | null;
+    requested: number;
+    available: number;
+}
+
+/**
+ * Thrown when one or more cart lines cannot be fulfilled. Carries every failing
+ * line so the catalog page can show them all at once.
+ */
+export class InsufficientStockError extends Error {
+    constructor(public readonly lines: StockShortage[]) {
+        super(`Insufficient stock for: ${lines.map(l => l.sku || l.itemId).join(', ')}`);
+        this.name = 'InsufficientStockError';
+    }
+}
+
+/**
+ * Allowed next statuses for each status. Cancelling is only possible before the
+ * order ships and refunds only after delivery; both end the lifecycle.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.Processing]: [OrderStatus.Shipped, OrderStatus.Cancelled],
+    [OrderStatus.Shipped]: [OrderStatus.Delivered],
+    [OrderStatus.Delivered]: [OrderStatus.Refunded],
+    [OrderStatus.Cancelled]: [],
+    [OrderStatus.Refunded]: [],
+};
+
+// Order columns plus the total refunded through returns
+const ORDER_COLUMNS = `o.*, COALESCE((SELECT SUM(r.refundAmount) FROM order_returns r WHERE r.orderId = o.id), 0) as refundedAmount`;
+const ORDER_ITEM_COLUMNS = `oi.*, COALESCE((SELECT SUM(ri.quantity) FROM order_return_items ri WHERE ri.orderItemId = oi.id), 0) as returnedQuantity`;
+const ORDER_ITEMS_BATCH_SIZE = 500;
+const AUDITED_FIELDS = ['customerName', 'customerEmail', 'customerContact', 'customerAddress', 'total', 'status'] as const;
+
+export class InvalidStatusTransitionError extends Error {
+    constructor(public readonly from: OrderStatus, public readonly to: OrderStatus) {
+        super(`Cannot change order status from ${from} to ${to}`);
+        this.name = 'InvalidStatusTransitionError';
+    }
+
+    get allowed(): OrderStatus[] {
+        return ORDER_STATUS_TRANSITIONS[this.from] || [];
+    }
+}
 
 export class OrdersService {
     static async createOrder(
         customer: { name: string; contact: string; address: string; email: string },
         cart: CartItem[],
-        discount: number | null,
+        discountRef: { code?: string; id?: string } | null,
         createdBy: string
     ): Promise<Order> {
-        const database = getDB();
-        const subtotal = cart.reduce((sum, item) => sum + item.price * item.cartQuantity, 0);
-        const discountAmount = discount ? (subtotal * discount) / 100 : 0;
-        const total = subtotal - discountAmount;
-
-        const id = uuidv4();
-        const order: Order = {
-            id,
-            customerName: customer.name,
-            customerContact: customer.contact,
-            customerAddress: customer.address,
-            customerEmail: customer.email,
-            items: cart,
-            subtotal,
-            discountApplied: discount || 0,
-            total,
-            createdAt: new Date().toISOString(),
-            createdBy,
-            status: OrderStatus.Processing,
-        };
+        if (!Array.isArray(cart) || cart.length === 0) {
+            throw new Error('Cart is empty');
+        }
+        for (const item of cart) {
+            if (!Number.isInteger(item.cartQuantity) || item.cartQuantity <= 0) {
+                throw new Error(`Invalid quantity for item ${item.id}`);
+            }
+        }
+
+        return withTransaction(async () => {
+            const database = getDB();
+
+            // Check every line before writing anything; prices come from the database, not the client
+            const stock = await this.loadCartStock(cart);
+            const lines = cart.map(item => {
+                const row = stock.get(item.id)!;
+                return { ...item, name: row.name, sku: row.sku, category: row.category, price: row.price };
+            });
+
+            const subtotal = lines.reduce((sum, line) => sum + line.price * line.cartQuantity, 0);
 
-        // Insert order
-        await database.run(
-            `INSERT INTO orders (id, customerName, customerContact, customerAddress, customerEmail, subtotal, discountAmount, total, createdAt, createdBy, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-                order.id,
-                order.customerName,
-                order.customerContact,
-                order.customerAddress,
-                order.customerEmail,
-                order.subtotal,
+            let discountAmount = 0;
+            let appliedDiscountId: string | null = null;
+            if (discountRef && (discountRef.code || discountRef.id)) {
+                const validation = await DiscountsService.validateForCart(
+                    discountRef,
+                    lines.map(line => ({ category: line.category, price: line.price, quantity: line.cartQuantity }))
+                );
+                if (!validation.isValid || !validation.discount) {
+                    throw new Error(validation.message || 'Invalid discount code');
+                }
+                discountAmount = validation.discountAmount || 0;
+                appliedDiscountId = validation.discount.id;
+            }
+
+            const total = Math.round((subtotal - discountAmount) * 100) / 100;
+
+            const id = uuidv4();
+            const order: Order = {
+                id,
+                customerName: customer.name,
+                customerContact: customer.contact,
+                customerAddress: customer.address,
+                customerEmail: customer.email,
+                items: lines,
+                subtotal,
+                applied_discount_id: appliedDiscountId,
                 discountAmount,
-                order.total,
-                order.createdAt,
-                order.createdBy,
-                order.status
-            ]
-        );
+                discountApplied: this.effectiveDiscountPercent(subtotal, discountAmount),
+                total,
+                createdAt: new Date().toISOString(),
+                createdBy,
+                status: OrderStatus.Processing,
+            };
 
-        // Insert items
-        for (const item of cart) {
+            // Insert order
             await database.run(
-                `INSERT INTO order_items (orderId, itemId, name, price, quantity) VALUES (?, ?, ?, ?, ?)`,
-                [order.id, item.id, item.name, item.price, item.cartQuantity]
+                `INSERT INTO orders (id, customerName, customerContact, customerAddress, customerEmail, subtotal, applied_discount_id, discountAmount, total, createdAt, createdBy, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    order.id,
+                    order.customerName,
+                    order.customerContact,
+                    order.customerAddress,
+                    order.customerEmail,
+                    order.subtotal,
+                    order.applied_discount_id,
+                    order.discountAmount,
+                    order.total,
+                    order.createdAt,
+                    order.createdBy,
+                    order.status
+                ]
             );
-            // Update inventory
-            await InventoryService.reduceStock(item.id, item.cartQuantity);
+
+            // Insert items
+            for (const item of lines) {
+                await database.run(
+                    `INSERT INTO order_items (orderId, itemId, name, price, quantity) VALUES (?, ?, ?, ?, ?)`,
+                    [order.id, item.id, item.name, item.price, item.cartQuantity]
+                );
+                // Update inventory
+                await InventoryService.reduceStock(item.id, item.cartQuantity, {
+                    reason: 'Sale',
+                    relatedOrderId: order.id,
+                    userId: createdBy
+                });
+            }
+
+            if (appliedDiscountId) {
+                await DiscountsService.incrementUsage(appliedDiscountId);
+            }
+
+            await OrderHistoryService.record({
+                orderId: order.id,
+                fromStatus: null,
+                toStatus: order.status,
+                note: 'Order created',
+                changedBy: createdBy
+            });
+
+            return order;
+        });
+    }
+
+    /**
+     * Load the inventory rows behind a cart and verify every line can be fulfilled,
+     * counting repeated items together.
+     */
+    private static async loadCartStock(cart: CartItem[]): Promise<Map<string, CartStockRow>> {
+        const database = getDB();
+
+        const requested = new Map<string, number>();
+        for (const item of cart) {
+            requested.set(item.id, (requested.get(item.id) || 0) + item.cartQuantity);
+        }
+
+        const ids = [...requested.keys()];
+        const rows = await database.all<CartStockRow[]>(
+            `SELECT id, sku, name, category, price, quantity FROM inventory WHERE id IN (${ids.map(() => '?').join(', ')}) AND isDeleted = 0`,
+            ids
+        );
+        const stock = new Map(rows.map(r => [r.id, r]));
+
+        const shortages: StockShortage[] = [];
+        for (const [itemId, quantity] of requested) {
+            const row = stock.get(itemId);
+            const available = row ? row.quantity : 0;
+            if (available < quantity) {
+                shortages.push({
+                    itemId,
+                    sku: row ? row.sku : null,
+                    name: row ? row.name : null,
+                    requested: quantity,
+                    available
+                });
+            }
+        }
+
+        if (shortages.length > 0) {
+            throw new InsufficientStockError(shortages);
         }
 
-        return order;
+        return stock;
+    }
+
+    /**
+     * Discount as a percentage of the subtotal, whichever discount type produced it
+     */
+    private static effectiveDiscountPercent(subtotal: number, discountAmount: number): number {
+        return subtotal > 0 ? Math.round((discountAmount / subtotal) * 10000) / 100 : 0;
+    }
+
+    static async getAll(options: { archived?: boolean } = {}): Promise<Order[]> {
+        return (await this.list({ page: 1, filters: {} }, options)).data;
     }
 
-    static async getAll(): Promise<Order[]> {
+    static async list(params: ListParams, options: { archived?: boolean } = {}): Promise<PaginatedResponse<Order>> {
         const database = getDB();
-        const orders = await database.all(`SELECT * FROM orders ORDER BY createdAt DESC`);
-        const results: Order[] = [];
-
-        for (const o of orders) {
-            const items = await database.all(`SELECT * FROM order_items WHERE orderId = ?`, [o.id]);
-            results.push({
-                ...o,
-                items: items.map((i: any) => ({
-                    id: i.itemId,
-                    name: i.name,
-                    price: i.price,
-                    cartQuantity: i.quantity,
-                    sku: '',
-                    quantity: 0,
-                    threshold: 0,
-                    category: ''
-                })),
-                discountApplied: 0,
-            });
+        const result = await runListQuery({
+            from: 'orders o',
+            select: ORDER_COLUMNS,
+            where: [archivedCondition(options.archived, 'o')],
+            sortable: { createdAt: 'o.createdAt', customerName: 'o.customerName', status: 'o.status', total: 'o.total' },
+            searchable: ['o.id', 'o.customerName', 'o.customerEmail', 'o.customerContact'],
+            filterable: { status: 'o.status', createdBy: 'o.createdBy' },
+            defaultSort: 'createdAt',
+            defaultOrder: 'DESC',
+            idColumn: 'o.id'
+        }, params);
+        if (result.data.length === 0) return { ...result, data: [] };
+
+        // Load the lines of every order on the page at once, in batches that stay
+        // under SQLite's bound parameter limit when listing without a page size
+        const itemsByOrder = new Map<string, any[]>();
+        const ids = result.data.map(o => o.id);
+        for (let start = 0; start < ids.length; start += ORDER_ITEMS_BATCH_SIZE) {
+            const batch = ids.slice(start, start + ORDER_ITEMS_BATCH_SIZE);
+            const items = await database.all(
+                `SELECT ${ORDER_ITEM_COLUMNS} FROM order_items oi WHERE oi.orderId IN (${batch.map(() => '?').join(', ')}) ORDER BY oi.id`,
+                batch
+            );
+            for (const item of items) {
+                const lines = itemsByOrder.get(item.orderId) || [];
+                lines.push(item);
+                itemsByOrder.set(item.orderId, lines);
+            }
         }
-        return results;
+
+        return { ...result, data: result.data.map(o => this.toOrder(o, itemsByOrder.get(o.id) || [])) };
     }
 
     static async getById(id: string): Promise<Order | null> {
         const database = getDB();
-        const order = await database.get(`SELECT * FROM orders WHERE id = ?`, [id]);
+        const order = await database.get(`SELECT ${ORDER_COLUMNS} FROM orders o WHERE o.id = ?`, [id]);
         if (!order) return null;
 
-        const items = await database.all(`SELECT * FROM order_items WHERE orderId = ?`, [id]);
+        const items = await database.all(`SELECT ${ORDER_ITEM_COLUMNS} FROM order_items oi WHERE oi.orderId = ?`, [id]);
+        return this.toOrder(order, items);
+    }
+
+    private static toOrder(row: any, items: any[]): Order {
         return {
-            ...order,
+            ...row,
             items: items.map((i: any) => ({
                 id: i.itemId,
+                orderItemId: i.id,
                 name: i.name,
                 price: i.price,
                 cartQuantity: i.quantity,
+                returnedQuantity: i.returnedQuantity,
                 sku: '',
                 quantity: 0,
                 threshold: 0,
                 category: ''
             })),
-            discountApplied: 0
+            discountApplied: this.effectiveDiscountPercent(row.subtotal, row.discountAmount),
+            // A cancelled order brings in nothing, whatever was charged for it
+            netTotal: row.status === OrderStatus.Cancelled ? 0 : Math.round((row.total - row.refundedAmount) * 100) / 100,
+            isDeleted: !!row.isDeleted
         };
     }
 
-    static async updateStatus(id: string, status: OrderStatus): Promise<Order[]> {
-        const database = getDB();
-        await database.run(`UPDATE orders SET status = ? WHERE id = ?`, [status, id]);
+    static isValidStatus(status: any): status is OrderStatus {
+        return Object.values(OrderStatus).includes(status);
+    }
+
+    /**
+     * Move an order along its lifecycle. Invalid transitions throw
+     * InvalidStatusTransitionError. Cancelling restocks every line that has not
+     * been returned yet; refunding returns and refunds whatever is left.
+     */
+    static async updateStatus(id: string, status: OrderStatus, changedBy: string, note?: string): Promise<Order[]> {
+        if (!this.isValidStatus(status)) {
+            throw new Error(`Invalid order status: ${status}`);
+        }
+
+        await withTransaction(async () => {
+            const database = getDB();
+            const order = await database.get<{ status: OrderStatus }>('SELECT status FROM orders WHERE id = ?', [id]);
+            if (!order) {
+                throw new Error('Order not found');
+            }
+
+            if (!ORDER_STATUS_TRANSITIONS[order.status]?.includes(status)) {
+                throw new InvalidStatusTransitionError(order.status, status);
+            }
+
+            if (status === OrderStatus.Refunded) {
+                await OrderReturnsService.refundRemaining(id, changedBy, note || 'Order refunded');
+            } else if (status === OrderStatus.Cancelled) {
+                const lines = await OrderReturnsService.getReturnableLines(id);
+                for (const line of lines.values()) {
+                    const remaining = line.quantity - line.returnedQuantity;
+                    if (remaining <= 0) continue;
+                    await InventoryService.increaseStock(line.itemId, remaining, {
+                        type: InventoryMovementType.Return,
+                        reason: 'Order cancelled',
+                        relatedOrderId: id,
+                        userId: changedBy
+                    });
+                }
+            }
+
+            await database.run(`UPDATE orders SET status = ? WHERE id = ?`, [status, id]);
+
+            await OrderHistoryService.record({ orderId: id, fromStatus: order.status, toStatus: status, note, changedBy });
+            await AuditService.record({
+                entityType: AuditEntityType.Order,
+                entityId: id,
+                action: AuditAction.Update,
+                actorId: changedBy,
+                changes: { status: { from: order.status, to: status } }
+            });
+        });
+
         return this.getAll();
     }
+
+    static async getStatusHistory(id: string) {
+        return OrderHistoryService.getByOrder(id);
+    }
+
+    static async createReturn(id: string, input: CreateReturnInput, createdBy: string) {
+        return OrderReturnsService.create(id, input, createdBy);
+    }
+
+    static async getReturns(id: string) {
+        return OrderReturnsService.getByOrder(id);
+    }
+
+    static async archive(id: string, userId?: string): Promise<void> {
+        if (!(await archiveRecord('orders', id, userId))) {
+            throw new Error('Order not found or already archived');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Order, entityId: id, action: AuditAction.Archive, actorId: userId });
+    }
+
+    static async restore(id: string, userId?: string): Promise<Order | null> {
+        if (!(await restoreRecord('orders', id))) {
+            throw new Error('Archived order not found');
+        }
+        await AuditService.record({ entityType: AuditEntityType.Order, entityId: id, action: AuditAction.Restore, actorId: userId });
+        return this.getById(id);
+    }
+
+    /**
+     * Permanently remove an order and its lines. Stock is not touched; cancel the
+     * order first if its items should go back on the shelf.
+     */
+    static async delete(id: string, userId?: string): Promise<void> {
+        const database = getDB();
+        const existing = await this.getById(id);
+        await withTransaction(async () => {
+            const result = await database.run('DELETE FROM orders WHERE id = ?', [id]);
+            if (!result.changes) {
+                throw new Error('Order not found');
+            }
+            await database.run('DELETE FROM order_items WHERE orderId = ?', [id]);
+            await database.run('DELETE FROM order_status_history WHERE orderId = ?', [id]);
+            await OrderReturnsService.deleteByOrder(id);
+            await AuditService.record({
+                entityType: AuditEntityType.Order,
+                entityId: id,
+                action: AuditAction.Delete,
+                actorId: userId,
+                changes: AuditService.snapshot(existing!, AUDITED_FIELDS, AuditAction.Delete)
+            });
+        });
+    }
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+import bcrypt from 'bcrypt';
+import { v4 as uuidv4 } from 'uuid';
+import { getDB, withTransaction } from '../utils/db';
+import { meetsPasswordPolicy, PASSWORD_POLICY_MESSAGE } from '../utils/passwordPolicy';
+import { escapeHtml } from '../utils/html';
+import { generateToken, hashToken, tokenLink } from '../utils/tokens';
+import { EmailsService } from './emails.service';
+import { SessionsService } from './sessions.service';
+import { AccountLockoutService } from './accountLockout.service';
+import { UsersService } from './users.service';
+
+const TOKEN_TTL_MS = (Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60) * 60 * 1000;
+// A new token is not sent while the previous one is younger than this
+const RESEND_INTERVAL_MS = 2 * 60 * 1000;
+
+export class PasswordResetError extends Error {
+    constructor(message: string, public readonly invalidToken = false) {
+        super(message);
+        this.name = 'PasswordResetError';
+    }
+}
+
+export class PasswordResetService {
+    /**
+     * Email a single-use reset link to the account with this address. Returns
+     * the user id when a link was sent so the caller can log it; callers must
+     * answer the same way either way so accounts cannot be discovered.
+     */
+    static async request(email: string, context: { ip?: string } = {}): Promise<string | undefined> {
+        if (!email || typeof email !== 'string') return undefined;
+
+        const database = getDB();
+        const user = await database.get<{ id: string; name: string; email: string }>(
+            'SELECT id, name, email FROM users WHERE email = ? AND isDeleted = 0',
+            [UsersService.normalizeEmail(email)]
+        );
+        if (!user) return undefined;
+
+        const recent = await database.get<{ id: string }>(
+            'SELECT id FROM password_reset_tokens WHERE userId = ? AND usedAt IS NULL AND createdAt > ?',
+            [user.id, new Date(Date.now() - RESEND_INTERVAL_MS).toISOString()]
+        );
+        if (recent) return undefined;
+
+        const token = generateToken();
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + TOKEN_TTL_MS);
+        await withTransaction(async () => {
+            // Only the newest link works
+            await database.run(
+                'UPDATE password_reset_tokens SET usedAt = ? WHERE userId = ? AND usedAt IS NULL',
+                [now.toISOString(), user.id]
+            );
+            await database.run(
+                `INSERT INTO password_reset_tokens (id, userId, tokenHash, expiresAt, createdAt, requestIp)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [uuidv4(), user.id, hashToken(token), expiresAt.toISOString(), now.toISOString(), context.ip || null]
+            );
+        });
+
+        const link = tokenLink('reset_token', token);
+        // Kept out of the email history, where staff could read the token. Not
+        // awaited, so the response time does not tell whether the account exists.
+        EmailsService.sendEmail({
+            recipient: user.email,
+            subject: 'Reset your password',
+            body: [
+                `<p>Hello ${escapeHtml(user.name || '')},</p>`,
+                '<p>We received a request to reset your password. Use the link below to choose a new one:</p>',
+                `<p><a href="${link}">${link}</a></p>`,
+                `<p>Or enter this reset token on the sign-in page: <code>${token}</code></p>`,
+                `<p>The link expires at ${expiresAt.toUTCString()} and can be used once. If you did not ask for this, you can ignore this email.</p>`,
+            ].join('\n'),
+            saveToHistory: false,
+        }).catch(error => {
+            console.error('Error sending password reset email:', error);
+        });
+
+        return user.id;
+    }
+
+    /**
+     * Set a new password with a reset token. The token is spent and every
+     * session of the user is ended. Returns the user id.
+     */
+    static async reset(token: string, newPassword: string): Promise<string> {
+        if (!token || typeof token !== 'string') {
+            throw new PasswordResetError('Invalid or expired token.', true);
+        }
+        if (!meetsPasswordPolicy(newPassword)) {
+            throw new PasswordResetError(PASSWORD_POLICY_MESSAGE);
+        }
+
+        const database = getDB();
+        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        const userId = await withTransaction(async () => {
+            const stored = await database.get<{ id: string; userId: string }>(
+                `SELECT t.id, t.userId
+                 FROM password_reset_tokens t
+                 JOIN users u ON u.id = t.userId
+                 WHERE t.tokenHash = ? AND t.usedAt IS NULL AND t.expiresAt > ? AND u.isDeleted = 0`,
+                [hashToken(token.trim()), new Date().toISOString()]
+            );
+            if (!stored) return undefined;
+
+            // Claim the token so concurrent resets cannot both use it
+            const claim = await database.run(
+                'UPDATE password_reset_tokens SET usedAt = ? WHERE id = ? AND usedAt IS NULL',
+                [new Date().toISOString(), stored.id]
+            );
+            if (!claim.changes) return undefined;
+
+            await database.run('UPDATE users SET password = ?, mustChangePassword = 0 WHERE id = ?', [hashedPassword, stored.userId]);
+            return stored.userId;
+        });
+        if (!userId) {
+            throw new PasswordResetError('Invalid or expired token.', true);
+        }
+
+        await SessionsService.revokeAllForUser(userId);
+        // Proving ownership of the mailbox is enough to lift a lockout
+        await AccountLockoutService.clearForUser(userId);
+        return userId;
+    }
+}
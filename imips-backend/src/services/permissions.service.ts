@@ -0,0 +1,369 @@
+import { getDB, withTransaction } from '../utils/db';
+import {
+    AuditAction, AuditEntityType, Permission, PermissionDefinition, Role, RoleDefinition, UserPermissionOverrides, UserPermissions
+} from '../types';
+import { AuditService } from './audit.service';
+
+// Everything that can be granted, grouped for the role editor
+export const PERMISSION_CATALOGUE: PermissionDefinition[] = [
+    { key: Permission.InventoryView, group: 'Inventory', description: 'View inventory items and stock movements' },
+    { key: Permission.InventoryCreate, group: 'Inventory', description: 'Add inventory items' },
+    { key: Permission.InventoryUpdate, group: 'Inventory', description: 'Edit inventory items' },
+    { key: Permission.InventoryPricing, group: 'Inventory', description: 'Change the price of inventory items' },
+    { key: Permission.InventoryAdjust, group: 'Inventory', description: 'Record stock movements' },
+    { key: Permission.InventoryDelete, group: 'Inventory', description: 'Archive and restore inventory items' },
+    { key: Permission.InventoryPurge, group: 'Inventory', description: 'Permanently delete inventory items' },
+    { key: Permission.OrdersView, group: 'Orders', description: 'View orders, their history and returns' },
+    { key: Permission.OrdersCreate, group: 'Orders', description: 'Place orders' },
+    { key: Permission.OrdersUpdateStatus, group: 'Orders', description: 'Move orders through their statuses' },
+    { key: Permission.OrdersRefund, group: 'Orders', description: 'Record returns and issue refunds' },
+    { key: Permission.OrdersDelete, group: 'Orders', description: 'Archive and restore orders' },
+    { key: Permission.OrdersPurge, group: 'Orders', description: 'Permanently delete orders' },
+    { key: Permission.InquiriesView, group: 'Inquiries', description: 'View customer inquiries and responses' },
+    { key: Permission.InquiriesCreate, group: 'Inquiries', description: 'Log customer inquiries' },
+    { key: Permission.InquiriesUpdate, group: 'Inquiries', description: 'Edit, assign and close inquiries' },
+    { key: Permission.InquiriesRespond, group: 'Inquiries', description: 'Reply to customers' },
+    { key: Permission.InquiriesDelete, group: 'Inquiries', description: 'Archive and restore inquiries' },
+    { key: Permission.InquiriesPurge, group: 'Inquiries', description: 'Permanently delete inquiries' },
+    { key: Permission.DiscountsView, group: 'Discounts', description: 'View discounts and their statistics' },
+    { key: Permission.DiscountsCreate, group: 'Discounts', description: 'Create discounts' },
+    { key: Permission.DiscountsUpdate, group: 'Discounts', description: 'Edit and deactivate discounts' },
+    { key: Permission.DiscountsDelete, group: 'Discounts', description: 'Archive and restore discounts' },
+    { key: Permission.DiscountsPurge, group: 'Discounts', description: 'Permanently delete discounts' },
+    { key: Permission.EmailsView, group: 'Email', description: 'View sent emails and their attachments' },
+    { key: Permission.EmailsSend, group: 'Email', description: 'Send and retry emails' },
+    { key: Permission.EmailsDelete, group: 'Email', description: 'Archive and restore emails' },
+    { key: Permission.EmailsPurge, group: 'Email', description: 'Permanently delete emails' },
+    { key: Permission.NewslettersView, group: 'Newsletters', description: 'View newsletters and their recipients' },
+    { key: Permission.NewslettersSend, group: 'Newsletters', description: 'Send and resend newsletters' },
+    { key: Permission.ReportsView, group: 'Reports', description: 'View sales reports and user activity' },
+    { key: Permission.UsersManage, group: 'Administration', description: 'Create, edit, archive and unlock users' },
+    { key: Permission.RolesManage, group: 'Administration', description: 'Edit roles and the permissions of individual users' },
+    { key: Permission.SessionsManage, group: 'Administration', description: 'View and end the sessions of other users' },
+    { key: Permission.SecurityManage, group: 'Administration', description: 'View security events and unblock addresses' },
+    { key: Permission.SettingsView, group: 'Administration', description: 'View system settings such as inquiry routing' },
+    { key: Permission.SettingsManage, group: 'Administration', description: 'Change system settings and security policies' },
+    { key: Permission.BackupsManage, group: 'Administration', description: 'Create and restore backups' },
+    { key: Permission.AuditView, group: 'Administration', description: 'View the audit trail of changes to records' },
+];
+
+const ALL_PERMISSIONS = Object.values(Permission);
+
+// Out of the box the built-in roles keep the access they had when routes checked role names
+const BUILT_IN_ROLES: Record<Role, { description: string; permissions: Permission[] }> = {
+    [Role.Admin]: {
+        description: 'Full access to everything',
+        permissions: ALL_PERMISSIONS,
+    },
+    [Role.Manager]: {
+        description: 'Runs the day-to-day business',
+        permissions: [
+            Permission.InventoryView, Permission.InventoryCreate, Permission.InventoryUpdate, Permission.InventoryPricing,
+            Permission.InventoryAdjust, Permission.InventoryDelete,
+            Permission.OrdersView, Permission.OrdersCreate, Permission.OrdersUpdateStatus, Permission.OrdersRefund,
+            Permission.OrdersDelete,
+            Permission.InquiriesView, Permission.InquiriesCreate, Permission.InquiriesUpdate, Permission.InquiriesRespond,
+            Permission.DiscountsView, Permission.DiscountsCreate, Permission.DiscountsUpdate, Permission.DiscountsDelete,
+            Permission.EmailsView, Permission.EmailsSend, Permission.EmailsDelete,
+            Permission.NewslettersView, Permission.NewslettersSend,
+            Permission.ReportsView, Permission.SettingsView,
+        ],
+    },
+    [Role.Staff]: {
+        description: 'Handles orders and customer inquiries',
+        permissions: [
+            Permission.InventoryView,
+            Permission.OrdersView, Permission.OrdersCreate, Permission.OrdersRefund,
+            Permission.InquiriesView, Permission.InquiriesCreate, Permission.InquiriesUpdate, Permission.InquiriesRespond,
+        ],
+    },
+};
+
+const AUDITED_ROLE_FIELDS = ['description', 'permissions'] as const;
+
+const ROLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _-]{1,49}$/;
+
+interface RoleRow {
+    name: string;
+    description: string | null;
+    permissions: string;
+    isSystem: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export class RoleError extends Error {
+    constructor(message: string, public readonly notFound = false) {
+        super(message);
+        this.name = 'RoleError';
+    }
+}
+
+const isBuiltIn = (name: string): name is Role => Object.values(Role).includes(name as Role);
+
+// Known permissions only, each once and in catalogue order
+const parsePermissions = (permissions: unknown, field = 'permissions'): Permission[] => {
+    if (!Array.isArray(permissions)) {
+        throw new RoleError(`${field} must be a list of permissions`);
+    }
+    const unknown = permissions.filter(permission => !ALL_PERMISSIONS.includes(permission));
+    if (unknown.length > 0) {
+        throw new RoleError(`Unknown permission: ${unknown.join(', ')}`);
+    }
+    return ALL_PERMISSIONS.filter(permission => permissions.includes(permission));
+};
+
+const readPermissions = (stored: string | null | undefined): Permission[] => {
+    try {
+        const parsed = JSON.parse(stored || '[]');
+        return Array.isArray(parsed) ? ALL_PERMISSIONS.filter(permission => parsed.includes(permission)) : [];
+    } catch {
+        return [];
+    }
+};
+
+export class PermissionsService {
+    static getCatalogue(): PermissionDefinition[] {
+        return PERMISSION_CATALOGUE;
+    }
+
+    /**
+     * Built-in roles first, then custom roles by name, with the number of active users in each
+     */
+    static async listRoles(): Promise<RoleDefinition[]> {
+        const database = getDB();
+        const rows = await database.all<RoleRow[]>('SELECT * FROM roles ORDER BY name');
+        const counts = await database.all<{ role: string; count: number }[]>(
+            'SELECT role, COUNT(*) as count FROM users WHERE isDeleted = 0 GROUP BY role'
+        );
+        const userCounts = new Map(counts.map(row => [row.role, row.count]));
+
+        const builtIn = Object.values(Role).map(name => this.toDefinition(name, rows.find(row => row.name === name)));
+        const custom = rows.filter(row => !isBuiltIn(row.name)).map(row => this.toDefinition(row.name, row));
+        return [...builtIn, ...custom].map(role => ({ ...role, userCount: userCounts.get(role.name) || 0 }));
+    }
+
+    static async getRole(name: string): Promise<RoleDefinition | undefined> {
+        const row = await getDB().get<RoleRow>('SELECT * FROM roles WHERE name = ?', [name]);
+        if (!row && !isBuiltIn(name)) return undefined;
+        return this.toDefinition(name, row);
+    }
+
+    static async roleExists(name: unknown): Promise<boolean> {
+        return typeof name === 'string' && !!(await this.getRole(name));
+    }
+
+    static async createRole(input: Partial<RoleDefinition>, actorId?: string): Promise<RoleDefinition> {
+        const name = typeof input.name === 'string' ? input.name.trim() : '';
+        if (!ROLE_NAME_PATTERN.test(name)) {
+            throw new RoleError('Role names are 2 to 50 letters, digits, spaces, dashes or underscores and start with a letter');
+        }
+        const permissions = parsePermissions(input.permissions ?? []);
+
+        const database = getDB();
+        const clash = await database.get('SELECT name FROM roles WHERE lower(name) = lower(?)', [name]);
+        if (clash || Object.values(Role).some(role => role.toLowerCase() === name.toLowerCase())) {
+            throw new RoleError('A role with this name already exists');
+        }
+
+        const now = new Date().toISOString();
+        await database.run(
+            'INSERT INTO roles (name, description, permissions, isSystem, createdAt, updatedAt) VALUES (?, ?, ?, 0, ?, ?)',
+            [name, this.cleanDescription(input.description), JSON.stringify(permissions), now, now]
+        );
+        const created = (await this.getRole(name))!;
+        await AuditService.record({
+            entityType: AuditEntityType.Role,
+            entityId: name,
+            action: AuditAction.Create,
+            actorId,
+            changes: AuditService.snapshot(created, AUDITED_ROLE_FIELDS, AuditAction.Create)
+        });
+        return created;
+    }
+
+    /**
+     * Change the description and permissions of a role. Built-in roles can be
+     * edited too, except Admin, which always has every permission.
+     */
+    static async updateRole(name: string, input: Partial<RoleDefinition>, actorId?: string): Promise<RoleDefinition> {
+        const existing = await this.getRole(name);
+        if (!existing) throw new RoleError('Role not found', true);
+        if (name === Role.Admin) throw new RoleError('The Admin role always has every permission');
+
+        const permissions = input.permissions === undefined ? existing.permissions : parsePermissions(input.permissions);
+        const description = input.description === undefined ? existing.description : this.cleanDescription(input.description);
+        const now = new Date().toISOString();
+        await getDB().run(
+            `INSERT INTO roles (name, description, permissions, isSystem, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(name) DO UPDATE SET description = excluded.description, permissions = excluded.permissions, updatedAt = excluded.updatedAt`,
+            [name, description || null, JSON.stringify(permissions), existing.isSystem ? 1 : 0, now, now]
+        );
+        const updated = (await this.getRole(name))!;
+        await AuditService.record({
+            entityType: AuditEntityType.Role,
+            entityId: name,
+            action: AuditAction.Update,
+            actorId,
+            changes: AuditService.diff(existing, updated, AUDITED_ROLE_FIELDS)
+        });
+        return updated;
+    }
+
+    /**
+     * Delete a custom role that nobody, archived users included, still has
+     */
+    static async deleteRole(name: string, actorId?: string): Promise<void> {
+        const existing = await this.getRole(name);
+        if (!existing) throw new RoleError('Role not found', true);
+        if (existing.isSystem) throw new RoleError('Built-in roles cannot be deleted');
+
+        const database = getDB();
+        const members = await database.get<{ count: number }>('SELECT COUNT(*) as count FROM users WHERE role = ?', [name]);
+        if (members && members.count > 0) {
+            throw new RoleError(`This role is still assigned to ${members.count} user(s)`);
+        }
+        await database.run('DELETE FROM roles WHERE name = ?', [name]);
+        await AuditService.record({
+            entityType: AuditEntityType.Role,
+            entityId: name,
+            action: AuditAction.Delete,
+            actorId,
+            changes: AuditService.snapshot(existing, AUDITED_ROLE_FIELDS, AuditAction.Delete)
+        });
+    }
+
+    static async getUserPermissions(userId: string): Promise<UserPermissions | undefined> {
+        const user = await getDB().get<{ role: string }>('SELECT role FROM users WHERE id = ?', [userId]);
+        if (!user) return undefined;
+
+        const rolePermissions = (await this.getRole(user.role))?.permissions || [];
+        const { grants, denies } = await this.getOverrides(userId);
+        return { role: user.role, rolePermissions, grants, denies, effective: this.combine(user.role, rolePermissions, { grants, denies }) };
+    }
+
+    /**
+     * Replace the grants and denials of a user. A permission cannot be both.
+     */
+    static async setUserOverrides(userId: string, overrides: Partial<UserPermissionOverrides>, actorId?: string): Promise<UserPermissions> {
+        const grants = parsePermissions(overrides.grants ?? [], 'grants');
+        const denies = parsePermissions(overrides.denies ?? [], 'denies');
+        if (grants.some(permission => denies.includes(permission))) {
+            throw new RoleError('A permission cannot be granted and denied at the same time');
+        }
+
+        const database = getDB();
+        const user = await database.get('SELECT id FROM users WHERE id = ?', [userId]);
+        if (!user) throw new RoleError('User not found', true);
+
+        const before = await this.getOverrides(userId);
+        const now = new Date().toISOString();
+        await withTransaction(async () => {
+            await database.run('DELETE FROM user_permission_overrides WHERE userId = ?', [userId]);
+            for (const [permissions, granted] of [[grants, 1], [denies, 0]] as const) {
+                for (const permission of permissions) {
+                    await database.run(
+                        'INSERT INTO user_permission_overrides (userId, permission, granted, createdAt) VALUES (?, ?, ?, ?)',
+                        [userId, permission, granted, now]
+                    );
+                }
+            }
+            await AuditService.record({
+                entityType: AuditEntityType.User,
+                entityId: userId,
+                action: AuditAction.Update,
+                actorId,
+                changes: AuditService.diff(before, { grants, denies }, ['grants', 'denies'])
+            });
+        });
+        return (await this.getUserPermissions(userId))!;
+    }
+
+    /**
+     * What an active user may do: their role's permissions plus grants, minus denials
+     */
+    static async getEffectivePermissions(userId: string): Promise<Permission[]> {
+        const user = await getDB().get<{ role: string }>('SELECT role FROM users WHERE id = ? AND isDeleted = 0', [userId]);
+        if (!user) return [];
+
+        const rolePermissions = (await this.getRole(user.role))?.permissions || [];
+        return this.combine(user.role, rolePermissions, await this.getOverrides(userId));
+    }
+
+    static async hasPermission(userId: string, permission: Permission): Promise<boolean> {
+        return (await this.getEffectivePermissions(userId)).includes(permission);
+    }
+
+    /**
+     * Whether the actor holds every permission of the user, archived or not.
+     * Unknown users pass so the caller can answer with its own not-found.
+     */
+    static async canManageUser(actorId: string, userId: string): Promise<boolean> {
+        const target = await this.getUserPermissions(userId);
+        if (!target) return true;
+
+        return (await this.notHeldBy(actorId, target.effective)).length === 0;
+    }
+
+    /**
+     * The known permissions in `permissions` that the actor does not hold, so
+     * nobody hands out access they do not have. Anything that is not a list of
+     * permissions is left to the validation of the change itself.
+     */
+    static async notHeldBy(actorId: string, permissions: unknown): Promise<Permission[]> {
+        if (!Array.isArray(permissions)) return [];
+
+        const own = await this.getEffectivePermissions(actorId);
+        return ALL_PERMISSIONS.filter(permission => permissions.includes(permission) && !own.includes(permission));
+    }
+
+    /**
+     * What a user with this role and no grants or denials may do
+     */
+    static async getRolePermissions(role: string): Promise<Permission[]> {
+        return this.combine(role, (await this.getRole(role))?.permissions || [], { grants: [], denies: [] });
+    }
+
+    static async deleteOverridesByUser(userId: string): Promise<void> {
+        await getDB().run('DELETE FROM user_permission_overrides WHERE userId = ?', [userId]);
+    }
+
+    private static async getOverrides(userId: string): Promise<UserPermissionOverrides> {
+        const rows = await getDB().all<{ permission: Permission; granted: number }[]>(
+            'SELECT permission, granted FROM user_permission_overrides WHERE userId = ?',
+            [userId]
+        );
+        const pick = (granted: boolean) => ALL_PERMISSIONS.filter(permission =>
+            rows.some(row => row.permission === permission && !!row.granted === granted)
+        );
+        return { grants: pick(true), denies: pick(false) };
+    }
+
+    // Overrides do not apply to administrators, so nobody can lock every admin out of anything
+    private static combine(role: string, rolePermissions: Permission[], overrides: UserPermissionOverrides): Permission[] {
+        if (role === Role.Admin) return ALL_PERMISSIONS;
+        return ALL_PERMISSIONS.filter(permission =>
+            (rolePermissions.includes(permission) || overrides.grants.includes(permission)) && !overrides.denies.includes(permission)
+        );
+    }
+
+    private static toDefinition(name: string, row?: RoleRow): RoleDefinition {
+        if (name === Role.Admin) {
+            return { name, description: BUILT_IN_ROLES[Role.Admin].description, permissions: ALL_PERMISSIONS, isSystem: true };
+        }
+        // Built-in roles nobody has edited yet have no row
+        if (!row && isBuiltIn(name)) {
+            return { name, ...BUILT_IN_ROLES[name], isSystem: true };
+        }
+        return {
+            name,
+            description: row?.description || undefined,
+            permissions: readPermissions(row?.permissions),
+            isSystem: isBuiltIn(name),
+        };
+    }
+
+    private static cleanDescription(description: unknown) {
+        return typeof description === 'string' ? description.trim().slice(0, 200) : '';
+    }
+}
@@ -0,0 +1,187 @@
+import { getDB } from '../utils/db';
+import { BlockedIP, SecurityEventType, SecurityLog } from '../types';
+
+export interface SecurityEventInput {
+    type: SecurityEventType;
+    ip?: string;
+    userAgent?: string;
+    url?: string;
+    userId?: string;
+    details?: string;
+}
+
+export interface SecurityLogFilters {
+    eventType?: SecurityEventType;
+    ip?: string;
+    userId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+// Events that count towards automatically blocking the offending IP. Only
+// probes by anonymous clients count: a signed-in user mistyping their own
+// password must not lock out everyone behind the same office NAT or proxy.
+const OFFENCE_TYPES = [
+    SecurityEventType.LoginFailed,
+    SecurityEventType.PasswordResetFailed,
+    SecurityEventType.InvitationFailed,
+    SecurityEventType.TwoFactorFailed,
+    SecurityEventType.PathTraversal,
+    SecurityEventType.SensitiveFileAccess,
+    SecurityEventType.SqlInjection,
+    SecurityEventType.SpamSubmission,
+];
+
+const BLOCK_THRESHOLD = Number(process.env.SECURITY_BLOCK_THRESHOLD) || 10;
+const BLOCK_WINDOW_MS = (Number(process.env.SECURITY_BLOCK_WINDOW_MINUTES) || 15) * 60 * 1000;
+const BLOCK_DURATION_MS = (Number(process.env.SECURITY_BLOCK_DURATION_MINUTES) || 60) * 60 * 1000;
+
+const DEFAULT_LOG_LIMIT = 500;
+const MAX_LOG_LIMIT = 1000;
+
+export class SecurityService {
+    static isValidEventType(type: any): type is SecurityEventType {
+        return Object.values(SecurityEventType).includes(type);
+    }
+
+    /**
+     * Persist a security event. Offences by anonymous clients are counted per
+     * IP and the IP is blocked once it reaches the threshold within the window.
+     */
+    static async record(event: SecurityEventInput): Promise<void> {
+        const database = getDB();
+
+        await database.run(
+            `INSERT INTO security_logs (event_type, ip_address, user_agent, url, user_id, details, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                event.type,
+                event.ip || null,
+                event.userAgent || null,
+                event.url || null,
+                event.userId || null,
+                event.details || null,
+                new Date().toISOString()
+            ]
+        );
+
+        if (event.ip && !event.userId && OFFENCE_TYPES.includes(event.type)) {
+            await this.evaluateBlock(event.ip);
+        }
+    }
+
+    static async getLogs(filters: SecurityLogFilters = {}): Promise<SecurityLog[]> {
+        const database = getDB();
+
+        let query = 'SELECT * FROM security_logs WHERE 1=1';
+        const params: any[] = [];
+
+        if (filters.eventType) {
+            query += ' AND event_type = ?';
+            params.push(filters.eventType);
+        }
+
+        if (filters.ip) {
+            query += ' AND ip_address = ?';
+            params.push(filters.ip);
+        }
+
+        if (filters.userId) {
+            query += ' AND user_id = ?';
+            params.push(filters.userId);
+        }
+
+        if (filters.from) {
+            query += ' AND created_at >= ?';
+            params.push(filters.from);
+        }
+
+        if (filters.to) {
+            query += ' AND created_at <= ?';
+            params.push(filters.to);
+        }
+
+        query += ' ORDER BY created_at DESC, id DESC LIMIT ?';
+        params.push(Math.min(filters.limit || DEFAULT_LOG_LIMIT, MAX_LOG_LIMIT));
+
+        return database.all<SecurityLog[]>(query, params);
+    }
+
+    /**
+     * Currently active blocks; expired rows are left in place and simply ignored
+     */
+    static async getBlockedIPs(): Promise<BlockedIP[]> {
+        const database = getDB();
+        return database.all<BlockedIP[]>(
+            'SELECT * FROM blocked_ips WHERE expiresAt > ? ORDER BY blockedAt DESC',
+            [new Date().toISOString()]
+        );
+    }
+
+    static async isBlocked(ip: string): Promise<boolean> {
+        const database = getDB();
+        const row = await database.get(
+            'SELECT ip FROM blocked_ips WHERE ip = ? AND expiresAt > ?',
+            [ip, new Date().toISOString()]
+        );
+        return !!row;
+    }
+
+    /**
+     * Lift a block. Returns false when the IP was not blocked.
+     */
+    static async unblock(ip: string, userId?: string): Promise<boolean> {
+        const database = getDB();
+        const result = await database.run(
+            'DELETE FROM blocked_ips WHERE ip = ? AND expiresAt > ?',
+            [ip, new Date().toISOString()]
+        );
+        if (!result.changes) return false;
+
+        await this.record({
+            type: SecurityEventType.IpUnblocked,
+            ip,
+            userId,
+            details: 'IP unblocked by administrator'
+        });
+        return true;
+    }
+
+    private static async evaluateBlock(ip: string) {
+        if (await this.isBlocked(ip)) return;
+
+        const database = getDB();
+        const now = new Date();
+        const windowStart = new Date(now.getTime() - BLOCK_WINDOW_MS).toISOString();
+        const placeholders = OFFENCE_TYPES.map(() => '?').join(', ');
+
+        const stats = await database.get<{ offences: number; paths: number }>(
+            `SELECT COUNT(*) as offences, COUNT(DISTINCT url) as paths
+             FROM security_logs
+             WHERE ip_address = ? AND created_at >= ? AND event_type IN (${placeholders})`,
+            [ip, windowStart, ...OFFENCE_TYPES]
+        );
+        if (!stats || stats.offences < BLOCK_THRESHOLD) return;
+
+        const reason = `${stats.offences} suspicious requests within ${Math.round(BLOCK_WINDOW_MS / 60000)} minutes`;
+        const expiresAt = new Date(now.getTime() + BLOCK_DURATION_MS).toISOString();
+
+        // Only replace an expired block, so concurrent offences block the IP once
+        const result = await database.run(
+            `INSERT INTO blocked_ips (ip, reason, blockedAt, expiresAt, pathsAttempted)
+             VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(ip) DO UPDATE SET
+                reason = excluded.reason,
+                blockedAt = excluded.blockedAt,
+                expiresAt = excluded.expiresAt,
+                pathsAttempted = excluded.pathsAttempted
+             WHERE blocked_ips.expiresAt <= excluded.blockedAt`,
+            [ip, reason, now.toISOString(), expiresAt, stats.paths]
+        );
+        if (!result.changes) return;
+
+        console.warn(`IP ${ip} blocked until ${expiresAt}: ${reason}`);
+        await this.record({ type: SecurityEventType.IpBlocked, ip, details: reason });
+    }
+}
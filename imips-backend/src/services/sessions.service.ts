@@ -0,0 +1,160 @@
+import { getDB } from '../utils/db';
+import { UserSession } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface SessionRow {
+    id: string;
+    userId: string;
+    loginTime: string;
+    logoutTime: string | null;
+    expiresAt: string;
+    ip_address: string | null;
+    user_agent: string | null;
+    last_activity: string | null;
+    user_name?: string;
+}
+
+// Only write last_activity back once a minute per session
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+export class SessionsService {
+    /**
+     * Open a session. It only becomes valid once `extend` gives it an expiry,
+     * which happens when its first refresh token is issued.
+     */
+    static async create(userId: string, context: { ip?: string; userAgent?: string } = {}): Promise<string> {
+        const database = getDB();
+        const id = uuidv4();
+        const now = new Date().toISOString();
+
+        await database.run(
+            `INSERT INTO sessions (id, userId, loginTime, expiresAt, ip_address, user_agent, last_activity)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, userId, now, now, context.ip || null, context.userAgent || null, now]
+        );
+        await database.run('UPDATE users SET lastActivity = ? WHERE id = ?', [now, userId]);
+
+        return id;
+    }
+
+    /**
+     * Returns true when the session exists, has not been ended and has not expired.
+     * Also records activity for the session and its user.
+     */
+    static async validate(sessionId: string): Promise<boolean> {
+        const database = getDB();
+        const session = await database.get<SessionRow>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+
+        if (!this.isActive(session)) return false;
+
+        const now = new Date();
+        const lastActivity = session!.last_activity ? new Date(session!.last_activity).getTime() : 0;
+        if (now.getTime() - lastActivity > ACTIVITY_WRITE_INTERVAL_MS) {
+            await database.run('UPDATE sessions SET last_activity = ? WHERE id = ?', [now.toISOString(), sessionId]);
+            await database.run('UPDATE users SET lastActivity = ? WHERE id = ?', [now.toISOString(), session!.userId]);
+        }
+
+        return true;
+    }
+
+    static async isValid(sessionId: string): Promise<boolean> {
+        const database = getDB();
+        const session = await database.get<SessionRow>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+        return this.isActive(session);
+    }
+
+    static async extend(sessionId: string, expiresAt: string) {
+        const database = getDB();
+        await database.run('UPDATE sessions SET expiresAt = ? WHERE id = ?', [expiresAt, sessionId]);
+    }
+
+    static async getById(sessionId: string) {
+        const database = getDB();
+        const session = await database.get<SessionRow>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+        return session || null;
+    }
+
+    static async getForUser(userId: string, currentSessionId?: string): Promise<UserSession[]> {
+        const database = getDB();
+        const rows = await database.all<SessionRow[]>(
+            'SELECT * FROM sessions WHERE userId = ? ORDER BY loginTime DESC',
+            [userId]
+        );
+        return rows.map(row => this.toUserSession(row, currentSessionId));
+    }
+
+    static async getAll(filters: { userId?: string; activeOnly?: boolean } = {}, currentSessionId?: string): Promise<UserSession[]> {
+        const database = getDB();
+
+        let query = `SELECT s.*, u.name as user_name FROM sessions s LEFT JOIN users u ON u.id = s.userId WHERE 1=1`;
+        const params: any[] = [];
+
+        if (filters.userId) {
+            query += ' AND s.userId = ?';
+            params.push(filters.userId);
+        }
+
+        if (filters.activeOnly) {
+            query += ' AND s.logoutTime IS NULL AND s.expiresAt > ?';
+            params.push(new Date().toISOString());
+        }
+
+        query += ' ORDER BY s.loginTime DESC';
+
+        const rows = await database.all<SessionRow[]>(query, params);
+        return rows.map(row => this.toUserSession(row, currentSessionId));
+    }
+
+    /**
+     * End a single session. Its refresh tokens are revoked and any access token
+     * carrying its id is rejected on the next request.
+     */
+    static async revoke(sessionId: string) {
+        const database = getDB();
+        const now = new Date().toISOString();
+
+        await database.run('UPDATE sessions SET logoutTime = ? WHERE id = ? AND logoutTime IS NULL', [now, sessionId]);
+        await database.run(
+            'UPDATE refresh_tokens SET revokedAt = ? WHERE familyId = ? AND revokedAt IS NULL',
+            [now, sessionId]
+        );
+    }
+
+    /**
+     * End every active session of a user, optionally keeping one (e.g. the caller's own)
+     */
+    static async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<number> {
+        const database = getDB();
+        const sessions = await database.all<{ id: string }[]>(
+            'SELECT id FROM sessions WHERE userId = ? AND logoutTime IS NULL',
+            [userId]
+        );
+
+        const toRevoke = sessions.filter(s => s.id !== exceptSessionId);
+        for (const session of toRevoke) {
+            await this.revoke(session.id);
+        }
+        return toRevoke.length;
+    }
+
+    private static isActive(session: SessionRow | undefined): boolean {
+        return !!session && !session.logoutTime && new Date(session.expiresAt) > new Date();
+    }
+
+    private static toUserSession(row: SessionRow, currentSessionId?: string): UserSession {
+        const end = row.logoutTime || row.last_activity || row.loginTime;
+        return {
+            id: row.id,
+            userId: row.userId,
+            user_name: row.user_name,
+            loginTime: row.loginTime,
+            logoutTime: row.logoutTime || undefined,
+            duration: Math.max(0, Math.round((new Date(end).getTime() - new Date(row.loginTime).getTime()) / 60000)),
+            ip_address: row.ip_address || undefined,
+            user_agent: row.user_agent || undefined,
+            last_activity: row.last_activity || undefined,
+            isActive: this.isActive(row),
+            isCurrent: row.id === currentSessionId,
+        };
+    }
+}
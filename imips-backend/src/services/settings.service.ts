@@ -0,0 +1,19 @@
+import { getDB } from '../utils/db';
+
+/**
+ * Application settings stored as JSON values under a key
+ */
+export class SettingsService {
+    static async get<T>(key: string, fallback: T): Promise<T> {
+        const row = await getDB().get<{ value: string }>('SELECT value FROM settings WHERE key = ?', [key]);
+        return row ? JSON.parse(row.value) : fallback;
+    }
+
+    static async set<T>(key: string, value: T, userId?: string): Promise<void> {
+        await getDB().run(
+            `INSERT INTO settings (key, value, updatedAt, updatedBy) VALUES (?, ?, ?, ?)
+             ON CONFLICT(key) DO UPDATE SET value = excluded.value, updatedAt = excluded.updatedAt, updatedBy = excluded.updatedBy`,
+            [key, JSON.stringify(value), new Date().toISOString(), userId || null]
+        );
+    }
+}
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDB, withTransaction } from '../utils/db';
+import { TwoFactorPolicy, TwoFactorSetup, TwoFactorStatus } from '../types';
+import { hashToken } from '../utils/tokens';
+import { decryptTotpSecret, encryptTotpSecret, generateTotpSecret, totpProvisioningUri, verifyTotp } from '../utils/totp';
+import { SettingsService } from './settings.service';
+import { PermissionsService } from './permissions.service';
+
+const POLICY_KEY = 'two_factor_policy';
+const RECOVERY_CODE_COUNT = 10;
+
+export const DEFAULT_TWO_FACTOR_POLICY: TwoFactorPolicy = { requiredRoles: [] };
+
+interface TwoFactorRow {
+    userId: string;
+    secret: string;
+    enabledAt: string | null;
+    lastUsedStep: number | null;
+    createdAt: string;
+}
+
+export class TwoFactorError extends Error {
+    constructor(message: string, public readonly invalidCode = false) {
+        super(message);
+        this.name = 'TwoFactorError';
+    }
+}
+
+// Recovery codes are shown as xxxxx-xxxxx; case, spaces and dashes are ignored when typed back
+const normalizeRecoveryCode = (code: string) => String(code || '').toLowerCase().replace(/[\s-]/g, '');
+
+const generateRecoveryCode = () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+export class TwoFactorService {
+    static async getPolicy(): Promise<TwoFactorPolicy> {
+        const stored = await SettingsService.get<Partial<TwoFactorPolicy>>(POLICY_KEY, {});
+        return { requiredRoles: stored.requiredRoles || DEFAULT_TWO_FACTOR_POLICY.requiredRoles };
+    }
+
+    static async updatePolicy(policy: Partial<TwoFactorPolicy>, userId: string): Promise<TwoFactorPolicy> {
+        const requiredRoles = policy.requiredRoles;
+        if (!Array.isArray(requiredRoles)) {
+            throw new Error('requiredRoles must be a list of roles');
+        }
+        for (const role of requiredRoles) {
+            if (!(await PermissionsService.roleExists(role))) throw new Error(`Unknown role: ${role}`);
+        }
+        const updated: TwoFactorPolicy = { requiredRoles: [...new Set(requiredRoles)] };
+        await SettingsService.set(POLICY_KEY, updated, userId);
+        return updated;
+    }
+
+    static async isRequired(role: string): Promise<boolean> {
+        return (await this.getPolicy()).requiredRoles.includes(role);
+    }
+
+    static async isEnabled(userId: string): Promise<boolean> {
+        const row = await this.getRow(userId);
+        return !!row?.enabledAt;
+    }
+
+    static async getStatus(userId: string, role: string): Promise<TwoFactorStatus> {
+        const row = await this.getRow(userId);
+        const remaining = await getDB().get<{ count: number }>(
+            'SELECT COUNT(*) as count FROM two_factor_recovery_codes WHERE userId = ? AND usedAt IS NULL',
+            [userId]
+        );
+        return {
+            enabled: !!row?.enabledAt,
+            enabledAt: row?.enabledAt || undefined,
+            required: await this.isRequired(role),
+            recoveryCodesRemaining: row?.enabledAt ? remaining?.count || 0 : 0,
+        };
+    }
+
+    /**
+     * Start enrolment with a new secret. Nothing changes at login until the
+     * secret is confirmed with `enable`; starting again replaces the secret.
+     */
+    static async beginSetup(userId: string, accountName: string): Promise<TwoFactorSetup> {
+        if (await this.isEnabled(userId)) {
+            throw new TwoFactorError('Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await getDB().run(
+            `INSERT INTO user_two_factor (userId, secret, enabledAt, lastUsedStep, createdAt) VALUES (?, ?, NULL, NULL, ?)
+             ON CONFLICT(userId) DO UPDATE SET secret = excluded.secret, enabledAt = NULL, lastUsedStep = NULL, createdAt = excluded.createdAt`,
+            [userId, encryptTotpSecret(secret), new Date().toISOString()]
+        );
+        return { secret, otpauthUri: totpProvisioningUri(secret, accountName) };
+    }
+
+    /**
+     * Confirm enrolment with a code from the authenticator app. Returns the
+     * recovery codes, which are shown once and only stored as hashes.
+     */
+    static async enable(userId: string, code: string): Promise<string[]> {
+        const row = await this.getRow(userId);
+        if (!row) {
+            throw new TwoFactorError('Start two-factor setup first');
+        }
+        if (row.enabledAt) {
+            throw new TwoFactorError('Two-factor authentication is already enabled');
+        }
+
+        const step = verifyTotp(decryptTotpSecret(row.secret), code);
+        if (step === null) {
+            throw new TwoFactorError('Invalid authentication code', true);
+        }
+
+        return withTransaction(async () => {
+            await getDB().run(
+                'UPDATE user_two_factor SET enabledAt = ?, lastUsedStep = ? WHERE userId = ?',
+                [new Date().toISOString(), step, userId]
+            );
+            return this.replaceRecoveryCodes(userId);
+        });
+    }
+
+    /**
+     * Check a code at login or before a sensitive change. Authenticator codes
+     * are accepted once each; a recovery code is spent when used.
+     */
+    static async verify(userId: string, code: string): Promise<'totp' | 'recovery_code' | null> {
+        const row = await this.getRow(userId);
+        if (!row?.enabledAt || !code || typeof code !== 'string') return null;
+
+        const step = verifyTotp(decryptTotpSecret(row.secret), code);
+        if (step !== null) {
+            // Claimed with a conditional update so a code cannot be replayed, even concurrently
+            const claim = await getDB().run(
+                'UPDATE user_two_factor SET lastUsedStep = ? WHERE userId = ? AND (lastUsedStep IS NULL OR lastUsedStep < ?)',
+                [step, userId, step]
+            );
+            return claim.changes ? 'totp' : null;
+        }
+
+        const normalized = normalizeRecoveryCode(code);
+        if (!normalized) return null;
+        const claim = await getDB().run(
+            'UPDATE two_factor_recovery_codes SET usedAt = ? WHERE userId = ? AND codeHash = ? AND usedAt IS NULL',
+            [new Date().toISOString(), userId, hashToken(normalized)]
+        );
+        return claim.changes ? 'recovery_code' : null;
+    }
+
+    /**
+     * Turn two-factor authentication off after checking a current code.
+     * Members of a role that requires it cannot turn it off.
+     */
+    static async disable(userId: string, role: string, code: string): Promise<void> {
+        if (await this.isRequired(role)) {
+            throw new TwoFactorError('Two-factor authentication is required for your role');
+        }
+        if (!(await this.verify(userId, code))) {
+            throw new TwoFactorError('Invalid authentication code', true);
+        }
+        await this.deleteByUser(userId);
+    }
+
+    static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+        if (!(await this.isEnabled(userId))) {
+            throw new TwoFactorError('Two-factor authentication is not enabled');
+        }
+        return withTransaction(() => this.replaceRecoveryCodes(userId));
+    }
+
+    /**
+     * Remove the second factor of a user, e.g. when an administrator resets a
+     * lost device or the user is deleted
+     */
+    static async deleteByUser(userId: string): Promise<void> {
+        await withTransaction(async () => {
+            await getDB().run('DELETE FROM two_factor_recovery_codes WHERE userId = ?', [userId]);
+            await getDB().run('DELETE FROM user_two_factor WHERE userId = ?', [userId]);
+        });
+    }
+
+    /**
+     * Ids of the users who have two-factor authentication turned on
+     */
+    static async getEnabledUserIds(): Promise<Set<string>> {
+        const rows = await getDB().all<{ userId: string }[]>('SELECT userId FROM user_two_factor WHERE enabledAt IS NOT NULL');
+        return new Set(rows.map(row => row.userId));
+    }
+
+    private static async replaceRecoveryCodes(userId: string): Promise<string[]> {
+        const database = getDB();
+        const now = new Date().toISOString();
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+        await database.run('DELETE FROM two_factor_recovery_codes WHERE userId = ?', [userId]);
+        for (const code of codes) {
+            await database.run(
+                'INSERT INTO two_factor_recovery_codes (id, userId, codeHash, createdAt) VALUES (?, ?, ?, ?)',
+                [uuidv4(), userId, hashToken(normalizeRecoveryCode(code)), now]
+            );
+        }
+        return codes;
+    }
+
+    private static async getRow(userId: string) {
+        return getDB().get<TwoFactorRow>('SELECT * FROM user_two_factor WHERE userId = ?', [userId]);
+    }
+}
@@ -0,0 +1,189 @@
+import bcrypt from 'bcrypt';
+import { v4 as uuidv4 } from 'uuid';
+import { getDB, withTransaction } from '../utils/db';
+import { UserInvitation, UserInvitationStatus } from '../types';
+import { meetsPasswordPolicy, PASSWORD_POLICY_MESSAGE } from '../utils/passwordPolicy';
+import { escapeHtml } from '../utils/html';
+import { generateToken, hashToken, tokenLink } from '../utils/tokens';
+import { EmailsService } from './emails.service';
+
+const INVITATION_TTL_MS = (Number(process.env.USER_INVITATION_TTL_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+interface InvitationRow {
+    id: string;
+    userId: string;
+    expiresAt: string;
+    createdAt: string;
+    createdBy: string | null;
+    acceptedAt: string | null;
+    revokedAt: string | null;
+}
+
+const statusOf = (row: InvitationRow, now = new Date()): UserInvitationStatus => {
+    if (row.acceptedAt) return 'accepted';
+    if (row.revokedAt) return 'revoked';
+    return new Date(row.expiresAt) <= now ? 'expired' : 'pending';
+};
+
+const toInvitation = (row: InvitationRow): UserInvitation => ({
+    id: row.id,
+    userId: row.userId,
+    status: statusOf(row),
+    expiresAt: row.expiresAt,
+    createdAt: row.createdAt,
+    createdBy: row.createdBy || undefined,
+    acceptedAt: row.acceptedAt || undefined,
+    revokedAt: row.revokedAt || undefined,
+});
+
+export class InvitationError extends Error {
+    constructor(message: string, public readonly invalidToken = false) {
+        super(message);
+        this.name = 'InvitationError';
+    }
+}
+
+export class UserInvitationsService {
+    /**
+     * Email a set-password link to a user. Any earlier pending invitation of
+     * the user stops working.
+     */
+    static async invite(userId: string, invitedBy?: string): Promise<UserInvitation> {
+        const database = getDB();
+        const user = await database.get<{ name: string; email: string }>(
+            'SELECT name, email FROM users WHERE id = ? AND isDeleted = 0',
+            [userId]
+        );
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const token = generateToken();
+        const now = new Date();
+        const row: InvitationRow = {
+            id: uuidv4(),
+            userId,
+            expiresAt: new Date(now.getTime() + INVITATION_TTL_MS).toISOString(),
+            createdAt: now.toISOString(),
+            createdBy: invitedBy || null,
+            acceptedAt: null,
+            revokedAt: null,
+        };
+        await withTransaction(async () => {
+            await this.revokePending(userId, now.toISOString());
+            await database.run(
+                `INSERT INTO user_invitations (id, userId, tokenHash, expiresAt, createdAt, createdBy)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [row.id, userId, hashToken(token), row.expiresAt, row.createdAt, row.createdBy]
+            );
+        });
+
+        const link = tokenLink('invite_token', token);
+        // Sent directly rather than kept in the email history, where staff could read the token
+        await EmailsService.sendEmail({
+            recipient: user.email,
+            subject: 'You have been invited to Insophinia IMIPS',
+            body: [
+                `<p>Hello ${escapeHtml(user.name || '')},</p>`,
+                '<p>An account has been created for you. Use the link below to choose your password and sign in:</p>',
+                `<p><a href="${link}">${link}</a></p>`,
+                `<p>The link expires at ${new Date(row.expiresAt).toUTCString()} and can be used once.</p>`,
+            ].join('\n'),
+            saveToHistory: false,
+        });
+
+        return toInvitation(row);
+    }
+
+    /**
+     * Send a fresh invitation to a user who has not accepted one yet
+     */
+    static async resend(userId: string, invitedBy?: string): Promise<UserInvitation> {
+        const latest = await this.getLatest(userId);
+        if (!latest) {
+            throw new Error('User has no invitation');
+        }
+        if (latest.status === 'accepted') {
+            throw new Error('Invitation has already been accepted');
+        }
+        return this.invite(userId, invitedBy);
+    }
+
+    static async revoke(userId: string): Promise<UserInvitation> {
+        const latest = await this.getLatest(userId);
+        if (!latest || latest.status !== 'pending') {
+            throw new Error('No pending invitation for this user');
+        }
+        await this.revokePending(userId, new Date().toISOString());
+        return (await this.getLatest(userId))!;
+    }
+
+    /**
+     * Set the invited user's password with the token from the invitation email
+     */
+    static async accept(token: string, newPassword: string): Promise<string> {
+        if (!token || typeof token !== 'string') {
+            throw new InvitationError('Invalid or expired invitation.', true);
+        }
+        if (!meetsPasswordPolicy(newPassword)) {
+            throw new InvitationError(PASSWORD_POLICY_MESSAGE);
+        }
+
+        const database = getDB();
+        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        const userId = await withTransaction(async () => {
+            const now = new Date().toISOString();
+            const stored = await database.get<{ id: string; userId: string }>(
+                `SELECT i.id, i.userId
+                 FROM user_invitations i
+                 JOIN users u ON u.id = i.userId
+                 WHERE i.tokenHash = ? AND i.acceptedAt IS NULL AND i.revokedAt IS NULL AND i.expiresAt > ? AND u.isDeleted = 0`,
+                [hashToken(token.trim()), now]
+            );
+            if (!stored) return undefined;
+
+            const claim = await database.run(
+                'UPDATE user_invitations SET acceptedAt = ? WHERE id = ? AND acceptedAt IS NULL',
+                [now, stored.id]
+            );
+            if (!claim.changes) return undefined;
+
+            await database.run('UPDATE users SET password = ?, mustChangePassword = 0 WHERE id = ?', [hashedPassword, stored.userId]);
+            return stored.userId;
+        });
+        if (!userId) {
+            throw new InvitationError('Invalid or expired invitation.', true);
+        }
+        return userId;
+    }
+
+    static async getLatest(userId: string): Promise<UserInvitation | undefined> {
+        const row = await getDB().get<InvitationRow>(
+            'SELECT * FROM user_invitations WHERE userId = ? ORDER BY createdAt DESC, rowid DESC LIMIT 1',
+            [userId]
+        );
+        return row ? toInvitation(row) : undefined;
+    }
+
+    /**
+     * Status of each user's latest invitation; users never invited are absent
+     */
+    static async getStatuses(): Promise<Map<string, UserInvitationStatus>> {
+        const rows = await getDB().all<InvitationRow[]>(
+            `SELECT i.* FROM user_invitations i
+             WHERE i.rowid = (SELECT j.rowid FROM user_invitations j WHERE j.userId = i.userId ORDER BY j.createdAt DESC, j.rowid DESC LIMIT 1)`
+        );
+        return new Map(rows.map(row => [row.userId, statusOf(row)]));
+    }
+
+    static async deleteByUser(userId: string): Promise<void> {
+        await getDB().run('DELETE FROM user_invitations WHERE userId = ?', [userId]);
+    }
+
+    private static async revokePending(userId: string, now: string) {
+        await getDB().run(
+            'UPDATE user_invitations SET revokedAt = ? WHERE userId = ? AND acceptedAt IS NULL AND revokedAt IS NULL',
+            [now, userId]
+        );
+    }
+}
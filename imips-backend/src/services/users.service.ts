@@ -1,39 +1,110 @@
-import { getDB } from '../utils/db';
-import { User } from '../types';
+import { getDB, withTransaction } from '../utils/db';
+import { AuditAction, AuditEntityType, PaginatedResponse, Role, User } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
+import { meetsPasswordPolicy, PASSWORD_POLICY_MESSAGE } from '../utils/passwordPolicy';
+import { generateToken } from '../utils/tokens';
 import { ImageUtils } from '../utils/imageUtils'; // Add this import
+import { archivedCondition, archiveRecord, restoreRecord } from '../utils/softDelete';
+import { ListParams, runListQuery } from '../utils/listQuery';
+import { SessionsService } from './sessions.service';
+import { UserInvitationsService } from './userInvitations.service';
+import { TwoFactorService } from './twoFactor.service';
+import { AccountLockoutService } from './accountLockout.service';
+import { PermissionsService } from './permissions.service';
+import { AuditService } from './audit.service';
+
+const USER_COLUMNS = 'id, name, email, role, profilePictureUrl, lastActivity, mustChangePassword, isDeleted, deletedAt, deletedBy';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// The only columns an update may set. Passwords, forced password changes and
+// archiving each go through their own methods.
+const EDITABLE_FIELDS = ['name', 'email', 'role', 'profilePictureUrl'] as const;
+// Passwords and activity timestamps are deliberately left out
+const AUDITED_FIELDS = ['name', 'email', 'role', 'profilePictureUrl'] as const;
 
 export class UsersService {
-    static async getAll() {
-        const database = getDB();
-        const users = await database.all<User[]>('SELECT id, name, email, role, profilePictureUrl FROM users');
+    /**
+     * Emails are stored trimmed and lower-cased; look them up the same way
+     */
+    static normalizeEmail(email: unknown): string {
+        return typeof email === 'string' ? email.trim().toLowerCase() : '';
+    }
+
+    static async getAll(options: { archived?: boolean } = {}) {
+        return (await this.list({ page: 1, filters: {} }, options)).data;
+    }
+
+    static async list(params: ListParams, options: { archived?: boolean } = {}): Promise<PaginatedResponse<User>> {
+        const result = await runListQuery<User>({
+            from: 'users',
+            select: USER_COLUMNS,
+            where: [archivedCondition(options.archived)],
+            sortable: { name: 'name', email: 'email', role: 'role', lastActivity: 'lastActivity' },
+            searchable: ['name', 'email'],
+            filterable: { role: 'role' },
+            defaultSort: 'name',
+            defaultOrder: 'ASC'
+        }, params);
 
         // Process users to ensure proper image URLs with fallbacks
-        return users.map(user => ({
+        const invitations = await UserInvitationsService.getStatuses();
+        const twoFactorUsers = await TwoFactorService.getEnabledUserIds();
+        const lockedUsers = await AccountLockoutService.getLockedUsers();
+        const data = result.data.map(user => ({
             ...user,
+            isDeleted: !!user.isDeleted,
+            mustChangePassword: !!user.mustChangePassword,
+            invitationStatus: invitations.get(user.id),
+            twoFactorEnabled: twoFactorUsers.has(user.id),
+            lockedUntil: lockedUsers.get(user.id),
             profilePictureUrl: ImageUtils.processImageUrl(user.profilePictureUrl, 'user')
         }));
+        return { ...result, data };
     }
 
     static async getById(id: string) {
         const database = getDB();
-        const user = await database.get<User>('SELECT id, name, email, role, profilePictureUrl FROM users WHERE id=?', [id]);
+        const user = await database.get<User>(`SELECT ${USER_COLUMNS} FROM users WHERE id=?`, [id]);
 
         if (user) {
             return {
                 ...user,
+                isDeleted: !!user.isDeleted,
+                mustChangePassword: !!user.mustChangePassword,
+                invitationStatus: (await UserInvitationsService.getLatest(id))?.status,
+                twoFactorEnabled: await TwoFactorService.isEnabled(id),
+                lockedUntil: await AccountLockoutService.getLockedUntil(user.email),
                 profilePictureUrl: ImageUtils.processImageUrl(user.profilePictureUrl, 'user')
             };
         }
         return null;
     }
 
-    static async create(user: Omit<User, 'id'> & { password: string }) {
+    /**
+     * Create an account that has to choose its own password. Without a
+     * temporary password it can only be signed into after accepting an
+     * invitation; with one, the password must be changed on first login.
+     */
+    static async create(user: Omit<User, 'id'> & { password?: string }, createdBy?: string) {
         const database = getDB();
+        const name = typeof user.name === 'string' ? user.name.trim() : '';
+        const email = this.normalizeEmail(user.email);
+        if (!name) {
+            throw new Error('Name is required');
+        }
+        if (!EMAIL_PATTERN.test(email)) {
+            throw new Error('A valid email address is required');
+        }
+        if (!(await PermissionsService.roleExists(user.role))) {
+            throw new Error(`Invalid role: ${user.role}`);
+        }
+        if (user.password && !meetsPasswordPolicy(user.password)) {
+            throw new Error(PASSWORD_POLICY_MESSAGE);
+        }
+
         const existingUser = await database.get<User>(
             'SELECT id FROM users WHERE email = ?',
-            [user.email]
+            [email]
         );
 
         if (existingUser) {
@@ -41,28 +112,43 @@ export class UsersService {
         }
 
         const id = uuidv4();
-        const hashed = await bcrypt.hash(user.password, 10);
+        // A random password nobody knows keeps the account closed until the invitation is accepted
+        const hashed = await bcrypt.hash(user.password || generateToken(), 10);
 
         // Process profile picture URL before saving
         const profilePictureUrl = ImageUtils.processImageUrl(user.profilePictureUrl, 'user');
 
         await database.run(
-            'INSERT INTO users (id, name, email, password, role, profilePictureUrl) VALUES (?, ?, ?, ?, ?, ?)',
-            [id, user.name, user.email, hashed, user.role, profilePictureUrl]
+            'INSERT INTO users (id, name, email, password, role, profilePictureUrl, mustChangePassword) VALUES (?, ?, ?, ?, ?, ?, 1)',
+            [id, name, email, hashed, user.role, profilePictureUrl]
         );
 
-        return {
-            id,
-            ...user,
-            password: undefined,
-            profilePictureUrl
-        };
+        const created = (await this.getById(id))!;
+        await AuditService.record({
+            entityType: AuditEntityType.User,
+            entityId: id,
+            action: AuditAction.Create,
+            actorId: createdBy,
+            changes: AuditService.snapshot(created, AUDITED_FIELDS, AuditAction.Create)
+        });
+        return created;
     }
 
-    static async update(id: string, data: Partial<User>) {
+    static async update(id: string, data: Partial<User>, updatedBy?: string) {
         const database = getDB();
 
-        if (data.email) {
+        if (data.role !== undefined) {
+            if (!(await PermissionsService.roleExists(data.role))) {
+                throw new Error(`Invalid role: ${data.role}`);
+            }
+            if (data.role !== Role.Admin) await this.ensureNotLastAdmin(id);
+        }
+
+        if (data.email !== undefined) {
+            data.email = this.normalizeEmail(data.email);
+            if (!EMAIL_PATTERN.test(data.email)) {
+                throw new Error('A valid email address is required');
+            }
             const existingUser = await database.get<User>(
                 'SELECT id FROM users WHERE email = ? AND id != ?',
                 [data.email, id]
@@ -81,34 +167,96 @@ export class UsersService {
             data.profilePictureUrl = ImageUtils.processImageUrl(data.profilePictureUrl, 'user');
         }
 
-        const fields = Object.keys(data).map(key => `${key} = ?`).join(',');
-        const values = Object.values(data);
+        const fields = EDITABLE_FIELDS.filter(field => data[field] !== undefined);
+        await database.run(
+            `UPDATE users SET ${fields.map(field => `${field} = ?`).join(',')} WHERE id=?`,
+            [...fields.map(field => data[field]), id]
+        );
+
+        const updatedUser = await this.getById(id);
+        if (existingUser && updatedUser) {
+            await AuditService.record({
+                entityType: AuditEntityType.User,
+                entityId: id,
+                action: AuditAction.Update,
+                actorId: updatedBy,
+                changes: AuditService.diff(existingUser, updatedUser, AUDITED_FIELDS)
+            });
+        }
+        return updatedUser;
+    }
 
-        await database.run(`UPDATE users SET ${fields} WHERE id=?`, [...values, id]);
+    /**
+     * Disable an account without losing its history. Its sessions end immediately.
+     */
+    static async archive(id: string, archivedBy?: string) {
+        await this.ensureNotLastAdmin(id);
+
+        if (!(await archiveRecord('users', id, archivedBy))) {
+            throw new Error('User not found or already archived');
+        }
+        await SessionsService.revokeAllForUser(id);
+        await AuditService.record({ entityType: AuditEntityType.User, entityId: id, action: AuditAction.Archive, actorId: archivedBy });
+
+        return { message: 'User archived successfully' };
+    }
+
+    static async restore(id: string, restoredBy?: string) {
+        if (!(await restoreRecord('users', id))) {
+            throw new Error('Archived user not found');
+        }
+        await AuditService.record({ entityType: AuditEntityType.User, entityId: id, action: AuditAction.Restore, actorId: restoredBy });
         return this.getById(id);
     }
 
-    static async delete(id: string) {
+    static async delete(id: string, deletedBy?: string) {
         const database = getDB();
 
-        // Prevent deleting the last admin user
         const user = await this.getById(id);
-        if (user?.role === 'Admin') {
-            const adminCount = await database.get<{ count: number }>(
-                'SELECT COUNT(*) as count FROM users WHERE role = ?',
-                ['Admin']
-            );
-
-            if (adminCount && adminCount.count <= 1) {
-                throw new Error('Cannot delete the last admin user');
-            }
+        if (!user) {
+            throw new Error('User not found');
         }
-
-        await database.run('DELETE FROM users WHERE id=?', [id]);
+        await this.ensureNotLastAdmin(id);
+
+        await withTransaction(async () => {
+            await UserInvitationsService.deleteByUser(id);
+            await TwoFactorService.deleteByUser(id);
+            await AccountLockoutService.clear(user.email);
+            await PermissionsService.deleteOverridesByUser(id);
+            await database.run('DELETE FROM password_reset_tokens WHERE userId = ?', [id]);
+            await database.run('DELETE FROM refresh_tokens WHERE userId = ?', [id]);
+            await database.run('DELETE FROM sessions WHERE userId = ?', [id]);
+            await database.run('DELETE FROM users WHERE id=?', [id]);
+            await AuditService.record({
+                entityType: AuditEntityType.User,
+                entityId: id,
+                action: AuditAction.Delete,
+                actorId: deletedBy,
+                changes: AuditService.snapshot(user, AUDITED_FIELDS, AuditAction.Delete)
+            });
+        });
 
         return { message: 'User deleted successfully' };
     }
 
+    /**
+     * Prevent removing the last active admin user
+     */
+    private static async ensureNotLastAdmin(id: string) {
+        const database = getDB();
+        const user = await this.getById(id);
+        if (user?.role !== 'Admin' || user.isDeleted) return;
+
+        const adminCount = await database.get<{ count: number }>(
+            'SELECT COUNT(*) as count FROM users WHERE role = ? AND isDeleted = 0',
+            ['Admin']
+        );
+
+        if (adminCount && adminCount.count <= 1) {
+            throw new Error('Cannot delete the last admin user');
+        }
+    }
+
     /**
      * Change user password
      */
@@ -128,11 +276,15 @@ export class UsersService {
         if (!isCurrentPasswordValid) {
             throw new Error('Current password is incorrect');
         }
+        if (!meetsPasswordPolicy(newPassword)) {
+            throw new Error(PASSWORD_POLICY_MESSAGE);
+        }
 
         const hashedNewPassword = await bcrypt.hash(newPassword, 10);
 
+        // Changing the password also satisfies a forced change on first login
         await database.run(
-            'UPDATE users SET password = ? WHERE id=?',
+            'UPDATE users SET password = ?, mustChangePassword = 0 WHERE id=?',
             [hashedNewPassword, id]
         );
 
@@ -149,6 +301,9 @@ export class UsersService {
         if (!user) {
             throw new Error('User not found');
         }
+        if (!meetsPasswordPolicy(newPassword)) {
+            throw new Error(PASSWORD_POLICY_MESSAGE);
+        }
 
         const hashedPassword = await bcrypt.hash(newPassword, 10);
 
@@ -156,6 +311,8 @@ export class UsersService {
             'UPDATE users SET password = ? WHERE id=?',
             [hashedPassword, id]
         );
+        // Whoever held the old password is signed out everywhere
+        await SessionsService.revokeAllForUser(id);
 
         return { message: 'Password reset successfully' };
     }
@@ -166,7 +323,7 @@ export class UsersService {
     static async getByRole(role: string) {
         const database = getDB();
         const users = await database.all<User[]>(
-            'SELECT id, name, email, role, profilePictureUrl FROM users WHERE role = ? ORDER BY name',
+            'SELECT id, name, email, role, profilePictureUrl FROM users WHERE role = ? AND isDeleted = 0 ORDER BY name',
             [role]
         );
 
@@ -187,7 +344,7 @@ export class UsersService {
         const users = await database.all<User[]>(
             `SELECT id, name, email, role, profilePictureUrl 
              FROM users 
-             WHERE name LIKE ? OR email LIKE ? 
+             WHERE (name LIKE ? OR email LIKE ?) AND isDeleted = 0
              ORDER BY name`,
             [`%${query}%`, `%${query}%`]
         );
@@ -208,7 +365,7 @@ export class UsersService {
         const database = getDB();
 
         let query = 'SELECT COUNT(*) as count FROM users WHERE email = ?';
-        const params: any[] = [email];
+        const params: any[] = [this.normalizeEmail(email)];
 
         if (excludeUserId) {
             query += ' AND id != ?';
@@ -1,18 +1,323 @@
+/**
+ * Built-in roles. Administrators can add custom roles next to them.
+ */
 export enum Role {
     Admin = 'Admin',
     Manager = 'Manager',
     Staff = 'Staff',
 }
 
-export interface User {
+export enum Permission {
+    InventoryView = 'inventory.view',
+    InventoryCreate = 'inventory.create',
+    InventoryUpdate = 'inventory.update',
+    InventoryPricing = 'inventory.pricing',
+    InventoryAdjust = 'inventory.adjust',
+    InventoryDelete = 'inventory.delete',
+    InventoryPurge = 'inventory.purge',
+    OrdersView = 'orders.view',
+    OrdersCreate = 'orders.create',
+    OrdersUpdateStatus = 'orders.update_status',
+    OrdersRefund = 'orders.refund',
+    OrdersDelete = 'orders.delete',
+    OrdersPurge = 'orders.purge',
+    InquiriesView = 'inquiries.view',
+    InquiriesCreate = 'inquiries.create',
+    InquiriesUpdate = 'inquiries.update',
+    InquiriesRespond = 'inquiries.respond',
+    InquiriesDelete = 'inquiries.delete',
+    InquiriesPurge = 'inquiries.purge',
+    DiscountsView = 'discounts.view',
+    DiscountsCreate = 'discounts.create',
+    DiscountsUpdate = 'discounts.update',
+    DiscountsDelete = 'discounts.delete',
+    DiscountsPurge = 'discounts.purge',
+    EmailsView = 'emails.view',
+    EmailsSend = 'emails.send',
+    EmailsDelete = 'emails.delete',
+    EmailsPurge = 'emails.purge',
+    NewslettersView = 'newsletters.view',
+    NewslettersSend = 'newsletters.send',
+    ReportsView = 'reports.view',
+    UsersManage = 'users.manage',
+    RolesManage = 'roles.manage',
+    SessionsManage = 'sessions.manage',
+    SecurityManage = 'security.manage',
+    SettingsView = 'settings.view',
+    SettingsManage = 'settings.manage',
+    BackupsManage = 'backups.manage',
+    AuditView = 'audit.view',
+}
+
+export interface PermissionDefinition {
+    key: Permission;
+    group: string;
+    description: string;
+}
+
+/**
+ * A named bundle of permissions. System roles cannot be renamed or deleted,
+ * and the Admin role always has every permission.
+ */
+export interface RoleDefinition {
+    name: string;
+    description?: string;
+    permissions: Permission[];
+    isSystem: boolean;
+    userCount?: number;
+}
+
+/**
+ * Permissions granted or taken away for one user on top of their role
+ */
+export interface UserPermissionOverrides {
+    grants: Permission[];
+    denies: Permission[];
+}
+
+export interface UserPermissions extends UserPermissionOverrides {
+    role: string;
+    rolePermissions: Permission[];
+    effective: Permission[];
+}
+
+/**
+ * Set on records that support archiving (soft delete)
+ */
+export interface PaginatedResponse<T> {
+    data: T[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        pages: number;
+    };
+}
+
+export interface Archivable {
+    isDeleted?: boolean;
+    deletedAt?: string | null;
+    deletedBy?: string | null;
+}
+
+export interface User extends Archivable {
     id: string;
     name: string;
     email: string;
-    role: Role;
+    // A built-in Role or the name of a custom role
+    role: string;
     profilePictureUrl?: string;
+    lastActivity?: string;
+    // Set for new accounts until the user chooses their own password
+    mustChangePassword?: boolean;
+    invitationStatus?: UserInvitationStatus;
+    twoFactorEnabled?: boolean;
+    // Set while sign-ins are refused after repeated failures
+    lockedUntil?: string;
+    // Effective permissions, only sent for the signed-in user
+    permissions?: Permission[];
+}
+
+export type UserInvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface UserInvitation {
+    id: string;
+    userId: string;
+    status: UserInvitationStatus;
+    expiresAt: string;
+    createdAt: string;
+    createdBy?: string;
+    acceptedAt?: string;
+    revokedAt?: string;
+}
+
+/**
+ * Roles whose members cannot sign in without two-factor authentication
+ */
+export interface TwoFactorPolicy {
+    requiredRoles: string[];
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt?: string;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+/**
+ * Secret of an enrolment that still has to be confirmed with a code
+ */
+export interface TwoFactorSetup {
+    secret: string;
+    otpauthUri: string;
+}
+
+export interface UserSession {
+    id: string;
+    userId: string;
+    user_name?: string;
+    loginTime: string;
+    logoutTime?: string;
+    duration?: number; // in minutes
+    ip_address?: string;
+    user_agent?: string;
+    last_activity?: string;
+    isActive: boolean;
+    isCurrent: boolean;
+}
+
+export enum SecurityEventType {
+    LoginSuccess = 'login_success',
+    LoginFailed = 'login_failed',
+    PasswordChanged = 'password_changed',
+    PasswordChangeFailed = 'password_change_failed',
+    PasswordReset = 'password_reset',
+    PasswordResetRequested = 'password_reset_requested',
+    PasswordResetFailed = 'password_reset_failed',
+    UserInvited = 'user_invited',
+    InvitationAccepted = 'invitation_accepted',
+    InvitationFailed = 'invitation_failed',
+    TwoFactorEnabled = 'two_factor_enabled',
+    TwoFactorDisabled = 'two_factor_disabled',
+    TwoFactorFailed = 'two_factor_failed',
+    RecoveryCodeUsed = 'recovery_code_used',
+    AccountLocked = 'account_locked',
+    AccountUnlocked = 'account_unlocked',
+    LoginAnomaly = 'login_anomaly',
+    PermissionsChanged = 'permissions_changed',
+    PasswordConfirmationFailed = 'password_confirmation_failed',
+    BackupRestored = 'backup_restored',
+    PathTraversal = 'path_traversal',
+    SensitiveFileAccess = 'sensitive_file_access',
+    SqlInjection = 'sql_injection',
+    IpBlocked = 'ip_blocked',
+    IpUnblocked = 'ip_unblocked',
+    SpamSubmission = 'spam_submission',
+}
+
+export type NewsletterRecipientGroup = 'all_customers' | 'recent_customers' | 'inquiry_customers' | 'custom';
+
+export type NewsletterStatus = 'sending' | 'completed' | 'failed';
+
+export type NewsletterDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface Newsletter {
+    id: string;
+    subject: string;
+    html_content: string;
+    recipient_group: NewsletterRecipientGroup;
+    total_recipients: number;
+    success_count: number;
+    fail_count: number;
+    status: NewsletterStatus;
+    sent_by_user_id: string;
+    sent_by_name?: string;
+    created_at: string;
+    completed_at?: string | null;
+}
+
+export interface NewsletterRecipient {
+    id: number;
+    newsletter_id: string;
+    email: string;
+    status: NewsletterDeliveryStatus;
+    error: string | null;
+    attempts: number;
+    sent_at: string | null;
+}
+
+export interface SecurityLog {
+    id: number;
+    event_type: SecurityEventType;
+    ip_address: string | null;
+    user_agent: string | null;
+    url: string | null;
+    user_id: string | null;
+    details: string | null;
+    created_at: string;
+}
+
+export enum AuditEntityType {
+    Inventory = 'inventory',
+    Discount = 'discount',
+    Inquiry = 'inquiry',
+    Order = 'order',
+    User = 'user',
+    Role = 'role',
+}
+
+export enum AuditAction {
+    Create = 'create',
+    Update = 'update',
+    Archive = 'archive',
+    Restore = 'restore',
+    Delete = 'delete',
+}
+
+/**
+ * Old and new value of one field. Creations have no old value and deletions no new one.
+ */
+export interface AuditChange {
+    from: unknown;
+    to: unknown;
 }
 
-export interface InventoryItem {
+export interface AuditLogEntry {
+    id: string;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    actorId: string | null;
+    actorName?: string | null;
+    changes: Record<string, AuditChange>;
+    createdAt: string;
+}
+
+export type BackupFrequency = 'daily' | 'weekly' | 'monthly';
+
+// How many of the newest backups to keep per day, week and month
+export interface BackupRetention {
+    daily: number;
+    weekly: number;
+    monthly: number;
+}
+
+export interface BackupSchedule {
+    enabled: boolean;
+    frequency: BackupFrequency;
+    retention: BackupRetention;
+}
+
+export type BackupRunTrigger = 'scheduled' | 'manual';
+
+export interface BackupRun {
+    id: string;
+    trigger: BackupRunTrigger;
+    startedAt: string;
+    finishedAt: string;
+    success: boolean;
+    filename: string | null;
+    error: string | null;
+    pruned: number;
+    triggeredBy: string | null;
+}
+
+export interface BackupScheduleStatus extends BackupSchedule {
+    lastRun: BackupRun | null;
+    lastSuccessAt: string | null;
+    nextRunAt: string | null;
+}
+
+export interface BlockedIP {
+    ip: string;
+    reason: string;
+    blockedAt: string;
+    expiresAt: string;
+    pathsAttempted: number;
+}
+
+export interface InventoryItem extends Archivable {
     id: string;
     name: string;
     sku: string;
@@ -24,13 +329,36 @@ export interface InventoryItem {
     warrantyPeriod?: number;
 }
 
+export enum InventoryMovementType {
+    StockIn = 'StockIn',
+    StockOut = 'StockOut',
+    AdjustmentIn = 'AdjustmentIn',
+    AdjustmentOut = 'AdjustmentOut',
+    Damage = 'Damage',
+    Expired = 'Expired',
+    Return = 'Return',
+}
+
+export interface InventoryMovement {
+    id: string;
+    itemId: string;
+    type: InventoryMovementType;
+    quantityChange: number;
+    quantityAfter: number;
+    reason?: string;
+    relatedOrderId?: string;
+    timestamp: string;
+    userId?: string;
+    user_name?: string;
+}
+
 export enum InquiryStatus {
     Pending = 'Pending',
     InProgress = 'In Progress',
     Completed = 'Completed',
 }
 
-export interface CustomerInquiry {
+export interface CustomerInquiry extends Archivable {
     id: string;
     customerName: string;
     customerEmail: string;
@@ -38,22 +366,86 @@ export interface CustomerInquiry {
     status: InquiryStatus;
     assignedStaffId?: string;
     createdAt: string;
+    firstRespondedAt?: string;
+    escalatedAt?: string;
+    escalatedTo?: string;
+    escalatedFor?: InquirySlaKind;
+    sla?: InquirySla;
+}
+
+export type InquiryAssignmentStrategy = 'manual' | 'round_robin' | 'least_loaded';
+
+export type InquirySlaKind = 'first_response' | 'resolution';
+
+/**
+ * Hours after an inquiry is received by which it should have a first response
+ * and be resolved, while it is in a given status. Null means no target.
+ */
+export interface InquirySlaTarget {
+    firstResponseHours: number | null;
+    resolutionHours: number | null;
+}
+
+export interface InquiryRoutingSettings {
+    strategy: InquiryAssignmentStrategy;
+    slaTargets: Record<InquiryStatus, InquirySlaTarget>;
 }
 
+/**
+ * Where an open inquiry stands against its SLA. `dueAt` is the nearest
+ * deadline not yet met; `remainingMinutes` is negative once it has passed.
+ */
+export interface InquirySla {
+    firstResponseDueAt?: string;
+    resolutionDueAt?: string;
+    dueAt: string;
+    dueFor: InquirySlaKind;
+    remainingMinutes: number;
+    overdue: boolean;
+}
+
+/**
+ * A staff reply to an inquiry, emailed to the customer
+ */
+export interface InquiryResponse {
+    id: string;
+    inquiry_id: string;
+    response_message: string;
+    responded_by_user_id: string;
+    responded_by_name?: string;
+    email_id?: string;
+    email_status?: EmailStatus;
+    has_attachments: boolean;
+    attachments: Attachment[];
+    created_at: string;
+}
+
+/**
+ * An email attachment stored on disk; `path` is the authenticated download URL
+ */
 export interface Attachment {
     name: string;
-    type: string;
+    contentType: string;
     size: number;
-    data: string;
+    path: string;
 }
 
-export interface Email {
+export type EmailStatus = 'queued' | 'sent' | 'failed';
+
+export interface Email extends Archivable {
     id: string;
     recipient: string;
     subject: string;
     body: string;
-    sentAt: string;
-    attachment?: Attachment;
+    status: EmailStatus;
+    attempts: number;
+    lastError?: string;
+    nextAttemptAt?: string;
+    createdAt?: string;
+    sentAt?: string;
+    attachments: Attachment[];
+    // Download URL of the first attachment
+    attachment_path?: string;
 }
 
 export interface CartItem extends InventoryItem {
@@ -73,16 +465,62 @@ export enum OrderStatus {
     Refunded = 'Refunded',
 }
 
-export interface Order {
+export interface OrderStatusChange {
+    id: string;
+    orderId: string;
+    fromStatus: OrderStatus | null;
+    toStatus: OrderStatus;
+    note?: string;
+    changedBy: string;
+    changedByName?: string;
+    changedAt: string;
+}
+
+export enum ReturnDisposition {
+    Restock = 'restock',
+    WriteOff = 'write_off',
+}
+
+export interface OrderReturnLine {
+    id: number;
+    returnId: string;
+    orderItemId: number;
+    itemId: string;
+    name?: string;
+    quantity: number;
+    disposition: ReturnDisposition;
+}
+
+export interface OrderReturn {
+    id: string;
+    orderId: string;
+    refundAmount: number;
+    reason?: string;
+    createdBy: string;
+    createdByName?: string;
+    createdAt: string;
+    lines: OrderReturnLine[];
+}
+
+export interface OrderLine extends CartItem {
+    orderItemId?: number; // order_items row, used to return individual lines
+    returnedQuantity?: number;
+}
+
+export interface Order extends Archivable {
     id: string;
     customerName: string;
     customerContact: string;
     customerAddress: string;
     customerEmail: string;
-    items: CartItem[];
+    items: OrderLine[];
     subtotal: number;
-    discountApplied: number;
+    applied_discount_id: string | null;
+    discountAmount: number;
+    discountApplied: number; // effective discount as a percentage of the subtotal
     total: number;
+    refundedAmount?: number; // sum of all refunds issued through returns
+    netTotal?: number; // total minus refunds; 0 once cancelled
     createdAt: string;
     createdBy: string;
     status: OrderStatus;
@@ -101,7 +539,7 @@ export interface DiscountCondition {
     validUntil?: string;
 }
 
-export interface Discount {
+export interface Discount extends Archivable {
     id: string;
     code: string;
     description: string;
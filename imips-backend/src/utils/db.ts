@@ -3,7 +3,9 @@ import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
 import path from 'path';
 import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
 import DatabaseSeeder from './seedData';
+import { migrateUp } from './migrator';
 
 const dbFile = path.join(__dirname, '..', 'database.sqlite');
 
@@ -11,93 +13,19 @@ if (!fs.existsSync(dbFile)) fs.writeFileSync(dbFile, '');
 
 let databaseInstance: Database<sqlite3.Database, sqlite3.Statement> | null = null;
 
-export const initDB = async (options: { seedData?: boolean } = {}) => {
+export const initDB = async (options: { seedData?: boolean; migrate?: boolean } = {}) => {
   if (databaseInstance) return databaseInstance;
 
   databaseInstance = await open({
     filename: dbFile,
     driver: sqlite3.Database,
   });
+  waitForOpenTransactions(databaseInstance);
 
-  await databaseInstance.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id TEXT PRIMARY KEY,
-      name TEXT,
-      email TEXT UNIQUE,
-      password TEXT,
-      role TEXT,
-      profilePictureUrl TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS inventory (
-      id TEXT PRIMARY KEY,
-      name TEXT,
-      sku TEXT,
-      quantity INTEGER,
-      threshold INTEGER,
-      category TEXT,
-      price REAL,
-      imageUrl TEXT,
-      warrantyPeriod INTEGER
-    );
-
-    CREATE TABLE IF NOT EXISTS inquiries (
-      id TEXT PRIMARY KEY,
-      customerName TEXT,
-      customerEmail TEXT,
-      inquiryDetails TEXT,
-      status TEXT,
-      assignedStaffId TEXT,
-      createdAt TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS orders (
-      id TEXT PRIMARY KEY,
-      customerName TEXT,
-      customerContact TEXT,
-      customerAddress TEXT,
-      customerEmail TEXT,
-      subtotal REAL,
-      discountAmount REAL,
-      total REAL,
-      createdAt TEXT,
-      createdBy TEXT,
-      status TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS order_items (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      orderId TEXT,
-      itemId TEXT,
-      name TEXT,
-      price REAL,
-      quantity INTEGER,
-      FOREIGN KEY (orderId) REFERENCES orders(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS emails (
-      id TEXT PRIMARY KEY,
-      recipient TEXT,
-      subject TEXT,
-      body TEXT,
-      sentAt TEXT,
-      attachmentName TEXT,
-      attachmentData TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS discounts (
-    id TEXT PRIMARY KEY,
-    code TEXT UNIQUE,
-    description TEXT,
-    type TEXT,
-    value REAL,
-    condition TEXT,
-    isActive INTEGER DEFAULT 1,
-    usedCount INTEGER DEFAULT 0,
-    createdAt TEXT,
-    createdBy TEXT
-);
-  `);
+  // Bring the schema up to date before anything reads it
+  if (options.migrate !== false) {
+    await migrateUp(databaseInstance);
+  }
 
   // Conditional seeding based on options
   const shouldSeed = options.seedData !== false; // Default to true if not specified
@@ -118,6 +46,64 @@ export const getDB = () => {
   return databaseInstance;
 };
 
+// Tracks whether the current async call chain is already inside a transaction
+const transactionContext = new AsyncLocalStorage<boolean>();
+let transactionQueue: Promise<unknown> = Promise.resolve();
+let openTransaction: Promise<unknown> | null = null;
+
+const STATEMENT_METHODS = ['run', 'get', 'all', 'each', 'exec', 'prepare'] as const;
+
+// There is only one connection, so a statement issued while another request's
+// transaction is open would become part of it and be rolled back with it.
+// Statements from outside the transaction wait until it has finished instead.
+const waitForOpenTransactions = (database: Database<sqlite3.Database, sqlite3.Statement>) => {
+  for (const method of STATEMENT_METHODS) {
+    const statement = (database[method] as (...args: unknown[]) => Promise<unknown>).bind(database);
+    (database as any)[method] = async (...args: unknown[]) => {
+      while (openTransaction && !transactionContext.getStore()) {
+        await openTransaction;
+      }
+      return statement(...args);
+    };
+  }
+};
+
+/**
+ * Run `work` inside a single SQLite transaction. Transactions are queued one
+ * after another, statements from outside wait while one is open, and nested
+ * calls simply join the transaction that is already open.
+ */
+export const withTransaction = async <T>(work: () => Promise<T>): Promise<T> => {
+  if (transactionContext.getStore()) {
+    return work();
+  }
+
+  const run = async () => {
+    const database = getDB();
+    const transaction = transactionContext.run(true, async () => {
+      await database.run('BEGIN IMMEDIATE TRANSACTION');
+      try {
+        const result = await work();
+        await database.run('COMMIT');
+        return result;
+      } catch (error) {
+        await database.run('ROLLBACK');
+        throw error;
+      }
+    });
+    openTransaction = transaction.catch(() => undefined);
+    try {
+      return await transaction;
+    } finally {
+      openTransaction = null;
+    }
+  };
+
+  const result = transactionQueue.then(run, run);
+  transactionQueue = result.catch(() => undefined);
+  return result;
+};
+
 // Export a function to run seeding manually if needed
 export const runDatabaseSeed = async () => {
   if (!databaseInstance) {
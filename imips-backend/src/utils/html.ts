@@ -0,0 +1,24 @@
+export const escapeHtml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+/**
+ * Undo the `<` and `>` encoding the XSS middleware applies to every request
+ * body, so text that is escaped for an email is escaped only once
+ */
+export const decodeSanitized = (text: string) =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+
+/**
+ * Plain text as HTML paragraphs, one per blank-line separated block
+ */
+export const toHtmlParagraphs = (text: string) =>
+    text
+        .split(/\r?\n\s*\r?\n/)
+        .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>')}</p>`)
+        .join('\n');
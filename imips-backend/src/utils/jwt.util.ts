@@ -4,8 +4,11 @@ dotenv.config();
 
 const ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'access-secret';
 const REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'refresh-secret';
+const CHALLENGE_SECRET = process.env.JWT_CHALLENGE_SECRET || 'challenge-secret';
 const ACCESS_EXPIRY = '15m';
 const REFRESH_EXPIRY = '7d';
+// Time allowed between the password and the two-factor code at login
+const CHALLENGE_EXPIRY = '5m';
 
 export const generateAccessToken = (payload: object) =>
     jwt.sign(payload, ACCESS_SECRET, { expiresIn: ACCESS_EXPIRY });
@@ -15,3 +18,8 @@ export const generateRefreshToken = (payload: object) =>
 
 export const verifyAccessToken = (token: string) => jwt.verify(token, ACCESS_SECRET);
 export const verifyRefreshToken = (token: string) => jwt.verify(token, REFRESH_SECRET);
+
+export const generateChallengeToken = (payload: object) =>
+    jwt.sign(payload, CHALLENGE_SECRET, { expiresIn: CHALLENGE_EXPIRY });
+
+export const verifyChallengeToken = (token: string) => jwt.verify(token, CHALLENGE_SECRET);
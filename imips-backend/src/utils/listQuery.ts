@@ -0,0 +1,157 @@
+import { getDB } from './db';
+import { PaginatedResponse } from '../types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Query string keys that are not column filters
+const RESERVED_KEYS = ['page', 'limit', 'sort', 'order', 'search', 'archived'];
+
+export type SortOrder = 'ASC' | 'DESC';
+
+/**
+ * Page, sort, search and filter parameters of a list request. Without a limit
+ * every matching row is returned.
+ */
+export interface ListParams {
+    page: number;
+    limit?: number;
+    sort?: string;
+    order?: SortOrder;
+    search?: string;
+    filters: Record<string, string[]>;
+}
+
+/**
+ * Describes how a table can be listed. Sortable and filterable map the public
+ * field name to its SQL column.
+ */
+export interface ListSource {
+    from: string;
+    select?: string;
+    where?: string[];
+    params?: any[];
+    sortable: Record<string, string>;
+    searchable: string[];
+    filterable: Record<string, string>;
+    defaultSort: string;
+    defaultOrder: SortOrder;
+    idColumn?: string;
+}
+
+export class ListQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ListQueryError';
+    }
+}
+
+/**
+ * Clients that send page or limit get a PaginatedResponse; others keep getting
+ * the plain array.
+ */
+export const wantsPagination = (query: Record<string, any>) =>
+    query.page !== undefined || query.limit !== undefined;
+
+const positiveInteger = (value: any, name: string): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new ListQueryError(`Invalid ${name}`);
+    }
+    return parsed;
+};
+
+/**
+ * Read list parameters from a request query string. Every key that is not
+ * reserved is treated as a column filter; repeat a key to match several values.
+ */
+export const parseListParams = (query: Record<string, any>): ListParams => {
+    const page = positiveInteger(query.page, 'page') || 1;
+    let limit = positiveInteger(query.limit, 'limit');
+    if (limit === undefined && query.page !== undefined) limit = DEFAULT_PAGE_SIZE;
+    if (limit !== undefined) limit = Math.min(limit, MAX_PAGE_SIZE);
+
+    let order: SortOrder | undefined;
+    if (query.order !== undefined) {
+        const normalized = String(query.order).toUpperCase();
+        if (normalized !== 'ASC' && normalized !== 'DESC') {
+            throw new ListQueryError('Invalid sort order');
+        }
+        order = normalized;
+    }
+
+    const filters: Record<string, string[]> = {};
+    for (const [key, value] of Object.entries(query)) {
+        if (RESERVED_KEYS.includes(key) || value === undefined || value === '') continue;
+        filters[key] = (Array.isArray(value) ? value : [value]).map(String);
+    }
+
+    return {
+        page,
+        limit,
+        sort: query.sort ? String(query.sort) : undefined,
+        order,
+        search: query.search ? String(query.search).trim() || undefined : undefined,
+        filters
+    };
+};
+
+/**
+ * Run a list query: count the matching rows, then fetch the requested page
+ */
+export const runListQuery = async <T = any>(source: ListSource, params: ListParams): Promise<PaginatedResponse<T>> => {
+    const database = getDB();
+
+    const conditions = [...(source.where || [])];
+    const values = [...(source.params || [])];
+
+    if (params.search && source.searchable.length > 0) {
+        conditions.push(`(${source.searchable.map(column => `${column} LIKE ?`).join(' OR ')})`);
+        values.push(...source.searchable.map(() => `%${params.search}%`));
+    }
+
+    for (const [field, fieldValues] of Object.entries(params.filters)) {
+        const column = source.filterable[field];
+        if (!column) {
+            throw new ListQueryError(`Cannot filter by ${field}`);
+        }
+        conditions.push(`${column} IN (${fieldValues.map(() => '?').join(', ')})`);
+        values.push(...fieldValues);
+    }
+
+    const sortField = params.sort || source.defaultSort;
+    const sortColumn = source.sortable[sortField];
+    if (!sortColumn) {
+        throw new ListQueryError(`Cannot sort by ${sortField}`);
+    }
+    const order = params.order || (params.sort ? 'ASC' : source.defaultOrder);
+    const idColumn = source.idColumn || 'id';
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const count = await database.get<{ total: number }>(
+        `SELECT COUNT(*) as total FROM ${source.from} ${where}`,
+        values
+    );
+    const total = count?.total || 0;
+
+    let sql = `SELECT ${source.select || '*'} FROM ${source.from} ${where} ORDER BY ${sortColumn} ${order}, ${idColumn} ${order}`;
+    const rowValues = [...values];
+    if (params.limit !== undefined) {
+        sql += ' LIMIT ? OFFSET ?';
+        rowValues.push(params.limit, (params.page - 1) * params.limit);
+    }
+    const data = await database.all<T[]>(sql, rowValues);
+
+    const limit = params.limit || Math.max(total, 1);
+    return {
+        data,
+        pagination: {
+            page: params.limit ? params.page : 1,
+            limit,
+            total,
+            pages: Math.max(Math.ceil(total / limit), 1)
+        }
+    };
+};
@@ -0,0 +1,125 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import path from 'path';
+import fs from 'fs';
+
+export type MailTransportName = 'smtp' | 'gmail' | 'file' | 'json';
+
+export interface MailAttachment {
+    filename: string;
+    path: string;
+    contentType?: string;
+}
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+    readonly name: MailTransportName;
+    send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, '../../outbox');
+const DEFAULT_MAIL_LOG = path.join(__dirname, '../../logs/mail.log');
+
+const defaultSender = () =>
+    process.env.MAIL_FROM || process.env.SMTP_USER || process.env.GMAIL_USER || 'no-reply@imips.local';
+
+/**
+ * Sends through a real mail server, either a generic SMTP host or Gmail
+ */
+export class SmtpTransport implements MailTransport {
+    private transporter: Transporter;
+
+    constructor(readonly name: 'smtp' | 'gmail', private from = defaultSender()) {
+        this.transporter = name === 'gmail'
+            ? nodemailer.createTransport({
+                service: 'gmail',
+                auth: { user: process.env.GMAIL_USER, pass: process.env.GMAIL_PASS },
+            })
+            : nodemailer.createTransport({
+                host: process.env.SMTP_HOST,
+                port: Number(process.env.SMTP_PORT) || 587,
+                secure: process.env.SMTP_SECURE === 'true',
+                auth: process.env.SMTP_USER
+                    ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+                    : undefined,
+            });
+    }
+
+    async send(message: MailMessage) {
+        const info = await this.transporter.sendMail({ from: this.from, ...message });
+        return { messageId: info.messageId };
+    }
+}
+
+/**
+ * Writes every message as an .eml file into a local outbox directory instead
+ * of sending it. Meant for development and tests.
+ */
+export class FileTransport implements MailTransport {
+    readonly name = 'file';
+    private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+    constructor(private directory = process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR, private from = defaultSender()) {}
+
+    async send(message: MailMessage) {
+        const info = await this.transporter.sendMail({ from: this.from, ...message });
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const safeId = info.messageId.replace(/[^a-zA-Z0-9.-]/g, '');
+        await fs.promises.writeFile(path.join(this.directory, `${Date.now()}-${safeId}.eml`), info.message as Buffer);
+        return { messageId: info.messageId };
+    }
+}
+
+/**
+ * Appends every message as one JSON line to a log file instead of sending it
+ */
+export class JsonLogTransport implements MailTransport {
+    readonly name = 'json';
+    private transporter = nodemailer.createTransport({ jsonTransport: true });
+
+    constructor(private logFile = process.env.MAIL_LOG_FILE || DEFAULT_MAIL_LOG, private from = defaultSender()) {}
+
+    async send(message: MailMessage) {
+        const info = await this.transporter.sendMail({ from: this.from, ...message });
+        await fs.promises.mkdir(path.dirname(this.logFile), { recursive: true });
+
+        const entry = { loggedAt: new Date().toISOString(), ...JSON.parse(info.message as unknown as string) };
+        await fs.promises.appendFile(this.logFile, JSON.stringify(entry) + '\n');
+        return { messageId: info.messageId };
+    }
+}
+
+/**
+ * Transport named by MAIL_TRANSPORT. Without it, SMTP is used when SMTP_HOST is
+ * set, Gmail when GMAIL_USER is set, and the local outbox otherwise.
+ */
+export const createMailTransport = (name = process.env.MAIL_TRANSPORT): MailTransport => {
+    const selected = name || (process.env.SMTP_HOST ? 'smtp' : process.env.GMAIL_USER ? 'gmail' : 'file');
+
+    switch (selected) {
+        case 'smtp':
+        case 'gmail':
+            return new SmtpTransport(selected);
+        case 'file':
+            return new FileTransport();
+        case 'json':
+            return new JsonLogTransport();
+        default:
+            throw new Error(`Unknown mail transport: ${selected}`);
+    }
+};
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+    if (!transport) {
+        transport = createMailTransport();
+    }
+    return transport;
+};
@@ -0,0 +1,127 @@
+import { MIGRATIONS, Migration, MigrationDatabase } from '../migrations';
+
+const BASELINE_VERSION = 1;
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    appliedAt: string | null;
+    adopted: boolean;
+}
+
+interface MigrationRow {
+    version: number;
+    name: string;
+    appliedAt: string;
+    adopted: number;
+}
+
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+const latestVersion = () => MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const runInTransaction = async (database: MigrationDatabase, work: () => Promise<void>) => {
+    await database.run('BEGIN IMMEDIATE TRANSACTION');
+    try {
+        await work();
+        await database.run('COMMIT');
+    } catch (error) {
+        await database.run('ROLLBACK');
+        throw error;
+    }
+};
+
+/**
+ * Create the bookkeeping table. A database that already has tables but no
+ * migration history predates migrations and is adopted as the baseline, so
+ * only the later migrations run against it.
+ */
+const prepare = async (database: MigrationDatabase): Promise<MigrationRow[]> => {
+    await database.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          appliedAt TEXT NOT NULL,
+          adopted INTEGER DEFAULT 0
+        );
+    `);
+
+    let applied = await database.all<MigrationRow[]>('SELECT * FROM schema_migrations ORDER BY version');
+    if (applied.length === 0) {
+        const existing = await database.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'`);
+        if (existing) {
+            const baseline = MIGRATIONS.find(m => m.version === BASELINE_VERSION)!;
+            await database.run(
+                'INSERT INTO schema_migrations (version, name, appliedAt, adopted) VALUES (?, ?, ?, 1)',
+                [baseline.version, baseline.name, new Date().toISOString()]
+            );
+            console.log(`Existing database adopted at schema version ${baseline.version} (${baseline.name})`);
+            applied = await database.all<MigrationRow[]>('SELECT * FROM schema_migrations ORDER BY version');
+        }
+    }
+
+    const unknown = applied.find(row => !MIGRATIONS.some(m => m.version === row.version));
+    if (unknown) {
+        throw new MigrationError(
+            `Database has migration ${unknown.version} (${unknown.name}) which this build does not know; it was created by a newer version`
+        );
+    }
+    return applied;
+};
+
+/**
+ * Every known migration and whether it has been applied
+ */
+export const getMigrationStatus = async (database: MigrationDatabase): Promise<MigrationStatus[]> => {
+    const applied = await prepare(database);
+    return MIGRATIONS.map(migration => {
+        const row = applied.find(r => r.version === migration.version);
+        return { version: migration.version, name: migration.name, appliedAt: row?.appliedAt || null, adopted: !!row?.adopted };
+    });
+};
+
+/**
+ * Apply pending migrations in order up to `target` (default: the latest),
+ * each in its own transaction. Returns the migrations that ran.
+ */
+export const migrateUp = async (database: MigrationDatabase, target = latestVersion()): Promise<Migration[]> => {
+    const applied = await prepare(database);
+    const pending = MIGRATIONS.filter(m => m.version <= target && !applied.some(row => row.version === m.version));
+
+    for (const migration of pending) {
+        await runInTransaction(database, async () => {
+            await migration.up(database);
+            await database.run(
+                'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+                [migration.version, migration.name, new Date().toISOString()]
+            );
+        });
+        console.log(`Applied migration ${migration.version} (${migration.name})`);
+    }
+    return pending;
+};
+
+/**
+ * Revert applied migrations newest first until the schema is at `target`,
+ * each in its own transaction. Returns the migrations that were reverted.
+ */
+export const migrateDown = async (database: MigrationDatabase, target: number): Promise<Migration[]> => {
+    const applied = await prepare(database);
+    const reverting = MIGRATIONS
+        .filter(m => m.version > target && applied.some(row => row.version === m.version))
+        .reverse();
+
+    for (const migration of reverting) {
+        await runInTransaction(database, async () => {
+            await migration.down(database);
+            await database.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+        });
+        console.log(`Reverted migration ${migration.version} (${migration.name})`);
+    }
+    return reverting;
+};
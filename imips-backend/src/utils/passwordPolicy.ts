@@ -0,0 +1,14 @@
+// Same rule as the frontend's password validation
+export const PASSWORD_POLICY_MESSAGE = 'Password must be 8+ characters, with uppercase, lowercase, number, and special character.';
+
+// bcrypt ignores everything after 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+
+export const meetsPasswordPolicy = (password: any): boolean =>
+    typeof password === 'string' &&
+    password.length >= 8 &&
+    Buffer.byteLength(password) <= MAX_PASSWORD_BYTES &&
+    /[a-z]/.test(password) &&
+    /[A-Z]/.test(password) &&
+    /\d/.test(password) &&
+    /[^A-Za-z\d]/.test(password);
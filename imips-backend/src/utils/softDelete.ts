@@ -0,0 +1,31 @@
+import { getDB } from './db';
+
+export type ArchivableTable = 'users' | 'inventory' | 'inquiries' | 'orders' | 'discounts' | 'emails';
+
+/**
+ * WHERE condition selecting live rows, or archived rows when `archived` is true
+ */
+export const archivedCondition = (archived = false, alias?: string) =>
+    `${alias ? `${alias}.` : ''}isDeleted = ${archived ? 1 : 0}`;
+
+/**
+ * Mark a row as deleted. Returns false when it does not exist or is already archived.
+ */
+export const archiveRecord = async (table: ArchivableTable, id: string, userId?: string): Promise<boolean> => {
+    const result = await getDB().run(
+        `UPDATE ${table} SET isDeleted = 1, deletedAt = ?, deletedBy = ? WHERE id = ? AND isDeleted = 0`,
+        [new Date().toISOString(), userId || null, id]
+    );
+    return !!result.changes;
+};
+
+/**
+ * Bring an archived row back. Returns false when it does not exist or is not archived.
+ */
+export const restoreRecord = async (table: ArchivableTable, id: string): Promise<boolean> => {
+    const result = await getDB().run(
+        `UPDATE ${table} SET isDeleted = 0, deletedAt = NULL, deletedBy = NULL WHERE id = ? AND isDeleted = 1`,
+        [id]
+    );
+    return !!result.changes;
+};
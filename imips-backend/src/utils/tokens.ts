@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+const APP_URL = process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:3000';
+
+/**
+ * Random token for emailed links. Only its hash is stored.
+ */
+export const generateToken = () => crypto.randomBytes(32).toString('hex');
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Frontend link that carries a token in the query string
+ */
+export const tokenLink = (param: string, token: string) => `${APP_URL}/?${param}=${token}`;
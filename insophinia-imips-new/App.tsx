@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from './hooks/useAuth';
 import LoginPage from './pages/LoginPage';
+import ChangePasswordPage from './pages/ChangePasswordPage';
 import DashboardPage from './pages/DashboardPage';
 import InventoryPage from './pages/InventoryPage';
 import UsersPage from './pages/UsersPage';
@@ -48,7 +49,8 @@ const App: React.FC = () => {
   }, [user, invalidatedSessionUserIds, logout, showToast]);
 
   useEffect(() => {
-    if (!user) return;
+    // Nothing else is reachable until a temporary password has been replaced
+    if (!user || user.mustChangePassword) return;
 
     // Initial activity ping on login
     updateActivity();
@@ -109,6 +111,8 @@ const App: React.FC = () => {
     <>
       {!user ? (
         <LoginPage />
+      ) : user.mustChangePassword ? (
+        <ChangePasswordPage />
       ) : (
         <div className="relative flex h-screen bg-gray-100 font-sans overflow-hidden">
           <Sidebar
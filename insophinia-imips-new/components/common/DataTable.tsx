@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { MagnifyingGlassIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/solid';
 import Pagination from './Pagination';
 
@@ -17,8 +17,15 @@ interface ServerPagination {
     itemsPerPage: number;
     onPageChange: (page: number) => void;
     onItemsPerPageChange: (limit: number) => void;
+    // Search, filter and sort are delegated to the server when these are given
+    onSearchChange?: (term: string) => void;
+    onFilterChange?: (value: string | undefined) => void;
+    sort?: { field: string; order: 'asc' | 'desc' };
+    onSortChange?: (field: string, order: 'asc' | 'desc') => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 interface DataTableProps<T extends Record<string, any>> {
     data: T[];
     columns: Column<T>[];
@@ -43,6 +50,24 @@ const DataTable = <T extends Record<string, any>>({
     const [searchTerm, setSearchTerm] = useState('');
     const [filterValue, setFilterValue] = useState('All');
 
+    const onSearchChange = pagination?.onSearchChange;
+    useEffect(() => {
+        if (!onSearchChange) return;
+        const timer = setTimeout(() => onSearchChange(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchTerm]);
+
+    const handleFilterChange = (value: string) => {
+        setFilterValue(value);
+        pagination?.onFilterChange?.(value === 'All' ? undefined : value);
+    };
+
+    const handleSort = (field: string) => {
+        if (!pagination?.onSortChange) return;
+        const order = pagination.sort?.field === field && pagination.sort.order === 'asc' ? 'desc' : 'asc';
+        pagination.onSortChange(field, order);
+    };
+
     // Client-side filtering if no server pagination is provided
     const filteredData = useMemo(() => {
         if (pagination) return data; // Data is already filtered/paginated server-side
@@ -93,7 +118,7 @@ const DataTable = <T extends Record<string, any>>({
                 {filterableColumn && (
                      <select
                         value={filterValue}
-                        onChange={(e) => setFilterValue(e.target.value)}
+                        onChange={(e) => handleFilterChange(e.target.value)}
                         className="py-2 pl-3 pr-8 border rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-accent bg-white w-full md:w-auto"
                         aria-label={`Filter by ${filterableColumn.header}`}
                     >
@@ -107,11 +132,24 @@ const DataTable = <T extends Record<string, any>>({
                 <table className="w-full text-left">
                     <thead>
                         <tr className="bg-gray-50 border-b">
-                            {columns.map(col => (
-                                <th key={col.header} className="p-4 font-semibold">
-                                    {col.header}
-                                </th>
-                            ))}
+                            {columns.map(col => {
+                                const isSortable = col.sortable && col.accessor !== 'actions' && !!pagination?.onSortChange;
+                                const isSorted = pagination?.sort?.field === col.accessor;
+                                return (
+                                    <th
+                                        key={col.header}
+                                        className={`p-4 font-semibold ${isSortable ? 'cursor-pointer select-none' : ''}`}
+                                        onClick={isSortable ? () => handleSort(String(col.accessor)) : undefined}
+                                    >
+                                        <span className="inline-flex items-center">
+                                            {col.header}
+                                            {isSortable && isSorted && (pagination?.sort?.order === 'asc'
+                                                ? <ChevronUpIcon className="h-4 w-4 ml-1" />
+                                                : <ChevronDownIcon className="h-4 w-4 ml-1" />)}
+                                        </span>
+                                    </th>
+                                );
+                            })}
                         </tr>
                     </thead>
                     <tbody>
@@ -4,11 +4,15 @@ import Modal from './Modal';
 import { useAuth } from '../../hooks/useAuth';
 import { useData } from '../../hooks/useData';
 import { useToast } from '../../hooks/useToast';
-import { User, UserSession } from '../../types';
-import { UserCircleIcon, KeyIcon, ComputerDesktopIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/solid';
-import { changePassword, apiLogoutAll, fetchMySessions, revokeSession } from '../../lib/api';
+import { TwoFactorStatus, User, UserSession } from '../../types';
+import { UserCircleIcon, KeyIcon, ComputerDesktopIcon, ArrowRightOnRectangleIcon, ShieldCheckIcon } from '@heroicons/react/24/solid';
+import {
+    changePassword, apiLogoutAll, fetchMySessions, revokeSession,
+    fetchTwoFactorStatus, beginTwoFactorSetup, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes
+} from '../../lib/api';
 import AuthenticatedImage from './AuthenticatedImage';
 import ValidatedInput from './ValidatedInput';
+import TwoFactorEnrollment, { RecoveryCodesList } from './TwoFactorEnrollment';
 import { validate, VALIDATION_RULES } from '../../lib/validation';
 import { format } from 'date-fns';
 
@@ -17,6 +21,150 @@ interface ProfileModalProps {
     onClose: () => void;
 }
 
+/**
+ * Enrol, disable or renew the recovery codes of the user's own second factor
+ */
+const TwoFactorSettings: React.FC = () => {
+    const { updateAuthenticatedUser } = useAuth();
+    const { showToast } = useToast();
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [mode, setMode] = useState<'idle' | 'enroll' | 'disable' | 'regenerate'>('idle');
+    const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [newCodes, setNewCodes] = useState<string[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadStatus = () => {
+        fetchTwoFactorStatus()
+            .then(setStatus)
+            .catch(() => showToast('Could not load two-factor status.', 'error'));
+    };
+
+    useEffect(loadStatus, []);
+
+    const reset = () => {
+        setMode('idle');
+        setPassword('');
+        setCode('');
+        setNewCodes(null);
+    };
+
+    const handleEnrolled = () => {
+        reset();
+        loadStatus();
+        updateAuthenticatedUser({ twoFactorEnabled: true });
+    };
+
+    const handleDisable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const result = await disableTwoFactor(password, code);
+            showToast(result.message, 'success');
+            reset();
+            loadStatus();
+            updateAuthenticatedUser({ twoFactorEnabled: false });
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to disable two-factor authentication.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRegenerate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const result = await regenerateRecoveryCodes(password);
+            setNewCodes(result.recoveryCodes);
+            setPassword('');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to create new recovery codes.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!status) return null;
+
+    return (
+        <div className="mt-6 border-t pt-6 space-y-4">
+            <h3 className="font-semibold text-gray-800 flex items-center">
+                <ShieldCheckIcon className="h-5 w-5 mr-2 text-gray-400" />
+                Two-Factor Authentication
+            </h3>
+
+            {mode === 'enroll' && (
+                <TwoFactorEnrollment
+                    begin={beginTwoFactorSetup}
+                    enable={async (setupCode) => (await enableTwoFactor(setupCode)).recoveryCodes}
+                    onComplete={handleEnrolled}
+                    onCancel={reset}
+                />
+            )}
+
+            {mode === 'idle' && !status.enabled && (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">
+                        {status.required ? 'Required for your role. ' : ''}Protect your account with a code from an authenticator app at every sign-in.
+                    </p>
+                    <button onClick={() => setMode('enroll')} className="ml-4 px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary whitespace-nowrap">Set Up</button>
+                </div>
+            )}
+
+            {mode === 'idle' && status.enabled && (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                        <span className="font-semibold text-green-600">Enabled</span>
+                        {status.enabledAt && <> since {format(new Date(status.enabledAt), 'PP')}</>}. {status.recoveryCodesRemaining} recovery codes left.
+                        {status.required && ' Required for your role.'}
+                    </p>
+                    <div className="flex space-x-2">
+                        <button onClick={() => setMode('regenerate')} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300 text-sm">New Recovery Codes</button>
+                        {!status.required && (
+                            <button onClick={() => setMode('disable')} className="px-4 py-2 bg-status-red text-white rounded hover:bg-red-700 text-sm">Disable</button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {mode === 'regenerate' && (newCodes ? (
+                <div className="space-y-4">
+                    <RecoveryCodesList codes={newCodes} />
+                    <div className="flex justify-end">
+                        <button onClick={() => { reset(); loadStatus(); }} className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary">Done</button>
+                    </div>
+                </div>
+            ) : (
+                <form onSubmit={handleRegenerate} className="space-y-4" noValidate>
+                    <p className="text-sm text-gray-600">Your current recovery codes will stop working. Enter your password to continue.</p>
+                    <ValidatedInput label="Your Password" name="twoFactorPassword" type="password" value={password} onChange={(e) => setPassword((e.target as HTMLInputElement).value)} error={null} />
+                    <div className="flex justify-end space-x-2">
+                        <button type="button" onClick={reset} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSaving}>Cancel</button>
+                        <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={isSaving || !password}>
+                            {isSaving ? 'Creating...' : 'Create New Codes'}
+                        </button>
+                    </div>
+                </form>
+            ))}
+
+            {mode === 'disable' && (
+                <form onSubmit={handleDisable} className="space-y-4" noValidate>
+                    <p className="text-sm text-gray-600">Enter your password and a code from your authenticator app or a recovery code.</p>
+                    <ValidatedInput label="Your Password" name="twoFactorPassword" type="password" value={password} onChange={(e) => setPassword((e.target as HTMLInputElement).value)} error={null} />
+                    <ValidatedInput label="Authentication Code" name="twoFactorCode" autoComplete="one-time-code" value={code} onChange={(e) => setCode((e.target as HTMLInputElement).value.trim())} error={null} />
+                    <div className="flex justify-end space-x-2">
+                        <button type="button" onClick={reset} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSaving}>Cancel</button>
+                        <button type="submit" className="px-4 py-2 bg-status-red text-white rounded hover:bg-red-700 disabled:bg-red-300" disabled={isSaving || !password || !code}>
+                            {isSaving ? 'Disabling...' : 'Disable Two-Factor'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
 const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose }) => {
     const { user, updateAuthenticatedUser, logout } = useAuth();
     const { updateUser } = useData();
@@ -194,18 +342,21 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose }) => {
     );
 
     const renderSecurityTab = () => (
-        <form onSubmit={handlePasswordSave} className="space-y-4 pt-6" noValidate>
-            <p className="text-sm text-gray-600">For security, please provide your current password to make changes.</p>
-            <ValidatedInput label="Current Password" name="currentPassword" type="password" value={passwordData.currentPassword} onChange={handlePasswordChange} error={null} required />
-            <ValidatedInput label="New Password" name="newPassword" type="password" value={passwordData.newPassword} onChange={handlePasswordChange} error={passwordErrors.newPassword} />
-            <ValidatedInput label="Confirm New Password" name="confirmPassword" type="password" value={passwordData.confirmPassword} onChange={handlePasswordChange} error={passwordErrors.confirmPassword} />
-            <div className="flex justify-end space-x-2 pt-4">
-                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSaving}>Cancel</button>
-                <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={isSaving || !isPasswordFormValid}>
-                    {isSaving ? 'Updating...' : 'Update Password'}
-                </button>
-            </div>
-        </form>
+        <div>
+            <form onSubmit={handlePasswordSave} className="space-y-4 pt-6" noValidate>
+                <p className="text-sm text-gray-600">For security, please provide your current password to make changes.</p>
+                <ValidatedInput label="Current Password" name="currentPassword" type="password" value={passwordData.currentPassword} onChange={handlePasswordChange} error={null} required />
+                <ValidatedInput label="New Password" name="newPassword" type="password" value={passwordData.newPassword} onChange={handlePasswordChange} error={passwordErrors.newPassword} />
+                <ValidatedInput label="Confirm New Password" name="confirmPassword" type="password" value={passwordData.confirmPassword} onChange={handlePasswordChange} error={passwordErrors.confirmPassword} />
+                <div className="flex justify-end space-x-2 pt-4">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSaving}>Cancel</button>
+                    <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={isSaving || !isPasswordFormValid}>
+                        {isSaving ? 'Updating...' : 'Update Password'}
+                    </button>
+                </div>
+            </form>
+            <TwoFactorSettings />
+        </div>
     );
 
      const renderSessionsTab = () => (
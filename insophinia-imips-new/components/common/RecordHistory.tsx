@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ClockIcon, DocumentTextIcon } from '@heroicons/react/24/solid';
+import { useAuth } from '../../hooks/useAuth';
+import { fetchAuditLog } from '../../lib/api';
+import { AuditAction, AuditChange, AuditEntityType, AuditLogEntry, Permission } from '../../types';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+    [AuditAction.Create]: 'Created',
+    [AuditAction.Update]: 'Updated',
+    [AuditAction.Archive]: 'Archived',
+    [AuditAction.Restore]: 'Restored',
+    [AuditAction.Delete]: 'Deleted',
+};
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const AuditHistory: React.FC<{ entityType: AuditEntityType; entityId: string }> = ({ entityType, entityId }) => {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchAuditLog({ entityType, entityId })
+            .then(setEntries)
+            .catch((err: any) => setError(err.response?.data?.message || 'Could not load the change history.'))
+            .finally(() => setIsLoading(false));
+    }, [entityType, entityId]);
+
+    if (isLoading) return <p className="text-sm text-gray-500 py-4">Loading history...</p>;
+    if (error) return <p className="text-sm text-status-red py-4">{error}</p>;
+    if (entries.length === 0) return <p className="text-sm text-gray-500 py-4">No changes recorded.</p>;
+
+    return (
+        <ul className="space-y-3 py-4 max-h-96 overflow-y-auto">
+            {entries.map(entry => (
+                <li key={entry.id} className="text-sm border-l-2 border-gray-300 pl-3">
+                    <p>
+                        <span className="font-semibold">{ACTION_LABELS[entry.action]}</span>
+                        <span className="text-gray-500"> by {entry.actorName || 'System'} on {format(new Date(entry.createdAt), 'Pp')}</span>
+                    </p>
+                    {Object.keys(entry.changes).length > 0 && (
+                        <table className="mt-1 text-xs w-full">
+                            <tbody>
+                                {Object.entries(entry.changes).map(([field, change]: [string, AuditChange]) => (
+                                    <tr key={field} className="align-top">
+                                        <td className="pr-3 py-0.5 font-medium text-gray-700 whitespace-nowrap">{field}</td>
+                                        <td className="py-0.5 text-gray-600 break-all">
+                                            {entry.action === AuditAction.Update
+                                                ? <><span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}</>
+                                                : formatValue(entry.action === AuditAction.Delete ? change.from : change.to)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+/**
+ * Details and History tabs for a view modal. Users who may not read the audit
+ * trail only see the details.
+ */
+const RecordHistoryTabs: React.FC<{ entityType: AuditEntityType; entityId: string; children: React.ReactNode }> = ({ entityType, entityId, children }) => {
+    const { hasPermission } = useAuth();
+    const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+
+    if (!hasPermission(Permission.AuditView)) return <>{children}</>;
+
+    const tabStyles = "flex items-center whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm cursor-pointer";
+    const activeTabStyles = "border-brand-primary text-brand-primary";
+    const inactiveTabStyles = "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300";
+
+    return (
+        <div>
+            <div className="border-b border-gray-200 mb-4">
+                <nav className="-mb-px flex space-x-8" aria-label="Tabs">
+                    <button className={`${tabStyles} ${activeTab === 'details' ? activeTabStyles : inactiveTabStyles}`} onClick={() => setActiveTab('details')}>
+                        <DocumentTextIcon className="h-5 w-5 mr-2" />
+                        Details
+                    </button>
+                    <button className={`${tabStyles} ${activeTab === 'history' ? activeTabStyles : inactiveTabStyles}`} onClick={() => setActiveTab('history')}>
+                        <ClockIcon className="h-5 w-5 mr-2" />
+                        History
+                    </button>
+                </nav>
+            </div>
+            {activeTab === 'details' ? children : <AuditHistory entityType={entityType} entityId={entityId} />}
+        </div>
+    );
+};
+
+export default RecordHistoryTabs;
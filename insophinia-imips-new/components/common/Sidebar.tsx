@@ -1,7 +1,7 @@
 
 import React, { Fragment } from 'react';
 import { useAuth } from '../../hooks/useAuth';
-import { Page, Role } from '../../types';
+import { Page, Permission } from '../../types';
 import { ChartPieIcon, ArchiveBoxIcon, UsersIcon, ChatBubbleLeftRightIcon, BuildingOffice2Icon, EnvelopeIcon, ShoppingCartIcon, ClipboardDocumentListIcon, Cog6ToothIcon, DocumentChartBarIcon, CommandLineIcon, TicketIcon, UserGroupIcon, ShieldCheckIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
 
 interface SidebarProps {
@@ -12,23 +12,24 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, isOpen, setIsOpen }) => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
 
-  const navItems = [
-    { name: Page.Dashboard, icon: ChartPieIcon, roles: [Role.Admin, Role.Manager, Role.Staff] },
-    { name: Page.Inventory, icon: ArchiveBoxIcon, roles: [Role.Admin, Role.Manager, Role.Staff] },
-    { name: Page.Catalog, icon: ShoppingCartIcon, roles: [Role.Admin, Role.Manager, Role.Staff] },
-    { name: Page.Orders, icon: ClipboardDocumentListIcon, roles: [Role.Admin, Role.Manager, Role.Staff] },
-    { name: Page.Inquiries, icon: ChatBubbleLeftRightIcon, roles: [Role.Admin, Role.Manager, Role.Staff] },
-    { name: Page.Discounts, icon: TicketIcon, roles: [Role.Admin, Role.Manager] },
-    { name: Page.Email, icon: EnvelopeIcon, roles: [Role.Admin, Role.Manager] },
-    { name: Page.Newsletters, icon: PaperAirplaneIcon, roles: [Role.Admin, Role.Manager] },
-    { name: Page.Users, icon: UsersIcon, roles: [Role.Admin] },
-    { name: Page.Reports, icon: DocumentChartBarIcon, roles: [Role.Admin, Role.Manager] },
-    { name: Page.ActivityLog, icon: UserGroupIcon, roles: [Role.Admin, Role.Manager] },
-    { name: Page.Security, icon: ShieldCheckIcon, roles: [Role.Admin] },
-    { name: Page.Settings, icon: Cog6ToothIcon, roles: [Role.Admin] },
-    { name: Page.Logs, icon: CommandLineIcon, roles: [Role.Admin] },
+  // Items without permissions are shown to everyone; otherwise any of the listed permissions will do
+  const navItems: { name: Page; icon: React.ElementType; permissions: Permission[] }[] = [
+    { name: Page.Dashboard, icon: ChartPieIcon, permissions: [] },
+    { name: Page.Inventory, icon: ArchiveBoxIcon, permissions: [Permission.InventoryView] },
+    { name: Page.Catalog, icon: ShoppingCartIcon, permissions: [Permission.OrdersCreate] },
+    { name: Page.Orders, icon: ClipboardDocumentListIcon, permissions: [Permission.OrdersView] },
+    { name: Page.Inquiries, icon: ChatBubbleLeftRightIcon, permissions: [Permission.InquiriesView] },
+    { name: Page.Discounts, icon: TicketIcon, permissions: [Permission.DiscountsView] },
+    { name: Page.Email, icon: EnvelopeIcon, permissions: [Permission.EmailsView] },
+    { name: Page.Newsletters, icon: PaperAirplaneIcon, permissions: [Permission.NewslettersView] },
+    { name: Page.Users, icon: UsersIcon, permissions: [Permission.UsersManage] },
+    { name: Page.Reports, icon: DocumentChartBarIcon, permissions: [Permission.ReportsView] },
+    { name: Page.ActivityLog, icon: UserGroupIcon, permissions: [Permission.ReportsView, Permission.SessionsManage] },
+    { name: Page.Security, icon: ShieldCheckIcon, permissions: [Permission.SecurityManage] },
+    { name: Page.Settings, icon: Cog6ToothIcon, permissions: [Permission.SettingsView, Permission.SettingsManage, Permission.RolesManage, Permission.BackupsManage] },
+    { name: Page.Logs, icon: CommandLineIcon, permissions: [Permission.SecurityManage] },
   ];
   
   const handleNavClick = (page: Page) => {
@@ -62,7 +63,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, isOpen,
       <nav className="flex-1 px-4 py-4 overflow-y-auto">
         <ul>
           {navItems.map(item =>
-            user && item.roles.includes(user.role) && (
+            user && (item.permissions.length === 0 || hasPermission(...item.permissions)) && (
               <NavLink key={item.name} name={item.name} icon={item.icon} />
             )
           )}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardDocumentIcon, ArrowDownTrayIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/solid';
+import { TwoFactorSetup } from '../../types';
+import { formatTotpSecret } from '../../lib/totp';
+import { useToast } from '../../hooks/useToast';
+import ValidatedInput from './ValidatedInput';
+
+/**
+ * One-time recovery codes with copy and download buttons
+ */
+export const RecoveryCodesList: React.FC<{ codes: string[] }> = ({ codes }) => {
+    const { showToast } = useToast();
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(codes.join('\n'));
+            showToast('Recovery codes copied.', 'success');
+        } catch {
+            showToast('Could not copy to the clipboard.', 'error');
+        }
+    };
+
+    const handleDownload = () => {
+        const url = URL.createObjectURL(new Blob([codes.join('\n') + '\n'], { type: 'text/plain' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'imips-recovery-codes.txt';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+                Keep these recovery codes somewhere safe. Each one signs you in once if you lose access to your authenticator app. <span className="font-bold">They will not be shown again.</span>
+            </p>
+            <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm text-gray-800">
+                {codes.map(code => <li key={code}>{code}</li>)}
+            </ul>
+            <div className="flex space-x-2">
+                <button type="button" onClick={handleCopy} className="flex items-center px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300">
+                    <ClipboardDocumentIcon className="h-4 w-4 mr-1" /> Copy
+                </button>
+                <button type="button" onClick={handleDownload} className="flex items-center px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300">
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-1" /> Download
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface TwoFactorEnrollmentProps {
+    begin: () => Promise<TwoFactorSetup>;
+    enable: (code: string) => Promise<string[]>;
+    onComplete: () => void;
+    onCancel?: () => void;
+}
+
+/**
+ * Enrol an authenticator app: show the secret, confirm it with a first code,
+ * then show the recovery codes
+ */
+const TwoFactorEnrollment: React.FC<TwoFactorEnrollmentProps> = ({ begin, enable, onComplete, onCancel }) => {
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [code, setCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        begin()
+            .then(setSetup)
+            .catch((err: any) => setError(err.response?.data?.message || 'Could not start two-factor setup.'));
+    }, []);
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            setRecoveryCodes(await enable(code));
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Invalid authentication code.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (recoveryCodes) {
+        return (
+            <div className="space-y-4">
+                <p className="font-semibold text-green-600">Two-factor authentication is enabled.</p>
+                <RecoveryCodesList codes={recoveryCodes} />
+                <div className="flex justify-end pt-2">
+                    <button type="button" onClick={onComplete} className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary">
+                        I have saved my recovery codes
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleVerify} className="space-y-4" noValidate>
+            {!setup ? (
+                <p className="text-sm text-gray-600">{error || 'Preparing two-factor setup...'}</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-600">
+                        Add your account to an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password, then enter the 6-digit code it shows.
+                    </p>
+                    <a href={setup.otpauthUri} className="flex items-center text-sm font-medium text-brand-primary hover:text-brand-accent">
+                        <DevicePhoneMobileIcon className="h-5 w-5 mr-1" /> Open in authenticator app
+                    </a>
+                    <div>
+                        <p className="text-sm font-medium text-gray-700">Or enter this setup key manually</p>
+                        <p className="mt-1 p-2 bg-gray-50 rounded font-mono text-sm tracking-wider text-gray-800 break-all select-all">{formatTotpSecret(setup.secret)}</p>
+                    </div>
+                    <ValidatedInput label="Authentication Code" name="code" inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={code} onChange={(e) => setCode((e.target as HTMLInputElement).value.trim())} error={error || null} required />
+                </>
+            )}
+            <div className="flex justify-end space-x-2 pt-2">
+                {onCancel && <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSaving}>Cancel</button>}
+                <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={!setup || isSaving || code.length !== 6}>
+                    {isSaving ? 'Verifying...' : 'Verify and Enable'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default TwoFactorEnrollment;
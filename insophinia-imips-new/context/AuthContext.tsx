@@ -1,19 +1,26 @@
 
 
 import React, { createContext, useState, ReactNode, useEffect } from 'react';
-import { User } from '../types';
-import { apiLogin, getMe, apiLogout, getCsrfToken, setCsrfToken as setApiCsrfToken } from '../lib/api';
+import { AuthSession, LoginChallenge, Permission, User } from '../types';
+import { apiLogin, apiLoginTwoFactor, getMe, apiLogout, getCsrfToken, setCsrfToken as setApiCsrfToken, revokeUserSessions } from '../lib/api';
 import { logger } from '../lib/logger';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   invalidatedSessionUserIds: string[];
-  login: (email: string, password: string) => Promise<{ success: boolean; message?: string }>;
+  // A correct password may answer with a challenge for the second factor instead of signing in
+  login: (email: string, password: string) => Promise<{ success: boolean; message?: string; challenge?: LoginChallenge }>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<{ success: boolean; message?: string }>;
+  completeLogin: (session: AuthSession) => Promise<void>;
   logout: () => Promise<void>;
-  forceLogoutUser: (userId: string) => void;
+  forceLogoutUser: (userId: string) => Promise<void>;
   reauthenticate: (password: string) => Promise<boolean>;
   updateAuthenticatedUser: (updatedData: Partial<User>) => void;
+  // True when the signed-in user holds any of the given permissions
+  hasPermission: (...permissions: Permission[]) => boolean;
+  // Re-read the signed-in user's permissions after roles or overrides change
+  refreshPermissions: () => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -47,18 +54,25 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, []);
 
 
-  const login = async (email: string, password: string): Promise<{ success: boolean; message?: string }> => {
+  const completeLogin = async ({ user, accessToken }: AuthSession) => {
+    localStorage.setItem('authToken', accessToken);
+    const csrfToken = await getCsrfToken();
+    setApiCsrfToken(csrfToken);
+    setUser(user);
+    logger.setUserId(user.id);
+    setInvalidatedSessionUserIds(prev => prev.filter(id => id !== user.id));
+    logger.info('User login successful', { email: user.email, role: user.role });
+  };
+
+  const login = async (email: string, password: string): Promise<{ success: boolean; message?: string; challenge?: LoginChallenge }> => {
     try {
         const response = await apiLogin(email, password);
         if (response) {
-          const { user, accessToken } = response;
-          localStorage.setItem('authToken', accessToken);
-          const csrfToken = await getCsrfToken();
-          setApiCsrfToken(csrfToken);
-          setUser(user);
-          logger.setUserId(user.id);
-          setInvalidatedSessionUserIds(prev => prev.filter(id => id !== user.id));
-          logger.info('User login successful', { email: user.email, role: user.role });
+          if ('challengeToken' in response) {
+            logger.info('Password accepted, second factor required', { email });
+            return { success: false, challenge: response };
+          }
+          await completeLogin(response);
           return { success: true };
         }
         logger.warn('User login failed: Invalid credentials provided', { email });
@@ -69,6 +83,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const verifyTwoFactor = async (challengeToken: string, code: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+        await completeLogin(await apiLoginTwoFactor(challengeToken, code));
+        return { success: true };
+    } catch (error: any) {
+        logger.warn('Two-factor verification failed', error);
+        return { success: false, message: error.response?.data?.message || 'An unknown error occurred.' };
+    }
+  };
+
   const logout = async () => {
     if (user) {
       try {
@@ -84,7 +108,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     logger.setUserId(null);
   };
   
-  const forceLogoutUser = (userId: string) => {
+  const forceLogoutUser = async (userId: string) => {
+    // Revoking on the server ends the user's sessions on every machine they are logged in on
+    await revokeUserSessions(userId);
     logger.warn('Admin forced logout for user', { userId });
     setInvalidatedSessionUserIds(prev => [...new Set([...prev, userId])]);
   };
@@ -92,6 +118,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const reauthenticate = async (password: string): Promise<boolean> => {
     if (user) {
         try {
+            // A two-factor challenge also means the password was right
             const response = await apiLogin(user.email, password);
             if (response) {
               logger.info('User re-authentication successful', { email: user.email });
@@ -113,8 +140,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const hasPermission = (...permissions: Permission[]) =>
+    !!user?.permissions && permissions.some(permission => user.permissions!.includes(permission));
+
+  const refreshPermissions = async () => {
+    try {
+        const { permissions } = await getMe();
+        setUser(prevUser => (prevUser ? { ...prevUser, permissions } : prevUser));
+    } catch (error) {
+        logger.warn('Could not refresh permissions', error);
+    }
+  };
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, invalidatedSessionUserIds, login, logout, forceLogoutUser, reauthenticate, updateAuthenticatedUser }}>
+    <AuthContext.Provider value={{ user, isLoading, invalidatedSessionUserIds, login, verifyTwoFactor, completeLogin, logout, forceLogoutUser, reauthenticate, updateAuthenticatedUser, hasPermission, refreshPermissions }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,18 +1,12 @@
 
 
 import React, { createContext, useState, ReactNode, useEffect, useCallback } from 'react';
-import { InventoryItem, User, CustomerInquiry, Role, InquiryStatus, Notification, Email, CartItem, Order, Discount, OrderStatus, Attachment, DiscountType, InventoryMovementType, UserSession, SecurityLog, BlockedIP, Newsletter } from '../types';
+import { InventoryItem, User, CustomerInquiry, InquiryStatus, Notification, Email, CartItem, Order, Discount, OrderStatus, Attachment, DiscountType, InventoryMovementType, Permission, UserSession, SecurityLog, BlockedIP, Newsletter, NewsletterRecipientGroup, StockShortage, ReturnDisposition, OrderReturnInput } from '../types';
 import * as api from '../lib/api';
 import { generateEmailHtml } from '../lib/emailTemplate';
 import { logger } from '../lib/logger';
 import { useAuth } from '../hooks/useAuth';
 
-interface BackupSettings {
-    enabled: boolean;
-    frequency: 'none' | 'daily' | 'weekly' | 'monthly';
-    lastBackupTimestamp: number | null;
-}
-
 interface DataContextType {
   inventory: InventoryItem[];
   users: User[];
@@ -29,18 +23,22 @@ interface DataContextType {
   addInventoryItem: (item: Omit<InventoryItem, 'id'>, file?: File) => Promise<void>;
   updateInventoryItem: (item: InventoryItem, file?: File) => Promise<void>;
   deleteInventoryItem: (itemId: string) => Promise<void>;
-  hardDeleteInventoryItem: (itemId: string) => Promise<void>;
+  hardDeleteInventoryItem: (itemId: string, password: string) => Promise<void>;
   addUser: (user: Omit<User, 'id'>) => Promise<void>;
+  resendInvitation: (userId: string) => Promise<void>;
+  revokeInvitation: (userId: string) => Promise<void>;
+  unlockUser: (userId: string) => Promise<void>;
   updateUser: (user: User, file?: File) => Promise<User | undefined>;
   deleteUser: (userId: string) => Promise<void>;
-  hardDeleteUser: (userId: string) => Promise<void>;
+  hardDeleteUser: (userId: string, password: string) => Promise<void>;
   addInquiry: (inquiry: Omit<CustomerInquiry, 'id' | 'createdAt'>) => Promise<void>;
   updateInquiry: (inquiry: CustomerInquiry) => Promise<void>;
   deleteInquiry: (inquiryId: string) => Promise<void>;
-  hardDeleteInquiry: (inquiryId: string) => Promise<void>;
-  addEmail: (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, file?: File) => Promise<void>;
+  hardDeleteInquiry: (inquiryId: string, password: string) => Promise<void>;
+  addEmail: (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, files?: File[]) => Promise<Email | undefined>;
+  retryEmail: (emailId: string) => Promise<void>;
   deleteEmail: (emailId: string) => Promise<void>;
-  hardDeleteEmail: (emailId: string) => Promise<void>;
+  hardDeleteEmail: (emailId: string, password: string) => Promise<void>;
   notifications: Notification[];
   markNotificationsAsRead: () => void;
   addToCart: (item: InventoryItem, quantity: number) => boolean;
@@ -48,27 +46,27 @@ interface DataContextType {
   removeFromCart: (itemId: string) => void;
   clearCart: () => void;
   checkout: (customerDetails: { customerName: string; customerContact: string; customerAddress: string; customerEmail: string; }, discountId: string | null) => Promise<Order | null>;
-  updateOrderStatus: (orderId: string, newStatus: OrderStatus) => Promise<void>;
+  updateOrderStatus: (orderId: string, newStatus: OrderStatus, note?: string) => Promise<void>;
+  returnOrderItems: (orderId: string, input: OrderReturnInput) => Promise<Order>;
   deleteOrder: (orderId: string) => Promise<void>;
-  hardDeleteOrder: (orderId: string) => Promise<void>;
+  hardDeleteOrder: (orderId: string, password: string) => Promise<void>;
   createBackup: () => Promise<void>;
-  restoreData: (filename: string) => Promise<{ success: boolean, message: string }>;
-  backupSettings: BackupSettings;
-  updateBackupSettings: (newSettings: Partial<BackupSettings>) => void;
+  restoreData: (filename: string, password: string) => Promise<{ success: boolean, message: string }>;
   addDiscount: (discount: Omit<Discount, 'id' | 'createdAt' | 'usedCount'>) => Promise<void>;
   updateDiscount: (discount: Discount) => Promise<void>;
   deleteDiscount: (discountId: string) => Promise<void>;
-  hardDeleteDiscount: (discountId: string) => Promise<void>;
+  hardDeleteDiscount: (discountId: string, password: string) => Promise<void>;
   refreshData: () => Promise<void>;
   updateActivity: () => Promise<void>;
   unblockIp: (ip: string) => Promise<void>;
-  sendNewsletter: (subject: string, htmlContent: string, recipientGroup: string) => Promise<void>;
+  sendNewsletter: (subject: string, htmlContent: string, recipientGroup: NewsletterRecipientGroup, customRecipients?: string[]) => Promise<void>;
+  resendNewsletter: (newsletterId: string) => Promise<void>;
 }
 
 export const DataContext = createContext<DataContextType | undefined>(undefined);
 
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [inquiries, setInquiries] = useState<CustomerInquiry[]>([]);
@@ -82,11 +80,6 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const [cart, setCart] = useState<CartItem[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [backupSettings, setBackupSettings] = useState<BackupSettings>({
-      enabled: false,
-      frequency: 'none',
-      lastBackupTimestamp: null,
-  });
   const [loading, setLoading] = useState(true);
 
   const isLoading = loading;
@@ -117,9 +110,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         api.fetchUserSessions(),
       ];
 
-      if (user.role === Role.Admin) {
+      if (hasPermission(Permission.SecurityManage)) {
         promises.push(api.fetchSecurityLogs());
         promises.push(api.fetchBlockedIPs());
+      } else {
+        promises.push(Promise.resolve(null), Promise.resolve(null));
+      }
+      if (hasPermission(Permission.NewslettersView)) {
         promises.push(api.fetchNewsletters());
       }
       
@@ -169,16 +166,22 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setNotifications(prev => prev.map(n => ({...n, read: true})));
   };
 
-  const addEmail = async (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, file?: File) => {
+  const addEmail = async (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, files: File[] = []) => {
     try {
-        await api.addEmail(email, file);
-        logger.info('Email sent', { recipient: email.recipient, subject: email.subject, hasAttachment: !!file });
+        const result = await api.addEmail(email, files);
+        logger.info(result.message, { recipient: email.recipient, subject: email.subject, attachments: files.length });
         await fetchData();
-    } catch(error) {
-        addNotification("Error: Could not send email.", "error");
+        return result.email;
+    } catch(error: any) {
+        addNotification(`Error: ${error.response?.data?.message || 'Could not send email.'}`, "error");
     }
   };
 
+  const retryEmail = async (emailId: string) => {
+    await api.retryEmail(emailId);
+    await fetchData();
+  };
+
   const deleteEmail = async (emailId: string) => {
     try {
         await api.deleteEmail(emailId);
@@ -189,13 +192,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const hardDeleteEmail = async (emailId: string) => {
+  const hardDeleteEmail = async (emailId: string, password: string) => {
     try {
-        await api.hardDeleteEmail(emailId);
+        await api.hardDeleteEmail(emailId, password);
         setEmails(prev => prev.filter(email => email.id !== emailId));
         logger.error('Email permanently deleted', { emailId });
     } catch (error) {
         addNotification("Error: Could not permanently delete email.", "error");
+        throw error;
     }
   };
 
@@ -228,12 +232,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const hardDeleteInventoryItem = async (itemId: string) => {
+  const hardDeleteInventoryItem = async (itemId: string, password: string) => {
     try {
-        await api.hardDeleteInventoryItem(itemId);
+        await api.hardDeleteInventoryItem(itemId, password);
         setInventory(prev => prev.filter(item => item.id !== itemId));
     } catch (error) {
         addNotification("Error: Could not permanently delete inventory item.", "error");
+        throw error;
     }
   };
 
@@ -246,6 +251,21 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const resendInvitation = async (userId: string) => {
+    await api.resendInvitation(userId);
+    setUsers(prev => prev.map(user => user.id === userId ? { ...user, invitationStatus: 'pending' } : user));
+  };
+
+  const revokeInvitation = async (userId: string) => {
+    await api.revokeInvitation(userId);
+    setUsers(prev => prev.map(user => user.id === userId ? { ...user, invitationStatus: 'revoked' } : user));
+  };
+
+  const unlockUser = async (userId: string) => {
+    await api.unlockUser(userId);
+    setUsers(prev => prev.map(user => user.id === userId ? { ...user, lockedUntil: undefined } : user));
+  };
+
   const updateUser = async (updatedUser: User, file?: File): Promise<User | undefined> => {
     try {
         const returnedUser = await api.updateUser(updatedUser, file);
@@ -266,12 +286,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const hardDeleteUser = async (userId: string) => {
+  const hardDeleteUser = async (userId: string, password: string) => {
     try {
-        await api.hardDeleteUser(userId);
+        await api.hardDeleteUser(userId, password);
         setUsers(prev => prev.filter(user => user.id !== userId));
     } catch (error) {
         addNotification("Error: Could not permanently delete user.", "error");
+        throw error;
     }
   };
 
@@ -304,12 +325,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const hardDeleteInquiry = async (inquiryId: string) => {
+  const hardDeleteInquiry = async (inquiryId: string, password: string) => {
     try {
-        await api.hardDeleteInquiry(inquiryId);
+        await api.hardDeleteInquiry(inquiryId, password);
         setInquiries(prev => prev.filter(inquiry => inquiry.id !== inquiryId));
     } catch (error) {
         addNotification("Error: Could not permanently delete inquiry.", "error");
+        throw error;
     }
   };
   
@@ -342,13 +364,33 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const removeFromCart = (itemId: string) => setCart(prev => prev.filter(ci => ci.id !== itemId));
   const clearCart = () => setCart([]);
 
-  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
+  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus, note?: string) => {
     try {
-        await api.updateOrderStatus(orderId, newStatus);
+        await api.updateOrderStatus(orderId, newStatus, note);
         setOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: newStatus } : o));
         addNotification(`Order #${orderId.substring(0,8)}... updated to "${newStatus}".`);
-    } catch (error) {
-        addNotification("Error: Could not update order status.", "error");
+        // Cancelling or refunding puts stock back
+        if (newStatus === OrderStatus.Cancelled || newStatus === OrderStatus.Refunded) {
+            setInventory(await api.fetchInventory());
+        }
+    } catch (error: any) {
+        addNotification(`Error: ${error.response?.data?.message || 'Could not update order status.'}`, "error");
+        throw error;
+    }
+  };
+
+  const returnOrderItems = async (orderId: string, input: OrderReturnInput) => {
+    try {
+        const { order } = await api.createOrderReturn(orderId, input);
+        setOrders(prev => prev.map(o => o.id === orderId ? order : o));
+        addNotification(`Return recorded for order #${orderId.substring(0,8)}...`);
+        if (input.lines.some(line => (line.disposition || ReturnDisposition.Restock) === ReturnDisposition.Restock)) {
+            setInventory(await api.fetchInventory());
+        }
+        return order;
+    } catch (error: any) {
+        addNotification(`Error: ${error.response?.data?.message || 'Could not record return.'}`, "error");
+        throw error;
     }
   };
 
@@ -361,12 +403,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const hardDeleteOrder = async (orderId: string) => {
+  const hardDeleteOrder = async (orderId: string, password: string) => {
     try {
-        await api.hardDeleteOrder(orderId);
+        await api.hardDeleteOrder(orderId, password);
         setOrders(prev => prev.filter(order => order.id !== orderId));
     } catch (error) {
         addNotification("Error: Could not permanently delete order.", "error");
+        throw error;
     }
   };
 
@@ -384,7 +427,10 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
         return newOrder;
     } catch (error: any) {
-        const message = error.response?.data?.message || 'Please check item stock levels.';
+        const shortages: StockShortage[] | undefined = error.response?.data?.errors;
+        const message = shortages?.length
+            ? shortages.map(s => `${s.name || s.sku || s.itemId}: requested ${s.requested}, only ${s.available} available`).join('; ')
+            : error.response?.data?.message || 'Please check item stock levels.';
         addNotification(`Checkout failed: ${message}`, "error");
         return null;
     }
@@ -394,16 +440,15 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
         const response = await api.createBackup();
         addNotification(response.message, 'info');
-        updateBackupSettings({ lastBackupTimestamp: Date.now() });
         logger.info('Server backup created successfully', { file: response.filename });
     } catch (error) {
         addNotification('Failed to create server backup.', 'error');
     }
   }
 
-  const restoreData = async (filename: string): Promise<{ success: boolean, message: string }> => {
+  const restoreData = async (filename: string, password: string): Promise<{ success: boolean, message: string }> => {
     try {
-        const result = await api.restoreData(filename);
+        const result = await api.restoreData(filename, password);
         if (result.success) {
             addNotification("System data successfully restored. You will be logged out.", "info");
             logger.warn('System data restored from backup', { filename });
@@ -417,14 +462,6 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const updateBackupSettings = (newSettings: Partial<BackupSettings>) => {
-    setBackupSettings(prev => {
-        const updated = { ...prev, ...newSettings };
-        localStorage.setItem('backupSettings', JSON.stringify(updated));
-        return updated;
-    });
-  };
-
   const addDiscount = async (discount: Omit<Discount, 'id' | 'createdAt' | 'usedCount'>) => {
     try {
         const newDiscount = await api.createDiscount(discount);
@@ -452,12 +489,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const hardDeleteDiscount = async (discountId: string) => {
+  const hardDeleteDiscount = async (discountId: string, password: string) => {
     try {
-        await api.hardDeleteDiscount(discountId);
+        await api.hardDeleteDiscount(discountId, password);
         setDiscounts(prev => prev.filter(d => d.id !== discountId));
     } catch (error) {
         addNotification("Error: Could not permanently delete discount.", "error");
+        throw error;
     }
   };
 
@@ -474,8 +512,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await fetchData();
   };
   
-  const sendNewsletter = async (subject: string, htmlContent: string, recipientGroup: string) => {
-    await api.sendNewsletter(subject, htmlContent, recipientGroup);
+  const sendNewsletter = async (subject: string, htmlContent: string, recipientGroup: NewsletterRecipientGroup, customRecipients?: string[]) => {
+    await api.sendNewsletter(subject, htmlContent, recipientGroup, customRecipients);
+    await fetchData();
+  };
+
+  const resendNewsletter = async (newsletterId: string) => {
+    await api.resendNewsletter(newsletterId);
     await fetchData();
   };
 
@@ -483,18 +526,17 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     <DataContext.Provider value={{
       inventory, users, inquiries, emails, orders, discounts, userSessions, securityLogs, blockedIPs, newsletters, cart, isLoading,
       addInventoryItem, updateInventoryItem, deleteInventoryItem, hardDeleteInventoryItem,
-      addUser, updateUser, deleteUser, hardDeleteUser,
+      addUser, resendInvitation, revokeInvitation, unlockUser, updateUser, deleteUser, hardDeleteUser,
       addInquiry, updateInquiry, deleteInquiry, hardDeleteInquiry,
-      addEmail, deleteEmail, hardDeleteEmail,
+      addEmail, retryEmail, deleteEmail, hardDeleteEmail,
       notifications, markNotificationsAsRead,
       addToCart, updateCartQuantity, removeFromCart, clearCart,
-      checkout, updateOrderStatus, deleteOrder, hardDeleteOrder, createBackup, restoreData,
-      backupSettings, updateBackupSettings,
+      checkout, updateOrderStatus, returnOrderItems, deleteOrder, hardDeleteOrder, createBackup, restoreData,
       addDiscount, updateDiscount, deleteDiscount, hardDeleteDiscount,
       refreshData: fetchData,
       updateActivity,
       unblockIp,
-      sendNewsletter,
+      sendNewsletter, resendNewsletter,
     }}>
       {children}
     </DataContext.Provider>
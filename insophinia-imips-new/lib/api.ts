@@ -1,16 +1,20 @@
 
 
 // FIX: Added missing type imports
-import { InventoryItem, User, CustomerInquiry, Order, Discount, Email, OrderStatus, InventoryMovement, UserSession, PaginatedResponse, SecurityLog, BlockedIP, Newsletter, InquiryResponse, InquiryStatus, InventoryMovementType, Role, DiscountType, OrderItem } from '../types';
+import { InventoryItem, User, CustomerInquiry, Order, Discount, Email, OrderStatus, InventoryMovement, UserSession, PaginatedResponse, ListQuery, SecurityLog, BlockedIP, Newsletter, NewsletterRecipient, NewsletterRecipientGroup, InquiryResponse, InquiryStatus, InventoryMovementType, Role, DiscountType, OrderItem, StockShortage, OrderStatusChange, OrderReturn, OrderReturnInput, OrderReturnLine, ReturnDisposition, InquiryRoutingSettings, InquiryAssignmentStrategy, InquirySlaTarget, AuthSession, LoginChallenge, TwoFactorPolicy, TwoFactorSetup, TwoFactorStatus, Permission, PermissionDefinition, RoleDefinition, UserPermissionOverrides, UserPermissions, AuditAction, AuditChange, AuditEntityType, AuditLogEntry, BackupSummary, RestoreResult, BackupSchedule, BackupScheduleStatus } from '../types';
 import { logger } from './logger';
 import {
   mockUsers, mockInventory, mockInquiries, mockOrders, mockDiscounts, mockEmails, mockUserSessions,
-  mockSecurityLogs, mockBlockedIPs, mockNewsletters, mockInquiryResponses, mockInventoryMovements,
+  mockSecurityLogs, mockBlockedIPs, mockNewsletters, mockInquiryResponses, mockInventoryMovements, mockOrderStatusHistory, mockOrderReturns, mockNewsletterRecipients, mockInquiryRouting, mockTwoFactorPolicy, mockPermissionCatalogue, mockRoles, mockUserPermissionOverrides, mockAuditLog, mockBackupSchedule, mockBackupRuns, nextOrderItemId,
   // FIX: Import setters for mock data arrays
-  setMockUsers, setMockInventory, setMockInquiries, setMockOrders, setMockDiscounts, setMockEmails, setMockBlockedIPs
+  setMockUsers, setMockInventory, setMockInquiries, setMockOrders, setMockDiscounts, setMockEmails, setMockBlockedIPs, setMockInquiryRouting, setMockTwoFactorPolicy, setMockRoles, setMockBackupSchedule
 } from './mockData';
 // FIX: Added missing import for subDays
 import { subDays } from 'date-fns';
+import { getNextStatuses, RESTOCKING_STATUSES } from './orderStatus';
+import { computeInquirySla } from './inquirySla';
+import { VALIDATION_RULES } from './validation';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from './totp';
 
 // --- Configuration & Helpers ---
 const MOCK_API_DELAY = 200; // Simulate network latency (in ms)
@@ -18,16 +22,64 @@ const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 const uuid = () => crypto.randomUUID();
 
 let currentUserId: string | null = null;
-let currentUserRole: Role | null = null;
+let currentUserRole: string | null = null;
 let currentSessionId: string | null = null;
 
-const checkAuth = (requiredRole?: Role) => {
+// Role permissions plus grants, minus denials; administrators always have everything
+const effectivePermissions = (user: User): Permission[] => {
+    const all = Object.values(Permission);
+    if (user.role === Role.Admin) return all;
+    const rolePermissions = mockRoles.find(r => r.name === user.role)?.permissions || [];
+    const { grants, denies } = mockUserPermissionOverrides.get(user.id) || { grants: [], denies: [] };
+    return all.filter(p => (rolePermissions.includes(p) || grants.includes(p)) && !denies.includes(p));
+};
+
+// Passes when the signed-in user holds any of the given permissions
+const checkAuth = (...permissions: Permission[]) => {
     if (!currentUserId) throw new Error("Not authenticated");
-    if (requiredRole && currentUserRole !== requiredRole && currentUserRole !== Role.Admin) {
+    const user = mockUsers.find(u => u.id === currentUserId);
+    if (permissions.length > 0 && (!user || !permissions.some(p => effectivePermissions(user).includes(p)))) {
         throw new Error("Access Denied");
     }
 };
 
+// Permanent deletes and restores re-check the user's password on the server
+const verifyPasswordConfirmation = (password: string, permission: Permission) => {
+    checkAuth(permission);
+    const user = mockUsers.find(u => u.id === currentUserId);
+    if (!password || !user || user.password !== password) {
+        throw { response: { status: 403, data: { message: 'Password confirmation failed' } } };
+    }
+};
+
+// Like the server, record who changed which fields of an audited record
+const AUDITED_FIELDS: Record<AuditEntityType, string[]> = {
+    [AuditEntityType.Inventory]: ['name', 'sku', 'quantity', 'threshold', 'category', 'price', 'imageUrl', 'warrantyPeriod'],
+    [AuditEntityType.Discount]: ['code', 'description', 'type', 'value', 'min_spend', 'min_items', 'isActive'],
+    [AuditEntityType.Inquiry]: ['customerName', 'customerEmail', 'inquiryDetails', 'status', 'assignedStaffId'],
+    [AuditEntityType.Order]: ['customerName', 'customerEmail', 'customerContact', 'customerAddress', 'total', 'status'],
+    [AuditEntityType.User]: ['name', 'email', 'role', 'profilePictureUrl', 'grants', 'denies'],
+    [AuditEntityType.Role]: ['description', 'permissions'],
+};
+
+const recordMockAudit = (entityType: AuditEntityType, entityId: string, action: AuditAction, before: object = {}, after: object = {}) => {
+    const changes: Record<string, AuditChange> = {};
+    if (action !== AuditAction.Archive && action !== AuditAction.Restore) {
+        for (const field of AUDITED_FIELDS[entityType]) {
+            const from = (before as Record<string, unknown>)[field] ?? null;
+            const to = (after as Record<string, unknown>)[field] ?? null;
+            if (JSON.stringify(from) !== JSON.stringify(to)) changes[field] = { from, to };
+        }
+    }
+    if (action === AuditAction.Update && Object.keys(changes).length === 0) return;
+    mockAuditLog.unshift({
+        id: uuid(), entityType, entityId, action, changes,
+        actorId: currentUserId,
+        actorName: mockUsers.find(u => u.id === currentUserId)?.name ?? null,
+        createdAt: new Date().toISOString(),
+    });
+};
+
 // --- CSRF Token Management ---
 export const getCsrfToken = async (): Promise<string> => {
     await delay(50);
@@ -41,36 +93,164 @@ export const setCsrfToken = (token: string) => {
 
 
 // --- Auth ---
-export const apiLogin = async (email: string, password: string): Promise<{ user: User, accessToken: string }> => {
+const startMockSession = (user: User): AuthSession => {
+  currentUserId = user.id;
+  currentUserRole = user.role;
+  currentSessionId = uuid();
+
+  mockUserSessions.push({
+    id: currentSessionId,
+    userId: user.id,
+    loginTime: new Date().toISOString(),
+    last_activity: new Date().toISOString(),
+    ip_address: '127.0.0.1',
+    user_agent: 'MockBrowser/1.0',
+    isCurrent: true,
+  });
+  return { user: { ...user, permissions: effectivePermissions(user) }, accessToken: `mock-token-${user.id}` };
+};
+
+// Second factors by user id; the backend keeps secrets encrypted and recovery codes hashed
+const mockTwoFactor = new Map<string, { secret: string; enabledAt?: string; lastUsedStep?: number; recoveryCodes: string[] }>();
+// Challenge tokens handed out after a correct password, valid for a few minutes
+const mockLoginChallenges = new Map<string, { userId: string; purpose: 'two_factor' | 'two_factor_setup'; expiresAt: number }>();
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+
+const issueMockChallenge = (userId: string, purpose: 'two_factor' | 'two_factor_setup') => {
+  const token = uuid();
+  mockLoginChallenges.set(token, { userId, purpose, expiresAt: Date.now() + LOGIN_CHALLENGE_TTL_MS });
+  return token;
+};
+
+const resolveMockChallenge = (token: string, purpose: 'two_factor' | 'two_factor_setup'): User => {
+  const challenge = mockLoginChallenges.get(token);
+  const user = challenge && challenge.purpose === purpose && challenge.expiresAt > Date.now()
+    ? mockUsers.find(u => u.id === challenge.userId && !u.isDeleted)
+    : undefined;
+  if (!user) throw { response: { status: 401, data: { message: 'Your sign-in attempt has expired, please sign in again' } } };
+  return user;
+};
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+const generateRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(5)), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+});
+
+// Authenticator codes work once each; recovery codes are spent when used
+const verifyMockTwoFactorCode = async (userId: string, code: string): Promise<'totp' | 'recovery_code' | null> => {
+  const entry = mockTwoFactor.get(userId);
+  if (!entry?.enabledAt || !code) return null;
+  const step = await verifyTotp(entry.secret, code);
+  if (step !== null) {
+    if (entry.lastUsedStep !== undefined && step <= entry.lastUsedStep) return null;
+    entry.lastUsedStep = step;
+    return 'totp';
+  }
+  const index = entry.recoveryCodes.indexOf(normalizeRecoveryCode(code));
+  if (index === -1) return null;
+  entry.recoveryCodes.splice(index, 1);
+  return 'recovery_code';
+};
+
+const invalidTwoFactorCode = (status = 400) => ({ response: { status, data: { message: 'Invalid authentication code' } } });
+
+// Failed sign-ins by lowercased email, whether or not the account exists; each lockout lasts twice as long as the last
+const mockLockouts = new Map<string, { failedCount: number; lockoutCount: number; lockedUntil?: number }>();
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 5 * 60 * 1000;
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+
+const accountLocked = (lockedUntil: number) => ({ response: { status: 423, data: {
+  message: 'Too many failed sign-in attempts. This account is temporarily locked; try again later or reset your password.',
+  lockedUntil: new Date(lockedUntil).toISOString(),
+} } });
+
+const mockLockedUntil = (email: string) => {
+  const lockedUntil = mockLockouts.get(email.toLowerCase())?.lockedUntil;
+  return lockedUntil && lockedUntil > Date.now() ? lockedUntil : undefined;
+};
+
+const assertMockNotLocked = (email: string) => {
+  const lockedUntil = mockLockedUntil(email);
+  if (lockedUntil) throw accountLocked(lockedUntil);
+};
+
+const recordMockLoginFailure = (email: string) => {
+  const key = email.toLowerCase();
+  const entry = mockLockouts.get(key) || { failedCount: 0, lockoutCount: 0 };
+  entry.failedCount += 1;
+  mockLockouts.set(key, entry);
+  if (entry.failedCount < LOCKOUT_THRESHOLD) return;
+
+  entry.failedCount = 0;
+  entry.lockoutCount += 1;
+  entry.lockedUntil = Date.now() + Math.min(LOCKOUT_BASE_MS * 2 ** (entry.lockoutCount - 1), LOCKOUT_MAX_MS);
+  // There is no mail server in the mock, so the owner's notification is logged instead
+  logger.warn(`Mock account ${email} locked until ${new Date(entry.lockedUntil).toISOString()}`);
+  throw accountLocked(entry.lockedUntil);
+};
+
+/**
+ * Check an email and password. When a second factor is needed the answer is a
+ * challenge to finish with `apiLoginTwoFactor` or `apiEnableLoginTwoFactor`.
+ */
+export const apiLogin = async (email: string, password: string): Promise<AuthSession | LoginChallenge> => {
   await delay(MOCK_API_DELAY);
-  const user = mockUsers.find(u => u.email === email && u.password === password && !u.isDeleted);
+  assertMockNotLocked(email);
+  const user = mockUsers.find(u => u.email.toLowerCase() === email.trim().toLowerCase() && u.password === password && !u.isDeleted);
   if (user) {
-    currentUserId = user.id;
-    currentUserRole = user.role;
-    currentSessionId = uuid();
-
-    mockUserSessions.push({
-      id: currentSessionId,
-      userId: user.id,
-      loginTime: new Date().toISOString(),
-      last_activity: new Date().toISOString(),
-      ip_address: '127.0.0.1',
-      user_agent: 'MockBrowser/1.0',
-      isCurrent: true,
-    });
-    
+    if (mockTwoFactor.get(user.id)?.enabledAt) {
+      return { twoFactorRequired: true, challengeToken: issueMockChallenge(user.id, 'two_factor') };
+    }
+    if (mockTwoFactorPolicy.requiredRoles.includes(user.role)) {
+      return { twoFactorSetupRequired: true, challengeToken: issueMockChallenge(user.id, 'two_factor_setup') };
+    }
     logger.info(`Mock login successful for ${email}`);
-    return { user, accessToken: `mock-token-${user.id}` };
+    mockLockouts.delete(email.toLowerCase());
+    return startMockSession(user);
   }
   logger.warn(`Mock login failed for ${email}`);
+  recordMockLoginFailure(email);
   throw { response: { data: { message: 'Invalid credentials' } } };
 };
 
+export const apiLoginTwoFactor = async (challengeToken: string, code: string): Promise<AuthSession> => {
+  await delay(MOCK_API_DELAY);
+  const user = resolveMockChallenge(challengeToken, 'two_factor');
+  assertMockNotLocked(user.email);
+  if (!(await verifyMockTwoFactorCode(user.id, code))) {
+      recordMockLoginFailure(user.email);
+      throw invalidTwoFactorCode(401);
+  }
+  logger.info(`Mock two-factor login successful for ${user.email}`);
+  mockLockouts.delete(user.email.toLowerCase());
+  return startMockSession(user);
+};
+
+// Enrolment during login for a role that requires two-factor authentication
+export const apiBeginLoginTwoFactorSetup = async (challengeToken: string): Promise<TwoFactorSetup> => {
+  await delay(MOCK_API_DELAY);
+  const user = resolveMockChallenge(challengeToken, 'two_factor_setup');
+  return beginMockTwoFactorSetup(user);
+};
+
+export const apiEnableLoginTwoFactor = async (challengeToken: string, code: string): Promise<AuthSession & { recoveryCodes: string[] }> => {
+  await delay(MOCK_API_DELAY);
+  const user = resolveMockChallenge(challengeToken, 'two_factor_setup');
+  assertMockNotLocked(user.email);
+  const recoveryCodes = await enableMockTwoFactor(user.id, code);
+  mockLockouts.delete(user.email.toLowerCase());
+  return { ...startMockSession(user), recoveryCodes };
+};
+
 export const getMe = async (): Promise<User> => {
     await delay(50);
     if (currentUserId) {
         const user = mockUsers.find(u => u.id === currentUserId);
-        if (user) return user;
+        if (user) return { ...user, permissions: effectivePermissions(user) };
     }
     throw new Error("No active session");
 };
@@ -101,25 +281,50 @@ export const apiLogoutAll = async (): Promise<void> => {
     currentSessionId = null;
 }
 
+// Single-use reset tokens by token; the backend only stores their hashes
+const mockPasswordResetTokens = new Map<string, { userId: string; expiresAt: number }>();
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
 export const apiPasswordResetRequest = async (email: string) => {
     await delay(MOCK_API_DELAY);
-    const user = mockUsers.find(u => u.email === email);
+    const user = mockUsers.find(u => u.email.toLowerCase() === email.trim().toLowerCase() && !u.isDeleted);
     if(user) {
-        logger.info(`Mock password reset requested for ${email}`);
-        return { message: 'If a user with that email exists, a reset token has been sent.' };
+        // Only the newest token works
+        mockPasswordResetTokens.forEach((entry, token) => {
+            if (entry.userId === user.id) mockPasswordResetTokens.delete(token);
+        });
+        const token = uuid().replace(/-/g, '');
+        mockPasswordResetTokens.set(token, { userId: user.id, expiresAt: Date.now() + PASSWORD_RESET_TTL_MS });
+        // There is no mail server in the mock, so the emailed token is logged instead
+        logger.info(`Mock password reset requested for ${email}, token: ${token}`);
     }
     return { message: 'If a user with that email exists, a reset token has been sent.' };
 };
 
 export const apiPasswordReset = async (token: string, newPassword: string) => {
     await delay(MOCK_API_DELAY);
-    // In a real app, you'd validate the token. Here we just assume it's for the first user for demo.
-    if(token === "VALIDTOKEN" && mockUsers.length > 0) {
-        mockUsers[0].password = newPassword;
-        logger.info(`Mock password reset for ${mockUsers[0].email}`);
-        return { message: 'Password has been reset successfully.' };
+    if (!VALIDATION_RULES.password.pattern.test(newPassword)) {
+        throw { response: { status: 400, data: { message: VALIDATION_RULES.password.message } } };
     }
-    throw { response: { data: { message: 'Invalid or expired token.' } } };
+    const entry = mockPasswordResetTokens.get(token.trim());
+    const user = entry && entry.expiresAt > Date.now() ? mockUsers.find(u => u.id === entry.userId && !u.isDeleted) : undefined;
+    if (!user) {
+        throw { response: { status: 400, data: { message: 'Invalid or expired token.' } } };
+    }
+
+    mockPasswordResetTokens.delete(token.trim());
+    user.password = newPassword;
+    user.mustChangePassword = false;
+    mockLockouts.delete(user.email.toLowerCase());
+    // A reset signs the user out everywhere
+    mockUserSessions.forEach(s => {
+        if (s.userId === user.id && !s.logoutTime) {
+            s.logoutTime = new Date().toISOString();
+            s.isCurrent = false;
+        }
+    });
+    logger.info(`Mock password reset for ${user.email}`);
+    return { message: 'Password has been reset successfully.' };
 };
 
 export const fetchMySessions = async (): Promise<UserSession[]> => {
@@ -137,6 +342,18 @@ export const revokeSession = async (sessionId: string): Promise<void> => {
     }
 }
 
+export const revokeUserSessions = async (userId: string): Promise<void> => {
+    await delay(100);
+    checkAuth(Permission.SessionsManage);
+    mockUserSessions.forEach(s => {
+        if (s.userId === userId && !s.logoutTime) {
+            s.logoutTime = new Date().toISOString();
+            s.isCurrent = false;
+        }
+    });
+    logger.info(`Mock revoked all sessions for user ID ${userId}`);
+};
+
 // --- Inventory ---
 export const fetchInventory = async (): Promise<InventoryItem[]> => {
   await delay(MOCK_API_DELAY);
@@ -151,15 +368,32 @@ export const addInventoryItem = async (item: Omit<InventoryItem, 'id'>, file?: F
     imageUrl: file ? URL.createObjectURL(file) : '/images/products/placeholder.png'
   };
   mockInventory.unshift(newItem);
+  recordMockAudit(AuditEntityType.Inventory, newItem.id, AuditAction.Create, {}, newItem);
   return newItem;
 };
 
 export const updateInventoryItem = async (item: InventoryItem, file?: File): Promise<InventoryItem> => {
   await delay(MOCK_API_DELAY);
+  const existing = mockInventory.find(i => i.id === item.id);
+  if (existing && existing.price !== item.price) {
+      try {
+          checkAuth(Permission.InventoryPricing);
+      } catch {
+          throw { response: { status: 403, data: { message: 'You do not have permission to change prices' } } };
+      }
+  }
+  if (existing && Number(existing.quantity) !== Number(item.quantity)) {
+      try {
+          checkAuth(Permission.InventoryAdjust);
+      } catch {
+          throw { response: { status: 403, data: { message: 'You do not have permission to adjust stock levels' } } };
+      }
+  }
   const updatedItem = { ...item };
   if(file) updatedItem.imageUrl = URL.createObjectURL(file);
   // FIX: Use setter to avoid reassigning import.
   setMockInventory(mockInventory.map(i => (i.id === item.id ? updatedItem : i)));
+  if (existing) recordMockAudit(AuditEntityType.Inventory, item.id, AuditAction.Update, existing, updatedItem);
   return updatedItem;
 };
 
@@ -167,10 +401,13 @@ export const deleteInventoryItem = async (id: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
   // FIX: Use setter to avoid reassigning import.
   setMockInventory(mockInventory.map(i => i.id === id ? { ...i, isDeleted: true } : i));
+  recordMockAudit(AuditEntityType.Inventory, id, AuditAction.Archive);
 };
 
-export const hardDeleteInventoryItem = async (id: string): Promise<void> => {
+export const hardDeleteInventoryItem = async (id: string, password: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
+  verifyPasswordConfirmation(password, Permission.InventoryPurge);
+  recordMockAudit(AuditEntityType.Inventory, id, AuditAction.Delete, mockInventory.find(i => i.id === id));
   // FIX: Use setter to avoid reassigning import.
   setMockInventory(mockInventory.filter(i => i.id !== id));
 };
@@ -183,22 +420,107 @@ export const fetchInventoryMovements = async (itemId: string): Promise<Inventory
 // --- Users ---
 export const fetchUsers = async (): Promise<User[]> => {
   await delay(MOCK_API_DELAY);
-  return mockUsers.filter(u => !u.isDeleted);
+  return mockUsers.filter(u => !u.isDeleted).map(u => {
+      const lockedUntil = mockLockedUntil(u.email);
+      return {
+          ...u,
+          twoFactorEnabled: !!mockTwoFactor.get(u.id)?.enabledAt,
+          lockedUntil: lockedUntil ? new Date(lockedUntil).toISOString() : undefined,
+      };
+  });
 };
 
+// Invitation tokens by token, newest per user; the backend emails them and only stores their hashes
+const mockInvitationTokens = new Map<string, { userId: string; expiresAt: number }>();
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const sendMockInvitation = (user: User) => {
+  mockInvitationTokens.forEach((entry, token) => {
+      if (entry.userId === user.id) mockInvitationTokens.delete(token);
+  });
+  const token = uuid().replace(/-/g, '');
+  mockInvitationTokens.set(token, { userId: user.id, expiresAt: Date.now() + INVITATION_TTL_MS });
+  user.invitationStatus = 'pending';
+  // There is no mail server in the mock, so the emailed token is logged instead
+  logger.info(`Mock invitation sent to ${user.email}, token: ${token}`);
+};
+
+/**
+ * Create a user and invite them to choose a password. An optional temporary
+ * password has to be changed on first login.
+ */
 export const addUser = async (user: Omit<User, 'id'>): Promise<User> => {
   await delay(MOCK_API_DELAY);
-  const newUser: User = { ...user, id: uuid() };
+  checkAuth(Permission.UsersManage);
+  if (mockUsers.some(u => u.email.toLowerCase() === user.email.toLowerCase())) {
+      throw { response: { status: 400, data: { message: 'User with this email already exists' } } };
+  }
+  if (user.password && !VALIDATION_RULES.password.pattern.test(user.password)) {
+      throw { response: { status: 400, data: { message: VALIDATION_RULES.password.message } } };
+  }
+  const newUser: User = { ...user, password: user.password || undefined, id: uuid(), mustChangePassword: true };
+  sendMockInvitation(newUser);
   mockUsers.unshift(newUser);
-  return newUser;
+  recordMockAudit(AuditEntityType.User, newUser.id, AuditAction.Create, {}, newUser);
+  return { ...newUser, password: undefined };
+};
+
+export const resendInvitation = async (userId: string): Promise<void> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.UsersManage);
+  const user = mockUsers.find(u => u.id === userId && !u.isDeleted);
+  if (!user) throw { response: { status: 404, data: { message: 'User not found' } } };
+  if (!user.invitationStatus) throw { response: { status: 400, data: { message: 'User has no invitation' } } };
+  if (user.invitationStatus === 'accepted') throw { response: { status: 400, data: { message: 'Invitation has already been accepted' } } };
+  sendMockInvitation(user);
+};
+
+export const revokeInvitation = async (userId: string): Promise<void> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.UsersManage);
+  const user = mockUsers.find(u => u.id === userId);
+  if (!user || user.invitationStatus !== 'pending') {
+      throw { response: { status: 400, data: { message: 'No pending invitation for this user' } } };
+  }
+  mockInvitationTokens.forEach((entry, token) => {
+      if (entry.userId === userId) mockInvitationTokens.delete(token);
+  });
+  user.invitationStatus = 'revoked';
+};
+
+export const apiAcceptInvitation = async (token: string, newPassword: string) => {
+  await delay(MOCK_API_DELAY);
+  if (!VALIDATION_RULES.password.pattern.test(newPassword)) {
+      throw { response: { status: 400, data: { message: VALIDATION_RULES.password.message } } };
+  }
+  const entry = mockInvitationTokens.get(token.trim());
+  const user = entry && entry.expiresAt > Date.now() ? mockUsers.find(u => u.id === entry.userId && !u.isDeleted) : undefined;
+  if (!user) {
+      throw { response: { status: 400, data: { message: 'Invalid or expired invitation.' } } };
+  }
+
+  mockInvitationTokens.delete(token.trim());
+  user.password = newPassword;
+  user.mustChangePassword = false;
+  user.invitationStatus = 'accepted';
+  logger.info(`Mock invitation accepted by ${user.email}`);
+  return { message: 'Your password has been set. You can now sign in.' };
 };
 
 export const updateUser = async (user: User, file?: File): Promise<User> => {
   await delay(MOCK_API_DELAY);
-  const updatedUser = { ...user };
+  if (!mockRoles.some(r => r.name === user.role)) {
+      throw { response: { status: 400, data: { message: `Invalid role: ${user.role}` } } };
+  }
+  const updatedUser = { ...user, email: user.email.trim().toLowerCase() };
+  if (mockUsers.some(u => u.id !== user.id && u.email.toLowerCase() === updatedUser.email)) {
+      throw { response: { status: 400, data: { message: 'Another user with this email already exists' } } };
+  }
   if(file) updatedUser.profilePictureUrl = URL.createObjectURL(file);
   // FIX: Use setter to avoid reassigning import.
+  const existing = mockUsers.find(u => u.id === user.id);
   setMockUsers(mockUsers.map(u => (u.id === user.id ? updatedUser : u)));
+  if (existing) recordMockAudit(AuditEntityType.User, user.id, AuditAction.Update, existing, updatedUser);
   return updatedUser;
 };
 
@@ -206,64 +528,142 @@ export const deleteUser = async (id: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
   // FIX: Use setter to avoid reassigning import.
   setMockUsers(mockUsers.map(u => u.id === id ? { ...u, isDeleted: true } : u));
+  recordMockAudit(AuditEntityType.User, id, AuditAction.Archive);
 };
 
-export const hardDeleteUser = async (id: string): Promise<void> => {
+export const hardDeleteUser = async (id: string, password: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
+  verifyPasswordConfirmation(password, Permission.UsersManage);
+  mockUserPermissionOverrides.delete(id);
+  recordMockAudit(AuditEntityType.User, id, AuditAction.Delete, mockUsers.find(u => u.id === id));
   // FIX: Use setter to avoid reassigning import.
   setMockUsers(mockUsers.filter(u => u.id !== id));
 };
 
 // --- Inquiries ---
+const withSla = (inquiry: CustomerInquiry): CustomerInquiry => {
+  const firstRespondedAt = mockInquiryResponses
+      .filter(r => r.inquiry_id === inquiry.id)
+      .map(r => r.created_at)
+      .sort()[0];
+  const withResponse = { ...inquiry, firstRespondedAt };
+  return { ...withResponse, sla: computeInquirySla(withResponse, mockInquiryRouting) };
+};
+
+// Staff user who received the last round-robin assignment
+let inquiryRoutingCursor: string | null = null;
+
+const pickInquiryAssignee = (): string | undefined => {
+  const { strategy } = mockInquiryRouting;
+  if (strategy === 'manual') return undefined;
+
+  const staff = mockUsers
+      .filter(u => u.role === Role.Staff && !u.isDeleted)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  if (staff.length === 0) return undefined;
+
+  if (strategy === 'least_loaded') {
+      const openCount = (userId: string) => mockInquiries.filter(i => i.assignedStaffId === userId && !i.isDeleted && i.status !== InquiryStatus.Completed).length;
+      return staff.reduce((least, user) => (openCount(user.id) < openCount(least.id) ? user : least)).id;
+  }
+
+  const next = staff[(staff.findIndex(u => u.id === inquiryRoutingCursor) + 1) % staff.length];
+  inquiryRoutingCursor = next.id;
+  return next.id;
+};
+
 export const fetchInquiries = async (): Promise<CustomerInquiry[]> => {
   await delay(MOCK_API_DELAY);
-  return mockInquiries.filter(i => !i.isDeleted);
+  return mockInquiries.filter(i => !i.isDeleted).map(withSla);
 };
 
 export const addInquiry = async (inquiry: Omit<CustomerInquiry, 'id' | 'createdAt'>): Promise<CustomerInquiry> => {
   await delay(MOCK_API_DELAY);
-  const newInquiry = { ...inquiry, id: uuid(), createdAt: new Date().toISOString() };
+  const newInquiry = { ...inquiry, assignedStaffId: inquiry.assignedStaffId || pickInquiryAssignee(), id: uuid(), createdAt: new Date().toISOString() };
   mockInquiries.unshift(newInquiry);
-  return newInquiry;
+  recordMockAudit(AuditEntityType.Inquiry, newInquiry.id, AuditAction.Create, {}, newInquiry);
+  return withSla(newInquiry);
+};
+
+export const fetchInquiryRouting = async (): Promise<InquiryRoutingSettings> => {
+  await delay(150);
+  checkAuth(Permission.SettingsView, Permission.SettingsManage);
+  return mockInquiryRouting;
+};
+
+export const updateInquiryRouting = async (changes: { strategy?: InquiryAssignmentStrategy; slaTargets?: Partial<Record<InquiryStatus, InquirySlaTarget>> }): Promise<InquiryRoutingSettings> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.SettingsManage);
+  const validHours = (hours: number | null) => hours === null || (typeof hours === 'number' && hours > 0);
+  for (const [status, target] of Object.entries(changes.slaTargets || {})) {
+      if (!target || !validHours(target.firstResponseHours) || !validHours(target.resolutionHours)) {
+          throw { response: { status: 400, data: { message: `SLA targets for ${status} must be a positive number of hours or null` } } };
+      }
+  }
+  setMockInquiryRouting({
+      strategy: changes.strategy || mockInquiryRouting.strategy,
+      slaTargets: { ...mockInquiryRouting.slaTargets, ...changes.slaTargets },
+  });
+  return mockInquiryRouting;
 };
 
 export const updateInquiry = async (inquiry: CustomerInquiry): Promise<CustomerInquiry> => {
   await delay(MOCK_API_DELAY);
   // FIX: Use setter to avoid reassigning import.
-  setMockInquiries(mockInquiries.map(i => (i.id === inquiry.id ? inquiry : i)));
-  return inquiry;
+  const { sla, firstRespondedAt, ...stored } = inquiry;
+  const existing = mockInquiries.find(i => i.id === inquiry.id);
+  setMockInquiries(mockInquiries.map(i => (i.id === inquiry.id ? stored : i)));
+  if (existing) recordMockAudit(AuditEntityType.Inquiry, inquiry.id, AuditAction.Update, existing, stored);
+  return withSla(stored);
 };
 
 export const deleteInquiry = async (id: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
   // FIX: Use setter to avoid reassigning import.
   setMockInquiries(mockInquiries.map(i => i.id === id ? { ...i, isDeleted: true } : i));
+  recordMockAudit(AuditEntityType.Inquiry, id, AuditAction.Archive);
 };
 
-export const hardDeleteInquiry = async (id: string): Promise<void> => {
+export const hardDeleteInquiry = async (id: string, password: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
+  verifyPasswordConfirmation(password, Permission.InquiriesPurge);
+  recordMockAudit(AuditEntityType.Inquiry, id, AuditAction.Delete, mockInquiries.find(i => i.id === id));
   // FIX: Use setter to avoid reassigning import.
   setMockInquiries(mockInquiries.filter(i => i.id !== id));
 };
 
-export const respondToInquiry = async (inquiryId: string, message: string, files?: File[]): Promise<any> => {
+export const respondToInquiry = async (inquiryId: string, message: string, files: File[] = []): Promise<InquiryResponse> => {
     await delay(MOCK_API_DELAY);
+    checkAuth();
+    const inquiry = mockInquiries.find(i => i.id === inquiryId && !i.isDeleted);
+    if (!inquiry) throw { response: { status: 404, data: { message: 'Inquiry not found' } } };
+    if (!message.trim()) throw { response: { status: 400, data: { message: 'Response message is required' } } };
+
+    // The reply is emailed to the customer through the outbox like any other email
+    const { email } = await addEmail({
+        recipient: inquiry.customerEmail,
+        subject: `Re: Your inquiry #${inquiryId.slice(0, 8)}`,
+        body: message.trim(),
+    }, files);
+
     const user = mockUsers.find(u => u.id === currentUserId);
     const newResponse: InquiryResponse = {
         id: uuid(),
         inquiry_id: inquiryId,
-        response_message: message,
+        response_message: message.trim(),
         responded_by_user_id: currentUserId!,
         responded_by_name: user!.name,
-        has_attachments: !!files && files.length > 0,
+        email_id: email.id,
+        email_status: email.status,
+        has_attachments: files.length > 0,
+        attachments: email.attachments,
         created_at: new Date().toISOString()
     };
     mockInquiryResponses.push(newResponse);
-    const inquiry = mockInquiries.find(i => i.id === inquiryId);
-    if(inquiry && inquiry.status === InquiryStatus.Pending) {
+    if (inquiry.status === InquiryStatus.Pending) {
         inquiry.status = InquiryStatus.InProgress;
     }
-    return { message: 'Response sent' };
+    return newResponse;
 };
 
 export const fetchInquiryResponses = async (inquiryId: string): Promise<InquiryResponse[]> => {
@@ -272,11 +672,22 @@ export const fetchInquiryResponses = async (inquiryId: string): Promise<InquiryR
 };
 
 // --- Orders ---
-export const fetchOrders = async (page: number, limit: number): Promise<PaginatedResponse<Order>> => {
+export const fetchOrders = async (page: number, limit: number, query: ListQuery = {}): Promise<PaginatedResponse<Order>> => {
   await delay(MOCK_API_DELAY);
-  const data = mockOrders.filter(o => !o.isDeleted).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const search = query.search?.toLowerCase();
+  const sortField = (query.sort || 'createdAt') as keyof Order;
+  const direction = (query.order || (query.sort ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+  const data = mockOrders
+    .filter(o => !o.isDeleted)
+    .filter(o => !search || [o.id, o.customerName, o.customerEmail, o.customerContact].some(v => v.toLowerCase().includes(search)))
+    .filter(o => Object.entries(query.filters || {}).every(([field, value]) => String(o[field as keyof Order]) === value))
+    .sort((a, b) => {
+        const left = a[sortField], right = b[sortField];
+        if (typeof left === 'number' && typeof right === 'number') return (left - right) * direction;
+        return String(left).localeCompare(String(right)) * direction;
+    });
   const total = data.length;
-  const pages = Math.ceil(total / limit);
+  const pages = Math.max(Math.ceil(total / limit), 1);
   const paginatedData = data.slice((page - 1) * limit, page * limit);
   return {
     data: paginatedData,
@@ -292,20 +703,32 @@ export const checkout = async (
   await delay(MOCK_API_DELAY * 2);
   checkAuth();
 
+  // Check every line first so nothing is taken from stock unless the whole order can be filled
   let subtotal = 0;
+  const shortages: StockShortage[] = [];
   for(const item of cartItems) {
       const inventoryItem = mockInventory.find(i => i.id === item.inventory_item_id);
       if(!inventoryItem || inventoryItem.quantity < item.quantity) {
-          throw { response: { data: { message: `Not enough stock for ${inventoryItem?.name || 'item'}.` } } };
+          shortages.push({
+              itemId: item.inventory_item_id,
+              sku: inventoryItem?.sku || null,
+              name: inventoryItem?.name || null,
+              requested: item.quantity,
+              available: inventoryItem?.quantity || 0,
+          });
+          continue;
       }
       subtotal += inventoryItem.price * item.quantity;
   }
+  if (shortages.length > 0) {
+      throw { response: { status: 409, data: { message: `Insufficient stock for: ${shortages.map(s => s.sku || s.itemId).join(', ')}`, errors: shortages } } };
+  }
 
   let discountAmount = 0;
   const discount = mockDiscounts.find(d => d.id === discountId);
   if(discount) {
       if(discount.type === DiscountType.FixedAmount) {
-          discountAmount = discount.value;
+          discountAmount = Math.min(discount.value, subtotal);
       } else {
           discountAmount = subtotal * (discount.value / 100);
       }
@@ -322,7 +745,7 @@ export const checkout = async (
       // Log movement
       mockInventoryMovements.push({ id: uuid(), itemId: inventoryItem.id, type: InventoryMovementType.StockOut, quantityChange: -item.quantity, relatedOrderId: orderId, timestamp: new Date().toISOString(), userId: currentUserId!, user_name: mockUsers.find(u => u.id === currentUserId)!.name, reason: 'Sale' });
       return {
-          id: uuid(), order_id: orderId, inventory_item_id: item.inventory_item_id, quantity: item.quantity,
+          id: nextOrderItemId(), order_id: orderId, inventory_item_id: item.inventory_item_id, quantity: item.quantity,
           price_at_purchase: inventoryItem.price, name: inventoryItem.name, sku: inventoryItem.sku, image_url: inventoryItem.imageUrl,
       };
   });
@@ -344,23 +767,143 @@ export const checkout = async (
   };
 
   mockOrders.unshift(newOrder);
+  mockOrderStatusHistory.push({ id: uuid(), orderId, fromStatus: null, toStatus: OrderStatus.Processing, note: 'Order created', changedBy: currentUserId!, changedByName: mockUsers.find(u => u.id === currentUserId)?.name, changedAt: newOrder.createdAt });
   return newOrder;
 };
 
-export const updateOrderStatus = async (orderId: string, status: OrderStatus): Promise<void> => {
+export const updateOrderStatus = async (orderId: string, status: OrderStatus, note?: string): Promise<void> => {
   await delay(MOCK_API_DELAY);
+  checkAuth(Permission.OrdersUpdateStatus);
+  const order = mockOrders.find(o => o.id === orderId);
+  if (!order) throw { response: { status: 404, data: { message: 'Order not found' } } };
+
+  const allowed = getNextStatuses(order.status);
+  if (!allowed.includes(status)) {
+      throw { response: { status: 409, data: { message: `Cannot change order status from ${order.status} to ${status}`, from: order.status, to: status, allowed } } };
+  }
+
+  const userName = mockUsers.find(u => u.id === currentUserId)?.name || 'Unknown';
+  let updatedOrder = order;
+  if (status === OrderStatus.Refunded) {
+      // Return and refund whatever has not been returned yet
+      const lines = order.items
+          .filter(line => line.quantity > (line.returned_quantity || 0))
+          .map(line => ({ orderItemId: line.id, name: line.name, quantity: line.quantity - (line.returned_quantity || 0), disposition: ReturnDisposition.Restock }));
+      const refundAmount = roundCurrency(order.total - (order.refundedAmount || 0));
+      if (lines.length > 0 || refundAmount > 0) {
+          updatedOrder = recordOrderReturn(order, lines, refundAmount, note || 'Order refunded');
+      }
+  } else if (RESTOCKING_STATUSES.includes(status)) {
+      order.items.forEach(line => {
+          const remaining = line.quantity - (line.returned_quantity || 0);
+          const inventoryItem = mockInventory.find(i => i.id === line.inventory_item_id);
+          if (!inventoryItem || remaining <= 0) return;
+          inventoryItem.quantity += remaining;
+          mockInventoryMovements.push({ id: uuid(), itemId: inventoryItem.id, type: InventoryMovementType.Return, quantityChange: remaining, relatedOrderId: orderId, timestamp: new Date().toISOString(), userId: currentUserId!, user_name: userName, reason: 'Order cancelled' });
+      });
+  }
+
+  mockOrderStatusHistory.push({ id: uuid(), orderId, fromStatus: order.status, toStatus: status, note: note || undefined, changedBy: currentUserId!, changedByName: userName, changedAt: new Date().toISOString() });
+  recordMockAudit(AuditEntityType.Order, orderId, AuditAction.Update, { status: order.status }, { status });
   // FIX: Use setter to avoid reassigning import.
-  setMockOrders(mockOrders.map(o => o.id === orderId ? { ...o, status } : o));
+  // A cancelled order brings in nothing
+  const netTotal = status === OrderStatus.Cancelled ? 0 : updatedOrder.netTotal;
+  setMockOrders(mockOrders.map(o => o.id === orderId ? { ...updatedOrder, status, netTotal } : o));
+};
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Store a return, restock its restock lines and return the order with the
+ * returned quantities and refund applied. The caller saves the order.
+ */
+const recordOrderReturn = (order: Order, lines: OrderReturnLine[], refundAmount: number, reason?: string): Order => {
+  const userName = mockUsers.find(u => u.id === currentUserId)?.name || 'Unknown';
+  const now = new Date().toISOString();
+
+  lines.forEach(line => {
+      if (line.disposition !== ReturnDisposition.Restock) return;
+      const orderItem = order.items.find(i => i.id === line.orderItemId);
+      const inventoryItem = mockInventory.find(i => i.id === orderItem?.inventory_item_id);
+      if (!inventoryItem) return;
+      inventoryItem.quantity += line.quantity;
+      mockInventoryMovements.push({ id: uuid(), itemId: inventoryItem.id, type: InventoryMovementType.Return, quantityChange: line.quantity, relatedOrderId: order.id, timestamp: now, userId: currentUserId!, user_name: userName, reason: reason ? `Customer return: ${reason}` : 'Customer return' });
+  });
+
+  mockOrderReturns.push({ id: uuid(), orderId: order.id, refundAmount, reason: reason || undefined, createdBy: currentUserId!, createdByName: userName, createdAt: now, lines });
+
+  const refundedAmount = roundCurrency((order.refundedAmount || 0) + refundAmount);
+  return {
+      ...order,
+      items: order.items.map(item => {
+          const returned = lines.filter(l => l.orderItemId === item.id).reduce((sum, l) => sum + l.quantity, 0);
+          return returned ? { ...item, returned_quantity: (item.returned_quantity || 0) + returned } : item;
+      }),
+      refundedAmount,
+      netTotal: roundCurrency(order.total - refundedAmount),
+  };
+};
+
+export const createOrderReturn = async (orderId: string, input: OrderReturnInput): Promise<{ return: OrderReturn; order: Order }> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth();
+  const fail = (status: number, message: string) => { throw { response: { status, data: { message } } }; };
+
+  const order = mockOrders.find(o => o.id === orderId && !o.isDeleted);
+  if (!order) return fail(404, 'Order not found');
+  if (order.status === OrderStatus.Cancelled || order.status === OrderStatus.Refunded) {
+      return fail(400, `Cannot return items from a ${order.status.toLowerCase()} order`);
+  }
+  if (input.lines.length === 0) return fail(400, 'At least one order line is required');
+  if (isNaN(input.refundAmount) || input.refundAmount < 0) return fail(400, 'Refund amount must be zero or more');
+
+  const lines: OrderReturnLine[] = [];
+  for (const line of input.lines) {
+      const orderItem = order.items.find(i => i.id === line.orderItemId);
+      if (!orderItem) return fail(400, `Order line ${line.orderItemId} does not belong to this order`);
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) return fail(400, `Invalid quantity for order line ${line.orderItemId}`);
+      const requested = input.lines.filter(l => l.orderItemId === line.orderItemId).reduce((sum, l) => sum + l.quantity, 0);
+      const remaining = orderItem.quantity - (orderItem.returned_quantity || 0);
+      if (requested > remaining) return fail(400, `Cannot return ${requested} of "${orderItem.name}"; only ${remaining} left to return`);
+      lines.push({ orderItemId: line.orderItemId, name: orderItem.name, quantity: line.quantity, disposition: line.disposition || ReturnDisposition.Restock });
+  }
+
+  const refundable = roundCurrency(order.total - (order.refundedAmount || 0));
+  if (roundCurrency(input.refundAmount) > refundable) {
+      return fail(400, `Refund amount exceeds the refundable balance of ${refundable.toFixed(2)}`);
+  }
+  const ratio = order.subtotal > 0 ? order.total / order.subtotal : 1;
+  const returnedValue = roundCurrency(lines.reduce((sum, line) => sum + line.quantity * (order.items.find(i => i.id === line.orderItemId)!.price_at_purchase || 0) * ratio, 0));
+  if (roundCurrency(input.refundAmount) > returnedValue) {
+      return fail(400, `Refund amount exceeds the value of the returned items of ${returnedValue.toFixed(2)}`);
+  }
+
+  const updatedOrder = recordOrderReturn(order, lines, roundCurrency(input.refundAmount), input.reason);
+  setMockOrders(mockOrders.map(o => o.id === orderId ? updatedOrder : o));
+  return { return: mockOrderReturns[mockOrderReturns.length - 1], order: updatedOrder };
+};
+
+export const fetchOrderReturns = async (orderId: string): Promise<OrderReturn[]> => {
+  await delay(150);
+  return mockOrderReturns.filter(r => r.orderId === orderId);
+};
+
+export const fetchOrderStatusHistory = async (orderId: string): Promise<OrderStatusChange[]> => {
+  await delay(150);
+  return mockOrderStatusHistory.filter(h => h.orderId === orderId).sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
 };
 
 export const deleteOrder = async (id: string): Promise<void> => {
     await delay(MOCK_API_DELAY);
     // FIX: Use setter to avoid reassigning import.
     setMockOrders(mockOrders.map(o => o.id === id ? { ...o, isDeleted: true } : o));
+    recordMockAudit(AuditEntityType.Order, id, AuditAction.Archive);
 };
 
-export const hardDeleteOrder = async (id: string): Promise<void> => {
+export const hardDeleteOrder = async (id: string, password: string): Promise<void> => {
     await delay(MOCK_API_DELAY);
+    verifyPasswordConfirmation(password, Permission.OrdersPurge);
+    recordMockAudit(AuditEntityType.Order, id, AuditAction.Delete, mockOrders.find(o => o.id === id));
     // FIX: Use setter to avoid reassigning import.
     setMockOrders(mockOrders.filter(o => o.id !== id));
 };
@@ -390,12 +933,14 @@ export const createDiscount = async (discount: Omit<Discount, 'id' | 'createdAt'
   await delay(MOCK_API_DELAY);
   const newDiscount = { ...discount, id: uuid(), createdAt: new Date().toISOString(), usedCount: 0 };
   mockDiscounts.unshift(newDiscount);
+  recordMockAudit(AuditEntityType.Discount, newDiscount.id, AuditAction.Create, {}, newDiscount);
   return newDiscount;
 };
 
 export const updateDiscount = async (id: string, discount: Partial<Discount>): Promise<Discount> => {
   await delay(MOCK_API_DELAY);
   let updatedDiscount: Discount;
+  const existing = mockDiscounts.find(d => d.id === id);
   // FIX: Use setter to avoid reassigning import.
   setMockDiscounts(mockDiscounts.map(d => {
       if(d.id === id) {
@@ -404,6 +949,7 @@ export const updateDiscount = async (id: string, discount: Partial<Discount>): P
       }
       return d;
   }));
+  if (existing) recordMockAudit(AuditEntityType.Discount, id, AuditAction.Update, existing, updatedDiscount!);
   return updatedDiscount!;
 };
 
@@ -411,10 +957,13 @@ export const deleteDiscount = async (id: string): Promise<void> => {
     await delay(MOCK_API_DELAY);
     // FIX: Use setter to avoid reassigning import.
     setMockDiscounts(mockDiscounts.map(d => d.id === id ? { ...d, isDeleted: true } : d));
+    recordMockAudit(AuditEntityType.Discount, id, AuditAction.Archive);
 };
 
-export const hardDeleteDiscount = async (id: string) => {
+export const hardDeleteDiscount = async (id: string, password: string) => {
     await delay(MOCK_API_DELAY);
+    verifyPasswordConfirmation(password, Permission.DiscountsPurge);
+    recordMockAudit(AuditEntityType.Discount, id, AuditAction.Delete, mockDiscounts.find(d => d.id === id));
     // FIX: Use setter to avoid reassigning import.
     setMockDiscounts(mockDiscounts.filter(d => d.id !== id));
 };
@@ -422,49 +971,152 @@ export const hardDeleteDiscount = async (id: string) => {
 // --- Emails ---
 export const fetchEmails = async (): Promise<Email[]> => {
   await delay(MOCK_API_DELAY);
-  return mockEmails;
+  return mockEmails.filter(e => !e.isDeleted);
 };
 
-export const addEmail = async (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, file?: File): Promise<{ message: string }> => {
+// Mirrors one outbox delivery attempt; addresses on .invalid domains bounce
+const attemptMockEmailDelivery = (email: Email) => {
+  const attempts = (email.attempts ?? 0) + 1;
+  if (email.recipient.endsWith('.invalid')) {
+    return { ...email, status: 'queued' as const, attempts, lastError: 'Recipient address rejected', nextAttemptAt: new Date(Date.now() + 60 * 1000).toISOString() };
+  }
+  return { ...email, status: 'sent' as const, attempts, lastError: undefined, nextAttemptAt: undefined, sentAt: new Date().toISOString() };
+};
+
+export const EMAIL_ATTACHMENT_TYPES = [
+  'application/pdf', 'text/plain', 'text/csv',
+  'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip', 'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+];
+export const MAX_EMAIL_ATTACHMENTS = 5;
+export const MAX_EMAIL_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+export const addEmail = async (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, files: File[] = []): Promise<{ message: string; email: Email }> => {
   await delay(MOCK_API_DELAY * 2);
-  const newEmail: Email = {
+  if (files.length > MAX_EMAIL_ATTACHMENTS) {
+    throw { response: { status: 400, data: { message: `No more than ${MAX_EMAIL_ATTACHMENTS} attachments are allowed` } } };
+  }
+  for (const file of files) {
+    if (!EMAIL_ATTACHMENT_TYPES.includes(file.type)) {
+      throw { response: { status: 400, data: { message: `Attachments of type ${file.type || 'unknown'} are not allowed` } } };
+    }
+    if (file.size > MAX_EMAIL_ATTACHMENT_SIZE) {
+      throw { response: { status: 400, data: { message: 'Attachments must be 5 MB or smaller' } } };
+    }
+  }
+  // Object URLs stand in for the authenticated download endpoint
+  const attachments = files.map(file => ({ name: file.name, contentType: file.type, size: file.size, path: URL.createObjectURL(file) }));
+  const newEmail = attemptMockEmailDelivery({
     ...email,
     id: uuid(),
-    sentAt: new Date().toISOString(),
-    attachment_path: file ? file.name : undefined
-  };
+    status: 'queued',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    attachments,
+    attachment_path: attachments[0]?.path
+  });
   mockEmails.unshift(newEmail);
-  return { message: "Email sent successfully" };
+  return { message: newEmail.status === 'sent' ? 'Email sent' : 'Email queued for delivery', email: newEmail };
+};
+
+export const retryEmail = async (id: string): Promise<Email> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.EmailsSend);
+  const email = mockEmails.find(e => e.id === id);
+  if (!email) throw { response: { status: 404, data: { message: 'Email not found' } } };
+  if (email.status !== 'failed') throw { response: { status: 400, data: { message: 'Only failed emails can be retried' } } };
+  const retried = attemptMockEmailDelivery({ ...email, status: 'queued', attempts: 0, nextAttemptAt: undefined });
+  setMockEmails(mockEmails.map(e => e.id === id ? retried : e));
+  return retried;
 };
 
 export const deleteEmail = async (id: string): Promise<void> => {
     await delay(MOCK_API_DELAY);
-    // Mock doesn't need soft delete, just remove
     // FIX: Use setter to avoid reassigning import.
-    setMockEmails(mockEmails.filter(e => e.id !== id));
+    setMockEmails(mockEmails.map(e => e.id === id ? { ...e, isDeleted: true } : e));
 };
 
-export const hardDeleteEmail = async (id: string): Promise<void> => {
+export const hardDeleteEmail = async (id: string, password: string): Promise<void> => {
     await delay(MOCK_API_DELAY);
+    verifyPasswordConfirmation(password, Permission.EmailsPurge);
     // FIX: Use setter to avoid reassigning import.
     setMockEmails(mockEmails.filter(e => e.id !== id));
 };
 
 
 // --- Backup / Restore ---
-export const listBackups = async (): Promise<any[]> => {
+export const listBackups = async (): Promise<BackupSummary[]> => {
     await delay(100);
-    return [{ filename: 'backup-2024-05-20.json', created_at: subDays(new Date(), 2).toISOString() }];
+    const created = subDays(new Date(), 2);
+    return [{ filename: `backup-${created.getTime()}.json`, created_at: created.toISOString(), size: 48213 }];
 };
 
 export const createBackup = async (): Promise<{ message: string; filename: string }> => {
   await delay(MOCK_API_DELAY * 3);
-  return { message: 'Mock backup created successfully.', filename: `mock-backup-${new Date().toISOString()}.json` };
+  checkAuth(Permission.BackupsManage);
+  const startedAt = new Date().toISOString();
+  const filename = `backup-${Date.now()}.json`;
+  mockBackupRuns.unshift({ id: uuid(), trigger: 'manual', startedAt, finishedAt: startedAt, success: true, filename, error: null, pruned: 0, triggeredBy: currentUserId });
+  return { message: 'Mock backup created successfully.', filename };
+};
+
+export const fetchBackupSchedule = async (): Promise<BackupScheduleStatus> => {
+  await delay(100);
+  checkAuth(Permission.BackupsManage);
+  const lastRun = mockBackupRuns[0] || null;
+  const lastSuccessAt = mockBackupRuns.find(run => run.success)?.startedAt || null;
+  let nextRunAt: string | null = null;
+  if (mockBackupSchedule.enabled) {
+    const next = lastSuccessAt ? new Date(lastSuccessAt) : new Date();
+    if (lastSuccessAt && mockBackupSchedule.frequency === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+    if (lastSuccessAt && mockBackupSchedule.frequency === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+    if (lastSuccessAt && mockBackupSchedule.frequency === 'monthly') next.setUTCMonth(next.getUTCMonth() + 1);
+    nextRunAt = next.toISOString();
+  }
+  return { ...mockBackupSchedule, lastRun, lastSuccessAt, nextRunAt };
+};
+
+export const updateBackupSchedule = async (schedule: BackupSchedule): Promise<BackupScheduleStatus> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.BackupsManage);
+  for (const [period, count] of Object.entries(schedule.retention)) {
+    if (!Number.isInteger(count) || count < 0 || count > 365) {
+      throw { response: { status: 400, data: { message: `Number of ${period} backups to keep must be a whole number from 0 to 365` } } };
+    }
+  }
+  if (Object.values(schedule.retention).every(count => count === 0)) {
+    throw { response: { status: 400, data: { message: 'The retention policy must keep at least one backup' } } };
+  }
+  setMockBackupSchedule({ enabled: schedule.enabled, frequency: schedule.frequency, retention: { ...schedule.retention } });
+  return fetchBackupSchedule();
 };
 
-export const restoreData = async (filename: string) => {
+// The mock keeps no backup contents, so the backup side mirrors the current data
+const mockRestoreSummary = (filename: string, dryRun: boolean): RestoreResult => {
+  const tables = {
+    users: mockUsers, inventory: mockInventory, inquiries: mockInquiries, orders: mockOrders,
+    discounts: mockDiscounts, emails: mockEmails, newsletters: mockNewsletters, audit_log: mockAuditLog,
+  };
+  const timestamp = Number(/^backup-(\d+)\.json$/.exec(filename)?.[1] || Date.now());
+  return {
+    success: true,
+    message: dryRun ? 'Backup is valid; nothing was restored' : 'Mock data restored. You will be logged out.',
+    dryRun,
+    createdAt: new Date(timestamp).toISOString(),
+    tables: Object.entries(tables).map(([table, rows]) => ({ table, currentRows: rows.length, backupRows: rows.length })),
+  };
+};
+
+export const previewRestore = async (filename: string): Promise<RestoreResult> => {
+  await delay(MOCK_API_DELAY);
+  return mockRestoreSummary(filename, true);
+};
+
+export const restoreData = async (filename: string, password: string): Promise<RestoreResult> => {
   await delay(MOCK_API_DELAY * 4);
-  return { success: true, message: 'Mock data restored. You will be logged out.' };
+  verifyPasswordConfirmation(password, Permission.BackupsManage);
+  return mockRestoreSummary(filename, false);
 };
 
 // --- Password Management ---
@@ -472,7 +1124,11 @@ export const changePassword = async (userId: string, currentPassword: string, ne
   await delay(MOCK_API_DELAY);
   const user = mockUsers.find(u => u.id === userId);
   if (user && user.password === currentPassword) {
+    if (!VALIDATION_RULES.password.pattern.test(newPassword)) {
+      throw { response: { status: 400, data: { message: VALIDATION_RULES.password.message } } };
+    }
     user.password = newPassword;
+    user.mustChangePassword = false;
     return { message: 'Password changed successfully.' };
   }
   throw { response: { data: { message: 'Incorrect current password.' } } };
@@ -488,6 +1144,221 @@ export const resetPassword = async (userId: string, newPassword: string): Promis
   throw new Error('User not found');
 };
 
+// --- Roles & Permissions ---
+const roleError = (message: string, status = 400) => ({ response: { status, data: { message } } });
+
+// Known permissions only, each once and in catalogue order
+const parsePermissions = (permissions: Permission[]) => {
+  const unknown = permissions.filter(p => !Object.values(Permission).includes(p));
+  if (unknown.length > 0) throw roleError(`Unknown permission: ${unknown.join(', ')}`);
+  return Object.values(Permission).filter(p => permissions.includes(p));
+};
+
+export const fetchRoles = async (): Promise<RoleDefinition[]> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.RolesManage, Permission.UsersManage);
+  return mockRoles.map(role => ({ ...role, userCount: mockUsers.filter(u => u.role === role.name && !u.isDeleted).length }));
+};
+
+export const fetchPermissionCatalogue = async (): Promise<PermissionDefinition[]> => {
+  await delay(100);
+  checkAuth(Permission.RolesManage, Permission.UsersManage);
+  return mockPermissionCatalogue;
+};
+
+export const createRole = async (role: { name: string; description?: string; permissions: Permission[] }): Promise<RoleDefinition> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.RolesManage);
+  const name = role.name.trim();
+  if (!/^[A-Za-z][A-Za-z0-9 _-]{1,49}$/.test(name)) {
+      throw roleError('Role names are 2 to 50 letters, digits, spaces, dashes or underscores and start with a letter');
+  }
+  if (mockRoles.some(r => r.name.toLowerCase() === name.toLowerCase())) throw roleError('A role with this name already exists');
+  const created: RoleDefinition = { name, description: role.description?.trim() || undefined, permissions: parsePermissions(role.permissions), isSystem: false };
+  setMockRoles([...mockRoles, created]);
+  recordMockAudit(AuditEntityType.Role, name, AuditAction.Create, {}, created);
+  return created;
+};
+
+export const updateRole = async (name: string, changes: { description?: string; permissions?: Permission[] }): Promise<RoleDefinition> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.RolesManage);
+  const existing = mockRoles.find(r => r.name === name);
+  if (!existing) throw roleError('Role not found', 404);
+  if (name === Role.Admin) throw roleError('The Admin role always has every permission');
+  const updated: RoleDefinition = {
+      ...existing,
+      description: changes.description === undefined ? existing.description : changes.description.trim() || undefined,
+      permissions: changes.permissions === undefined ? existing.permissions : parsePermissions(changes.permissions),
+  };
+  setMockRoles(mockRoles.map(r => (r.name === name ? updated : r)));
+  recordMockAudit(AuditEntityType.Role, name, AuditAction.Update, existing, updated);
+  return updated;
+};
+
+export const deleteRole = async (name: string): Promise<void> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.RolesManage);
+  const existing = mockRoles.find(r => r.name === name);
+  if (!existing) throw roleError('Role not found', 404);
+  if (existing.isSystem) throw roleError('Built-in roles cannot be deleted');
+  const members = mockUsers.filter(u => u.role === name).length;
+  if (members > 0) throw roleError(`This role is still assigned to ${members} user(s)`);
+  setMockRoles(mockRoles.filter(r => r.name !== name));
+  recordMockAudit(AuditEntityType.Role, name, AuditAction.Delete, existing);
+};
+
+export const fetchUserPermissions = async (userId: string): Promise<UserPermissions> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.RolesManage, Permission.UsersManage);
+  const user = mockUsers.find(u => u.id === userId);
+  if (!user) throw roleError('User not found', 404);
+  const { grants, denies } = mockUserPermissionOverrides.get(userId) || { grants: [], denies: [] };
+  const rolePermissions = user.role === Role.Admin ? Object.values(Permission) : mockRoles.find(r => r.name === user.role)?.permissions || [];
+  return { role: user.role, rolePermissions, grants, denies, effective: effectivePermissions(user) };
+};
+
+export const updateUserPermissions = async (userId: string, overrides: UserPermissionOverrides): Promise<UserPermissions> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.RolesManage);
+  const grants = parsePermissions(overrides.grants);
+  const denies = parsePermissions(overrides.denies);
+  if (grants.some(p => denies.includes(p))) throw roleError('A permission cannot be granted and denied at the same time');
+  if (!mockUsers.some(u => u.id === userId)) throw roleError('User not found', 404);
+  if (userId === currentUserId) throw roleError('You cannot change your own permissions', 403);
+  const before = mockUserPermissionOverrides.get(userId) || { grants: [], denies: [] };
+  mockUserPermissionOverrides.set(userId, { grants, denies });
+  recordMockAudit(AuditEntityType.User, userId, AuditAction.Update, before, { grants, denies });
+  return fetchUserPermissions(userId);
+};
+
+// --- Audit Log ---
+export const fetchAuditLog = async (filters: { entityType?: AuditEntityType; entityId?: string; action?: AuditAction; actorId?: string } = {}): Promise<AuditLogEntry[]> => {
+  await delay(150);
+  checkAuth(Permission.AuditView);
+  return mockAuditLog.filter(entry =>
+      (!filters.entityType || entry.entityType === filters.entityType) &&
+      (!filters.entityId || entry.entityId === filters.entityId) &&
+      (!filters.action || entry.action === filters.action) &&
+      (!filters.actorId || entry.actorId === filters.actorId)
+  );
+};
+
+// --- Two-Factor Authentication ---
+const beginMockTwoFactorSetup = (user: User): TwoFactorSetup => {
+  if (mockTwoFactor.get(user.id)?.enabledAt) {
+      throw { response: { status: 400, data: { message: 'Two-factor authentication is already enabled' } } };
+  }
+  const secret = generateTotpSecret();
+  mockTwoFactor.set(user.id, { secret, recoveryCodes: [] });
+  return { secret, otpauthUri: totpProvisioningUri(secret, user.email) };
+};
+
+const enableMockTwoFactor = async (userId: string, code: string): Promise<string[]> => {
+  const entry = mockTwoFactor.get(userId);
+  if (!entry) throw { response: { status: 400, data: { message: 'Start two-factor setup first' } } };
+  if (entry.enabledAt) throw { response: { status: 400, data: { message: 'Two-factor authentication is already enabled' } } };
+  const step = await verifyTotp(entry.secret, code);
+  if (step === null) throw invalidTwoFactorCode();
+
+  const recoveryCodes = generateRecoveryCodes();
+  Object.assign(entry, { enabledAt: new Date().toISOString(), lastUsedStep: step, recoveryCodes: recoveryCodes.map(normalizeRecoveryCode) });
+  return recoveryCodes;
+};
+
+// Sensitive changes to one's own account re-check the password
+const verifyOwnPassword = (password: string) => {
+  checkAuth();
+  const user = mockUsers.find(u => u.id === currentUserId);
+  if (!password || !user || user.password !== password) {
+      throw { response: { status: 403, data: { message: 'Password confirmation failed' } } };
+  }
+  return user;
+};
+
+export const fetchTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  await delay(100);
+  checkAuth();
+  const entry = mockTwoFactor.get(currentUserId!);
+  return {
+      enabled: !!entry?.enabledAt,
+      enabledAt: entry?.enabledAt,
+      required: mockTwoFactorPolicy.requiredRoles.includes(currentUserRole!),
+      recoveryCodesRemaining: entry?.enabledAt ? entry.recoveryCodes.length : 0,
+  };
+};
+
+export const beginTwoFactorSetup = async (): Promise<TwoFactorSetup> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth();
+  return beginMockTwoFactorSetup(mockUsers.find(u => u.id === currentUserId)!);
+};
+
+export const enableTwoFactor = async (code: string): Promise<{ message: string; recoveryCodes: string[] }> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth();
+  const recoveryCodes = await enableMockTwoFactor(currentUserId!, code);
+  return { message: 'Two-factor authentication is now enabled.', recoveryCodes };
+};
+
+export const disableTwoFactor = async (password: string, code: string): Promise<{ message: string }> => {
+  await delay(MOCK_API_DELAY);
+  const user = verifyOwnPassword(password);
+  if (mockTwoFactorPolicy.requiredRoles.includes(user.role)) {
+      throw { response: { status: 400, data: { message: 'Two-factor authentication is required for your role' } } };
+  }
+  if (!(await verifyMockTwoFactorCode(user.id, code))) throw invalidTwoFactorCode();
+  mockTwoFactor.delete(user.id);
+  return { message: 'Two-factor authentication has been disabled.' };
+};
+
+export const regenerateRecoveryCodes = async (password: string): Promise<{ recoveryCodes: string[] }> => {
+  await delay(MOCK_API_DELAY);
+  const user = verifyOwnPassword(password);
+  const entry = mockTwoFactor.get(user.id);
+  if (!entry?.enabledAt) throw { response: { status: 400, data: { message: 'Two-factor authentication is not enabled' } } };
+  const recoveryCodes = generateRecoveryCodes();
+  entry.recoveryCodes = recoveryCodes.map(normalizeRecoveryCode);
+  return { recoveryCodes };
+};
+
+export const fetchTwoFactorPolicy = async (): Promise<TwoFactorPolicy> => {
+  await delay(100);
+  checkAuth(Permission.SettingsManage);
+  return mockTwoFactorPolicy;
+};
+
+export const updateTwoFactorPolicy = async (policy: TwoFactorPolicy): Promise<TwoFactorPolicy> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.SettingsManage);
+  setMockTwoFactorPolicy({ requiredRoles: [...new Set(policy.requiredRoles)] });
+  return mockTwoFactorPolicy;
+};
+
+// For a user who lost their authenticator and recovery codes
+export const resetUserTwoFactor = async (userId: string, password: string): Promise<{ message: string }> => {
+  await delay(MOCK_API_DELAY);
+  verifyPasswordConfirmation(password, Permission.UsersManage);
+  if (!mockTwoFactor.get(userId)?.enabledAt) {
+      throw { response: { status: 400, data: { message: 'Two-factor authentication is not enabled for this user' } } };
+  }
+  mockTwoFactor.delete(userId);
+  return { message: 'Two-factor authentication has been reset. The user will set it up again at their next login if their role requires it.' };
+};
+
+// Lift a lockout caused by repeated failed sign-ins
+export const unlockUser = async (userId: string): Promise<{ message: string }> => {
+  await delay(MOCK_API_DELAY);
+  checkAuth(Permission.UsersManage);
+  const user = mockUsers.find(u => u.id === userId && !u.isDeleted);
+  if (!user) throw { response: { status: 404, data: { message: 'User not found' } } };
+  if (!mockLockedUntil(user.email)) {
+      throw { response: { status: 400, data: { message: 'This account is not locked' } } };
+  }
+  mockLockouts.delete(user.email.toLowerCase());
+  return { message: 'The account has been unlocked.' };
+};
+
 // --- User Activity & Sessions ---
 export const fetchUserSessions = async (): Promise<UserSession[]> => {
     await delay(150);
@@ -524,28 +1395,105 @@ export const unblockIp = async (ip: string): Promise<any> => {
 // --- Newsletters ---
 export const fetchNewsletters = async (): Promise<Newsletter[]> => {
     await delay(150);
-    return mockNewsletters;
+    return mockNewsletters.map(n => ({ ...n }));
 };
 
-export const sendNewsletter = async (subject: string, htmlContent: string, recipientGroup: string): Promise<any> => {
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// De-duplicated addresses for an audience segment, from live orders and inquiries
+const getMockAudience = (group: NewsletterRecipientGroup, customRecipients: string[] = []): string[] => {
+    const recentSince = subDays(new Date(), 30);
+    const liveOrders = mockOrders.filter(o => !o.isDeleted);
+    const liveInquiries = mockInquiries.filter(i => !i.isDeleted);
+    const emails = {
+        all_customers: [...liveOrders.map(o => o.customerEmail), ...liveInquiries.map(i => i.customerEmail)],
+        recent_customers: liveOrders.filter(o => new Date(o.createdAt) >= recentSince).map(o => o.customerEmail),
+        inquiry_customers: liveInquiries.map(i => i.customerEmail),
+        custom: customRecipients,
+    }[group];
+    return [...new Set(emails.map(e => e.trim().toLowerCase()).filter(e => EMAIL_PATTERN.test(e)))].sort();
+};
+
+export const fetchNewsletterAudiences = async (): Promise<Record<string, number>> => {
+    await delay(150);
+    return {
+        all_customers: getMockAudience('all_customers').length,
+        recent_customers: getMockAudience('recent_customers').length,
+        inquiry_customers: getMockAudience('inquiry_customers').length,
+    };
+};
+
+// Simulated background delivery; addresses on .invalid domains bounce
+const deliverMockNewsletter = (newsletterId: string) => {
+    setTimeout(() => {
+        const newsletter = mockNewsletters.find(n => n.id === newsletterId);
+        if (!newsletter) return;
+        mockNewsletterRecipients.filter(r => r.newsletter_id === newsletterId && r.status === 'pending').forEach(r => {
+            const bounced = r.email.endsWith('.invalid');
+            r.status = bounced ? 'failed' : 'sent';
+            r.error = bounced ? 'Recipient address rejected' : null;
+            r.attempts += 1;
+            r.sent_at = bounced ? null : new Date().toISOString();
+        });
+        const recipients = mockNewsletterRecipients.filter(r => r.newsletter_id === newsletterId);
+        newsletter.success_count = recipients.filter(r => r.status === 'sent').length;
+        newsletter.fail_count = recipients.filter(r => r.status === 'failed').length;
+        newsletter.status = newsletter.success_count === 0 ? 'failed' : 'completed';
+        newsletter.completed_at = new Date().toISOString();
+    }, MOCK_API_DELAY * 10);
+};
+
+export const sendNewsletter = async (subject: string, htmlContent: string, recipientGroup: NewsletterRecipientGroup, customRecipients?: string[]): Promise<Newsletter> => {
     await delay(MOCK_API_DELAY * 2);
+    checkAuth(Permission.NewslettersSend);
+    const recipients = getMockAudience(recipientGroup, customRecipients);
+    if (recipients.length === 0) {
+        throw { response: { status: 400, data: { message: 'No recipients found for this audience' } } };
+    }
     const user = mockUsers.find(u => u.id === currentUserId);
     const newNewsletter: Newsletter = {
         id: uuid(),
         subject,
         html_content: htmlContent,
-        recipient_group: recipientGroup as any,
-        total_recipients: 10,
-        success_count: 9,
-        fail_count: 1,
-        status: 'completed',
+        recipient_group: recipientGroup,
+        total_recipients: recipients.length,
+        success_count: 0,
+        fail_count: 0,
+        status: 'sending',
         sent_by_user_id: currentUserId!,
         sent_by_name: user!.name,
         created_at: new Date().toISOString(),
-        completed_at: new Date().toISOString()
     };
     mockNewsletters.unshift(newNewsletter);
-    return { message: "Newsletter sent." };
+    let nextId = Math.max(0, ...mockNewsletterRecipients.map(r => r.id)) + 1;
+    recipients.forEach(email => {
+        mockNewsletterRecipients.push({ id: nextId++, newsletter_id: newNewsletter.id, email, status: 'pending', error: null, attempts: 0, sent_at: null });
+    });
+    deliverMockNewsletter(newNewsletter.id);
+    return { ...newNewsletter };
+};
+
+export const fetchNewsletterRecipients = async (newsletterId: string, status?: NewsletterRecipient['status']): Promise<NewsletterRecipient[]> => {
+    await delay(150);
+    return mockNewsletterRecipients
+        .filter(r => r.newsletter_id === newsletterId && (!status || r.status === status))
+        .map(r => ({ ...r }));
+};
+
+export const resendNewsletter = async (newsletterId: string): Promise<Newsletter> => {
+    await delay(MOCK_API_DELAY);
+    checkAuth(Permission.NewslettersSend);
+    const newsletter = mockNewsletters.find(n => n.id === newsletterId);
+    if (!newsletter) throw { response: { status: 404, data: { message: 'Newsletter not found' } } };
+    if (newsletter.status === 'sending') throw { response: { status: 400, data: { message: 'Newsletter is still being sent' } } };
+
+    const failed = mockNewsletterRecipients.filter(r => r.newsletter_id === newsletterId && r.status === 'failed');
+    if (failed.length === 0) throw { response: { status: 400, data: { message: 'There are no failed recipients to resend to' } } };
+    failed.forEach(r => { r.status = 'pending'; r.error = null; });
+    newsletter.status = 'sending';
+    newsletter.completed_at = undefined;
+    deliverMockNewsletter(newsletterId);
+    return { ...newsletter };
 };
 
 // Mock axios default export for compatibility if any component imports it directly
@@ -0,0 +1,59 @@
+import { CustomerInquiry, InquiryRoutingSettings, InquirySla, InquirySlaKind, InquiryStatus } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Mirrors the backend defaults
+export const DEFAULT_INQUIRY_ROUTING: InquiryRoutingSettings = {
+    strategy: 'manual',
+    slaTargets: {
+        [InquiryStatus.Pending]: { firstResponseHours: 24, resolutionHours: 72 },
+        [InquiryStatus.InProgress]: { firstResponseHours: 24, resolutionHours: 72 },
+        [InquiryStatus.Completed]: { firstResponseHours: null, resolutionHours: null },
+    },
+};
+
+// Same calculation as the backend: the nearest deadline not yet met in the current status
+export const computeInquirySla = (
+    inquiry: Pick<CustomerInquiry, 'status' | 'createdAt' | 'firstRespondedAt'>,
+    settings: InquiryRoutingSettings,
+    now = Date.now()
+): InquirySla | undefined => {
+    const target = settings.slaTargets[inquiry.status];
+    if (!target) return undefined;
+
+    const received = new Date(inquiry.createdAt).getTime();
+    const firstResponseDue = !inquiry.firstRespondedAt && target.firstResponseHours !== null
+        ? received + target.firstResponseHours * HOUR_MS
+        : undefined;
+    const resolutionDue = target.resolutionHours !== null ? received + target.resolutionHours * HOUR_MS : undefined;
+
+    const deadlines: [InquirySlaKind, number][] = [];
+    if (firstResponseDue !== undefined) deadlines.push(['first_response', firstResponseDue]);
+    if (resolutionDue !== undefined) deadlines.push(['resolution', resolutionDue]);
+    if (deadlines.length === 0) return undefined;
+
+    const [dueFor, due] = deadlines.reduce((nearest, deadline) => (deadline[1] < nearest[1] ? deadline : nearest));
+    return {
+        firstResponseDueAt: firstResponseDue !== undefined ? new Date(firstResponseDue).toISOString() : undefined,
+        resolutionDueAt: resolutionDue !== undefined ? new Date(resolutionDue).toISOString() : undefined,
+        dueAt: new Date(due).toISOString(),
+        dueFor,
+        remainingMinutes: Math.round((due - now) / 60000),
+        overdue: due <= now,
+    };
+};
+
+const formatDuration = (minutes: number) => {
+    const days = Math.floor(minutes / (24 * 60));
+    const hours = Math.floor((minutes % (24 * 60)) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+};
+
+export const formatSlaRemaining = (sla: InquirySla) => {
+    const label = sla.dueFor === 'first_response' ? 'first response' : 'resolution';
+    return sla.overdue
+        ? `${label} overdue by ${formatDuration(-sla.remainingMinutes)}`
+        : `${formatDuration(sla.remainingMinutes)} left for ${label}`;
+};
@@ -1,6 +1,7 @@
 
 
-import { User, Role, InventoryItem, CustomerInquiry, InquiryStatus, Order, OrderStatus, OrderItem, Discount, DiscountType, Email, UserSession, SecurityLog, BlockedIP, Newsletter, InquiryResponse, InventoryMovement, InventoryMovementType } from '../types';
+import { User, Role, InventoryItem, CustomerInquiry, InquiryStatus, Order, OrderStatus, OrderItem, Discount, DiscountType, Email, UserSession, SecurityLog, BlockedIP, Newsletter, NewsletterRecipient, InquiryResponse, InventoryMovement, InventoryMovementType, OrderStatusChange, OrderReturn, InquiryRoutingSettings, TwoFactorPolicy, Permission, PermissionDefinition, RoleDefinition, UserPermissionOverrides, AuditLogEntry, BackupSchedule, BackupRun } from '../types';
+import { DEFAULT_INQUIRY_ROUTING } from './inquirySla';
 
 const uuid = () => crypto.randomUUID();
 const now = new Date();
@@ -42,12 +43,95 @@ export let mockInquiryResponses: InquiryResponse[] = [
 ];
 export const setMockInquiryResponses = (data: InquiryResponse[]) => { mockInquiryResponses = data; };
 
+export let mockInquiryRouting: InquiryRoutingSettings = DEFAULT_INQUIRY_ROUTING;
+export const setMockInquiryRouting = (data: InquiryRoutingSettings) => { mockInquiryRouting = data; };
+
+export let mockTwoFactorPolicy: TwoFactorPolicy = { requiredRoles: [] };
+export const setMockTwoFactorPolicy = (data: TwoFactorPolicy) => { mockTwoFactorPolicy = data; };
+
+export let mockBackupSchedule: BackupSchedule = { enabled: false, frequency: 'daily', retention: { daily: 7, weekly: 4, monthly: 12 } };
+export const setMockBackupSchedule = (data: BackupSchedule) => { mockBackupSchedule = data; };
+
+export let mockBackupRuns: BackupRun[] = [
+  { id: uuid(), trigger: 'manual', startedAt: subDays(now, 2).toISOString(), finishedAt: subDays(now, 2).toISOString(), success: true, filename: `backup-${subDays(now, 2).getTime()}.json`, error: null, pruned: 0, triggeredBy: null },
+];
+
+// --- ROLES & PERMISSIONS ---
+export const mockPermissionCatalogue: PermissionDefinition[] = [
+  { key: Permission.InventoryView, group: 'Inventory', description: 'View inventory items and stock movements' },
+  { key: Permission.InventoryCreate, group: 'Inventory', description: 'Add inventory items' },
+  { key: Permission.InventoryUpdate, group: 'Inventory', description: 'Edit inventory items' },
+  { key: Permission.InventoryPricing, group: 'Inventory', description: 'Change the price of inventory items' },
+  { key: Permission.InventoryAdjust, group: 'Inventory', description: 'Record stock movements' },
+  { key: Permission.InventoryDelete, group: 'Inventory', description: 'Archive and restore inventory items' },
+  { key: Permission.InventoryPurge, group: 'Inventory', description: 'Permanently delete inventory items' },
+  { key: Permission.OrdersView, group: 'Orders', description: 'View orders, their history and returns' },
+  { key: Permission.OrdersCreate, group: 'Orders', description: 'Place orders' },
+  { key: Permission.OrdersUpdateStatus, group: 'Orders', description: 'Move orders through their statuses' },
+  { key: Permission.OrdersRefund, group: 'Orders', description: 'Record returns and issue refunds' },
+  { key: Permission.OrdersDelete, group: 'Orders', description: 'Archive and restore orders' },
+  { key: Permission.OrdersPurge, group: 'Orders', description: 'Permanently delete orders' },
+  { key: Permission.InquiriesView, group: 'Inquiries', description: 'View customer inquiries and responses' },
+  { key: Permission.InquiriesCreate, group: 'Inquiries', description: 'Log customer inquiries' },
+  { key: Permission.InquiriesUpdate, group: 'Inquiries', description: 'Edit, assign and close inquiries' },
+  { key: Permission.InquiriesRespond, group: 'Inquiries', description: 'Reply to customers' },
+  { key: Permission.InquiriesDelete, group: 'Inquiries', description: 'Archive and restore inquiries' },
+  { key: Permission.InquiriesPurge, group: 'Inquiries', description: 'Permanently delete inquiries' },
+  { key: Permission.DiscountsView, group: 'Discounts', description: 'View discounts and their statistics' },
+  { key: Permission.DiscountsCreate, group: 'Discounts', description: 'Create discounts' },
+  { key: Permission.DiscountsUpdate, group: 'Discounts', description: 'Edit and deactivate discounts' },
+  { key: Permission.DiscountsDelete, group: 'Discounts', description: 'Archive and restore discounts' },
+  { key: Permission.DiscountsPurge, group: 'Discounts', description: 'Permanently delete discounts' },
+  { key: Permission.EmailsView, group: 'Email', description: 'View sent emails and their attachments' },
+  { key: Permission.EmailsSend, group: 'Email', description: 'Send and retry emails' },
+  { key: Permission.EmailsDelete, group: 'Email', description: 'Archive and restore emails' },
+  { key: Permission.EmailsPurge, group: 'Email', description: 'Permanently delete emails' },
+  { key: Permission.NewslettersView, group: 'Newsletters', description: 'View newsletters and their recipients' },
+  { key: Permission.NewslettersSend, group: 'Newsletters', description: 'Send and resend newsletters' },
+  { key: Permission.ReportsView, group: 'Reports', description: 'View sales reports and user activity' },
+  { key: Permission.UsersManage, group: 'Administration', description: 'Create, edit, archive and unlock users' },
+  { key: Permission.RolesManage, group: 'Administration', description: 'Edit roles and the permissions of individual users' },
+  { key: Permission.SessionsManage, group: 'Administration', description: 'View and end the sessions of other users' },
+  { key: Permission.SecurityManage, group: 'Administration', description: 'View security events and unblock addresses' },
+  { key: Permission.SettingsView, group: 'Administration', description: 'View system settings such as inquiry routing' },
+  { key: Permission.SettingsManage, group: 'Administration', description: 'Change system settings and security policies' },
+  { key: Permission.BackupsManage, group: 'Administration', description: 'Create and restore backups' },
+  { key: Permission.AuditView, group: 'Administration', description: 'View the audit trail of changes to records' },
+];
+
+export let mockRoles: RoleDefinition[] = [
+  { name: Role.Admin, description: 'Full access to everything', permissions: Object.values(Permission), isSystem: true },
+  { name: Role.Manager, description: 'Runs the day-to-day business', isSystem: true, permissions: [
+    Permission.InventoryView, Permission.InventoryCreate, Permission.InventoryUpdate, Permission.InventoryPricing,
+    Permission.InventoryAdjust, Permission.InventoryDelete,
+    Permission.OrdersView, Permission.OrdersCreate, Permission.OrdersUpdateStatus, Permission.OrdersRefund, Permission.OrdersDelete,
+    Permission.InquiriesView, Permission.InquiriesCreate, Permission.InquiriesUpdate, Permission.InquiriesRespond,
+    Permission.DiscountsView, Permission.DiscountsCreate, Permission.DiscountsUpdate, Permission.DiscountsDelete,
+    Permission.EmailsView, Permission.EmailsSend, Permission.EmailsDelete,
+    Permission.NewslettersView, Permission.NewslettersSend,
+    Permission.ReportsView, Permission.SettingsView,
+  ] },
+  { name: Role.Staff, description: 'Handles orders and customer inquiries', isSystem: true, permissions: [
+    Permission.InventoryView,
+    Permission.OrdersView, Permission.OrdersCreate, Permission.OrdersRefund,
+    Permission.InquiriesView, Permission.InquiriesCreate, Permission.InquiriesUpdate, Permission.InquiriesRespond,
+  ] },
+];
+export const setMockRoles = (data: RoleDefinition[]) => { mockRoles = data; };
+
+// Grants and denials by user id
+export const mockUserPermissionOverrides = new Map<string, UserPermissionOverrides>();
+
 // --- ORDERS ---
+// Order lines are numbered like the server's integer row ids
+let lastOrderItemId = 0;
+export const nextOrderItemId = () => ++lastOrderItemId;
+
 const createOrderItems = (orderId: string, items: { inventoryId: string; quantity: number }[]): OrderItem[] => {
     return items.map(item => {
         const inventoryItem = mockInventory.find(i => i.id === item.inventoryId)!;
         return {
-            id: uuid(),
+            id: nextOrderItemId(),
             order_id: orderId,
             inventory_item_id: inventoryItem.id,
             quantity: item.quantity,
@@ -74,6 +158,19 @@ export let mockOrders: Order[] = [
 ];
 export const setMockOrders = (data: Order[]) => { mockOrders = data; };
 
+export let mockOrderStatusHistory: OrderStatusChange[] = [
+  { id: uuid(), orderId: order1Id, fromStatus: null, toStatus: OrderStatus.Processing, note: 'Order created', changedBy: 'user-staff-01', changedByName: 'Staff User', changedAt: subDays(now, 5).toISOString() },
+  { id: uuid(), orderId: order1Id, fromStatus: OrderStatus.Processing, toStatus: OrderStatus.Shipped, changedBy: 'user-manager-01', changedByName: 'Manager User', changedAt: subDays(now, 4).toISOString() },
+  { id: uuid(), orderId: order1Id, fromStatus: OrderStatus.Shipped, toStatus: OrderStatus.Delivered, changedBy: 'user-manager-01', changedByName: 'Manager User', changedAt: subDays(now, 2).toISOString() },
+  { id: uuid(), orderId: order2Id, fromStatus: null, toStatus: OrderStatus.Processing, note: 'Order created', changedBy: 'user-staff-01', changedByName: 'Staff User', changedAt: subDays(now, 2).toISOString() },
+  { id: uuid(), orderId: order2Id, fromStatus: OrderStatus.Processing, toStatus: OrderStatus.Shipped, note: 'Shipped with tracking #TRK123', changedBy: 'user-manager-01', changedByName: 'Manager User', changedAt: subDays(now, 1).toISOString() },
+  { id: uuid(), orderId: order3Id, fromStatus: null, toStatus: OrderStatus.Processing, note: 'Order created', changedBy: 'user-manager-01', changedByName: 'Manager User', changedAt: subDays(now, 1).toISOString() },
+];
+export const setMockOrderStatusHistory = (data: OrderStatusChange[]) => { mockOrderStatusHistory = data; };
+
+export let mockOrderReturns: OrderReturn[] = [];
+export const setMockOrderReturns = (data: OrderReturn[]) => { mockOrderReturns = data; };
+
 // --- DISCOUNTS ---
 export let mockDiscounts: Discount[] = [
   { id: 'discount-01', code: 'SUMMER10', description: '10% off for Summer Sale', type: DiscountType.Percentage, value: 10, min_spend: 50, isActive: true, usedCount: 5, createdBy: 'user-admin-01' },
@@ -84,8 +181,9 @@ export const setMockDiscounts = (data: Discount[]) => { mockDiscounts = data; };
 
 // --- EMAILS ---
 export let mockEmails: Email[] = [
-  { id: uuid(), recipient: 'jane.s@example.com', subject: 'Re: Warranty Information', body: 'Hi Jane, the warranty for the Electric desk is 60 months (5 years) on the frame and motor. Thanks!', sentAt: subDays(now, 2).toISOString() },
-  { id: uuid(), recipient: 'charlie.b@example.com', subject: 'Your Order #... is being processed', body: 'Thank you for your order! We will notify you when it ships.', sentAt: subDays(now, 1).toISOString(), attachment_path: '/receipts/receipt-order-123.pdf' },
+  { id: uuid(), recipient: 'jane.s@example.com', subject: 'Re: Warranty Information', body: 'Hi Jane, the warranty for the Electric desk is 60 months (5 years) on the frame and motor. Thanks!', status: 'sent', attempts: 1, createdAt: subDays(now, 2).toISOString(), sentAt: subDays(now, 2).toISOString() },
+  { id: uuid(), recipient: 'charlie.b@example.com', subject: 'Your Order #... is being processed', body: 'Thank you for your order! We will notify you when it ships.', status: 'sent', attempts: 1, createdAt: subDays(now, 1).toISOString(), sentAt: subDays(now, 1).toISOString(), attachments: [{ name: 'receipt-order-123.pdf', contentType: 'application/pdf', size: 48213, path: '/receipts/receipt-order-123.pdf' }], attachment_path: '/receipts/receipt-order-123.pdf' },
+  { id: uuid(), recipient: 'old.customer@example.invalid', subject: 'Your quote is ready', body: 'Hello, the quote you asked for is attached to your account.', status: 'failed', attempts: 5, lastError: 'Recipient address rejected', createdAt: subDays(now, 1).toISOString() },
 ];
 export const setMockEmails = (data: Email[]) => { mockEmails = data; };
 
@@ -104,6 +202,10 @@ export let mockSecurityLogs: SecurityLog[] = [
 ];
 export const setMockSecurityLogs = (data: SecurityLog[]) => { mockSecurityLogs = data; };
 
+// --- AUDIT LOG ---
+export let mockAuditLog: AuditLogEntry[] = [];
+export const setMockAuditLog = (data: AuditLogEntry[]) => { mockAuditLog = data; };
+
 // --- BLOCKED IPS ---
 export let mockBlockedIPs: BlockedIP[] = [
     { ip: '10.0.0.5', reason: 'Too many failed login attempts', blockedAt: new Date().toISOString(), expiresAt: new Date(now.getTime() + 60*60*1000).toISOString(), pathsAttempted: 5 }
@@ -111,11 +213,25 @@ export let mockBlockedIPs: BlockedIP[] = [
 export const setMockBlockedIPs = (data: BlockedIP[]) => { mockBlockedIPs = data; };
 
 // --- NEWSLETTERS ---
+const newsletter1Id = uuid();
 export let mockNewsletters: Newsletter[] = [
-    { id: uuid(), subject: 'Summer Sale is Here!', html_content: '<h1>Big Savings!</h1><p>Get 10% off everything.</p>', recipient_group: 'all_customers', total_recipients: 150, success_count: 148, fail_count: 2, status: 'completed', sent_by_user_id: 'user-manager-01', sent_by_name: 'Manager User', created_at: subDays(now, 10).toISOString() }
+    { id: newsletter1Id, subject: 'Summer Sale is Here!', html_content: '<h1>Big Savings!</h1><p>Get 10% off everything.</p>', recipient_group: 'all_customers', total_recipients: 6, success_count: 5, fail_count: 1, status: 'completed', sent_by_user_id: 'user-manager-01', sent_by_name: 'Manager User', created_at: subDays(now, 10).toISOString(), completed_at: subDays(now, 10).toISOString() }
 ];
 export const setMockNewsletters = (data: Newsletter[]) => { mockNewsletters = data; };
 
+export let mockNewsletterRecipients: NewsletterRecipient[] = [
+    'alice.j@example.com', 'bob.w@example.com', 'charlie.b@example.com', 'jane.s@example.com', 'john.d@example.com', 'sam.w@example.com'
+].map((email, index) => ({
+    id: index + 1,
+    newsletter_id: newsletter1Id,
+    email,
+    status: email === 'bob.w@example.com' ? 'failed' : 'sent',
+    error: email === 'bob.w@example.com' ? 'Mailbox unavailable' : null,
+    attempts: 1,
+    sent_at: email === 'bob.w@example.com' ? null : subDays(now, 10).toISOString(),
+}));
+export const setMockNewsletterRecipients = (data: NewsletterRecipient[]) => { mockNewsletterRecipients = data; };
+
 // --- INVENTORY MOVEMENTS ---
 export let mockInventoryMovements: InventoryMovement[] = [
     { id: uuid(), itemId: mockInventory[0].id, type: InventoryMovementType.StockOut, quantityChange: -2, relatedOrderId: order1Id, timestamp: subDays(now, 5).toISOString(), userId: 'user-staff-01', user_name: 'Staff User', reason: 'Sale' },
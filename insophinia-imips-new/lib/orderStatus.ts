@@ -0,0 +1,15 @@
+import { OrderStatus } from '../types';
+
+// Mirrors the backend lifecycle: cancel only before shipping, refund only after delivery
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.Processing]: [OrderStatus.Shipped, OrderStatus.Cancelled],
+    [OrderStatus.Shipped]: [OrderStatus.Delivered],
+    [OrderStatus.Delivered]: [OrderStatus.Refunded],
+    [OrderStatus.Cancelled]: [],
+    [OrderStatus.Refunded]: [],
+};
+
+export const getNextStatuses = (status: OrderStatus): OrderStatus[] => ORDER_STATUS_TRANSITIONS[status] || [];
+
+// Statuses that put the order's items back in stock
+export const RESTOCKING_STATUSES = [OrderStatus.Cancelled, OrderStatus.Refunded];
@@ -0,0 +1,75 @@
+// RFC 6238 time-based one-time passwords, matching the backend (SHA-1, 6 digits, 30 s)
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1;
+const ISSUER = 'Insophinia IMIPS';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (bytes: Uint8Array): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    bytes.forEach(byte => {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    });
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+};
+
+const base32Decode = (input: string): Uint8Array => {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of input.toUpperCase().replace(/[\s=]/g, '')) {
+        value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const currentTotpStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+export const totpCode = async (secret: string, step: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const counter = new DataView(new ArrayBuffer(8));
+    counter.setUint32(0, Math.floor(step / 2 ** 32));
+    counter.setUint32(4, step >>> 0);
+    const hmac = new DataView(await crypto.subtle.sign('HMAC', key, counter.buffer));
+    const offset = hmac.getUint8(hmac.byteLength - 1) & 0x0f;
+    const binary = hmac.getUint32(offset) & 0x7fffffff;
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+/**
+ * Time step the code belongs to, or null when it matches none within the allowed drift
+ */
+export const verifyTotp = async (secret: string, code: string, now = Date.now()): Promise<number | null> => {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+    const current = currentTotpStep(now);
+    for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+        if ((await totpCode(secret, step)) === normalized) return step;
+    }
+    return null;
+};
+
+export const totpProvisioningUri = (secret: string, accountName: string) => {
+    const params = new URLSearchParams({ secret, issuer: ISSUER, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+    return `otpauth://totp/${encodeURIComponent(`${ISSUER}:${accountName}`)}?${params.toString()}`;
+};
+
+/**
+ * Secret split into groups of four for typing into an authenticator app by hand
+ */
+export const formatTotpSecret = (secret: string) => secret.replace(/(.{4})(?=.)/g, '$1 ');
@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { User, Role, UserSession } from '../types';
+import { User, Permission, UserSession } from '../types';
 import Card from '../components/common/Card';
 import PageHeader from '../components/common/PageHeader';
 import { UserGroupIcon, EyeIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/solid';
@@ -57,7 +57,7 @@ const SessionHistoryModal: React.FC<{ user: User; sessions: UserSession[]; onClo
 
 
 const ActivityLogPage: React.FC = () => {
-    const { user: currentUser, forceLogoutUser } = useAuth();
+    const { user: currentUser, forceLogoutUser, hasPermission } = useAuth();
     const { users, userSessions, isLoading, refreshData } = useData();
     const { showToast } = useToast();
     const [historyModalUser, setHistoryModalUser] = useState<User | null>(null);
@@ -67,9 +67,13 @@ const ActivityLogPage: React.FC = () => {
         return (new Date().getTime() - parseISO(user.lastActivity).getTime()) < ACTIVITY_TIMEOUT_MS;
     };
     
-    const handleForceLogout = (userToLogout: User) => {
-        forceLogoutUser(userToLogout.id);
-        showToast(`Session for ${userToLogout.name} has been invalidated. They will be logged out shortly.`, 'info');
+    const handleForceLogout = async (userToLogout: User) => {
+        try {
+            await forceLogoutUser(userToLogout.id);
+            showToast(`All sessions for ${userToLogout.name} have been revoked. They will be logged out on their next request.`, 'info');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || `Failed to log out ${userToLogout.name}.`, 'error');
+        }
     };
 
     const columns: Column<User>[] = useMemo(() => [
@@ -117,7 +121,7 @@ const ActivityLogPage: React.FC = () => {
                     <button onClick={() => setHistoryModalUser(user)} className="p-2 text-blue-600 hover:text-blue-800" title="View Session History">
                         <EyeIcon className="h-5 w-5" />
                     </button>
-                    {currentUser?.role === Role.Admin && currentUser?.id !== user.id && (
+                    {hasPermission(Permission.SessionsManage) && currentUser?.id !== user.id && (
                         <button onClick={() => handleForceLogout(user)} className="p-2 text-yellow-600 hover:text-yellow-800" title="Force Logout">
                             <ArrowRightOnRectangleIcon className="h-5 w-5" />
                         </button>
@@ -127,7 +131,7 @@ const ActivityLogPage: React.FC = () => {
         }
     ], [currentUser]);
 
-    if (currentUser?.role !== Role.Admin && currentUser?.role !== Role.Manager) {
+    if (!hasPermission(Permission.ReportsView, Permission.SessionsManage)) {
         return <Card><p className="text-red-500 font-bold">Access Denied. You do not have permission to view this page.</p></Card>;
     }
     
@@ -144,7 +148,7 @@ const ActivityLogPage: React.FC = () => {
                     columns={columns}
                     isLoading={isLoading}
                     searchableColumns={['name', 'email']}
-                    filterableColumn={{ accessor: 'role', header: 'Role', options: Object.values(Role) }}
+                    filterableColumn={{ accessor: 'role', header: 'Role', options: [...new Set<string>(users.map(user => user.role))] }}
                 />
             </Card>
 
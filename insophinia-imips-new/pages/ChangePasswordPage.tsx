@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import { KeyIcon } from '@heroicons/react/24/solid';
+import ValidatedInput from '../components/common/ValidatedInput';
+import { validate, VALIDATION_RULES } from '../lib/validation';
+import { changePassword } from '../lib/api';
+
+/**
+ * Shown instead of the app to a user who signed in with a temporary password
+ */
+const ChangePasswordPage: React.FC = () => {
+  const { user, logout, updateAuthenticatedUser } = useAuth();
+  const { showToast } = useToast();
+  const [formData, setFormData] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const newPasswordError = formData.newPassword ? validate(formData.newPassword, [VALIDATION_RULES.password]) : null;
+  const confirmError = formData.confirmPassword && formData.confirmPassword !== formData.newPassword ? 'Passwords do not match.' : null;
+  const isFormValid = !!formData.currentPassword && !!formData.newPassword && !newPasswordError && !!formData.confirmPassword && !confirmError;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !isFormValid) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const result = await changePassword(user.id, formData.currentPassword, formData.newPassword);
+      showToast(result.message, 'success');
+      updateAuthenticatedUser({ mustChangePassword: false });
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to change password. Please check your current password.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <div className="max-w-md w-full bg-white shadow-xl rounded-lg p-8 space-y-6">
+        <div className="flex flex-col items-center">
+          <KeyIcon className="h-16 w-16 text-brand-primary" />
+          <h2 className="mt-4 text-2xl font-extrabold text-center text-gray-900">Choose a New Password</h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Welcome, {user?.name}. You signed in with a temporary password and need to replace it before continuing.
+          </p>
+        </div>
+        <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+          <ValidatedInput label="Temporary Password" name="currentPassword" type="password" autoComplete="current-password" value={formData.currentPassword} onChange={handleChange} error={null} required />
+          <ValidatedInput label="New Password" name="newPassword" type="password" autoComplete="new-password" value={formData.newPassword} onChange={handleChange} error={newPasswordError} required />
+          <ValidatedInput label="Confirm New Password" name="confirmPassword" type="password" autoComplete="new-password" value={formData.confirmPassword} onChange={handleChange} error={confirmError} required />
+          {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+          <div className="flex justify-between items-center pt-2">
+            <button type="button" onClick={logout} className="text-sm font-medium text-gray-600 hover:text-gray-800">Sign out</button>
+            <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={isSaving || !isFormValid}>
+              {isSaving ? 'Saving...' : 'Change Password'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordPage;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { InquiryStatus, Page, Role, OrderStatus, User } from '../types';
+import { InquiryStatus, Page, Permission, OrderStatus, User } from '../types';
 import Card from '../components/common/Card';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell,
@@ -9,12 +9,13 @@ import {
 import { ArchiveBoxIcon, UsersIcon, ChatBubbleLeftRightIcon, ClipboardDocumentListIcon, CurrencyDollarIcon, ArrowUturnLeftIcon, HomeIcon, TrophyIcon, ExclamationTriangleIcon, UserGroupIcon, ClockIcon, TicketIcon } from '@heroicons/react/24/solid';
 import AuthenticatedImage from '../components/common/AuthenticatedImage';
 import { subDays, format, parseISO } from 'date-fns';
+import { formatSlaRemaining } from '../lib/inquirySla';
 
 interface DashboardPageProps {
   setCurrentPage: (page: Page) => void;
 }
 
-const StatCard: React.FC<{ icon: React.ElementType; title: string; value: string | number; color: string; }> = ({ icon: Icon, title, value, color }) => (
+const StatCard: React.FC<{ icon: React.ElementType; title: string; value: string | number; color: string; subtitle?: string; }> = ({ icon: Icon, title, value, color, subtitle }) => (
     <Card className="flex items-center h-full">
         <div className={`p-3 rounded-full mr-4 ${color}`}>
             <Icon className="h-8 w-8 text-white" />
@@ -22,6 +23,7 @@ const StatCard: React.FC<{ icon: React.ElementType; title: string; value: string
         <div>
             <p className="text-sm text-gray-500">{title}</p>
             <p className="text-2xl font-bold text-gray-800">{value}</p>
+            {subtitle && <p className="text-xs text-gray-500">{subtitle}</p>}
         </div>
     </Card>
 );
@@ -36,7 +38,7 @@ const formatFullCurrency = (amount: number) => {
 
 const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
     const { inventory, inquiries, users, orders, discounts, isLoading } = useData();
-    const { user } = useAuth();
+    const { user, hasPermission } = useAuth();
 
     if (isLoading) {
         return <div className="text-center py-10">Loading dashboard data...</div>;
@@ -45,18 +47,25 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
     // --- Data Processing ---
     const lowStockItems = inventory.filter(item => item.quantity <= item.threshold);
     const pendingInquiries = inquiries.filter(inq => inq.status === InquiryStatus.Pending);
-    const totalRevenue = orders.reduce((acc, order) => acc + order.total, 0);
+    // Open inquiries with an SLA deadline, most urgent first
+    const dueInquiries = inquiries
+        .filter(inq => inq.sla)
+        .sort((a, b) => new Date(a.sla!.dueAt).getTime() - new Date(b.sla!.dueAt).getTime());
+    const overdueInquiries = dueInquiries.filter(inq => inq.sla!.overdue);
+    // Cancelled orders were never sales and don't count towards revenue
+    const salesOrders = orders.filter(o => o.status !== OrderStatus.Cancelled);
+    const totalRevenue = salesOrders.reduce((acc, order) => acc + (order.netTotal ?? order.total), 0);
     const ongoingOrders = orders.filter(o => o.status === OrderStatus.Processing || o.status === OrderStatus.Shipped);
-    const refundTotal = orders.filter(o => o.status === OrderStatus.Refunded).reduce((acc, order) => acc + order.total, 0);
+    const refundTotal = orders.reduce((acc, order) => acc + (order.refundedAmount || 0), 0);
     const activeDiscounts = discounts.filter(d => d.isActive);
 
     // Sales in the last 30 days
     const last30Days = subDays(new Date(), 30);
-    const salesLast30Days = orders.filter(o => parseISO(o.createdAt) >= last30Days);
+    const salesLast30Days = salesOrders.filter(o => parseISO(o.createdAt) >= last30Days);
 
     const salesByDay = salesLast30Days.reduce((acc, order) => {
         const day = format(parseISO(order.createdAt), 'MMM dd');
-        acc[day] = (acc[day] || 0) + order.total;
+        acc[day] = (acc[day] || 0) + (order.netTotal ?? order.total);
         return acc;
     }, {} as Record<string, number>);
 
@@ -67,7 +76,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
     
     // Top selling products by revenue
     // FIX: Correctly access properties on the 'OrderItem' type.
-    const productSales = orders.flatMap(order => order.items).reduce((acc, item) => {
+    const productSales = salesOrders.flatMap(order => order.items).reduce((acc, item) => {
       acc[item.name] = (acc[item.name] || { quantity: 0, revenue: 0, imageUrl: item.image_url });
       acc[item.name].quantity += item.quantity;
       acc[item.name].revenue += item.quantity * item.price_at_purchase;
@@ -102,7 +111,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
     const recentOrders = [...orders].sort((a, b) => parseISO(b.createdAt).getTime() - parseISO(a.createdAt).getTime()).slice(0, 5);
 
     const handleCardClick = (page: Page) => {
-        if (page === Page.Users && user?.role !== Role.Admin) {
+        if (page === Page.Users && !hasPermission(Permission.UsersManage)) {
             return;
         }
         setCurrentPage(page);
@@ -129,7 +138,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
                     <StatCard icon={ArrowUturnLeftIcon} title="Total Refunds" value={formatCurrency(refundTotal)} color="bg-gray-500" />
                 </div>
                 <div onClick={() => handleCardClick(Page.Inquiries)} className="cursor-pointer transition-transform transform hover:scale-105">
-                     <StatCard icon={ChatBubbleLeftRightIcon} title="Pending Inquiries" value={pendingInquiries.length} color="bg-blue-500" />
+                     <StatCard icon={ChatBubbleLeftRightIcon} title="Pending Inquiries" value={pendingInquiries.length} color="bg-blue-500" subtitle={overdueInquiries.length > 0 ? `${overdueInquiries.length} overdue` : dueInquiries.length > 0 ? `Next due ${format(parseISO(dueInquiries[0].sla!.dueAt), 'MMM dd, HH:mm')}` : undefined} />
                 </div>
                 <div onClick={() => handleCardClick(Page.Inventory)} className="cursor-pointer transition-transform transform hover:scale-105">
                     <StatCard icon={ExclamationTriangleIcon} title="Low Stock Items" value={lowStockItems.length} color="bg-yellow-500" />
@@ -137,7 +146,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
                  <div onClick={() => handleCardClick(Page.Discounts)} className="cursor-pointer transition-transform transform hover:scale-105">
                     <StatCard icon={TicketIcon} title="Active Discounts" value={activeDiscounts.length} color="bg-pink-500" />
                 </div>
-                {user?.role === Role.Admin && (
+                {hasPermission(Permission.UsersManage) && (
                     <div onClick={() => handleCardClick(Page.Users)} className="cursor-pointer transition-transform transform hover:scale-105">
                         <StatCard icon={UsersIcon} title="Total Users" value={users.length} color="bg-purple-500" />
                     </div>
@@ -253,16 +262,16 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ setCurrentPage }) => {
                                 </div>
                             </li>
                         ))}
-                         {pendingInquiries.slice(0, 2).map(inquiry => (
+                         {dueInquiries.slice(0, 3).map(inquiry => (
                             <li key={inquiry.id} onClick={() => handleCardClick(Page.Inquiries)} className="flex items-center p-2 -mx-2 rounded-lg hover:bg-gray-100 cursor-pointer transition-colors">
-                                <span className="h-3 w-3 rounded-full mr-3 flex-shrink-0 bg-status-blue"></span>
+                                <span className={`h-3 w-3 rounded-full mr-3 flex-shrink-0 ${inquiry.sla!.overdue ? 'bg-status-red' : 'bg-status-blue'}`}></span>
                                 <div>
-                                    <p className="font-medium text-gray-800">New Inquiry</p>
-                                    <p className="text-sm text-gray-500">From: {inquiry.customerName}</p>
+                                    <p className="font-medium text-gray-800">{inquiry.sla!.overdue ? 'Overdue Inquiry' : inquiry.status === InquiryStatus.Pending ? 'New Inquiry' : 'Open Inquiry'}</p>
+                                    <p className="text-sm text-gray-500">From: {inquiry.customerName} &middot; {formatSlaRemaining(inquiry.sla!)}</p>
                                 </div>
                             </li>
                         ))}
-                         {lowStockItems.length === 0 && pendingInquiries.length === 0 && (
+                         {lowStockItems.length === 0 && dueInquiries.length === 0 && (
                             <p className="text-sm text-gray-500 text-center py-4">No urgent alerts. Great job!</p>
                          )}
                     </ul>
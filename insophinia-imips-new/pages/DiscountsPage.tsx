@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { Discount, DiscountType, Role } from '../types';
+import { Discount, DiscountType, Permission, AuditEntityType } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
 import { useToast } from '../hooks/useToast';
@@ -12,6 +12,7 @@ import ValidatedInput from '../components/common/ValidatedInput';
 import { validate, VALIDATION_RULES } from '../lib/validation';
 import DataTable, { type Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
+import RecordHistoryTabs from '../components/common/RecordHistory';
 
 const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
@@ -86,19 +87,21 @@ const DiscountForm: React.FC<{ discount?: Discount; onSave: (discount: any) => v
 const ViewDiscountModal: React.FC<{ discount: Discount; onClose: () => void; }> = ({ discount, onClose }) => {
     return (
         <Modal isOpen={true} onClose={onClose} title="Discount Details" icon={TicketIcon}>
-            <div className="space-y-2 text-sm">
-                <p><strong>Code:</strong> <span className="font-mono bg-gray-100 px-2 py-1 rounded">{discount.code}</span></p>
-                <p><strong>Description:</strong> {discount.description}</p>
-                <p><strong>Type:</strong> {discount.type}</p>
-                <p><strong>Value:</strong> {discount.type === DiscountType.Percentage ? `${discount.value}%` : formatCurrency(discount.value)}</p>
-                <p><strong>Status:</strong> {discount.isActive ? 'Active' : 'Inactive'}</p>
-                <p><strong>Times Used:</strong> {discount.usedCount || 0}</p>
-                <div className="border-t pt-2 mt-2">
-                    <p className="font-semibold">Conditions:</p>
-                    <p><strong>Minimum Spend:</strong> {discount.min_spend ? formatCurrency(discount.min_spend) : 'None'}</p>
-                    <p><strong>Minimum Items:</strong> {discount.min_items ? `${discount.min_items} items` : 'None'}</p>
+            <RecordHistoryTabs entityType={AuditEntityType.Discount} entityId={discount.id}>
+                <div className="space-y-2 text-sm">
+                    <p><strong>Code:</strong> <span className="font-mono bg-gray-100 px-2 py-1 rounded">{discount.code}</span></p>
+                    <p><strong>Description:</strong> {discount.description}</p>
+                    <p><strong>Type:</strong> {discount.type}</p>
+                    <p><strong>Value:</strong> {discount.type === DiscountType.Percentage ? `${discount.value}%` : formatCurrency(discount.value)}</p>
+                    <p><strong>Status:</strong> {discount.isActive ? 'Active' : 'Inactive'}</p>
+                    <p><strong>Times Used:</strong> {discount.usedCount || 0}</p>
+                    <div className="border-t pt-2 mt-2">
+                        <p className="font-semibold">Conditions:</p>
+                        <p><strong>Minimum Spend:</strong> {discount.min_spend ? formatCurrency(discount.min_spend) : 'None'}</p>
+                        <p><strong>Minimum Items:</strong> {discount.min_items ? `${discount.min_items} items` : 'None'}</p>
+                    </div>
                 </div>
-            </div>
+            </RecordHistoryTabs>
         </Modal>
     );
 };
@@ -107,10 +110,9 @@ const DeleteModal: React.FC<{
   discount: Discount;
   onClose: () => void;
   onArchive: () => void;
-  onPermanentDelete: () => Promise<void>;
-  reauthenticate: (password: string) => Promise<boolean>;
+  onPermanentDelete: (password: string) => Promise<void>;
   isAdmin: boolean;
-}> = ({ discount, onClose, onArchive, onPermanentDelete, reauthenticate, isAdmin }) => {
+}> = ({ discount, onClose, onArchive, onPermanentDelete, isAdmin }) => {
     const [isPermanentConfirm, setPermanentConfirm] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -119,11 +121,11 @@ const DeleteModal: React.FC<{
     const handlePermanentDelete = async () => {
         setIsProcessing(true);
         setError('');
-        if (await reauthenticate(password)) {
-            await onPermanentDelete();
+        try {
+            await onPermanentDelete(password);
             onClose();
-        } else {
-            setError('Incorrect password. Deletion failed.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Deletion failed.');
         }
         setIsProcessing(false);
     };
@@ -170,7 +172,7 @@ const DeleteModal: React.FC<{
 
 const DiscountsPage: React.FC = () => {
     const { discounts, addDiscount, updateDiscount, deleteDiscount, hardDeleteDiscount, isLoading, refreshData } = useData();
-    const { user, reauthenticate } = useAuth();
+    const { user, hasPermission } = useAuth();
     const { showToast } = useToast();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isViewModalOpen, setIsViewModalOpen] = useState(false);
@@ -216,9 +218,9 @@ const DiscountsPage: React.FC = () => {
         setDiscountToDelete(null);
     };
 
-    const handlePermanentDelete = async () => {
+    const handlePermanentDelete = async (password: string) => {
         if (discountToDelete) {
-            await hardDeleteDiscount(discountToDelete.id);
+            await hardDeleteDiscount(discountToDelete.id, password);
             showToast(`Discount "${discountToDelete.code}" permanently deleted.`, 'success');
         }
         setIsDeleteModalOpen(false);
@@ -245,15 +247,19 @@ const DiscountsPage: React.FC = () => {
             cell: (d: Discount) => (
                 <div className="flex items-center space-x-1">
                     <button onClick={() => handleView(d)} className="p-2 text-gray-600 hover:text-gray-800" title="View Details"><EyeIcon className="h-5 w-5" /></button>
-                    <button onClick={() => handleEdit(d)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit Discount"><PencilIcon className="h-5 w-5" /></button>
-                    <button onClick={() => openDeleteModal(d)} className="p-2 text-red-600 hover:text-red-800" title="Delete Discount"><TrashIcon className="h-5 w-5" /></button>
+                    {hasPermission(Permission.DiscountsUpdate) && (
+                        <button onClick={() => handleEdit(d)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit Discount"><PencilIcon className="h-5 w-5" /></button>
+                    )}
+                    {hasPermission(Permission.DiscountsDelete, Permission.DiscountsPurge) && (
+                        <button onClick={() => openDeleteModal(d)} className="p-2 text-red-600 hover:text-red-800" title="Delete Discount"><TrashIcon className="h-5 w-5" /></button>
+                    )}
                 </div>
             )
         }
-    ], []);
+    ], [hasPermission]);
 
 
-    if (user?.role !== Role.Admin && user?.role !== Role.Manager) {
+    if (!hasPermission(Permission.DiscountsView)) {
         return <Card><p className="text-red-500 font-bold">Access Denied. You do not have permission to view this page.</p></Card>;
     }
     
@@ -262,7 +268,7 @@ const DiscountsPage: React.FC = () => {
             <PageHeader 
                 title="Discount Management"
                 icon={TicketIcon}
-                buttonText="Add New Discount"
+                buttonText={hasPermission(Permission.DiscountsCreate) ? "Add New Discount" : undefined}
                 onButtonClick={() => { setSelectedDiscount(undefined); setIsModalOpen(true); }}
                 onRefresh={refreshData}
             />
@@ -295,8 +301,7 @@ const DiscountsPage: React.FC = () => {
                     onClose={() => setIsDeleteModalOpen(false)}
                     onArchive={handleArchive}
                     onPermanentDelete={handlePermanentDelete}
-                    reauthenticate={reauthenticate}
-                    isAdmin={user?.role === Role.Admin}
+                    isAdmin={hasPermission(Permission.DiscountsPurge)}
                 />
             )}
         </div>
@@ -3,24 +3,25 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { Email, Role } from '../types';
+import { Email, EmailAttachment, EmailStatus, Permission } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
-import { EnvelopeIcon, EyeIcon, PaperClipIcon, ArrowDownCircleIcon, PencilSquareIcon, EnvelopeOpenIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+import { EnvelopeIcon, EyeIcon, PaperClipIcon, ArrowDownCircleIcon, PencilSquareIcon, EnvelopeOpenIcon, TrashIcon, ExclamationTriangleIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
 import { useToast } from '../hooks/useToast';
 import ValidatedInput from '../components/common/ValidatedInput';
 import { validate, VALIDATION_RULES } from '../lib/validation';
 import DataTable, { Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
+import { EMAIL_ATTACHMENT_TYPES, MAX_EMAIL_ATTACHMENTS, MAX_EMAIL_ATTACHMENT_SIZE } from '../lib/api';
 
 // Compose Email Form Component
-const EmailComposeForm: React.FC<{ onSend: (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, file: File | null) => void; onCancel: () => void; }> = ({ onSend, onCancel }) => {
+const EmailComposeForm: React.FC<{ onSend: (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, files: File[]) => void; onCancel: () => void; }> = ({ onSend, onCancel }) => {
     const [formData, setFormData] = useState({
         recipient: '',
         subject: '',
         body: '',
     });
-    const [attachment, setAttachment] = useState<File | null>(null);
+    const [attachments, setAttachments] = useState<File[]>([]);
     const [errors, setErrors] = useState({ recipient: null, subject: null, body: null } as Record<string, string | null>);
     const [isFormValid, setIsFormValid] = useState(false);
     const { showToast } = useToast();
@@ -39,28 +40,31 @@ const EmailComposeForm: React.FC<{ onSend: (email: Omit<Email, 'id' | 'sentAt' |
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) {
-            setAttachment(null);
-            return;
-        }
-
-        const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
-        
-        if (file.size > MAX_FILE_SIZE) {
-            showToast('File size cannot exceed 5MB.', 'error');
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        const rejectFiles = (message: string) => {
+            showToast(message, 'error');
             e.target.value = '';
-            setAttachment(null);
-            return;
+            setAttachments([]);
+        };
+
+        if (files.length > MAX_EMAIL_ATTACHMENTS) {
+            return rejectFiles(`You can attach up to ${MAX_EMAIL_ATTACHMENTS} files.`);
+        }
+        if (files.some(file => file.size > MAX_EMAIL_ATTACHMENT_SIZE)) {
+            return rejectFiles('File size cannot exceed 5MB.');
+        }
+        const unsupported = files.find(file => !EMAIL_ATTACHMENT_TYPES.includes(file.type));
+        if (unsupported) {
+            return rejectFiles(`${unsupported.name} is not a supported file type.`);
         }
 
-        setAttachment(file);
+        setAttachments(files);
     };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!isFormValid) return;
-        onSend(formData, attachment);
+        onSend(formData, attachments);
     };
 
     return (
@@ -70,14 +74,14 @@ const EmailComposeForm: React.FC<{ onSend: (email: Omit<Email, 'id' | 'sentAt' |
             <ValidatedInput label="Email Body" as="textarea" name="body" value={formData.body} onChange={handleChange} error={errors.body} rows={8} required />
             
             <div>
-                 <label className="block text-sm font-medium text-gray-700 mb-1">Attachment (1 file, max 5MB)</label>
-                 <input type="file" onChange={handleFileChange} className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-brand-primary hover:file:bg-blue-100"/>
-                 {attachment && (
-                    <div className="mt-2 text-sm text-gray-600 flex items-center">
+                 <label className="block text-sm font-medium text-gray-700 mb-1">Attachments (up to {MAX_EMAIL_ATTACHMENTS} files, max 5MB each)</label>
+                 <input type="file" multiple accept={EMAIL_ATTACHMENT_TYPES.join(',')} onChange={handleFileChange} className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-brand-primary hover:file:bg-blue-100"/>
+                 {attachments.map(file => (
+                    <div key={file.name} className="mt-2 text-sm text-gray-600 flex items-center">
                         <PaperClipIcon className="h-4 w-4 mr-2"/>
-                        <span>{attachment.name} ({(attachment.size / 1024).toFixed(2)} KB)</span>
+                        <span>{file.name} ({(file.size / 1024).toFixed(2)} KB)</span>
                     </div>
-                 )}
+                 ))}
             </div>
 
             <div className="flex justify-end space-x-2 pt-4">
@@ -88,11 +92,24 @@ const EmailComposeForm: React.FC<{ onSend: (email: Omit<Email, 'id' | 'sentAt' |
     );
 };
 
+const STATUS_COLORS: Record<EmailStatus, string> = {
+    queued: 'bg-yellow-100 text-yellow-800',
+    sent: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+};
+
+const EmailStatusBadge: React.FC<{ email: Email }> = ({ email }) => {
+    const status = email.status ?? 'sent';
+    return <span className={`px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_COLORS[status]}`}>{status}</span>;
+};
+
 // View Email Component
-const EmailView: React.FC<{ email: Email; }> = ({ email }) => {
+const EmailView: React.FC<{ email: Email; onRetry?: () => void; }> = ({ email, onRetry }) => {
     // Check if the body is likely HTML
     const isHtmlBody = /<[a-z][\s\S]*>/i.test(email.body);
-    const attachmentName = email.attachment_path ? email.attachment_path.split('/').pop() : '';
+    const attachments: EmailAttachment[] = email.attachments ?? (email.attachment_path
+        ? [{ name: email.attachment_path.split('/').pop() ?? 'attachment', contentType: '', size: 0, path: email.attachment_path }]
+        : []);
 
     return (
         <div className="space-y-4">
@@ -104,18 +121,21 @@ const EmailView: React.FC<{ email: Email; }> = ({ email }) => {
                 <label className="font-semibold text-gray-600">Subject:</label>
                 <p className="p-2 bg-gray-100 rounded mt-1">{email.subject}</p>
             </div>
-             {email.attachment_path && (
+             {attachments.length > 0 && (
                 <div>
-                    <label className="font-semibold text-gray-600">Attachment:</label>
-                    <div className="p-2 bg-gray-100 rounded mt-1 flex justify-between items-center">
-                       <div className="flex items-center">
-                            <PaperClipIcon className="h-5 w-5 mr-2 text-gray-600"/>
-                            <span>{attachmentName}</span>
-                       </div>
-                       <a href={email.attachment_path} download={attachmentName} target="_blank" rel="noopener noreferrer" className="p-2 rounded-full hover:bg-gray-200 transition-colors" aria-label="Download attachment">
-                            <ArrowDownCircleIcon className="h-6 w-6 text-brand-primary"/>
-                       </a>
-                    </div>
+                    <label className="font-semibold text-gray-600">{attachments.length === 1 ? 'Attachment:' : `Attachments (${attachments.length}):`}</label>
+                    {attachments.map(attachment => (
+                        <div key={attachment.path} className="p-2 bg-gray-100 rounded mt-1 flex justify-between items-center">
+                           <div className="flex items-center">
+                                <PaperClipIcon className="h-5 w-5 mr-2 text-gray-600"/>
+                                <span>{attachment.name}</span>
+                                {attachment.size > 0 && <span className="ml-2 text-xs text-gray-500">({(attachment.size / 1024).toFixed(2)} KB)</span>}
+                           </div>
+                           <a href={attachment.path} download={attachment.name} target="_blank" rel="noopener noreferrer" className="p-2 rounded-full hover:bg-gray-200 transition-colors" aria-label="Download attachment">
+                                <ArrowDownCircleIcon className="h-6 w-6 text-brand-primary"/>
+                           </a>
+                        </div>
+                    ))}
                 </div>
             )}
             <div>
@@ -129,8 +149,20 @@ const EmailView: React.FC<{ email: Email; }> = ({ email }) => {
                 )}
             </div>
              <div>
-                <label className="font-semibold text-gray-600">Sent:</label>
-                <p className="text-sm text-gray-500 mt-1">{new Date(email.sentAt).toLocaleString()}</p>
+                <label className="font-semibold text-gray-600">Delivery:</label>
+                <div className="text-sm text-gray-500 mt-1 space-y-1">
+                    <div className="flex items-center justify-between">
+                        <span><EmailStatusBadge email={email} /> after {email.attempts ?? 1} attempt(s)</span>
+                        {email.status === 'failed' && onRetry && (
+                            <button onClick={onRetry} className="flex items-center px-3 py-1 text-sm bg-brand-primary text-white rounded hover:bg-brand-secondary">
+                                <ArrowPathIcon className="h-4 w-4 mr-1" /> Retry
+                            </button>
+                        )}
+                    </div>
+                    {email.sentAt && <p>Sent {new Date(email.sentAt).toLocaleString()}</p>}
+                    {email.status === 'queued' && email.nextAttemptAt && <p>Next attempt {new Date(email.nextAttemptAt).toLocaleString()}</p>}
+                    {email.lastError && <p className="text-status-red">Last error: {email.lastError}</p>}
+                </div>
             </div>
         </div>
     );
@@ -140,10 +172,9 @@ const DeleteModal: React.FC<{
   email: Email;
   onClose: () => void;
   onArchive: () => void;
-  onPermanentDelete: () => Promise<void>;
-  reauthenticate: (password: string) => Promise<boolean>;
+  onPermanentDelete: (password: string) => Promise<void>;
   isAdmin: boolean;
-}> = ({ email, onClose, onArchive, onPermanentDelete, reauthenticate, isAdmin }) => {
+}> = ({ email, onClose, onArchive, onPermanentDelete, isAdmin }) => {
     const [isPermanentConfirm, setPermanentConfirm] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -152,11 +183,11 @@ const DeleteModal: React.FC<{
     const handlePermanentDelete = async () => {
         setIsProcessing(true);
         setError('');
-        if (await reauthenticate(password)) {
-            await onPermanentDelete();
+        try {
+            await onPermanentDelete(password);
             onClose();
-        } else {
-            setError('Incorrect password. Deletion failed.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Deletion failed.');
         }
         setIsProcessing(false);
     };
@@ -202,24 +233,40 @@ const DeleteModal: React.FC<{
 
 // Main Page Component
 const EmailPage: React.FC = () => {
-    const { emails, addEmail, deleteEmail, hardDeleteEmail, isLoading, refreshData } = useData();
-    const { user, reauthenticate } = useAuth();
+    const { emails, addEmail, retryEmail, deleteEmail, hardDeleteEmail, isLoading, refreshData } = useData();
+    const { hasPermission } = useAuth();
     const { showToast } = useToast();
     const [isComposeOpen, setIsComposeOpen] = useState(false);
     const [isViewOpen, setIsViewOpen] = useState(false);
     const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
     const [emailToDelete, setEmailToDelete] = useState<Email | null>(null);
     
-    if (user?.role !== Role.Admin && user?.role !== Role.Manager) {
+    if (!hasPermission(Permission.EmailsView)) {
         return <Card><p className="text-red-500 font-bold">Access Denied. You do not have permission to view this page.</p></Card>
     }
 
-    const handleSendEmail = async (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, file: File | null) => {
-        await addEmail(email, file ?? undefined);
-        showToast(`Email successfully sent to ${email.recipient}`, 'success');
+    const handleSendEmail = async (email: Omit<Email, 'id' | 'sentAt' | 'attachment_path'>, files: File[]) => {
+        const sent = await addEmail(email, files);
+        if (!sent) return;
+        if (sent.status === 'sent') {
+            showToast(`Email successfully sent to ${email.recipient}`, 'success');
+        } else {
+            showToast(`Email to ${email.recipient} could not be delivered yet and will be retried.`, 'info');
+        }
         setIsComposeOpen(false);
     };
 
+    const handleRetry = async () => {
+        if (!selectedEmail) return;
+        try {
+            await retryEmail(selectedEmail.id);
+            showToast(`Email to ${selectedEmail.recipient} queued again.`, 'success');
+            setIsViewOpen(false);
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to retry email.', 'error');
+        }
+    };
+
     const handleViewEmail = (email: Email) => {
         setSelectedEmail(email);
         setIsViewOpen(true);
@@ -233,9 +280,9 @@ const EmailPage: React.FC = () => {
         setEmailToDelete(null);
     };
     
-    const handlePermanentDelete = async () => {
+    const handlePermanentDelete = async (password: string) => {
         if (emailToDelete) {
-            await hardDeleteEmail(emailToDelete.id);
+            await hardDeleteEmail(emailToDelete.id, password);
             showToast(`Email to "${emailToDelete.recipient}" permanently deleted.`, 'success');
         }
         setEmailToDelete(null);
@@ -248,12 +295,13 @@ const EmailPage: React.FC = () => {
             cell: (email: Email) => (
                  <div className="flex items-center">
                     <span>{email.recipient}</span>
-                    {email.attachment_path && <PaperClipIcon className="h-4 w-4 ml-2 text-gray-500" title="This email has an attachment"/>}
+                    {(email.attachments?.length || email.attachment_path) && <PaperClipIcon className="h-4 w-4 ml-2 text-gray-500" title="This email has an attachment"/>}
                 </div>
             )
         },
         { header: 'Subject', accessor: 'subject' },
-        { header: 'Date Sent', accessor: 'sentAt', cell: (email: Email) => new Date(email.sentAt).toLocaleString() },
+        { header: 'Date', accessor: 'createdAt', cell: (email: Email) => new Date(email.sentAt ?? email.createdAt ?? '').toLocaleString() },
+        { header: 'Status', accessor: 'status', cell: (email: Email) => <EmailStatusBadge email={email} /> },
         { 
             header: 'Actions',
             accessor: 'actions',
@@ -275,7 +323,7 @@ const EmailPage: React.FC = () => {
             <PageHeader
                 title="Email Center"
                 icon={EnvelopeIcon}
-                buttonText="Compose Email"
+                buttonText={hasPermission(Permission.EmailsSend) ? "Compose Email" : undefined}
                 onButtonClick={() => setIsComposeOpen(true)}
                 onRefresh={refreshData}
             />
@@ -294,7 +342,7 @@ const EmailPage: React.FC = () => {
             </Modal>
             
             <Modal isOpen={isViewOpen} onClose={() => setIsViewOpen(false)} title="View Email" icon={EnvelopeOpenIcon}>
-                {selectedEmail && <EmailView email={selectedEmail} />}
+                {selectedEmail && <EmailView email={selectedEmail} onRetry={handleRetry} />}
             </Modal>
 
             {emailToDelete && (
@@ -303,8 +351,7 @@ const EmailPage: React.FC = () => {
                     onClose={() => setEmailToDelete(null)}
                     onArchive={handleArchive}
                     onPermanentDelete={handlePermanentDelete}
-                    reauthenticate={reauthenticate}
-                    isAdmin={user?.role === Role.Admin}
+                    isAdmin={hasPermission(Permission.EmailsPurge)}
                 />
             )}
 
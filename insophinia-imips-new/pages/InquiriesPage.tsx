@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { CustomerInquiry, InquiryStatus, Role, InquiryResponse } from '../types';
+import { CustomerInquiry, InquiryStatus, Permission, AuditEntityType, InquiryResponse } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
 import { PencilIcon, PlusCircleIcon, TrashIcon, ChatBubbleLeftRightIcon, PencilSquareIcon, EyeIcon, ExclamationTriangleIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
@@ -12,8 +12,9 @@ import ValidatedInput from '../components/common/ValidatedInput';
 import { validate, VALIDATION_RULES } from '../lib/validation';
 import DataTable, { type Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
-import { fetchInquiryResponses, respondToInquiry } from '../lib/api';
+import { fetchInquiryResponses, respondToInquiry, EMAIL_ATTACHMENT_TYPES, MAX_EMAIL_ATTACHMENTS } from '../lib/api';
 import { format } from 'date-fns';
+import RecordHistoryTabs from '../components/common/RecordHistory';
 
 const InquiryForm: React.FC<{ inquiry?: CustomerInquiry; onSave: (inquiry: any) => void; onCancel: () => void; }> = ({ inquiry, onSave, onCancel }) => {
     const { user } = useAuth();
@@ -99,8 +100,8 @@ const RespondModal: React.FC<{ inquiry: CustomerInquiry; onClose: () => void; on
             <form onSubmit={handleSubmit} className="space-y-4">
                 <ValidatedInput as="textarea" label="Your Message" value={message} onChange={e => setMessage((e.target as HTMLTextAreaElement).value)} rows={8} required />
                 <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Attachments (optional, max 5)</label>
-                    <input type="file" multiple onChange={handleFileChange} className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-brand-primary hover:file:bg-blue-100"/>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Attachments (optional, max {MAX_EMAIL_ATTACHMENTS}, 5MB each)</label>
+                    <input type="file" multiple accept={EMAIL_ATTACHMENT_TYPES.join(',')} onChange={handleFileChange} className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-brand-primary hover:file:bg-blue-100"/>
                 </div>
                  <div className="flex justify-end space-x-2 pt-4">
                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSending}>Cancel</button>
@@ -124,33 +125,41 @@ const ViewInquiryModal: React.FC<{ inquiry: CustomerInquiry; onClose: () => void
 
     return (
         <Modal isOpen={true} onClose={onClose} title="Inquiry Details" icon={ChatBubbleLeftRightIcon}>
-            <div className="space-y-3 text-sm">
-                <p><strong>Customer:</strong> {inquiry.customerName} ({inquiry.customerEmail})</p>
-                <p><strong>Received:</strong> {new Date(inquiry.createdAt).toLocaleString()}</p>
-                <p><strong>Status:</strong> {inquiry.status}</p>
-                <p><strong>Assigned To:</strong> {assignedStaff?.name || 'Unassigned'}</p>
-                <div className="border-t pt-3 mt-3">
-                    <p className="font-semibold">Details:</p>
-                    <p className="mt-1 p-2 bg-gray-50 rounded whitespace-pre-wrap">{inquiry.inquiryDetails}</p>
-                </div>
+            <RecordHistoryTabs entityType={AuditEntityType.Inquiry} entityId={inquiry.id}>
+                <div className="space-y-3 text-sm">
+                    <p><strong>Customer:</strong> {inquiry.customerName} ({inquiry.customerEmail})</p>
+                    <p><strong>Received:</strong> {new Date(inquiry.createdAt).toLocaleString()}</p>
+                    <p><strong>Status:</strong> {inquiry.status}</p>
+                    <p><strong>Assigned To:</strong> {assignedStaff?.name || 'Unassigned'}</p>
+                    <div className="border-t pt-3 mt-3">
+                        <p className="font-semibold">Details:</p>
+                        <p className="mt-1 p-2 bg-gray-50 rounded whitespace-pre-wrap">{inquiry.inquiryDetails}</p>
+                    </div>
 
-                <div className="border-t pt-3 mt-3">
-                    <p className="font-semibold">Response History ({responses.length})</p>
-                    <div className="max-h-48 overflow-y-auto space-y-2 mt-2">
-                        {responses.length > 0 ? responses.map(res => (
-                            <div key={res.id} className="p-2 bg-blue-50 rounded">
-                                <p className="whitespace-pre-wrap">{res.response_message}</p>
-                                <p className="text-xs text-gray-500 mt-1">Sent by {res.responded_by_name} on {format(new Date(res.created_at), 'Pp')}</p>
-                            </div>
-                        )) : <p className="text-xs text-gray-500">No responses yet.</p>}
+                    <div className="border-t pt-3 mt-3">
+                        <p className="font-semibold">Response History ({responses.length})</p>
+                        <div className="max-h-48 overflow-y-auto space-y-2 mt-2">
+                            {responses.length > 0 ? responses.map(res => (
+                                <div key={res.id} className="p-2 bg-blue-50 rounded">
+                                    <p className="whitespace-pre-wrap">{res.response_message}</p>
+                                    {res.attachments && res.attachments.length > 0 && (
+                                        <p className="text-xs text-gray-600 mt-1">Attachments: {res.attachments.map(a => a.name).join(', ')}</p>
+                                    )}
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        Sent by {res.responded_by_name} on {format(new Date(res.created_at), 'Pp')}
+                                        {res.email_status && res.email_status !== 'sent' && <span className="ml-1 text-status-red">(email {res.email_status})</span>}
+                                    </p>
+                                </div>
+                            )) : <p className="text-xs text-gray-500">No responses yet.</p>}
+                        </div>
                     </div>
                 </div>
-            </div>
+            </RecordHistoryTabs>
         </Modal>
     );
 };
 
-const DeleteModal: React.FC<{ inquiry: CustomerInquiry; onClose: () => void; onArchive: () => void; onPermanentDelete: () => Promise<void>; reauthenticate: (password: string) => Promise<boolean>; isAdmin: boolean; }> = ({ inquiry, onClose, onArchive, onPermanentDelete, reauthenticate, isAdmin }) => {
+const DeleteModal: React.FC<{ inquiry: CustomerInquiry; onClose: () => void; onArchive: () => void; onPermanentDelete: (password: string) => Promise<void>; isAdmin: boolean; }> = ({ inquiry, onClose, onArchive, onPermanentDelete, isAdmin }) => {
     const [isPermanentConfirm, setPermanentConfirm] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -159,11 +168,11 @@ const DeleteModal: React.FC<{ inquiry: CustomerInquiry; onClose: () => void; onA
     const handlePermanentDelete = async () => {
         setIsProcessing(true);
         setError('');
-        if (await reauthenticate(password)) {
-            await onPermanentDelete();
+        try {
+            await onPermanentDelete(password);
             onClose();
-        } else {
-            setError('Incorrect password. Deletion failed.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Deletion failed.');
         }
         setIsProcessing(false);
     };
@@ -198,7 +207,7 @@ const DeleteModal: React.FC<{ inquiry: CustomerInquiry; onClose: () => void; onA
 
 const InquiriesPage: React.FC = () => {
     const { inquiries, addInquiry, updateInquiry, deleteInquiry, hardDeleteInquiry, isLoading, refreshData } = useData();
-    const { user, reauthenticate } = useAuth();
+    const { hasPermission } = useAuth();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isViewModalOpen, setIsViewModalOpen] = useState(false);
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -252,9 +261,9 @@ const InquiriesPage: React.FC = () => {
         setInquiryToDelete(null);
     };
     
-    const handlePermanentDelete = async () => {
+    const handlePermanentDelete = async (password: string) => {
         if (inquiryToDelete) {
-            await hardDeleteInquiry(inquiryToDelete.id);
+            await hardDeleteInquiry(inquiryToDelete.id, password);
             showToast(`Inquiry from "${inquiryToDelete.customerName}" permanently deleted.`, 'success');
         }
         setIsDeleteModalOpen(false);
@@ -283,18 +292,24 @@ const InquiriesPage: React.FC = () => {
             { header: 'Actions', accessor: 'actions', cell: (inquiry: CustomerInquiry) => (
                     <div className="flex items-center space-x-1">
                         <button onClick={() => handleView(inquiry)} className="p-2 text-gray-600 hover:text-gray-800" title="View Inquiry"><EyeIcon className="h-5 w-5" /></button>
-                        <button onClick={() => openRespondModal(inquiry)} className="p-2 text-green-600 hover:text-green-800" title="Respond"><PaperAirplaneIcon className="h-5 w-5" /></button>
-                        <button onClick={() => handleEdit(inquiry)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit Inquiry"><PencilIcon className="h-5 w-5" /></button>
-                        <button onClick={() => openDeleteModal(inquiry)} className="p-2 text-red-600 hover:text-red-800" title="Delete Inquiry"><TrashIcon className="h-5 w-5" /></button>
+                        {hasPermission(Permission.InquiriesRespond) && (
+                            <button onClick={() => openRespondModal(inquiry)} className="p-2 text-green-600 hover:text-green-800" title="Respond"><PaperAirplaneIcon className="h-5 w-5" /></button>
+                        )}
+                        {hasPermission(Permission.InquiriesUpdate) && (
+                            <button onClick={() => handleEdit(inquiry)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit Inquiry"><PencilIcon className="h-5 w-5" /></button>
+                        )}
+                        {hasPermission(Permission.InquiriesDelete, Permission.InquiriesPurge) && (
+                            <button onClick={() => openDeleteModal(inquiry)} className="p-2 text-red-600 hover:text-red-800" title="Delete Inquiry"><TrashIcon className="h-5 w-5" /></button>
+                        )}
                     </div>
                 )
             }
         ];
-    }, []);
+    }, [hasPermission]);
 
     return (
         <div>
-            <PageHeader title="Customer Inquiries" icon={ChatBubbleLeftRightIcon} buttonText="Add New Inquiry" onButtonClick={() => { setSelectedInquiry(undefined); setIsModalOpen(true); }} onRefresh={refreshData}/>
+            <PageHeader title="Customer Inquiries" icon={ChatBubbleLeftRightIcon} buttonText={hasPermission(Permission.InquiriesCreate) ? "Add New Inquiry" : undefined} onButtonClick={() => { setSelectedInquiry(undefined); setIsModalOpen(true); }} onRefresh={refreshData}/>
             <Card>
                 <DataTable data={inquiries} columns={columns} isLoading={isLoading} searchableColumns={['customerName', 'customerEmail', 'inquiryDetails']} filterableColumn={{ accessor: 'status', header: 'Status', options: Object.values(InquiryStatus) }}/>
             </Card>
@@ -305,7 +320,7 @@ const InquiriesPage: React.FC = () => {
 
             {isViewModalOpen && selectedInquiry && ( <ViewInquiryModal inquiry={selectedInquiry} onClose={() => { setIsViewModalOpen(false); setSelectedInquiry(undefined); }} /> )}
             
-            {isDeleteModalOpen && inquiryToDelete && ( <DeleteModal inquiry={inquiryToDelete} onClose={() => setIsDeleteModalOpen(false)} onArchive={handleArchive} onPermanentDelete={handlePermanentDelete} reauthenticate={reauthenticate} isAdmin={user?.role === Role.Admin} /> )}
+            {isDeleteModalOpen && inquiryToDelete && ( <DeleteModal inquiry={inquiryToDelete} onClose={() => setIsDeleteModalOpen(false)} onArchive={handleArchive} onPermanentDelete={handlePermanentDelete} isAdmin={hasPermission(Permission.InquiriesPurge)} /> )}
 
             {isRespondModalOpen && selectedInquiry && ( <RespondModal inquiry={selectedInquiry} onClose={() => setIsRespondModalOpen(false)} onSent={() => { setIsRespondModalOpen(false); refreshData(); }}/> )}
         </div>
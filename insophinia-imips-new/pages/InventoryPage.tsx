@@ -3,7 +3,7 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { InventoryItem, Role, InventoryMovement } from '../types';
+import { InventoryItem, Permission, AuditEntityType, InventoryMovement } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
 import { PencilIcon, TrashIcon, PlusCircleIcon, ArchiveBoxIcon, PencilSquareIcon, ExclamationTriangleIcon, EyeIcon, ClockIcon } from '@heroicons/react/24/solid';
@@ -15,6 +15,7 @@ import DataTable, { type Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
 import { fetchInventoryMovements } from '../lib/api';
 import { format } from 'date-fns';
+import RecordHistoryTabs from '../components/common/RecordHistory';
 
 const InventoryForm: React.FC<{ item?: InventoryItem; onSave: (item: any, file: File | null) => void; onCancel: () => void; }> = ({ item, onSave, onCancel }) => {
     const [formData, setFormData] = useState({
@@ -105,23 +106,25 @@ const ViewItemModal: React.FC<{ item: InventoryItem; onClose: () => void; }> = (
 
     return (
         <Modal isOpen={true} onClose={onClose} title={item.name} icon={ArchiveBoxIcon}>
-            <div className="space-y-4">
-                <AuthenticatedImage type="product" src={item.imageUrl} alt={item.name} className="w-full h-48 object-cover rounded-lg mb-4" />
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div><strong className="block text-gray-500">SKU</strong> {item.sku}</div>
-                    <div><strong className="block text-gray-500">Category</strong> {item.category}</div>
-                    <div><strong className="block text-gray-500">Price</strong> {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(item.price)}</div>
-                    <div><strong className="block text-gray-500">Warranty</strong> {Number(item.warrantyPeriod) || 0} months</div>
-                    <div><strong className="block text-gray-500">Quantity</strong> {item.quantity} units</div>
-                    <div><strong className="block text-gray-500">Threshold</strong> {item.threshold} units</div>
+            <RecordHistoryTabs entityType={AuditEntityType.Inventory} entityId={item.id}>
+                <div className="space-y-4">
+                    <AuthenticatedImage type="product" src={item.imageUrl} alt={item.name} className="w-full h-48 object-cover rounded-lg mb-4" />
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div><strong className="block text-gray-500">SKU</strong> {item.sku}</div>
+                        <div><strong className="block text-gray-500">Category</strong> {item.category}</div>
+                        <div><strong className="block text-gray-500">Price</strong> {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(item.price)}</div>
+                        <div><strong className="block text-gray-500">Warranty</strong> {Number(item.warrantyPeriod) || 0} months</div>
+                        <div><strong className="block text-gray-500">Quantity</strong> {item.quantity} units</div>
+                        <div><strong className="block text-gray-500">Threshold</strong> {item.threshold} units</div>
+                    </div>
+                     <div className="mt-4">
+                        <strong className="block text-gray-500 text-sm">Status</strong>
+                         <span className={`px-3 py-1 text-sm font-semibold rounded-full ${getStockStatusColor(item)}`}>
+                            {getStockStatusText(item)}
+                        </span>
+                     </div>
                 </div>
-                 <div className="mt-4">
-                    <strong className="block text-gray-500 text-sm">Status</strong>
-                     <span className={`px-3 py-1 text-sm font-semibold rounded-full ${getStockStatusColor(item)}`}>
-                        {getStockStatusText(item)}
-                    </span>
-                 </div>
-            </div>
+            </RecordHistoryTabs>
         </Modal>
     );
 };
@@ -182,10 +185,9 @@ const DeleteModal: React.FC<{
   item: InventoryItem;
   onClose: () => void;
   onArchive: () => void;
-  onPermanentDelete: () => Promise<void>;
-  reauthenticate: (password: string) => Promise<boolean>;
+  onPermanentDelete: (password: string) => Promise<void>;
   isAdmin: boolean;
-}> = ({ item, onClose, onArchive, onPermanentDelete, reauthenticate, isAdmin }) => {
+}> = ({ item, onClose, onArchive, onPermanentDelete, isAdmin }) => {
     const [isPermanentConfirm, setPermanentConfirm] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -194,11 +196,11 @@ const DeleteModal: React.FC<{
     const handlePermanentDelete = async () => {
         setIsProcessing(true);
         setError('');
-        if (await reauthenticate(password)) {
-            await onPermanentDelete();
+        try {
+            await onPermanentDelete(password);
             onClose();
-        } else {
-            setError('Incorrect password. Deletion failed.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Deletion failed.');
         }
         setIsProcessing(false);
     };
@@ -245,7 +247,7 @@ const DeleteModal: React.FC<{
 
 const InventoryPage: React.FC = () => {
     const { inventory, addInventoryItem, updateInventoryItem, deleteInventoryItem, hardDeleteInventoryItem, isLoading, refreshData } = useData();
-    const { user, reauthenticate } = useAuth();
+    const { hasPermission } = useAuth();
     const { showToast } = useToast();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -299,9 +301,9 @@ const InventoryPage: React.FC = () => {
         }
     };
     
-    const handlePermanentDelete = async () => {
+    const handlePermanentDelete = async (password: string) => {
         if (itemToDelete) {
-            await hardDeleteInventoryItem(itemToDelete.id);
+            await hardDeleteInventoryItem(itemToDelete.id, password);
             showToast(`Item "${itemToDelete.name}" has been permanently deleted.`, 'success');
             setIsDeleteModalOpen(false);
             setItemToDelete(null);
@@ -351,21 +353,23 @@ const InventoryPage: React.FC = () => {
                 <div className="flex items-center space-x-1">
                     <button onClick={() => handleView(item)} className="p-2 text-gray-600 hover:text-gray-800" title="View Details"><EyeIcon className="h-5 w-5" /></button>
                     <button onClick={() => handleViewMovements(item)} className="p-2 text-gray-600 hover:text-gray-800" title="View History"><ClockIcon className="h-5 w-5" /></button>
-                    <button onClick={() => handleEdit(item)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit Item"><PencilIcon className="h-5 w-5" /></button>
-                    {(user?.role === Role.Admin || user?.role === Role.Manager) && (
+                    {hasPermission(Permission.InventoryUpdate, Permission.InventoryPricing) && (
+                        <button onClick={() => handleEdit(item)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit Item"><PencilIcon className="h-5 w-5" /></button>
+                    )}
+                    {hasPermission(Permission.InventoryDelete, Permission.InventoryPurge) && (
                         <button onClick={() => openDeleteModal(item)} className="p-2 text-red-600 hover:text-red-800" title="Delete Item"><TrashIcon className="h-5 w-5" /></button>
                     )}
                 </div>
             )
         }
-    ], [user]);
+    ], [hasPermission]);
 
     return (
         <div>
             <PageHeader 
                 title="Inventory Management"
                 icon={ArchiveBoxIcon}
-                buttonText="Add New Item"
+                buttonText={hasPermission(Permission.InventoryCreate) ? "Add New Item" : undefined}
                 onButtonClick={() => { setSelectedItem(undefined); setIsModalOpen(true); }}
                 onRefresh={refreshData}
             />
@@ -395,8 +399,7 @@ const InventoryPage: React.FC = () => {
                     onClose={() => setIsDeleteModalOpen(false)}
                     onArchive={handleArchive}
                     onPermanentDelete={handlePermanentDelete}
-                    reauthenticate={reauthenticate}
-                    isAdmin={user?.role === Role.Admin}
+                    isAdmin={hasPermission(Permission.InventoryPurge)}
                 />
             )}
 
@@ -1,15 +1,76 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../hooks/useAuth';
-import { BuildingOffice2Icon, ArrowRightOnRectangleIcon, KeyIcon } from '@heroicons/react/24/solid';
+import { BuildingOffice2Icon, ArrowRightOnRectangleIcon, KeyIcon, ShieldCheckIcon } from '@heroicons/react/24/solid';
 import ValidatedInput from '../components/common/ValidatedInput';
 import { validate, VALIDATION_RULES } from '../lib/validation';
 // FIX: Removed non-existent import 'apiPasswordResetVerify'.
-import { apiPasswordResetRequest, apiPasswordReset } from '../lib/api';
+import { apiPasswordResetRequest, apiPasswordReset, apiAcceptInvitation, apiBeginLoginTwoFactorSetup, apiEnableLoginTwoFactor } from '../lib/api';
 import { useToast } from '../hooks/useToast';
 import Modal from '../components/common/Modal';
+import TwoFactorEnrollment from '../components/common/TwoFactorEnrollment';
+import { AuthSession, LoginChallenge } from '../types';
 
-const ForgotPasswordModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+// Tokens from emailed links (?reset_token=... or ?invite_token=...), which open the matching form directly
+const linkParams = new URLSearchParams(window.location.search);
+const linkResetToken = linkParams.get('reset_token') || '';
+const linkInviteToken = linkParams.get('invite_token') || '';
+
+const clearLinkToken = () => window.history.replaceState(null, '', window.location.pathname);
+
+const AcceptInvitationModal: React.FC<{ token: string; onClose: () => void }> = ({ token, onClose }) => {
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [isDone, setIsDone] = useState(false);
+    const [error, setError] = useState('');
+    const { showToast } = useToast();
+    const passwordError = validate(newPassword, [VALIDATION_RULES.password]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newPassword !== confirmPassword) {
+            setError('Passwords do not match.');
+            return;
+        }
+        setIsLoading(true);
+        setError('');
+        try {
+            const res = await apiAcceptInvitation(token, newPassword);
+            showToast(res.message, 'success');
+            setIsDone(true);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Invalid invitation or an error occurred.');
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Welcome to Insophinia IMIPS" icon={KeyIcon}>
+            {isDone ? (
+                <div className="text-center">
+                    <p className="text-lg font-semibold text-green-600">Your password has been set!</p>
+                    <p className="mt-2">You can now log in with your email address and new password.</p>
+                    <button onClick={onClose} className="mt-4 px-4 py-2 bg-brand-primary text-white rounded">Close</button>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <p>Choose a password to activate your account.</p>
+                    <ValidatedInput label="New Password" type="password" value={newPassword} onChange={(e) => setNewPassword((e.target as HTMLInputElement).value)} error={newPassword ? passwordError : null} required />
+                    <ValidatedInput label="Confirm Password" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword((e.target as HTMLInputElement).value)} required />
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <div className="flex justify-end pt-2">
+                        <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded" disabled={isLoading || !!passwordError || !confirmPassword}>
+                            {isLoading ? 'Saving...' : 'Set Password'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </Modal>
+    );
+};
+
+const ForgotPasswordModal: React.FC<{ isOpen: boolean; onClose: () => void; initialToken?: string }> = ({ isOpen, onClose, initialToken = '' }) => {
     const [step, setStep] = useState(1); // 1: enter email, 2: enter code/password, 3: success
     const [email, setEmail] = useState('');
     const [token, setToken] = useState('');
@@ -20,9 +81,9 @@ const ForgotPasswordModal: React.FC<{ isOpen: boolean; onClose: () => void }> =
 
     useEffect(() => {
       if(isOpen) {
-        setStep(1);
+        setStep(initialToken ? 2 : 1);
         setEmail('');
-        setToken('');
+        setToken(initialToken);
         setNewPassword('');
         setError('');
         setIsLoading(false);
@@ -51,7 +112,7 @@ const ForgotPasswordModal: React.FC<{ isOpen: boolean; onClose: () => void }> =
             const res = await apiPasswordReset(token, newPassword);
             showToast(res.message, 'success');
             setStep(3);
-        } catch (err: any) => {
+        } catch (err: any) {
             setError(err.response?.data?.message || 'Invalid token or an error occurred.');
         }
         setIsLoading(false);
@@ -73,7 +134,11 @@ const ForgotPasswordModal: React.FC<{ isOpen: boolean; onClose: () => void }> =
             )}
             {step === 2 && (
                  <form onSubmit={handleResetPassword} className="space-y-4">
-                    <p>A password reset token has been sent to <strong>{email}</strong>. Please enter the token and your new password.</p>
+                    {email ? (
+                        <p>A password reset token has been sent to <strong>{email}</strong>. Please enter the token and your new password.</p>
+                    ) : (
+                        <p>Choose a new password for your account.</p>
+                    )}
                     {/* Corrected: Cast e.target to HTMLInputElement to access value property */}
                     <ValidatedInput label="Reset Token" type="text" value={token} onChange={(e) => setToken((e.target as HTMLInputElement).value)} required />
                     {/* Corrected: Cast e.target to HTMLInputElement to access value property */}
@@ -98,13 +163,85 @@ const ForgotPasswordModal: React.FC<{ isOpen: boolean; onClose: () => void }> =
 };
 
 
+/**
+ * Second sign-in step after a correct password: a code from the authenticator
+ * app (or a recovery code), or enrolment when the user's role requires it
+ */
+const TwoFactorLoginStep: React.FC<{ challenge: LoginChallenge; onCancel: () => void }> = ({ challenge, onCancel }) => {
+  const { verifyTwoFactor, completeLogin } = useAuth();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [enrolledSession, setEnrolledSession] = useState<AuthSession | null>(null);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    const result = await verifyTwoFactor(challenge.challengeToken, code);
+    if (!result.success) {
+      setError(result.message || 'Invalid authentication code.');
+      setIsLoading(false);
+    }
+  };
+
+  if (challenge.twoFactorSetupRequired) {
+    return (
+      <div className="mt-8 space-y-4">
+        <p className="text-sm text-gray-700">Your role requires two-factor authentication. Set it up to finish signing in.</p>
+        <TwoFactorEnrollment
+          begin={() => apiBeginLoginTwoFactorSetup(challenge.challengeToken)}
+          enable={async (setupCode) => {
+            const { recoveryCodes, ...session } = await apiEnableLoginTwoFactor(challenge.challengeToken, setupCode);
+            // Signed in only once the recovery codes have been seen
+            setEnrolledSession(session);
+            return recoveryCodes;
+          }}
+          onComplete={() => enrolledSession && completeLogin(enrolledSession)}
+          onCancel={onCancel}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleVerify} noValidate>
+      <div className="flex flex-col items-center text-center">
+        <ShieldCheckIcon className="h-10 w-10 text-brand-primary" />
+        <p className="mt-2 text-sm text-gray-700">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</p>
+      </div>
+      <ValidatedInput
+        id="code"
+        label="Authentication code"
+        name="code"
+        autoComplete="one-time-code"
+        autoFocus
+        value={code}
+        onChange={(e) => setCode((e.target as HTMLInputElement).value.trim())}
+        error={null}
+        disabled={isLoading}
+      />
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={onCancel} className="text-sm font-medium text-gray-600 hover:text-gray-800">Back to sign in</button>
+        <button type="submit" className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={isLoading || !code}>
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
 const LoginPage: React.FC = () => {
   const { login } = useAuth();
   const [formData, setFormData] = useState({ email: '', password: '' });
   const [errors, setErrors] = useState({ email: null as string | null, password: null as string | null, form: '' });
   const [isLoading, setIsLoading] = useState(false);
   const [isFormValid, setIsFormValid] = useState(false);
-  const [isForgotPasswordOpen, setForgotPasswordOpen] = useState(false);
+  const [isForgotPasswordOpen, setForgotPasswordOpen] = useState(!!linkResetToken);
+  const [resetToken, setResetToken] = useState(linkResetToken);
+  const [inviteToken, setInviteToken] = useState(linkInviteToken);
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
 
   useEffect(() => {
     const emailError = validate(formData.email, [VALIDATION_RULES.required, VALIDATION_RULES.email]);
@@ -118,6 +255,15 @@ const LoginPage: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
+  const closeForgotPassword = () => {
+    setForgotPasswordOpen(false);
+    // Drop the token from the address bar so a reload shows the plain sign-in page
+    if (resetToken) {
+      setResetToken('');
+      clearLinkToken();
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isFormValid) return;
@@ -127,7 +273,10 @@ const LoginPage: React.FC = () => {
     
     const result = await login(formData.email, formData.password);
     
-    if (!result.success) {
+    if (result.challenge) {
+      setChallenge(result.challenge);
+      setFormData(prev => ({ ...prev, password: '' }));
+    } else if (!result.success) {
       setErrors(prev => ({ ...prev, form: result.message || 'Invalid email or password.' }));
     }
     setIsLoading(false);
@@ -145,64 +294,69 @@ const LoginPage: React.FC = () => {
             Internal Management System
           </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleLogin} noValidate>
-          <div className="rounded-md shadow-sm space-y-4">
-            <ValidatedInput
-                id="email"
-                label="Email address"
-                name="email"
-                type="email"
-                autoComplete="email"
-                placeholder="Email address"
-                value={formData.email}
-                onChange={handleChange}
-                error={errors.email}
-                disabled={isLoading}
-              />
-            <ValidatedInput
-                id="password"
-                label="Password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                placeholder="Password"
-                value={formData.password}
-                onChange={handleChange}
-                error={errors.password}
-                disabled={isLoading}
-              />
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div className="text-sm">
-                <button type="button" onClick={() => setForgotPasswordOpen(true)} className="font-medium text-brand-primary hover:text-brand-accent">
-                    Forgot your password?
-                </button>
+        {challenge ? (
+          <TwoFactorLoginStep challenge={challenge} onCancel={() => setChallenge(null)} />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleLogin} noValidate>
+            <div className="rounded-md shadow-sm space-y-4">
+              <ValidatedInput
+                  id="email"
+                  label="Email address"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="Email address"
+                  value={formData.email}
+                  onChange={handleChange}
+                  error={errors.email}
+                  disabled={isLoading}
+                />
+              <ValidatedInput
+                  id="password"
+                  label="Password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  placeholder="Password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  error={errors.password}
+                  disabled={isLoading}
+                />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-sm">
+                  <button type="button" onClick={() => setForgotPasswordOpen(true)} className="font-medium text-brand-primary hover:text-brand-accent">
+                      Forgot your password?
+                  </button>
+              </div>
+            </div>
+
+
+            {errors.form && <p className="text-sm text-red-600 text-center">{errors.form}</p>}
+
+            <div>
+              <button
+                type="submit"
+                className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-brand-primary hover:bg-brand-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-accent transition-colors disabled:bg-gray-400"
+                disabled={isLoading || !isFormValid}
+              >
+                <ArrowRightOnRectangleIcon className="h-5 w-5 mr-2" />
+                {isLoading ? 'Signing in...' : 'Sign in'}
+              </button>
+            </div>
+             <div className="text-center text-xs text-gray-500 pt-2">
+              <p className="font-semibold">Demo accounts:</p>
+              <p>admin@imips.com (Pass: admin123)</p>
+              <p>manager@imips.com (Pass: manager123)</p>
+              <p>staff@imips.com (Pass: staff123)</p>
             </div>
-          </div>
-
-
-          {errors.form && <p className="text-sm text-red-600 text-center">{errors.form}</p>}
-
-          <div>
-            <button
-              type="submit"
-              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-brand-primary hover:bg-brand-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-accent transition-colors disabled:bg-gray-400"
-              disabled={isLoading || !isFormValid}
-            >
-              <ArrowRightOnRectangleIcon className="h-5 w-5 mr-2" />
-              {isLoading ? 'Signing in...' : 'Sign in'}
-            </button>
-          </div>
-           <div className="text-center text-xs text-gray-500 pt-2">
-            <p className="font-semibold">Demo accounts:</p>
-            <p>admin@imips.com (Pass: admin123)</p>
-            <p>manager@imips.com (Pass: manager123)</p>
-            <p>staff@imips.com (Pass: staff123)</p>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
-      <ForgotPasswordModal isOpen={isForgotPasswordOpen} onClose={() => setForgotPasswordOpen(false)} />
+      <ForgotPasswordModal isOpen={isForgotPasswordOpen} onClose={closeForgotPassword} initialToken={resetToken} />
+      {inviteToken && <AcceptInvitationModal token={inviteToken} onClose={() => { setInviteToken(''); clearLinkToken(); }} />}
     </div>
   );
 };
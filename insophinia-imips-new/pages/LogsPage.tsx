@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { useData } from '../hooks/useData';
-import { Role, LogEntry, User } from '../types';
+import { Permission, LogEntry, User } from '../types';
 import Card from '../components/common/Card';
 import { logger } from '../lib/logger';
 import { CommandLineIcon, TrashIcon, InformationCircleIcon, ExclamationTriangleIcon, XCircleIcon, ArrowDownTrayIcon } from '@heroicons/react/24/solid';
@@ -39,7 +39,7 @@ const LogLevelIndicator: React.FC<{ level: LogEntry['level'] }> = ({ level }) =>
 
 
 const LogsPage: React.FC = () => {
-    const { user } = useAuth();
+    const { user, hasPermission } = useAuth();
     const { users } = useData();
     const [logs, setLogs] = useState<LogEntry[]>(logger.getLogs());
     const [isClearLogsModalOpen, setIsClearLogsModalOpen] = useState(false);
@@ -106,7 +106,7 @@ const LogsPage: React.FC = () => {
         },
     ], [users]);
     
-    if (user?.role !== Role.Admin) {
+    if (!hasPermission(Permission.SecurityManage)) {
         return <Card><p className="text-red-500 font-bold">Access Denied. You must be an Administrator to view logs.</p></Card>
     }
 
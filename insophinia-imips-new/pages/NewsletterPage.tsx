@@ -1,49 +1,87 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { Newsletter, Role } from '../types';
+import { Newsletter, NewsletterRecipient, Permission } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
 import { useToast } from '../hooks/useToast';
-import { PaperAirplaneIcon, EyeIcon, ClockIcon } from '@heroicons/react/24/solid';
+import { PaperAirplaneIcon, EyeIcon, ClockIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
 import ValidatedInput from '../components/common/ValidatedInput';
 import DataTable, { Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
 import { format } from 'date-fns';
+import { fetchNewsletterAudiences, fetchNewsletterRecipients } from '../lib/api';
 
 const NewsletterPage: React.FC = () => {
-    const { user } = useAuth();
-    const { newsletters, sendNewsletter, isLoading, refreshData } = useData();
+    const { hasPermission } = useAuth();
+    const { newsletters, sendNewsletter, resendNewsletter, isLoading, refreshData } = useData();
     const { showToast } = useToast();
     const [isComposeOpen, setIsComposeOpen] = useState(false);
     const [isViewOpen, setIsViewOpen] = useState(false);
     const [selectedNewsletter, setSelectedNewsletter] = useState<Newsletter | null>(null);
+    const [recipients, setRecipients] = useState<NewsletterRecipient[]>([]);
+    const [audienceSizes, setAudienceSizes] = useState<Record<string, number>>({});
 
     const [formData, setFormData] = useState({
         subject: '',
         htmlContent: '',
         recipientGroup: 'all_customers' as Newsletter['recipient_group'],
+        customRecipients: '',
     });
 
+    useEffect(() => {
+        if (isComposeOpen) {
+            fetchNewsletterAudiences().then(setAudienceSizes).catch(() => setAudienceSizes({}));
+        }
+    }, [isComposeOpen]);
+
     const handleSend = async (e: React.FormEvent) => {
         e.preventDefault();
+        const customRecipients = formData.recipientGroup === 'custom'
+            ? formData.customRecipients.split(/[\s,;]+/).filter(Boolean)
+            : undefined;
         try {
-            await sendNewsletter(formData.subject, formData.htmlContent, formData.recipientGroup);
+            await sendNewsletter(formData.subject, formData.htmlContent, formData.recipientGroup, customRecipients);
             showToast('Newsletter is being sent in the background.', 'success');
             setIsComposeOpen(false);
-            setFormData({ subject: '', htmlContent: '', recipientGroup: 'all_customers' });
+            setFormData({ subject: '', htmlContent: '', recipientGroup: 'all_customers', customRecipients: '' });
         } catch (error: any) {
-            showToast(error.message || 'Failed to send newsletter.', 'error');
+            showToast(error.response?.data?.message || error.message || 'Failed to send newsletter.', 'error');
+        }
+    };
+
+    const loadRecipients = async (newsletterId: string) => {
+        try {
+            setRecipients(await fetchNewsletterRecipients(newsletterId));
+        } catch {
+            setRecipients([]);
         }
     };
 
     const handleView = (newsletter: Newsletter) => {
         setSelectedNewsletter(newsletter);
+        setRecipients([]);
         setIsViewOpen(true);
+        loadRecipients(newsletter.id);
     };
 
-    if (user?.role !== Role.Admin && user?.role !== Role.Manager) {
+    const handleResend = async () => {
+        if (!selectedNewsletter) return;
+        try {
+            await resendNewsletter(selectedNewsletter.id);
+            showToast('Resending to failed recipients in the background.', 'success');
+            setIsViewOpen(false);
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to resend newsletter.', 'error');
+        }
+    };
+
+    const failedRecipients = recipients.filter(r => r.status === 'failed');
+    const audienceLabel = (group: string, label: string) =>
+        audienceSizes[group] !== undefined ? `${label} - ${audienceSizes[group]} recipients` : label;
+
+    if (!hasPermission(Permission.NewslettersView)) {
         return <Card><p className="text-red-500 font-bold">Access Denied.</p></Card>;
     }
 
@@ -79,7 +117,7 @@ const NewsletterPage: React.FC = () => {
             <PageHeader
                 title="Newsletters"
                 icon={PaperAirplaneIcon}
-                buttonText="Compose Newsletter"
+                buttonText={hasPermission(Permission.NewslettersSend) ? "Compose Newsletter" : undefined}
                 onButtonClick={() => setIsComposeOpen(true)}
                 onRefresh={refreshData}
             />
@@ -98,10 +136,14 @@ const NewsletterPage: React.FC = () => {
                     <ValidatedInput label="Subject" name="subject" value={formData.subject} onChange={(e) => setFormData(p => ({ ...p, subject: (e.target as HTMLInputElement).value }))} required />
                     {/* Corrected: Cast e.target to HTMLSelectElement to access value property */}
                     <ValidatedInput label="Recipient Group" as="select" name="recipientGroup" value={formData.recipientGroup} onChange={(e) => setFormData(p => ({ ...p, recipientGroup: (e.target as HTMLSelectElement).value as any }))}>
-                        <option value="all_customers">All Customers</option>
-                        <option value="recent_customers">Recent Customers (30 days)</option>
-                        <option value="inquiry_customers">Inquiry Customers</option>
+                        <option value="all_customers">{audienceLabel('all_customers', 'All Customers')}</option>
+                        <option value="recent_customers">{audienceLabel('recent_customers', 'Recent Customers (30 days)')}</option>
+                        <option value="inquiry_customers">{audienceLabel('inquiry_customers', 'Inquiry Customers')}</option>
+                        <option value="custom">Custom List</option>
                     </ValidatedInput>
+                    {formData.recipientGroup === 'custom' && (
+                        <ValidatedInput as="textarea" label="Email Addresses (comma or newline separated)" name="customRecipients" value={formData.customRecipients} onChange={(e) => setFormData(p => ({ ...p, customRecipients: (e.target as HTMLTextAreaElement).value }))} rows={4} required />
+                    )}
                     {/* Corrected: Cast e.target to HTMLTextAreaElement to access value property */}
                     <ValidatedInput as="textarea" label="HTML Content" name="htmlContent" value={formData.htmlContent} onChange={(e) => setFormData(p => ({ ...p, htmlContent: (e.target as HTMLTextAreaElement).value }))} rows={10} required />
                     <div className="flex justify-end gap-2">
@@ -117,6 +159,26 @@ const NewsletterPage: React.FC = () => {
                         <p><strong>Subject:</strong> {selectedNewsletter.subject}</p>
                         <p><strong>Status:</strong> <span className="capitalize">{selectedNewsletter.status}</span></p>
                         <p><strong>Delivery:</strong> {selectedNewsletter.success_count} / {selectedNewsletter.total_recipients} successful</p>
+                        {failedRecipients.length > 0 && (
+                            <div>
+                                <div className="flex justify-between items-center">
+                                    <label className="font-semibold text-status-red">Failed Recipients ({failedRecipients.length})</label>
+                                    {selectedNewsletter.status !== 'sending' && (
+                                        <button onClick={handleResend} className="flex items-center px-3 py-1 text-sm bg-brand-primary text-white rounded hover:bg-brand-secondary">
+                                            <ArrowPathIcon className="h-4 w-4 mr-1" /> Resend to Failed
+                                        </button>
+                                    )}
+                                </div>
+                                <ul className="mt-2 max-h-40 overflow-y-auto text-sm border rounded divide-y">
+                                    {failedRecipients.map(r => (
+                                        <li key={r.id} className="p-2">
+                                            <span className="font-medium">{r.email}</span>
+                                            {r.error && <span className="text-gray-500"> - {r.error}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                         <label className="font-semibold">Content Preview:</label>
                         <iframe srcDoc={selectedNewsletter.html_content} className="w-full h-64 border rounded" title="Preview"/>
                     </div>
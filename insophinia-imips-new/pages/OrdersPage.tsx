@@ -3,74 +3,291 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { Order, OrderStatus, Role } from '../types';
+import { Order, OrderStatus, OrderStatusChange, OrderReturn, OrderReturnInput, ReturnDisposition, Permission, AuditEntityType, ListQuery } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
-import { PrinterIcon, EyeIcon, PencilSquareIcon, ClipboardDocumentListIcon, ClipboardDocumentIcon, XCircleIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+import { PrinterIcon, EyeIcon, PencilSquareIcon, ClipboardDocumentListIcon, ClipboardDocumentIcon, XCircleIcon, TrashIcon, ExclamationTriangleIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/solid';
 import { generateReceipt } from '../lib/generateReceipt';
 import { useToast } from '../hooks/useToast';
 import ConfirmationModal from '../components/common/ConfirmationModal';
 import DataTable, { type Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
 import ValidatedInput from '../components/common/ValidatedInput';
-import { fetchOrders } from '../lib/api';
+import { fetchOrders, fetchOrderStatusHistory, fetchOrderReturns } from '../lib/api';
+import { getNextStatuses } from '../lib/orderStatus';
+import RecordHistoryTabs from '../components/common/RecordHistory';
 
 const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
 };
 
+const canReturnItems = (order: Order) =>
+    order.status !== OrderStatus.Cancelled &&
+    order.status !== OrderStatus.Refunded &&
+    order.items.some(item => item.quantity > (item.returned_quantity || 0));
+
 const OrderDetailsModal: React.FC<{ order: Order; onClose: () => void; }> = ({ order, onClose }) => {
+    const [history, setHistory] = useState<OrderStatusChange[]>([]);
+    const [returns, setReturns] = useState<OrderReturn[]>([]);
+    const [isHistoryLoading, setIsHistoryLoading] = useState(true);
+
+    useEffect(() => {
+        fetchOrderStatusHistory(order.id)
+            .then(setHistory)
+            .catch(() => setHistory([]))
+            .finally(() => setIsHistoryLoading(false));
+        fetchOrderReturns(order.id)
+            .then(setReturns)
+            .catch(() => setReturns([]));
+    }, [order.id]);
+
     return (
         <Modal isOpen={true} onClose={onClose} title={`Order Details - ${order.id}`} icon={ClipboardDocumentIcon}>
-            <div className="space-y-4">
-                <p><strong>Customer:</strong> {order.customerName}</p>
-                <p><strong>Contact:</strong> {order.customerContact}</p>
-                <p><strong>Address:</strong> {order.customerAddress}</p>
-                <p><strong>Date:</strong> {new Date(order.createdAt).toLocaleString()}</p>
-                <p><strong>Status:</strong> <span className="font-semibold">{order.status}</span></p>
-                <h3 className="font-bold mt-4 border-t pt-2">Items Purchased</h3>
-                <ul className="list-disc pl-5">
-                    {order.items.map((item) => (
-                        <li key={item.id}>{item.quantity}x {item.name} @ {formatCurrency(item.price_at_purchase)} each</li>
-                    ))}
-                </ul>
-                 <div className="border-t pt-4 mt-4 space-y-1 text-right">
-                    <p><strong>Subtotal:</strong> {formatCurrency(order.subtotal)}</p>
-                    {order.discountAmount > 0 && (
-                        <p className="text-green-600">
-                            <strong>Discount:</strong> -{formatCurrency(order.discountAmount)}
-                        </p>
+            <RecordHistoryTabs entityType={AuditEntityType.Order} entityId={order.id}>
+                <div className="space-y-4">
+                    <p><strong>Customer:</strong> {order.customerName}</p>
+                    <p><strong>Contact:</strong> {order.customerContact}</p>
+                    <p><strong>Address:</strong> {order.customerAddress}</p>
+                    <p><strong>Date:</strong> {new Date(order.createdAt).toLocaleString()}</p>
+                    <p><strong>Status:</strong> <span className="font-semibold">{order.status}</span></p>
+                    <h3 className="font-bold mt-4 border-t pt-2">Items Purchased</h3>
+                    <ul className="list-disc pl-5">
+                        {order.items.map((item) => (
+                            <li key={item.id}>
+                                {item.quantity}x {item.name} @ {formatCurrency(item.price_at_purchase)} each
+                                {!!item.returned_quantity && <span className="text-orange-600"> ({item.returned_quantity} returned)</span>}
+                            </li>
+                        ))}
+                    </ul>
+                     <div className="border-t pt-4 mt-4 space-y-1 text-right">
+                        <p><strong>Subtotal:</strong> {formatCurrency(order.subtotal)}</p>
+                        {order.discountAmount > 0 && (
+                            <p className="text-green-600">
+                                <strong>Discount:</strong> -{formatCurrency(order.discountAmount)}
+                            </p>
+                        )}
+                        <p className="text-lg font-bold"><strong>Total:</strong> {formatCurrency(order.total)}</p>
+                        {!!order.refundedAmount && (
+                            <>
+                                <p className="text-orange-600"><strong>Refunded:</strong> -{formatCurrency(order.refundedAmount)}</p>
+                                <p className="text-lg font-bold"><strong>Net Total:</strong> {formatCurrency(order.netTotal ?? order.total - order.refundedAmount)}</p>
+                            </>
+                        )}
+                    </div>
+                    {returns.length > 0 && (
+                        <>
+                            <h3 className="font-bold mt-4 border-t pt-2">Returns</h3>
+                            <ul className="space-y-2">
+                                {returns.map(ret => (
+                                    <li key={ret.id} className="text-sm border-l-2 border-orange-300 pl-3">
+                                        <p>
+                                            <span className="font-semibold">{formatCurrency(ret.refundAmount)} refunded</span>
+                                            <span className="text-gray-500"> by {ret.createdByName || 'Unknown User'} on {new Date(ret.createdAt).toLocaleString()}</span>
+                                        </p>
+                                        <ul className="list-disc pl-5">
+                                            {ret.lines.map((line, index) => (
+                                                <li key={index}>{line.quantity}x {line.name} ({line.disposition === ReturnDisposition.Restock ? 'restocked' : 'written off'})</li>
+                                            ))}
+                                        </ul>
+                                        {ret.reason && <p className="text-gray-600 italic">{ret.reason}</p>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                    <h3 className="font-bold mt-4 border-t pt-2">Status History</h3>
+                    {isHistoryLoading ? (
+                        <p className="text-sm text-gray-500">Loading history...</p>
+                    ) : history.length === 0 ? (
+                        <p className="text-sm text-gray-500">No status changes recorded.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {history.map(entry => (
+                                <li key={entry.id} className="text-sm border-l-2 border-gray-300 pl-3">
+                                    <p>
+                                        <span className="font-semibold">{entry.fromStatus ? `${entry.fromStatus} → ${entry.toStatus}` : entry.toStatus}</span>
+                                        <span className="text-gray-500"> by {entry.changedByName || 'Unknown User'} on {new Date(entry.changedAt).toLocaleString()}</span>
+                                    </p>
+                                    {entry.note && <p className="text-gray-600 italic">{entry.note}</p>}
+                                </li>
+                            ))}
+                        </ul>
                     )}
-                    <p className="text-lg font-bold"><strong>Total:</strong> {formatCurrency(order.total)}</p>
+                    <div className="flex justify-end pt-4">
+                        <button onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">Close</button>
+                    </div>
                 </div>
-                <div className="flex justify-end pt-4">
-                    <button onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">Close</button>
+            </RecordHistoryTabs>
+        </Modal>
+    );
+};
+
+const UpdateStatusModal: React.FC<{ order: Order; onSave: (orderId: string, newStatus: OrderStatus, note?: string) => Promise<void>; onClose: () => void; }> = ({ order, onSave, onClose }) => {
+    const nextStatuses = getNextStatuses(order.status);
+    const [newStatus, setNewStatus] = useState<OrderStatus | undefined>(nextStatuses[0]);
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        if (!newStatus) return;
+        setIsSaving(true);
+        try {
+            await onSave(order.id, newStatus, note.trim() || undefined);
+            onClose();
+        } catch {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={`Update Status for Order ${order.id.substring(0,8)}...`} icon={PencilSquareIcon}>
+            <div className="space-y-4">
+                {nextStatuses.length === 0 ? (
+                    <p>This order is <span className="font-semibold">{order.status}</span> and its status can no longer be changed.</p>
+                ) : (
+                    <>
+                        <p>Current status: <span className="font-semibold">{order.status}</span>. Select the new status for this order.</p>
+                        <select value={newStatus} onChange={(e) => setNewStatus(e.target.value as OrderStatus)} className="w-full p-2 border rounded">
+                            {nextStatuses.map(status => (
+                                <option key={status} value={status}>{status}</option>
+                            ))}
+                        </select>
+                        {(newStatus === OrderStatus.Cancelled || newStatus === OrderStatus.Refunded) && (
+                            <p className="text-sm text-orange-600">The items in this order will be returned to stock.</p>
+                        )}
+                        <textarea
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder="Note (optional)"
+                            rows={3}
+                            className="w-full p-2 border rounded"
+                        />
+                    </>
+                )}
+                <div className="flex justify-end space-x-2 pt-4">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">Cancel</button>
+                    {nextStatuses.length > 0 && (
+                        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:opacity-50">
+                            {isSaving ? 'Saving...' : 'Save Status'}
+                        </button>
+                    )}
                 </div>
             </div>
         </Modal>
     );
 };
 
-const UpdateStatusModal: React.FC<{ order: Order; onSave: (orderId: string, newStatus: OrderStatus) => void; onClose: () => void; }> = ({ order, onSave, onClose }) => {
-    const [newStatus, setNewStatus] = useState<OrderStatus>(order.status);
+const ReturnItemsModal: React.FC<{ order: Order; onSave: (orderId: string, input: OrderReturnInput) => Promise<void>; onClose: () => void; }> = ({ order, onSave, onClose }) => {
+    const returnableItems = order.items.filter(item => item.quantity > (item.returned_quantity || 0));
+    const [quantities, setQuantities] = useState<Record<number, number>>({});
+    const [dispositions, setDispositions] = useState<Record<number, ReturnDisposition>>({});
+    const [refundAmount, setRefundAmount] = useState('0.00');
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const refundable = Math.round((order.total - (order.refundedAmount || 0)) * 100) / 100;
+
+    // The refund is capped at the value of the returned units after the order's discount
+    const returnedValue = (selected: Record<number, number>) => {
+        const ratio = order.subtotal > 0 ? order.total / order.subtotal : 1;
+        const value = order.items.reduce((sum, item) => sum + (selected[item.id] || 0) * item.price_at_purchase * ratio, 0);
+        return Math.min(Math.round(value * 100) / 100, refundable);
+    };
+    const maxRefund = returnedValue(quantities);
 
-    const handleSave = () => {
-        onSave(order.id, newStatus);
-        onClose();
+    const updateQuantity = (itemId: number, quantity: number) => {
+        const next = { ...quantities, [itemId]: quantity };
+        setQuantities(next);
+        setRefundAmount(returnedValue(next).toFixed(2));
+    };
+
+    const handleSave = async () => {
+        const lines = returnableItems
+            .filter(item => (quantities[item.id] || 0) > 0)
+            .map(item => ({ orderItemId: item.id, quantity: quantities[item.id], disposition: dispositions[item.id] || ReturnDisposition.Restock }));
+        if (lines.length === 0) {
+            setError('Select at least one item to return.');
+            return;
+        }
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSave(order.id, { lines, refundAmount: parseFloat(refundAmount) || 0, reason: reason.trim() || undefined });
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to record return.');
+            setIsSaving(false);
+        }
     };
 
     return (
-        <Modal isOpen={true} onClose={onClose} title={`Update Status for Order ${order.id.substring(0,8)}...`} icon={PencilSquareIcon}>
+        <Modal isOpen={true} onClose={onClose} title={`Return Items - Order ${order.id.substring(0,8)}...`} icon={ArrowUturnLeftIcon}>
             <div className="space-y-4">
-                <p>Select the new status for this order.</p>
-                <select value={newStatus} onChange={(e) => setNewStatus(e.target.value as OrderStatus)} className="w-full p-2 border rounded">
-                    {Object.values(OrderStatus).map(status => (
-                        <option key={status} value={status}>{status}</option>
-                    ))}
-                </select>
+                <table className="w-full text-left text-sm">
+                    <thead>
+                        <tr className="border-b">
+                            <th className="p-2">Item</th>
+                            <th className="p-2">Return</th>
+                            <th className="p-2">Condition</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {returnableItems.map(item => {
+                            const remaining = item.quantity - (item.returned_quantity || 0);
+                            return (
+                                <tr key={item.id} className="border-b">
+                                    <td className="p-2">{item.name} <span className="text-gray-500">({remaining} of {item.quantity} returnable)</span></td>
+                                    <td className="p-2">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={remaining}
+                                            value={quantities[item.id] || 0}
+                                            onChange={(e) => updateQuantity(item.id, Math.max(0, Math.min(remaining, parseInt(e.target.value, 10) || 0)))}
+                                            className="w-20 p-1 border rounded"
+                                        />
+                                    </td>
+                                    <td className="p-2">
+                                        <select
+                                            value={dispositions[item.id] || ReturnDisposition.Restock}
+                                            onChange={(e) => setDispositions(prev => ({ ...prev, [item.id]: e.target.value as ReturnDisposition }))}
+                                            className="p-1 border rounded"
+                                        >
+                                            <option value={ReturnDisposition.Restock}>Restock</option>
+                                            <option value={ReturnDisposition.WriteOff}>Write off</option>
+                                        </select>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Refund Amount (max {formatCurrency(maxRefund)})</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={maxRefund}
+                        step="0.01"
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        className="w-full p-2 border rounded"
+                    />
+                </div>
+                <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason (optional)"
+                    rows={2}
+                    className="w-full p-2 border rounded"
+                />
+                {error && <p className="text-sm text-status-red">{error}</p>}
                 <div className="flex justify-end space-x-2 pt-4">
                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">Cancel</button>
-                    <button onClick={handleSave} className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary">Save Status</button>
+                    <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:opacity-50">
+                        {isSaving ? 'Saving...' : 'Record Return'}
+                    </button>
                 </div>
             </div>
         </Modal>
@@ -81,10 +298,9 @@ const DeleteModal: React.FC<{
   order: Order;
   onClose: () => void;
   onArchive: () => void;
-  onPermanentDelete: () => Promise<void>;
-  reauthenticate: (password: string) => Promise<boolean>;
+  onPermanentDelete: (password: string) => Promise<void>;
   isAdmin: boolean;
-}> = ({ order, onClose, onArchive, onPermanentDelete, reauthenticate, isAdmin }) => {
+}> = ({ order, onClose, onArchive, onPermanentDelete, isAdmin }) => {
     const [isPermanentConfirm, setPermanentConfirm] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -93,11 +309,11 @@ const DeleteModal: React.FC<{
     const handlePermanentDelete = async () => {
         setIsProcessing(true);
         setError('');
-        if (await reauthenticate(password)) {
-            await onPermanentDelete();
+        try {
+            await onPermanentDelete(password);
             onClose();
-        } else {
-            setError('Incorrect password. Deletion failed.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Deletion failed.');
         }
         setIsProcessing(false);
     };
@@ -143,23 +359,25 @@ const DeleteModal: React.FC<{
 
 
 const OrdersPage: React.FC = () => {
-    const { updateOrderStatus, deleteOrder, hardDeleteOrder, users, refreshData: contextRefresh } = useData();
-    const { user, reauthenticate } = useAuth();
+    const { updateOrderStatus, returnOrderItems, deleteOrder, hardDeleteOrder, users, refreshData: contextRefresh } = useData();
+    const { hasPermission } = useAuth();
     const { showToast } = useToast();
     
     const [orders, setOrders] = useState<Order[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [pagination, setPagination] = useState({ page: 1, limit: 10, total: 0, pages: 1 });
+    const [query, setQuery] = useState<ListQuery>({ sort: 'createdAt', order: 'desc' });
 
     const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
     const [orderToUpdate, setOrderToUpdate] = useState<Order | null>(null);
     const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+    const [orderToReturn, setOrderToReturn] = useState<Order | null>(null);
     const [orderToDelete, setOrderToDelete] = useState<Order | null>(null);
 
-    const fetchPageData = async (page: number, limit: number) => {
+    const fetchPageData = async (page: number, limit: number, listQuery: ListQuery = query) => {
         setIsLoading(true);
         try {
-            const response = await fetchOrders(page, limit);
+            const response = await fetchOrders(page, limit, listQuery);
             setOrders(response.data);
             setPagination(response.pagination);
         } catch (error) {
@@ -172,6 +390,13 @@ const OrdersPage: React.FC = () => {
         fetchPageData(pagination.page, pagination.limit);
     }, []);
 
+    // Changing search, filter or sort starts again from the first page
+    const updateQuery = (changes: Partial<ListQuery>) => {
+        const next = { ...query, ...changes };
+        setQuery(next);
+        fetchPageData(1, pagination.limit, next);
+    };
+
     const handleRefresh = () => {
         contextRefresh(); // Refresh context data as well
         fetchPageData(1, pagination.limit);
@@ -182,16 +407,27 @@ const OrdersPage: React.FC = () => {
         generateReceipt(order, creator?.name || 'Unknown User');
     };
 
-    const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus) => {
-        await updateOrderStatus(orderId, newStatus);
+    const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus, note?: string) => {
+        // DataContext reports the failure; rethrow so the modal stays open
+        await updateOrderStatus(orderId, newStatus, note);
         setOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: newStatus } : o));
     };
 
+    const handleReturnItems = async (orderId: string, input: OrderReturnInput) => {
+        const updated = await returnOrderItems(orderId, input);
+        setOrders(prev => prev.map(o => o.id === orderId ? updated : o));
+        showToast(`Return recorded for order #${orderId.substring(0,8)}...`, 'success');
+    };
+
     const handleCancelConfirm = async () => {
         if (orderToCancel) {
-            await updateOrderStatus(orderToCancel.id, OrderStatus.Cancelled);
-            showToast(`Order #${orderToCancel.id.substring(0,8)}... has been cancelled.`, 'success');
-            setOrders(prev => prev.map(o => o.id === orderToCancel.id ? { ...o, status: OrderStatus.Cancelled } : o));
+            try {
+                await updateOrderStatus(orderToCancel.id, OrderStatus.Cancelled);
+                showToast(`Order #${orderToCancel.id.substring(0,8)}... has been cancelled.`, 'success');
+                setOrders(prev => prev.map(o => o.id === orderToCancel.id ? { ...o, status: OrderStatus.Cancelled } : o));
+            } catch (error: any) {
+                showToast(error.response?.data?.message || 'Failed to cancel order.', 'error');
+            }
             setOrderToCancel(null);
         }
     };
@@ -206,9 +442,9 @@ const OrdersPage: React.FC = () => {
         }
     };
     
-    const handlePermanentDelete = async () => {
+    const handlePermanentDelete = async (password: string) => {
         if (orderToDelete) {
-            await hardDeleteOrder(orderToDelete.id);
+            await hardDeleteOrder(orderToDelete.id, password);
             showToast(`Order "${orderToDelete.id.substring(0,8)}..." permanently deleted.`, 'success');
             fetchPageData(pagination.page, pagination.limit);
             setOrderToDelete(null);
@@ -228,14 +464,25 @@ const OrdersPage: React.FC = () => {
 
         return [
             { header: 'Order ID', accessor: 'id', cell: (order: Order) => <span className="font-mono text-sm text-gray-600">{order.id}</span> },
-            { header: 'Customer', accessor: 'customerName' },
-            { header: 'Date', accessor: 'createdAt', cell: (order: Order) => new Date(order.createdAt).toLocaleDateString() },
+            { header: 'Customer', accessor: 'customerName', sortable: true },
+            { header: 'Date', accessor: 'createdAt', sortable: true, cell: (order: Order) => new Date(order.createdAt).toLocaleDateString() },
             { 
                 header: 'Status', 
                 accessor: 'status',
+                sortable: true,
                 cell: (order: Order) => <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(order.status)}`}>{order.status}</span>
             },
-            { header: 'Total', accessor: 'total', cell: (order: Order) => <span className="font-semibold">{formatCurrency(order.total)}</span> },
+            {
+                header: 'Total',
+                accessor: 'total',
+                sortable: true,
+                cell: (order: Order) => order.refundedAmount ? (
+                    <span title={`${formatCurrency(order.refundedAmount)} refunded of ${formatCurrency(order.total)}`}>
+                        <span className="font-semibold">{formatCurrency(order.netTotal ?? order.total - order.refundedAmount)}</span>
+                        <span className="ml-1 text-xs text-gray-400 line-through">{formatCurrency(order.total)}</span>
+                    </span>
+                ) : <span className="font-semibold">{formatCurrency(order.total)}</span>
+            },
             {
                 header: 'Actions',
                 accessor: 'actions',
@@ -243,18 +490,23 @@ const OrdersPage: React.FC = () => {
                     <div className="flex items-center space-x-1">
                         <button onClick={() => setSelectedOrder(order)} className="p-2 text-blue-600 hover:text-blue-800" title="View Details"><EyeIcon className="h-5 w-5" /></button>
                         <button onClick={() => handlePrintReceipt(order)} className="p-2 text-gray-600 hover:text-gray-800" title="Print Receipt"><PrinterIcon className="h-5 w-5" /></button>
-                        <button onClick={() => setOrderToUpdate(order)} className="p-2 text-purple-600 hover:text-purple-800" title="Update Status"><PencilSquareIcon className="h-5 w-5" /></button>
-                        {order.status === OrderStatus.Processing && (user?.role === Role.Admin || user?.role === Role.Manager) && (
+                        {getNextStatuses(order.status).length > 0 && hasPermission(Permission.OrdersUpdateStatus) && (
+                            <button onClick={() => setOrderToUpdate(order)} className="p-2 text-purple-600 hover:text-purple-800" title="Update Status"><PencilSquareIcon className="h-5 w-5" /></button>
+                        )}
+                        {canReturnItems(order) && hasPermission(Permission.OrdersRefund) && (
+                            <button onClick={() => setOrderToReturn(order)} className="p-2 text-teal-600 hover:text-teal-800" title="Return Items"><ArrowUturnLeftIcon className="h-5 w-5" /></button>
+                        )}
+                        {order.status === OrderStatus.Processing && hasPermission(Permission.OrdersUpdateStatus) && (
                             <button onClick={() => setOrderToCancel(order)} className="p-2 text-orange-600 hover:text-orange-800" title="Cancel Order"><XCircleIcon className="h-5 w-5" /></button>
                         )}
-                         {(user?.role === Role.Admin || user?.role === Role.Manager) && (
+                         {hasPermission(Permission.OrdersDelete, Permission.OrdersPurge) && (
                             <button onClick={() => setOrderToDelete(order)} className="p-2 text-red-600 hover:text-red-800" title="Delete Order"><TrashIcon className="h-5 w-5" /></button>
                         )}
                     </div>
                 )
             }
         ];
-    }, [user, users]);
+    }, [hasPermission, users]);
 
     return (
         <div>
@@ -278,6 +530,10 @@ const OrdersPage: React.FC = () => {
                         itemsPerPage: pagination.limit,
                         onPageChange: (page) => fetchPageData(page, pagination.limit),
                         onItemsPerPageChange: (limit) => fetchPageData(1, limit),
+                        onSearchChange: (search) => { if (search !== (query.search || '')) updateQuery({ search: search || undefined }); },
+                        onFilterChange: (status) => updateQuery({ filters: status ? { status } : undefined }),
+                        sort: query.sort ? { field: query.sort, order: query.order || 'asc' } : undefined,
+                        onSortChange: (sort, order) => updateQuery({ sort, order }),
                     }}
                 />
             </Card>
@@ -290,13 +546,17 @@ const OrdersPage: React.FC = () => {
                 <UpdateStatusModal order={orderToUpdate} onSave={handleStatusUpdate} onClose={() => setOrderToUpdate(null)} />
             )}
 
+            {orderToReturn && (
+                <ReturnItemsModal order={orderToReturn} onSave={handleReturnItems} onClose={() => setOrderToReturn(null)} />
+            )}
+
             {orderToCancel && (
                  <ConfirmationModal
                     isOpen={!!orderToCancel}
                     onClose={() => setOrderToCancel(null)}
                     onConfirm={handleCancelConfirm}
                     title="Confirm Order Cancellation"
-                    message={`Are you sure you want to cancel the order for "${orderToCancel.customerName}"? This action cannot be undone.`}
+                    message={`Are you sure you want to cancel the order for "${orderToCancel.customerName}"? Its items will be returned to stock. This action cannot be undone.`}
                     variant="destructive"
                 />
             )}
@@ -307,8 +567,7 @@ const OrdersPage: React.FC = () => {
                     onClose={() => setOrderToDelete(null)}
                     onArchive={handleArchive}
                     onPermanentDelete={handlePermanentDelete}
-                    reauthenticate={reauthenticate}
-                    isAdmin={user?.role === Role.Admin}
+                    isAdmin={hasPermission(Permission.OrdersPurge)}
                 />
             )}
         </div>
@@ -2,10 +2,11 @@
 import React, { useState, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import Card from '../components/common/Card';
-import { DocumentChartBarIcon, CurrencyDollarIcon, ClipboardDocumentListIcon, ChartBarIcon, ArrowDownTrayIcon, TrophyIcon, UserGroupIcon, TagIcon, ArchiveBoxIcon } from '@heroicons/react/24/solid';
+import { DocumentChartBarIcon, CurrencyDollarIcon, ClipboardDocumentListIcon, ChartBarIcon, ArrowDownTrayIcon, TrophyIcon, UserGroupIcon, TagIcon, ArchiveBoxIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/solid';
 import { subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, format, parseISO, isWithinInterval } from 'date-fns';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import AuthenticatedImage from '../components/common/AuthenticatedImage';
+import { Order, OrderItem, OrderStatus } from '../types';
 
 const ReportsPage: React.FC = () => {
     // FIX: Destructure `inventory` to look up item categories.
@@ -30,22 +31,28 @@ const ReportsPage: React.FC = () => {
         }
     };
 
+    // Cancelled orders were never sales, so they are left out of every figure
     const filteredOrders = useMemo(() => {
-        return orders.filter(order => isWithinInterval(parseISO(order.createdAt), { start: customRange.start, end: customRange.end }));
+        return orders.filter(order => order.status !== OrderStatus.Cancelled && isWithinInterval(parseISO(order.createdAt), { start: customRange.start, end: customRange.end }));
     }, [orders, customRange]);
 
+    // Revenue figures are net of refunds, and returned units no longer count as sold
+    const netTotal = (order: Order) => order.netTotal ?? order.total - (order.refundedAmount || 0);
+    const netQuantity = (item: OrderItem) => item.quantity - (item.returned_quantity || 0);
+
     // --- KPIs ---
-    const totalRevenue = filteredOrders.reduce((acc, order) => acc + order.total, 0);
+    const totalRevenue = filteredOrders.reduce((acc, order) => acc + netTotal(order), 0);
     const totalOrders = filteredOrders.length;
     const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
     const totalDiscounts = filteredOrders.reduce((acc, order) => acc + order.discountAmount, 0);
+    const totalRefunds = filteredOrders.reduce((acc, order) => acc + (order.refundedAmount || 0), 0);
     // FIX: Property 'cartQuantity' does not exist on type 'OrderItem'. Use 'quantity'.
-    const totalItemsSold = filteredOrders.reduce((acc, order) => acc + order.items.reduce((itemAcc, item) => itemAcc + item.quantity, 0), 0);
+    const totalItemsSold = filteredOrders.reduce((acc, order) => acc + order.items.reduce((itemAcc, item) => itemAcc + netQuantity(item), 0), 0);
 
     // --- Chart Data ---
     const salesByDay = filteredOrders.reduce((acc, order) => {
         const day = format(parseISO(order.createdAt), 'yyyy-MM-dd');
-        acc[day] = (acc[day] || 0) + order.total;
+        acc[day] = (acc[day] || 0) + netTotal(order);
         return acc;
     }, {} as Record<string, number>);
 
@@ -57,8 +64,8 @@ const ReportsPage: React.FC = () => {
     // --- Top Products ---
     const productSales = filteredOrders.flatMap(order => order.items).reduce((acc, item) => {
       acc[item.name] = (acc[item.name] || { quantity: 0, revenue: 0, imageUrl: item.image_url });
-      acc[item.name].quantity += item.quantity;
-      acc[item.name].revenue += item.quantity * item.price_at_purchase;
+      acc[item.name].quantity += netQuantity(item);
+      acc[item.name].revenue += netQuantity(item) * item.price_at_purchase;
       return acc;
     }, {} as Record<string, { quantity: number; revenue: number; imageUrl?: string; }>);
 
@@ -72,7 +79,7 @@ const ReportsPage: React.FC = () => {
     const salesByCategory = filteredOrders.flatMap(o => o.items).reduce((acc, item) => {
         const inventoryItem = inventory.find(i => i.id === item.inventory_item_id);
         const category = inventoryItem?.category || 'Uncategorized';
-        acc[category] = (acc[category] || 0) + (item.price_at_purchase * item.quantity);
+        acc[category] = (acc[category] || 0) + (item.price_at_purchase * netQuantity(item));
         return acc;
     }, {} as Record<string, number>);
     const categoryChartData = Object.entries(salesByCategory).map(([name, value]) => ({ name, value }));
@@ -81,7 +88,7 @@ const ReportsPage: React.FC = () => {
     const salesByStaff = filteredOrders.reduce((acc, order) => {
         if (order.createdBy) {
             const staffName = users.find(u => u.id === order.createdBy)?.name || 'Unknown';
-            acc[staffName] = (acc[staffName] || 0) + order.total;
+            acc[staffName] = (acc[staffName] || 0) + netTotal(order);
         }
         return acc;
     }, {} as Record<string, number>);
@@ -151,11 +158,12 @@ const ReportsPage: React.FC = () => {
                 </div>
             </Card>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-6 mb-6">
-                <StatCard icon={CurrencyDollarIcon} title="Total Revenue" value={formatCurrency(totalRevenue)} />
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 mb-6">
+                <StatCard icon={CurrencyDollarIcon} title="Net Revenue" value={formatCurrency(totalRevenue)} />
                 <StatCard icon={ClipboardDocumentListIcon} title="Total Orders" value={totalOrders} />
                 <StatCard icon={ChartBarIcon} title="Avg. Order Value" value={formatCurrency(avgOrderValue)} />
                 <StatCard icon={TagIcon} title="Total Discounts" value={formatCurrency(totalDiscounts)} />
+                <StatCard icon={ArrowUturnLeftIcon} title="Refunds" value={formatCurrency(totalRefunds)} />
                 <StatCard icon={ArchiveBoxIcon} title="Items Sold" value={totalItemsSold} />
             </div>
 
@@ -2,7 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { Role, SecurityLog, BlockedIP } from '../types';
+import { Permission, SecurityLog, BlockedIP } from '../types';
 import Card from '../components/common/Card';
 import { ShieldCheckIcon, NoSymbolIcon } from '@heroicons/react/24/solid';
 import DataTable, { Column } from '../components/common/DataTable';
@@ -12,12 +12,12 @@ import { useToast } from '../hooks/useToast';
 import ConfirmationModal from '../components/common/ConfirmationModal';
 
 const SecurityPage: React.FC = () => {
-    const { user } = useAuth();
+    const { hasPermission } = useAuth();
     const { securityLogs, blockedIPs, unblockIp, isLoading, refreshData } = useData();
     const { showToast } = useToast();
     const [ipToUnblock, setIpToUnblock] = useState<string | null>(null);
 
-    if (user?.role !== Role.Admin) {
+    if (!hasPermission(Permission.SecurityManage)) {
         return <Card><p className="text-red-500 font-bold">Access Denied. You must be an Administrator to view this page.</p></Card>;
     }
 
@@ -1,34 +1,442 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { useData } from '../hooks/useData';
-import { Role } from '../types';
+import { BackupFrequency, BackupRetention, BackupScheduleStatus, BackupSummary, InquiryAssignmentStrategy, InquiryRoutingSettings, InquiryStatus, Permission, PermissionDefinition, RestoreResult, Role, RoleDefinition, TwoFactorPolicy } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
-import { ArrowDownTrayIcon, ArrowUpTrayIcon, ShieldCheckIcon, CloudArrowUpIcon, Cog6ToothIcon, ServerStackIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, ShieldCheckIcon, CloudArrowUpIcon, Cog6ToothIcon, ServerStackIcon, ExclamationTriangleIcon, ClockIcon, LockClosedIcon, UserGroupIcon, TrashIcon } from '@heroicons/react/24/solid';
 import { useToast } from '../hooks/useToast';
-import { listBackups } from '../lib/api';
+import { listBackups, previewRestore, fetchBackupSchedule, updateBackupSchedule, fetchInquiryRouting, updateInquiryRouting, fetchTwoFactorPolicy, updateTwoFactorPolicy, fetchRoles, fetchPermissionCatalogue, createRole, updateRole, deleteRole } from '../lib/api';
 import { format } from 'date-fns';
 
+const STRATEGY_LABELS: Record<InquiryAssignmentStrategy, string> = {
+    manual: 'Manual (no automatic assignment)',
+    round_robin: 'Round-robin across Staff',
+    least_loaded: 'Staff member with the fewest open inquiries',
+};
+
+// Empty input means no target for that status
+const toHours = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const InquiryRoutingCard: React.FC<{ readOnly: boolean }> = ({ readOnly }) => {
+    const { showToast } = useToast();
+    const [routing, setRouting] = useState<InquiryRoutingSettings | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchInquiryRouting()
+            .then(setRouting)
+            .catch(() => showToast('Could not fetch inquiry routing settings.', 'error'));
+    }, []);
+
+    if (!routing) return null;
+
+    const handleTargetChange = (status: InquiryStatus, field: 'firstResponseHours' | 'resolutionHours', value: string) => {
+        setRouting({
+            ...routing,
+            slaTargets: { ...routing.slaTargets, [status]: { ...routing.slaTargets[status], [field]: toHours(value) } },
+        });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            setRouting(await updateInquiryRouting(routing));
+            showToast('Inquiry routing settings saved.', 'success');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to save inquiry routing settings.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-4 mb-4 flex items-center">
+                <ClockIcon className="h-6 w-6 mr-3 text-gray-400" />
+                Inquiry Routing &amp; SLAs
+            </h2>
+            <div className="space-y-6">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <label htmlFor="inquiry-strategy" className="font-bold text-gray-800">Assignment of new inquiries</label>
+                    <select id="inquiry-strategy" disabled={readOnly} value={routing.strategy} onChange={e => setRouting({ ...routing, strategy: e.target.value as InquiryAssignmentStrategy })} className="mt-2 block w-full md:w-96 p-2 border rounded-lg bg-white">
+                        {(Object.keys(STRATEGY_LABELS) as InquiryAssignmentStrategy[]).map(strategy => (
+                            <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-bold text-gray-800">Response targets</h3>
+                    <p className="text-sm text-gray-600 mt-1">Hours after an inquiry is received. Overdue inquiries are escalated to a Manager by email. Leave empty for no target.</p>
+                    <table className="mt-4 text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600">
+                                <th className="pr-6 pb-2">Status</th>
+                                <th className="pr-6 pb-2">First response (h)</th>
+                                <th className="pb-2">Resolution (h)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Object.values(InquiryStatus).map(status => (
+                                <tr key={status}>
+                                    <td className="pr-6 py-1 font-medium text-gray-800">{status}</td>
+                                    <td className="pr-6 py-1">
+                                        <input type="number" min="1" disabled={readOnly} value={routing.slaTargets[status].firstResponseHours ?? ''} onChange={e => handleTargetChange(status, 'firstResponseHours', e.target.value)} className="w-24 p-2 border rounded-lg bg-white" />
+                                    </td>
+                                    <td className="py-1">
+                                        <input type="number" min="1" disabled={readOnly} value={routing.slaTargets[status].resolutionHours ?? ''} onChange={e => handleTargetChange(status, 'resolutionHours', e.target.value)} className="w-24 p-2 border rounded-lg bg-white" />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {!readOnly && (
+                    <div className="flex justify-end">
+                        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-brand-primary text-white rounded-lg shadow hover:bg-brand-secondary transition-colors disabled:bg-gray-300">
+                            {isSaving ? 'Saving...' : 'Save Routing Settings'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+const TwoFactorPolicyCard: React.FC = () => {
+    const { showToast } = useToast();
+    const [policy, setPolicy] = useState<TwoFactorPolicy | null>(null);
+    const [roleNames, setRoleNames] = useState<string[]>(Object.values(Role));
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchTwoFactorPolicy()
+            .then(setPolicy)
+            .catch(() => showToast('Could not fetch the two-factor policy.', 'error'));
+        fetchRoles()
+            .then(roles => setRoleNames(roles.map(role => role.name)))
+            .catch(() => { /* Fall back to the built-in roles */ });
+    }, []);
+
+    if (!policy) return null;
+
+    const toggleRole = (role: string) => {
+        const requiredRoles = policy.requiredRoles.includes(role)
+            ? policy.requiredRoles.filter(r => r !== role)
+            : [...policy.requiredRoles, role];
+        setPolicy({ requiredRoles });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            setPolicy(await updateTwoFactorPolicy(policy));
+            showToast('Two-factor policy saved.', 'success');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to save the two-factor policy.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-4 mb-4 flex items-center">
+                <LockClosedIcon className="h-6 w-6 mr-3 text-gray-400" />
+                Two-Factor Authentication
+            </h2>
+            <div className="space-y-6">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-bold text-gray-800">Required for</h3>
+                    <p className="text-sm text-gray-600 mt-1">Members of these roles must set up an authenticator app at their next sign-in and cannot turn it off. Everyone else can enable it from their profile.</p>
+                    <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2">
+                        {roleNames.map(role => (
+                            <label key={role} className="flex items-center text-sm font-medium text-gray-800">
+                                <input type="checkbox" checked={policy.requiredRoles.includes(role)} onChange={() => toggleRole(role)} className="mr-2 h-4 w-4" />
+                                {role}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-brand-primary text-white rounded-lg shadow hover:bg-brand-secondary transition-colors disabled:bg-gray-300">
+                        {isSaving ? 'Saving...' : 'Save Two-Factor Policy'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const RolesCard: React.FC = () => {
+    const { showToast } = useToast();
+    const { refreshPermissions } = useAuth();
+    const [roles, setRoles] = useState<RoleDefinition[]>([]);
+    const [catalogue, setCatalogue] = useState<PermissionDefinition[]>([]);
+    const [selectedName, setSelectedName] = useState<string>(Role.Manager);
+    const [draft, setDraft] = useState<Permission[]>([]);
+    const [newRoleName, setNewRoleName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadRoles = async () => {
+        try {
+            setRoles(await fetchRoles());
+        } catch (error) {
+            showToast('Could not fetch roles.', 'error');
+        }
+    };
+
+    useEffect(() => {
+        loadRoles();
+        fetchPermissionCatalogue()
+            .then(setCatalogue)
+            .catch(() => showToast('Could not fetch the permission catalogue.', 'error'));
+    }, []);
+
+    const selectedRole = roles.find(role => role.name === selectedName);
+
+    useEffect(() => {
+        setDraft(selectedRole ? selectedRole.permissions : []);
+    }, [selectedRole]);
+
+    const groups = useMemo(() => {
+        const byGroup = new Map<string, PermissionDefinition[]>();
+        catalogue.forEach(definition => byGroup.set(definition.group, [...(byGroup.get(definition.group) || []), definition]));
+        return [...byGroup.entries()];
+    }, [catalogue]);
+
+    // The Admin role always keeps every permission
+    const isLocked = selectedRole?.name === Role.Admin;
+
+    const togglePermission = (permission: Permission) => {
+        setDraft(prev => prev.includes(permission) ? prev.filter(p => p !== permission) : [...prev, permission]);
+    };
+
+    const handleSave = async () => {
+        if (!selectedRole) return;
+        setIsSaving(true);
+        try {
+            await updateRole(selectedRole.name, { permissions: draft });
+            showToast(`Role "${selectedRole.name}" saved.`, 'success');
+            await loadRoles();
+            await refreshPermissions();
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to save the role.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            const role = await createRole({ name: newRoleName.trim(), permissions: [] });
+            showToast(`Role "${role.name}" created.`, 'success');
+            setNewRoleName('');
+            await loadRoles();
+            setSelectedName(role.name);
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to create the role.', 'error');
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selectedRole) return;
+        try {
+            await deleteRole(selectedRole.name);
+            showToast(`Role "${selectedRole.name}" deleted.`, 'success');
+            setSelectedName(Role.Manager);
+            await loadRoles();
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to delete the role.', 'error');
+        }
+    };
+
+    return (
+        <Card className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-4 mb-4 flex items-center">
+                <UserGroupIcon className="h-6 w-6 mr-3 text-gray-400" />
+                Roles &amp; Permissions
+            </h2>
+            <div className="space-y-6">
+                <div className="flex flex-col md:flex-row md:items-end gap-4 p-4 bg-gray-50 rounded-lg">
+                    <div>
+                        <label htmlFor="role-select" className="font-bold text-gray-800">Role</label>
+                        <select id="role-select" value={selectedName} onChange={e => setSelectedName(e.target.value)} className="mt-2 block w-full md:w-72 p-2 border rounded-lg bg-white">
+                            {roles.map(role => (
+                                <option key={role.name} value={role.name}>{role.name}{role.isSystem ? ' (built-in)' : ''} · {role.userCount ?? 0} users</option>
+                            ))}
+                        </select>
+                    </div>
+                    <form onSubmit={handleCreate} className="flex items-end gap-2 md:ml-auto">
+                        <div>
+                            <label htmlFor="new-role" className="font-bold text-gray-800">New custom role</label>
+                            <input id="new-role" value={newRoleName} onChange={e => setNewRoleName(e.target.value)} placeholder="e.g. Warehouse" className="mt-2 block w-full md:w-56 p-2 border rounded-lg bg-white" />
+                        </div>
+                        <button type="submit" disabled={!newRoleName.trim()} className="px-4 py-2 bg-brand-primary text-white rounded-lg shadow hover:bg-brand-secondary transition-colors disabled:bg-gray-300">Create</button>
+                    </form>
+                </div>
+                {selectedRole && (
+                    <div className="p-4 bg-gray-50 rounded-lg">
+                        {isLocked && <p className="text-sm text-gray-600 mb-4">The Admin role always has every permission and cannot be changed.</p>}
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                            {groups.map(([group, definitions]) => (
+                                <div key={group}>
+                                    <h3 className="font-bold text-gray-800 mb-2">{group}</h3>
+                                    {definitions.map(definition => (
+                                        <label key={definition.key} className="flex items-start text-sm text-gray-800 py-1" title={definition.key}>
+                                            <input type="checkbox" checked={draft.includes(definition.key)} disabled={isLocked} onChange={() => togglePermission(definition.key)} className="mr-2 mt-0.5 h-4 w-4" />
+                                            {definition.description}
+                                        </label>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {selectedRole && !isLocked && (
+                    <div className="flex justify-end space-x-2">
+                        {!selectedRole.isSystem && (
+                            <button onClick={handleDelete} disabled={(selectedRole.userCount ?? 0) > 0} title={(selectedRole.userCount ?? 0) > 0 ? 'Reassign its users before deleting this role' : undefined} className="flex items-center px-4 py-2 bg-status-red text-white rounded-lg shadow hover:bg-red-700 transition-colors disabled:bg-gray-300">
+                                <TrashIcon className="h-5 w-5 mr-2" />
+                                Delete Role
+                            </button>
+                        )}
+                        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-brand-primary text-white rounded-lg shadow hover:bg-brand-secondary transition-colors disabled:bg-gray-300">
+                            {isSaving ? 'Saving...' : 'Save Role'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+const FREQUENCY_LABELS: Record<BackupFrequency, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+};
+
+const RETENTION_LABELS: Record<keyof BackupRetention, string> = {
+    daily: 'Daily backups',
+    weekly: 'Weekly backups',
+    monthly: 'Monthly backups',
+};
+
+// Reloads whenever `refreshKey` changes, e.g. after a manual backup
+const BackupScheduleCard: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+    const { showToast } = useToast();
+    const [schedule, setSchedule] = useState<BackupScheduleStatus | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchBackupSchedule()
+            .then(setSchedule)
+            .catch(() => showToast('Could not fetch the backup schedule.', 'error'));
+    }, [refreshKey]);
+
+    if (!schedule) return null;
+
+    const setRetention = (period: keyof BackupRetention, value: string) => {
+        setSchedule({ ...schedule, retention: { ...schedule.retention, [period]: Math.max(0, parseInt(value, 10) || 0) } });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const { enabled, frequency, retention } = schedule;
+            setSchedule(await updateBackupSchedule({ enabled, frequency, retention }));
+            showToast('Backup schedule saved.', 'success');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to save the backup schedule.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const { lastRun } = schedule;
+
+    return (
+        <Card className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-4 mb-4 flex items-center">
+                <ClockIcon className="h-6 w-6 mr-3 text-gray-400" />
+                Scheduled Backups
+            </h2>
+            <div className="space-y-6">
+                <div className={`p-4 rounded-lg border ${!lastRun ? 'bg-gray-50 border-gray-200' : lastRun.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+                    <h3 className="font-bold text-gray-800">Last run</h3>
+                    {!lastRun && <p className="text-sm text-gray-600 mt-1">No backup has run yet.</p>}
+                    {lastRun && lastRun.success && (
+                        <p className="text-sm text-gray-700 mt-1">
+                            {lastRun.trigger === 'scheduled' ? 'Scheduled' : 'Manual'} backup succeeded on {format(new Date(lastRun.finishedAt), 'Pp')}
+                            {lastRun.pruned > 0 && `; ${lastRun.pruned} expired backup${lastRun.pruned === 1 ? '' : 's'} deleted`}.
+                        </p>
+                    )}
+                    {lastRun && !lastRun.success && (
+                        <p className="text-sm text-status-red mt-1">
+                            {lastRun.trigger === 'scheduled' ? 'Scheduled' : 'Manual'} backup failed on {format(new Date(lastRun.finishedAt), 'Pp')}: {lastRun.error}
+                        </p>
+                    )}
+                    {lastRun && !lastRun.success && schedule.lastSuccessAt && (
+                        <p className="text-sm text-gray-600 mt-1">Last successful backup: {format(new Date(schedule.lastSuccessAt), 'Pp')}</p>
+                    )}
+                    {schedule.nextRunAt && <p className="text-sm text-gray-600 mt-1">Next backup due: {format(new Date(schedule.nextRunAt), 'Pp')}</p>}
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <label className="flex items-center text-sm font-medium text-gray-800">
+                        <input type="checkbox" checked={schedule.enabled} onChange={e => setSchedule({ ...schedule, enabled: e.target.checked })} className="mr-2 h-4 w-4" />
+                        Back up automatically
+                    </label>
+                    <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2">
+                        {(Object.keys(FREQUENCY_LABELS) as BackupFrequency[]).map(frequency => (
+                            <label key={frequency} className="flex items-center text-sm text-gray-800">
+                                <input type="radio" name="backup-frequency" value={frequency} checked={schedule.frequency === frequency} disabled={!schedule.enabled} onChange={() => setSchedule({ ...schedule, frequency })} className="mr-2 h-4 w-4" />
+                                {FREQUENCY_LABELS[frequency]}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-bold text-gray-800">Retention</h3>
+                    <p className="text-sm text-gray-600 mt-1">The newest backup of each of the most recent days, weeks and months is kept; older backups are deleted after every run.</p>
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {(Object.keys(RETENTION_LABELS) as (keyof BackupRetention)[]).map(period => (
+                            <label key={period} className="text-sm font-medium text-gray-700">
+                                {RETENTION_LABELS[period]} to keep
+                                <input type="number" min={0} max={365} value={schedule.retention[period]} onChange={e => setRetention(period, e.target.value)} className="mt-1 block w-full p-2 border rounded-lg bg-white" />
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-brand-primary text-white rounded-lg shadow hover:bg-brand-secondary transition-colors disabled:bg-gray-300">
+                        {isSaving ? 'Saving...' : 'Save Backup Schedule'}
+                    </button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
 const SettingsPage: React.FC = () => {
-    const { user } = useAuth();
-    const { createBackup, restoreData, backupSettings, updateBackupSettings } = useData();
+    const { hasPermission } = useAuth();
+    const { createBackup, restoreData } = useData();
     const { showToast } = useToast();
     const [isRestoreModalOpen, setIsRestoreModalOpen] = useState(false);
-    const [availableBackups, setAvailableBackups] = useState<any[]>([]);
+    const [availableBackups, setAvailableBackups] = useState<BackupSummary[]>([]);
     const [selectedBackup, setSelectedBackup] = useState<string>('');
+    const [restorePreview, setRestorePreview] = useState<RestoreResult | null>(null);
+    const [restorePreviewError, setRestorePreviewError] = useState('');
+    const [restorePassword, setRestorePassword] = useState('');
+    const [restoreError, setRestoreError] = useState('');
+    const [backupRefreshKey, setBackupRefreshKey] = useState(0);
     
-    if (user?.role !== Role.Admin) {
-        return (
-            <Card className="text-center">
-                <ShieldCheckIcon className="h-12 w-12 mx-auto text-status-red" />
-                <h2 className="mt-4 text-xl font-bold text-gray-800">Access Denied</h2>
-                <p className="mt-2 text-gray-600">You must be an Administrator to access the settings page.</p>
-            </Card>
-        );
-    }
-    
+    const canManageBackups = hasPermission(Permission.BackupsManage);
+
     useEffect(() => {
+        if (!canManageBackups) return;
         const fetchBackups = async () => {
             try {
                 const backups = await listBackups();
@@ -41,12 +449,35 @@ const SettingsPage: React.FC = () => {
             }
         };
         fetchBackups();
-    }, []);
+    }, [canManageBackups, backupRefreshKey]);
+
+    // Validate the selected backup before the restore can be confirmed
+    useEffect(() => {
+        if (!isRestoreModalOpen || !selectedBackup) return;
+        setRestorePreview(null);
+        setRestorePreviewError('');
+        setRestorePassword('');
+        setRestoreError('');
+        previewRestore(selectedBackup)
+            .then(setRestorePreview)
+            .catch((error: any) => setRestorePreviewError(error.response?.data?.message || 'Could not validate the backup.'));
+    }, [isRestoreModalOpen, selectedBackup]);
+
+    if (!hasPermission(Permission.SettingsView, Permission.SettingsManage, Permission.RolesManage, Permission.BackupsManage)) {
+        return (
+            <Card className="text-center">
+                <ShieldCheckIcon className="h-12 w-12 mx-auto text-status-red" />
+                <h2 className="mt-4 text-xl font-bold text-gray-800">Access Denied</h2>
+                <p className="mt-2 text-gray-600">You do not have permission to access the settings page.</p>
+            </Card>
+        );
+    }
 
 
     const handleBackup = async () => {
         showToast('Creating server backup...', 'info');
         await createBackup();
+        setBackupRefreshKey(key => key + 1);
     };
 
     const handleRestoreConfirm = async () => {
@@ -54,15 +485,14 @@ const SettingsPage: React.FC = () => {
             showToast('No backup file selected.', 'error');
             return;
         }
-        await restoreData(selectedBackup);
+        const result = await restoreData(selectedBackup, restorePassword);
+        if (!result.success) {
+            setRestoreError(result.message);
+            return;
+        }
         setIsRestoreModalOpen(false);
     };
 
-    const handleFrequencyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const frequency = e.target.value as 'daily' | 'weekly' | 'monthly';
-        updateBackupSettings({ frequency });
-    };
-
     return (
         <div>
             <h1 className="text-3xl font-bold text-gray-800 mb-6 flex items-center">
@@ -70,7 +500,7 @@ const SettingsPage: React.FC = () => {
                 System Settings
             </h1>
             
-            <Card className="mb-8">
+            {canManageBackups && <Card className="mb-8">
                 <h2 className="text-xl font-semibold text-gray-700 border-b pb-4 mb-4 flex items-center">
                     <ServerStackIcon className="h-6 w-6 mr-3 text-gray-400" />
                     Data Management
@@ -109,17 +539,51 @@ const SettingsPage: React.FC = () => {
                         </div>
                     </div>
                 </div>
-            </Card>
+            </Card>}
+
+            {canManageBackups && <BackupScheduleCard refreshKey={backupRefreshKey} />}
+
+            {hasPermission(Permission.RolesManage) && <RolesCard />}
+
+            {hasPermission(Permission.SettingsManage) && <TwoFactorPolicyCard />}
+
+            {hasPermission(Permission.SettingsView, Permission.SettingsManage) && <InquiryRoutingCard readOnly={!hasPermission(Permission.SettingsManage)} />}
 
             <Modal isOpen={isRestoreModalOpen} onClose={() => setIsRestoreModalOpen(false)} title="Confirm Data Restoration" icon={ExclamationTriangleIcon}>
                 <div>
                     <p className="text-lg font-semibold text-status-red">Warning!</p>
                     <p className="text-gray-700 mt-2">You are about to restore data from the file: <span className="font-medium">{selectedBackup}</span>.</p>
                     <p className="text-gray-700 mt-2">This will <span className="font-bold">completely overwrite all existing data</span> in the application. This action cannot be undone.</p>
-                    <p className="text-gray-700 mt-4">Are you sure you want to proceed?</p>
+                    <p className="text-gray-700 mt-2">The audit and security logs are kept as they are, and everyone, including you, will have to sign in again.</p>
+                    {restorePreviewError && <p className="text-sm text-status-red mt-4">{restorePreviewError}</p>}
+                    {!restorePreview && !restorePreviewError && <p className="text-sm text-gray-500 mt-4">Validating backup...</p>}
+                    {restorePreview && (
+                        <div className="mt-4">
+                            <p className="text-sm text-gray-600">Backup taken {format(new Date(restorePreview.createdAt), 'Pp')}. Rows per table:</p>
+                            <div className="max-h-48 overflow-y-auto mt-2 border rounded">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-gray-50 text-gray-600">
+                                        <tr><th className="text-left px-3 py-1">Table</th><th className="text-right px-3 py-1">Now</th><th className="text-right px-3 py-1">After restore</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {restorePreview.tables.filter(t => t.currentRows > 0 || t.backupRows > 0).map(t => (
+                                            <tr key={t.table} className="border-t">
+                                                <td className="px-3 py-1 font-mono">{t.table}</td>
+                                                <td className="px-3 py-1 text-right">{t.currentRows}</td>
+                                                <td className={`px-3 py-1 text-right ${t.backupRows !== t.currentRows ? 'font-semibold text-status-red' : ''}`}>{t.backupRows}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                    <p className="text-gray-700 mt-4">Are you sure you want to proceed? Please enter your password to confirm.</p>
+                    <input type="password" value={restorePassword} onChange={(e) => setRestorePassword(e.target.value)} placeholder="Your password" className="mt-2 w-full p-2 border rounded" />
+                    {restoreError && <p className="text-sm text-status-red mt-1">{restoreError}</p>}
                     <div className="flex justify-end space-x-2 pt-4 mt-4">
                         <button onClick={() => setIsRestoreModalOpen(false)} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">Cancel</button>
-                        <button onClick={handleRestoreConfirm} className="px-4 py-2 bg-status-red text-white rounded hover:bg-red-700">Confirm Restore</button>
+                        <button onClick={handleRestoreConfirm} disabled={!restorePreview || !restorePassword} className="px-4 py-2 bg-status-red text-white rounded hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed">Confirm Restore</button>
                     </div>
                 </div>
             </Modal>
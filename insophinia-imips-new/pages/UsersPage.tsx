@@ -2,19 +2,20 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useData } from '../hooks/useData';
 import { useAuth } from '../hooks/useAuth';
-import { User, Role } from '../types';
+import { User, Role, UserInvitationStatus, Permission, AuditEntityType, PermissionDefinition, UserPermissions } from '../types';
 import Card from '../components/common/Card';
 import Modal from '../components/common/Modal';
 import { useToast } from '../hooks/useToast';
-import { PencilIcon, TrashIcon, PlusCircleIcon, ArrowRightOnRectangleIcon, UsersIcon, UserPlusIcon, PencilSquareIcon, KeyIcon, EyeIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
-import { resetPassword } from '../lib/api';
+import { PencilIcon, TrashIcon, PlusCircleIcon, ArrowRightOnRectangleIcon, UsersIcon, UserPlusIcon, PencilSquareIcon, KeyIcon, EyeIcon, ExclamationTriangleIcon, EnvelopeIcon, XCircleIcon, ShieldCheckIcon, ShieldExclamationIcon, LockOpenIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/solid';
+import { resetPassword, resetUserTwoFactor, fetchRoles, fetchPermissionCatalogue, fetchUserPermissions, updateUserPermissions } from '../lib/api';
 import AuthenticatedImage from '../components/common/AuthenticatedImage';
 import ValidatedInput from '../components/common/ValidatedInput';
 import { validate, VALIDATION_RULES } from '../lib/validation';
 import DataTable, { type Column } from '../components/common/DataTable';
 import PageHeader from '../components/common/PageHeader';
+import RecordHistoryTabs from '../components/common/RecordHistory';
 
-const UserForm: React.FC<{ user?: User; onSave: (user: any, file: File | null) => void; onCancel: () => void; }> = ({ user, onSave, onCancel }) => {
+const UserForm: React.FC<{ user?: User; roles: string[]; canChangeRole: boolean; onSave: (user: any, file: File | null) => void; onCancel: () => void; }> = ({ user, roles, canChangeRole, onSave, onCancel }) => {
     const [formData, setFormData] = useState({
         name: user?.name || '',
         email: user?.email || '',
@@ -33,12 +34,10 @@ const UserForm: React.FC<{ user?: User; onSave: (user: any, file: File | null) =
         let passwordError = null;
         let confirmPasswordError = null;
 
-        if (!user) { // Password validation only for new users
-            passwordError = validate(formData.password, [VALIDATION_RULES.required, VALIDATION_RULES.password]);
+        if (!user && formData.password) { // New users may get an optional temporary password
+            passwordError = validate(formData.password, [VALIDATION_RULES.password]);
             if (formData.password !== formData.confirmPassword) {
                 confirmPasswordError = "Passwords do not match.";
-            } else {
-                confirmPasswordError = validate(formData.confirmPassword, [VALIDATION_RULES.required]);
             }
         }
         
@@ -74,15 +73,16 @@ const UserForm: React.FC<{ user?: User; onSave: (user: any, file: File | null) =
         <form onSubmit={handleSubmit} className="space-y-4" noValidate>
             <ValidatedInput label="Full Name" name="name" value={formData.name} onChange={handleChange} error={errors.name} required />
             <ValidatedInput label="Email Address" name="email" type="email" value={formData.email} onChange={handleChange} error={errors.email} required />
-            <ValidatedInput label="Role" name="role" as="select" value={formData.role} onChange={handleChange} error={null} required>
-                {Object.values(Role).map(role => <option key={role} value={role}>{role}</option>)}
+            <ValidatedInput label="Role" name="role" as="select" value={formData.role} onChange={handleChange} error={null} disabled={!canChangeRole} required>
+                {roles.map(role => <option key={role} value={role}>{role}</option>)}
             </ValidatedInput>
 
             {!user && (
                  <div className="space-y-4 pt-2 border-t mt-4">
-                    <p className="text-sm font-medium text-gray-700">Set Initial Password</p>
-                    <ValidatedInput label="Password" name="password" type="password" value={formData.password} onChange={handleChange} error={errors.password} required={!user} />
-                    <ValidatedInput label="Confirm Password" name="confirmPassword" type="password" value={formData.confirmPassword} onChange={handleChange} error={errors.confirmPassword} required={!user} />
+                    <p className="text-sm font-medium text-gray-700">Temporary Password (optional)</p>
+                    <p className="text-sm text-gray-500">The user is emailed an invitation to choose their own password. A temporary password lets them sign in right away, but it must be changed on first login.</p>
+                    <ValidatedInput label="Password" name="password" type="password" value={formData.password} onChange={handleChange} error={errors.password} />
+                    <ValidatedInput label="Confirm Password" name="confirmPassword" type="password" value={formData.confirmPassword} onChange={handleChange} error={errors.confirmPassword} />
                  </div>
             )}
             
@@ -105,12 +105,14 @@ const UserForm: React.FC<{ user?: User; onSave: (user: any, file: File | null) =
 const ViewUserModal: React.FC<{ user: User; onClose: () => void; }> = ({ user, onClose }) => {
     return (
         <Modal isOpen={true} onClose={onClose} title="User Details" icon={UsersIcon}>
-            <div className="flex flex-col items-center text-center">
-                <AuthenticatedImage type="user" src={user.profilePictureUrl} alt={user.name} className="h-32 w-32 rounded-full object-cover border-4 border-gray-200 mb-4" />
-                <h2 className="text-2xl font-bold text-gray-800">{user.name}</h2>
-                <p className="text-gray-500">{user.email}</p>
-                <span className="mt-4 px-3 py-1 text-sm font-semibold rounded-full bg-blue-100 text-blue-800">{user.role}</span>
-            </div>
+            <RecordHistoryTabs entityType={AuditEntityType.User} entityId={user.id}>
+                <div className="flex flex-col items-center text-center">
+                    <AuthenticatedImage type="user" src={user.profilePictureUrl} alt={user.name} className="h-32 w-32 rounded-full object-cover border-4 border-gray-200 mb-4" />
+                    <h2 className="text-2xl font-bold text-gray-800">{user.name}</h2>
+                    <p className="text-gray-500">{user.email}</p>
+                    <span className="mt-4 px-3 py-1 text-sm font-semibold rounded-full bg-blue-100 text-blue-800">{user.role}</span>
+                </div>
+            </RecordHistoryTabs>
         </Modal>
     );
 };
@@ -163,10 +165,9 @@ const DeleteModal: React.FC<{
   userToDelete: User;
   onClose: () => void;
   onArchive: () => void;
-  onPermanentDelete: () => Promise<void>;
-  reauthenticate: (password: string) => Promise<boolean>;
+  onPermanentDelete: (password: string) => Promise<void>;
   isAdmin: boolean;
-}> = ({ userToDelete, onClose, onArchive, onPermanentDelete, reauthenticate, isAdmin }) => {
+}> = ({ userToDelete, onClose, onArchive, onPermanentDelete, isAdmin }) => {
     const [isPermanentConfirm, setPermanentConfirm] = useState(false);
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -175,11 +176,11 @@ const DeleteModal: React.FC<{
     const handlePermanentDelete = async () => {
         setIsProcessing(true);
         setError('');
-        if (await reauthenticate(password)) {
-            await onPermanentDelete();
+        try {
+            await onPermanentDelete(password);
             onClose();
-        } else {
-            setError('Incorrect password. Deletion failed.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Deletion failed.');
         }
         setIsProcessing(false);
     };
@@ -224,9 +225,137 @@ const DeleteModal: React.FC<{
 };
 
 
+const ResetTwoFactorModal: React.FC<{ user: User; onConfirm: (password: string) => Promise<void>; onCancel: () => void; }> = ({ user, onConfirm, onCancel }) => {
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsProcessing(true);
+        setError('');
+        try {
+            await onConfirm(password);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Incorrect password. Reset failed.');
+            setIsProcessing(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onCancel} title={`Reset Two-Factor for ${user.name}`} icon={ShieldExclamationIcon}>
+            <div className="space-y-4">
+                <p>This turns off two-factor authentication for <span className="font-bold">{user.name}</span>, e.g. after they lost their authenticator app and recovery codes. Only do this once you have confirmed who is asking. Please enter your password to confirm.</p>
+                <ValidatedInput label="Your Password" name="password" type="password" value={password} onChange={(e) => setPassword((e.target as HTMLInputElement).value)} error={error} />
+                <div className="flex justify-end space-x-2 pt-4">
+                    <button onClick={onCancel} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isProcessing}>Cancel</button>
+                    <button onClick={handleConfirm} className="px-4 py-2 bg-status-red text-white rounded hover:bg-red-700 disabled:bg-red-300" disabled={isProcessing || !password}>
+                        {isProcessing ? 'Resetting...' : 'Reset Two-Factor'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+type OverrideState = 'inherit' | 'grant' | 'deny';
+
+const UserPermissionsModal: React.FC<{ user: User; onSaved: () => void; onCancel: () => void; }> = ({ user, onSaved, onCancel }) => {
+    const [catalogue, setCatalogue] = useState<PermissionDefinition[]>([]);
+    const [current, setCurrent] = useState<UserPermissions | null>(null);
+    const [overrides, setOverrides] = useState<Partial<Record<Permission, OverrideState>>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const { showToast } = useToast();
+
+    useEffect(() => {
+        Promise.all([fetchPermissionCatalogue(), fetchUserPermissions(user.id)])
+            .then(([permissionCatalogue, userPermissions]) => {
+                setCatalogue(permissionCatalogue);
+                setCurrent(userPermissions);
+                const initial: Partial<Record<Permission, OverrideState>> = {};
+                userPermissions.grants.forEach(permission => { initial[permission] = 'grant'; });
+                userPermissions.denies.forEach(permission => { initial[permission] = 'deny'; });
+                setOverrides(initial);
+            })
+            .catch((error: any) => showToast(error.response?.data?.message || 'Failed to load permissions.', 'error'));
+    }, [user.id, showToast]);
+
+    const groups = useMemo(() => {
+        const byGroup = new Map<string, PermissionDefinition[]>();
+        catalogue.forEach(definition => byGroup.set(definition.group, [...(byGroup.get(definition.group) || []), definition]));
+        return [...byGroup.entries()];
+    }, [catalogue]);
+
+    const handleSave = async () => {
+        const entries = Object.entries(overrides) as [Permission, OverrideState][];
+        setIsSaving(true);
+        try {
+            await updateUserPermissions(user.id, {
+                grants: entries.filter(([, state]) => state === 'grant').map(([permission]) => permission),
+                denies: entries.filter(([, state]) => state === 'deny').map(([permission]) => permission),
+            });
+            showToast(`Permissions for ${user.name} updated.`, 'success');
+            onSaved();
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to update permissions.', 'error');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onCancel} title={`Permissions for ${user.name}`} icon={AdjustmentsHorizontalIcon}>
+            {!current ? <p className="text-gray-500">Loading...</p> : (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                        Permissions come from the <span className="font-semibold">{current.role}</span> role. Grant or deny individual permissions to make an exception for this user only.
+                    </p>
+                    <div className="max-h-96 overflow-y-auto space-y-4 pr-2">
+                        {groups.map(([group, definitions]) => (
+                            <div key={group}>
+                                <p className="text-sm font-semibold text-gray-700 mb-1">{group}</p>
+                                {definitions.map(definition => {
+                                    const fromRole = current.rolePermissions.includes(definition.key);
+                                    return (
+                                        <div key={definition.key} className="flex items-center justify-between py-1 border-b last:border-b-0">
+                                            <div>
+                                                <p className="text-sm">{definition.description}</p>
+                                                <p className="text-xs text-gray-500">{definition.key}{fromRole ? ' · granted by role' : ''}</p>
+                                            </div>
+                                            <select
+                                                value={overrides[definition.key] || 'inherit'}
+                                                onChange={(e) => setOverrides(prev => ({ ...prev, [definition.key]: e.target.value as OverrideState }))}
+                                                className="p-1 border rounded text-sm"
+                                            >
+                                                <option value="inherit">From role</option>
+                                                <option value="grant">Grant</option>
+                                                <option value="deny">Deny</option>
+                                            </select>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-end space-x-2 pt-4">
+                        <button onClick={onCancel} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300" disabled={isSaving}>Cancel</button>
+                        <button onClick={handleSave} className="px-4 py-2 bg-brand-primary text-white rounded hover:bg-brand-secondary disabled:bg-gray-400" disabled={isSaving}>
+                            {isSaving ? 'Saving...' : 'Save Permissions'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+const INVITATION_BADGES: Partial<Record<UserInvitationStatus, { label: string; className: string }>> = {
+    pending: { label: 'Invitation pending', className: 'bg-yellow-100 text-yellow-800' },
+    expired: { label: 'Invitation expired', className: 'bg-gray-200 text-gray-700' },
+    revoked: { label: 'Invitation revoked', className: 'bg-red-100 text-red-800' },
+};
+
 const UsersPage: React.FC = () => {
-    const { users, addUser, updateUser, deleteUser, hardDeleteUser, isLoading, refreshData } = useData();
-    const { user: currentUser, forceLogoutUser, reauthenticate } = useAuth();
+    const { users, addUser, resendInvitation, revokeInvitation, unlockUser, updateUser, deleteUser, hardDeleteUser, isLoading, refreshData } = useData();
+    const { user: currentUser, forceLogoutUser, hasPermission, refreshPermissions } = useAuth();
     const { showToast } = useToast();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -234,6 +363,15 @@ const UsersPage: React.FC = () => {
     const [selectedUser, setSelectedUser] = useState<User | undefined>(undefined);
     const [userToDelete, setUserToDelete] = useState<User | null>(null);
     const [userToResetPassword, setUserToResetPassword] = useState<User | null>(null);
+    const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<User | null>(null);
+    const [userToEditPermissions, setUserToEditPermissions] = useState<User | null>(null);
+    const [roleNames, setRoleNames] = useState<string[]>(Object.values(Role));
+
+    useEffect(() => {
+        fetchRoles()
+            .then(roles => setRoleNames(roles.map(role => role.name)))
+            .catch(() => { /* Fall back to the built-in roles */ });
+    }, []);
 
     const handleSave = async (user: User, file: File | null) => {
         const isUpdating = !!user.id;
@@ -245,9 +383,10 @@ const UsersPage: React.FC = () => {
             delete (userDataToUpdate as any).confirmPassword;
             await updateUser(userDataToUpdate, file ?? undefined);
         } else {
-            await addUser(user);
+            const { confirmPassword, ...newUser } = user as User & { confirmPassword?: string };
+            await addUser(newUser);
         }
-        showToast(isUpdating ? 'User updated successfully!' : 'User added successfully!', 'success');
+        showToast(isUpdating ? 'User updated successfully!' : 'User added and invitation sent!', 'success');
         setIsModalOpen(false);
         setSelectedUser(undefined);
     };
@@ -276,18 +415,49 @@ const UsersPage: React.FC = () => {
         setUserToDelete(null);
     };
 
-    const handlePermanentDelete = async () => {
+    const handlePermanentDelete = async (password: string) => {
         if (userToDelete) {
-            await hardDeleteUser(userToDelete.id);
+            await hardDeleteUser(userToDelete.id, password);
             showToast(`User "${userToDelete.name}" permanently deleted.`, 'success');
         }
         setIsDeleteModalOpen(false);
         setUserToDelete(null);
     };
 
-    const handleForceLogout = (userToLogout: User) => {
-        forceLogoutUser(userToLogout.id);
-        showToast(`Session for ${userToLogout.name} has been invalidated. They will be logged out shortly.`, 'info');
+    const handleForceLogout = async (userToLogout: User) => {
+        try {
+            await forceLogoutUser(userToLogout.id);
+            showToast(`All sessions for ${userToLogout.name} have been revoked. They will be logged out on their next request.`, 'info');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || `Failed to log out ${userToLogout.name}.`, 'error');
+        }
+    };
+
+    const handleResendInvitation = async (user: User) => {
+        try {
+            await resendInvitation(user.id);
+            showToast(`A new invitation was sent to ${user.email}.`, 'success');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to resend the invitation.', 'error');
+        }
+    };
+
+    const handleRevokeInvitation = async (user: User) => {
+        try {
+            await revokeInvitation(user.id);
+            showToast(`The invitation for ${user.name} was revoked.`, 'info');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to revoke the invitation.', 'error');
+        }
+    };
+
+    const handleUnlock = async (user: User) => {
+        try {
+            await unlockUser(user.id);
+            showToast(`${user.name} can sign in again.`, 'success');
+        } catch (error: any) {
+            showToast(error.response?.data?.message || 'Failed to unlock the account.', 'error');
+        }
     };
 
     const handleResetPasswordSave = async (newPassword: string) => {
@@ -302,6 +472,19 @@ const UsersPage: React.FC = () => {
         }
     };
 
+    const handleResetTwoFactor = async (password: string) => {
+        if (!userToResetTwoFactor) return;
+        const result = await resetUserTwoFactor(userToResetTwoFactor.id, password);
+        showToast(result.message, 'success');
+        setUserToResetTwoFactor(null);
+        refreshData();
+    };
+
+    const handlePermissionsSaved = () => {
+        if (userToEditPermissions?.id === currentUser?.id) refreshPermissions();
+        setUserToEditPermissions(null);
+    };
+
     const columns: Column<User>[] = useMemo(() => [
         {
             header: 'User',
@@ -309,7 +492,18 @@ const UsersPage: React.FC = () => {
             cell: (user: User) => (
                 <div className="flex items-center">
                     <AuthenticatedImage type="user" src={user.profilePictureUrl} alt={user.name} className="h-10 w-10 rounded-full object-cover mr-4" />
-                    <span className="font-medium">{user.name}</span>
+                    <div>
+                        <span className="font-medium">{user.name}</span>
+                        {user.twoFactorEnabled && <ShieldCheckIcon className="inline h-4 w-4 ml-1 text-green-600" title="Two-factor authentication enabled" />}
+                        {user.lockedUntil && (
+                            <span className="block w-fit mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">Locked until {new Date(user.lockedUntil).toLocaleString()}</span>
+                        )}
+                        {user.invitationStatus && INVITATION_BADGES[user.invitationStatus] ? (
+                            <span className={`block w-fit mt-1 px-2 py-0.5 text-xs font-semibold rounded-full ${INVITATION_BADGES[user.invitationStatus]!.className}`}>{INVITATION_BADGES[user.invitationStatus]!.label}</span>
+                        ) : user.mustChangePassword && (
+                            <span className="block w-fit mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">Must change password</span>
+                        )}
+                    </div>
                 </div>
             )
         },
@@ -326,18 +520,33 @@ const UsersPage: React.FC = () => {
                 <div className="flex items-center space-x-1">
                     <button onClick={() => handleView(user)} className="p-2 text-gray-600 hover:text-gray-800" title="View User"><EyeIcon className="h-5 w-5" /></button>
                     <button onClick={() => handleEdit(user)} className="p-2 text-blue-600 hover:text-blue-800" title="Edit User"><PencilIcon className="h-5 w-5" /></button>
+                    {hasPermission(Permission.RolesManage) && user.role !== Role.Admin && currentUser?.id !== user.id && (
+                        <button onClick={() => setUserToEditPermissions(user)} className="p-2 text-purple-600 hover:text-purple-800" title="Edit Permissions"><AdjustmentsHorizontalIcon className="h-5 w-5" /></button>
+                    )}
+                    {user.lockedUntil && (
+                        <button onClick={() => handleUnlock(user)} className="p-2 text-red-600 hover:text-red-800" title="Unlock Account"><LockOpenIcon className="h-5 w-5" /></button>
+                    )}
                     {currentUser?.id !== user.id && <>
                         <button onClick={() => openDeleteModal(user)} className="p-2 text-red-600 hover:text-red-800" title="Delete User"><TrashIcon className="h-5 w-5" /></button>
                         <button onClick={() => handleForceLogout(user)} className="p-2 text-yellow-600 hover:text-yellow-800" title="Force Logout"><ArrowRightOnRectangleIcon className="h-5 w-5" /></button>
                         <button onClick={() => setUserToResetPassword(user)} className="p-2 text-green-600 hover:text-green-800" title="Reset Password"><KeyIcon className="h-5 w-5" /></button>
+                        {user.invitationStatus && user.invitationStatus !== 'accepted' && (
+                            <button onClick={() => handleResendInvitation(user)} className="p-2 text-indigo-600 hover:text-indigo-800" title="Resend Invitation"><EnvelopeIcon className="h-5 w-5" /></button>
+                        )}
+                        {user.twoFactorEnabled && (
+                            <button onClick={() => setUserToResetTwoFactor(user)} className="p-2 text-orange-600 hover:text-orange-800" title="Reset Two-Factor"><ShieldExclamationIcon className="h-5 w-5" /></button>
+                        )}
+                        {user.invitationStatus === 'pending' && (
+                            <button onClick={() => handleRevokeInvitation(user)} className="p-2 text-gray-500 hover:text-gray-700" title="Revoke Invitation"><XCircleIcon className="h-5 w-5" /></button>
+                        )}
                     </>}
                 </div>
             )
         }
-    ], [currentUser]);
+    ], [currentUser, hasPermission, resendInvitation, revokeInvitation, unlockUser]);
     
-    if (currentUser?.role !== Role.Admin) {
-        return <Card><p className="text-red-500 font-bold">Access Denied. You must be an Administrator to view this page.</p></Card>
+    if (!hasPermission(Permission.UsersManage)) {
+        return <Card><p className="text-red-500 font-bold">Access Denied. You do not have permission to manage users.</p></Card>
     }
 
     return (
@@ -345,7 +554,7 @@ const UsersPage: React.FC = () => {
             <PageHeader 
                 title="User Management"
                 icon={UsersIcon}
-                buttonText="Add New User"
+                buttonText={hasPermission(Permission.RolesManage) ? "Add New User" : undefined}
                 onButtonClick={() => { setSelectedUser(undefined); setIsModalOpen(true); }}
                 onRefresh={refreshData}
             />
@@ -356,7 +565,7 @@ const UsersPage: React.FC = () => {
                     columns={columns}
                     isLoading={isLoading}
                     searchableColumns={['name', 'email']}
-                    filterableColumn={{ accessor: 'role', header: 'Role', options: Object.values(Role) }}
+                    filterableColumn={{ accessor: 'role', header: 'Role', options: roleNames }}
                 />
             </Card>
 
@@ -366,7 +575,7 @@ const UsersPage: React.FC = () => {
                 title={selectedUser ? 'Edit User' : 'Add New User'}
                 icon={selectedUser ? PencilSquareIcon : UserPlusIcon}
             >
-                <UserForm user={selectedUser} onSave={handleSave} onCancel={() => { setIsModalOpen(false); setSelectedUser(undefined); }} />
+                <UserForm user={selectedUser} roles={roleNames} canChangeRole={hasPermission(Permission.RolesManage) && selectedUser?.id !== currentUser?.id} onSave={handleSave} onCancel={() => { setIsModalOpen(false); setSelectedUser(undefined); }} />
             </Modal>
             
             {isDeleteModalOpen && userToDelete && (
@@ -375,8 +584,7 @@ const UsersPage: React.FC = () => {
                     onClose={() => setIsDeleteModalOpen(false)}
                     onArchive={handleArchive}
                     onPermanentDelete={handlePermanentDelete}
-                    reauthenticate={reauthenticate}
-                    isAdmin={currentUser?.role === Role.Admin}
+                    isAdmin={hasPermission(Permission.UsersManage)}
                 />
             )}
             
@@ -391,6 +599,22 @@ const UsersPage: React.FC = () => {
                     onCancel={() => setUserToResetPassword(null)}
                 />
             )}
+
+            {userToResetTwoFactor && (
+                <ResetTwoFactorModal
+                    user={userToResetTwoFactor}
+                    onConfirm={handleResetTwoFactor}
+                    onCancel={() => setUserToResetTwoFactor(null)}
+                />
+            )}
+
+            {userToEditPermissions && (
+                <UserPermissionsModal
+                    user={userToEditPermissions}
+                    onSaved={handlePermissionsSaved}
+                    onCancel={() => setUserToEditPermissions(null)}
+                />
+            )}
         </div>
     );
 };
@@ -1,20 +1,134 @@
 
 
+// Built-in roles; administrators can add custom roles next to them
 export enum Role {
   Admin = 'Admin',
   Manager = 'Manager',
   Staff = 'Staff',
 }
 
+export enum Permission {
+  InventoryView = 'inventory.view',
+  InventoryCreate = 'inventory.create',
+  InventoryUpdate = 'inventory.update',
+  InventoryPricing = 'inventory.pricing',
+  InventoryAdjust = 'inventory.adjust',
+  InventoryDelete = 'inventory.delete',
+  InventoryPurge = 'inventory.purge',
+  OrdersView = 'orders.view',
+  OrdersCreate = 'orders.create',
+  OrdersUpdateStatus = 'orders.update_status',
+  OrdersRefund = 'orders.refund',
+  OrdersDelete = 'orders.delete',
+  OrdersPurge = 'orders.purge',
+  InquiriesView = 'inquiries.view',
+  InquiriesCreate = 'inquiries.create',
+  InquiriesUpdate = 'inquiries.update',
+  InquiriesRespond = 'inquiries.respond',
+  InquiriesDelete = 'inquiries.delete',
+  InquiriesPurge = 'inquiries.purge',
+  DiscountsView = 'discounts.view',
+  DiscountsCreate = 'discounts.create',
+  DiscountsUpdate = 'discounts.update',
+  DiscountsDelete = 'discounts.delete',
+  DiscountsPurge = 'discounts.purge',
+  EmailsView = 'emails.view',
+  EmailsSend = 'emails.send',
+  EmailsDelete = 'emails.delete',
+  EmailsPurge = 'emails.purge',
+  NewslettersView = 'newsletters.view',
+  NewslettersSend = 'newsletters.send',
+  ReportsView = 'reports.view',
+  UsersManage = 'users.manage',
+  RolesManage = 'roles.manage',
+  SessionsManage = 'sessions.manage',
+  SecurityManage = 'security.manage',
+  SettingsView = 'settings.view',
+  SettingsManage = 'settings.manage',
+  BackupsManage = 'backups.manage',
+  AuditView = 'audit.view',
+}
+
+export interface PermissionDefinition {
+  key: Permission;
+  group: string;
+  description: string;
+}
+
+// A named bundle of permissions; the Admin role always has every permission
+export interface RoleDefinition {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  isSystem: boolean;
+  userCount?: number;
+}
+
+// Permissions granted or taken away for one user on top of their role
+export interface UserPermissionOverrides {
+  grants: Permission[];
+  denies: Permission[];
+}
+
+export interface UserPermissions extends UserPermissionOverrides {
+  role: string;
+  rolePermissions: Permission[];
+  effective: Permission[];
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: Role;
+  // A built-in Role or the name of a custom role
+  role: string;
   password?: string;
   profilePictureUrl?: string;
   isDeleted?: boolean;
   lastActivity?: string;
+  // Set for new accounts until the user chooses their own password
+  mustChangePassword?: boolean;
+  invitationStatus?: UserInvitationStatus;
+  twoFactorEnabled?: boolean;
+  // Set while sign-ins are refused after repeated failures
+  lockedUntil?: string;
+  // Effective permissions, only sent for the signed-in user
+  permissions?: Permission[];
+}
+
+export type UserInvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+// Roles whose members cannot sign in without two-factor authentication
+export interface TwoFactorPolicy {
+  requiredRoles: string[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Secret of an enrolment that still has to be confirmed with a code
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+}
+
+/**
+ * Answer to a correct password when a second factor is needed: either a code
+ * (`twoFactorRequired`) or enrolment first (`twoFactorSetupRequired`)
+ */
+export interface LoginChallenge {
+  challengeToken: string;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 export interface InventoryItem {
@@ -44,16 +158,48 @@ export interface CustomerInquiry {
   status: InquiryStatus;
   assignedStaffId?: string;
   createdAt: string;
+  firstRespondedAt?: string;
+  escalatedAt?: string;
+  escalatedTo?: string;
+  escalatedFor?: InquirySlaKind;
+  sla?: InquirySla;
   isDeleted?: boolean;
 }
 
+export type InquiryAssignmentStrategy = 'manual' | 'round_robin' | 'least_loaded';
+
+export type InquirySlaKind = 'first_response' | 'resolution';
+
+// Hours after an inquiry is received; null means no target in that status
+export interface InquirySlaTarget {
+  firstResponseHours: number | null;
+  resolutionHours: number | null;
+}
+
+export interface InquiryRoutingSettings {
+  strategy: InquiryAssignmentStrategy;
+  slaTargets: Record<InquiryStatus, InquirySlaTarget>;
+}
+
+export interface InquirySla {
+  firstResponseDueAt?: string;
+  resolutionDueAt?: string;
+  dueAt: string;
+  dueFor: InquirySlaKind;
+  remainingMinutes: number; // Negative once overdue
+  overdue: boolean;
+}
+
 export interface InquiryResponse {
   id: string;
   inquiry_id: string;
   response_message: string;
   responded_by_user_id: string;
   responded_by_name: string;
+  email_id?: string;
+  email_status?: EmailStatus;
   has_attachments: boolean;
+  attachments?: EmailAttachment[];
   created_at: string;
 }
 
@@ -65,13 +211,29 @@ export interface Attachment {
   data: string; // base64 encoded data
 }
 
+export type EmailStatus = 'queued' | 'sent' | 'failed';
+
+export interface EmailAttachment {
+  name: string;
+  contentType: string;
+  size: number;
+  path: string; // Download URL
+}
+
 export interface Email {
   id: string;
   recipient: string;
   subject: string;
   body: string; // Can be plain text or HTML
-  sentAt: string;
-  attachment_path?: string;
+  status?: EmailStatus;
+  attempts?: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  createdAt?: string;
+  sentAt?: string; // Unset until the email has been delivered
+  attachments?: EmailAttachment[];
+  attachment_path?: string; // Download URL of the first attachment
+  isDeleted?: boolean;
 }
 
 export enum Page {
@@ -131,7 +293,7 @@ export enum OrderStatus {
 }
 
 export interface OrderItem {
-  id: string;
+  id: number; // integer order_items row id, as on the server
   order_id: string;
   inventory_item_id: string;
   quantity: number;
@@ -139,6 +301,26 @@ export interface OrderItem {
   name: string;
   sku: string;
   image_url?: string;
+  returned_quantity?: number;
+}
+
+export interface StockShortage {
+  itemId: string;
+  sku: string | null;
+  name: string | null;
+  requested: number;
+  available: number;
+}
+
+export interface OrderStatusChange {
+    id: string;
+    orderId: string;
+    fromStatus: OrderStatus | null;
+    toStatus: OrderStatus;
+    note?: string;
+    changedBy: string;
+    changedByName?: string;
+    changedAt: string;
 }
 
 export interface Order {
@@ -152,12 +334,43 @@ export interface Order {
     applied_discount_id: string | null;
     discountAmount: number;
     total: number;
+    refundedAmount?: number; // sum of all refunds issued through returns
+    netTotal?: number; // total minus refunds; 0 once cancelled
     createdAt: string;
     createdBy: string; // User ID
     status: OrderStatus;
     isDeleted?: boolean;
 }
 
+export enum ReturnDisposition {
+    Restock = 'restock',
+    WriteOff = 'write_off',
+}
+
+export interface OrderReturnLine {
+    orderItemId: number;
+    name?: string;
+    quantity: number;
+    disposition: ReturnDisposition;
+}
+
+export interface OrderReturnInput {
+    lines: { orderItemId: number; quantity: number; disposition?: ReturnDisposition }[];
+    refundAmount: number;
+    reason?: string;
+}
+
+export interface OrderReturn {
+    id: string;
+    orderId: string;
+    refundAmount: number;
+    reason?: string;
+    createdBy: string;
+    createdByName?: string;
+    createdAt: string;
+    lines: OrderReturnLine[];
+}
+
 export interface LogEntry {
   timestamp: string;
   level: 'INFO' | 'WARN' | 'ERROR';
@@ -197,9 +410,20 @@ export interface UserSession {
   ip_address?: string;
   user_agent?: string;
   last_activity?: string;
+  isActive?: boolean;
   isCurrent?: boolean;
 }
 
+/**
+ * Sort, search and column filters accepted by every list endpoint next to page and limit
+ */
+export interface ListQuery {
+  search?: string;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  filters?: Record<string, string>;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -221,6 +445,93 @@ export interface SecurityLog {
   created_at: string;
 }
 
+export enum AuditEntityType {
+  Inventory = 'inventory',
+  Discount = 'discount',
+  Inquiry = 'inquiry',
+  Order = 'order',
+  User = 'user',
+  Role = 'role',
+}
+
+export enum AuditAction {
+  Create = 'create',
+  Update = 'update',
+  Archive = 'archive',
+  Restore = 'restore',
+  Delete = 'delete',
+}
+
+// Old and new value of one field; creations have no old value and deletions no new one
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorId: string | null;
+  actorName?: string | null;
+  changes: Record<string, AuditChange>;
+  createdAt: string;
+}
+
+export type BackupFrequency = 'daily' | 'weekly' | 'monthly';
+
+// How many of the newest backups to keep per day, week and month
+export interface BackupRetention {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface BackupSchedule {
+  enabled: boolean;
+  frequency: BackupFrequency;
+  retention: BackupRetention;
+}
+
+export interface BackupRun {
+  id: string;
+  trigger: 'scheduled' | 'manual';
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  filename: string | null;
+  error: string | null;
+  pruned: number;
+  triggeredBy: string | null;
+}
+
+export interface BackupScheduleStatus extends BackupSchedule {
+  lastRun: BackupRun | null;
+  lastSuccessAt: string | null;
+  nextRunAt: string | null;
+}
+
+export interface BackupSummary {
+  filename: string;
+  created_at: string;
+  size: number;
+}
+
+export interface RestoreTableSummary {
+  table: string;
+  currentRows: number;
+  backupRows: number;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  message: string;
+  dryRun: boolean;
+  createdAt: string;
+  tables: RestoreTableSummary[];
+}
+
 export interface BlockedIP {
   ip: string;
   blockedAt: string;
@@ -229,11 +540,13 @@ export interface BlockedIP {
   pathsAttempted: number;
 }
 
+export type NewsletterRecipientGroup = 'all_customers' | 'recent_customers' | 'inquiry_customers' | 'custom';
+
 export interface Newsletter {
   id: string;
   subject: string;
   html_content: string;
-  recipient_group: 'all_customers' | 'recent_customers' | 'inquiry_customers' | 'custom';
+  recipient_group: NewsletterRecipientGroup;
   total_recipients: number;
   success_count: number;
   fail_count: number;
@@ -243,3 +556,13 @@ export interface Newsletter {
   created_at: string;
   completed_at?: string;
 }
+
+export interface NewsletterRecipient {
+  id: number;
+  newsletter_id: string;
+  email: string;
+  status: 'pending' | 'sent' | 'failed';
+  error: string | null;
+  attempts: number;
+  sent_at: string | null;
+}
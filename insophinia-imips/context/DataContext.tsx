@@ -1,5 +1,5 @@
 import React, { createContext, useState, ReactNode, useEffect, useCallback } from 'react';
-import { InventoryItem, User, CustomerInquiry, Role, InquiryStatus, Notification, Email, CartItem, Order, Discount, OrderStatus, Attachment, DiscountType } from '../types';
+import { InventoryItem, User, CustomerInquiry, Role, InquiryStatus, Notification, Email, CartItem, Order, Discount, OrderStatus, Attachment } from '../types';
 import * as api from '../lib/api';
 import { generateEmailHtml } from '../lib/emailTemplate';
 import { logger } from '../lib/logger';
@@ -322,23 +322,10 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
         });
         
-        let discountValueToSend: number | null = null;
-        if (applicableDiscount) {
-            if (applicableDiscount.type === DiscountType.Percentage) {
-                // If it's a percentage, send the value directly
-                discountValueToSend = applicableDiscount.value;
-            } else if (applicableDiscount.type === DiscountType.FixedAmount) {
-                // If it's a fixed amount, the backend only understands percentages.
-                // We must calculate the equivalent percentage to send.
-                if (subtotal > 0) {
-                    discountValueToSend = (applicableDiscount.value / subtotal) * 100;
-                } else {
-                    discountValueToSend = 0; // Avoid division by zero, no discount on a zero subtotal.
-                }
-            }
-        }
+        // The server re-validates the discount and works out the amount itself
+        const discountId = (applicableDiscount as Discount | null)?.id ?? null;
 
-        const newOrder = await api.checkout(customerDetails, userId, cart, discountValueToSend);
+        const newOrder = await api.checkout(customerDetails, userId, cart, discountId);
         if (newOrder) {
             setOrders(prev => [newOrder, ...prev]);
             const updatedInventory = await api.fetchInventory(); // Re-fetch inventory to get updated quantities
@@ -143,12 +143,12 @@ export const checkout = async (
   customerDetails: { customerName: string; customerContact: string; customerAddress: string; customerEmail: string },
   userId: string,
   cartItems: CartItem[],
-  discountPercentage: number | null
+  discountId: string | null
 ): Promise<Order> => {
   const res = await api.post('/orders', {
       customer: customerDetails,
       cart: cartItems,
-      discount: discountPercentage,
+      discountId,
       createdBy: userId
   });
   return res.data;
@@ -125,7 +125,8 @@ export interface Order {
     customerEmail: string;
     items: CartItem[];
     subtotal: number;
-    discountApplied: number; // This can hold percentage or fixed value, logic depends on context
+    discountApplied: number; // Effective discount as a percentage of the subtotal
+    applied_discount_id: string | null;
     discountAmount: number;
     total: number;
     createdAt: string;